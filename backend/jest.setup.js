@@ -0,0 +1,7 @@
+// Keep test runs off the file-backed stores under ./data; tests that exercise file
+// storage construct their repositories with temporary paths
+process.env.AI_USAGE_STORAGE = 'memory';
+process.env.MODERATION_AUDIT_STORAGE = 'memory';
+process.env.CUSTOM_CONTENT_STORAGE = 'memory';
+process.env.METRICS_STORAGE = 'memory';
+process.env.USER_STORAGE = 'memory';
@@ -0,0 +1,47 @@
+/**
+ * Price of a model's tokens, in US dollars per million
+ */
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+/**
+ * List prices of the models the built-in providers default to, extended through AI_PRICES
+ * Models without a price (self-hosted ones, typically) are accounted as free
+ */
+export const DEFAULT_MODEL_PRICES: Record<string, ModelPrice> = {
+  'gpt-3.5-turbo': { input: 0.5, output: 1.5 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gemini-pro': { input: 0.5, output: 1.5 },
+  'gemini-1.5-flash': { input: 0.075, output: 0.3 },
+  'gemini-1.5-pro': { input: 1.25, output: 5 },
+};
+
+const isPrice = (value: any): value is ModelPrice =>
+  typeof value?.input === 'number' &&
+  typeof value?.output === 'number' &&
+  value.input >= 0 &&
+  value.output >= 0;
+
+/**
+ * Model prices, with AI_PRICES (JSON such as {"llama3": {"input": 0.2, "output": 0.2}})
+ * adding models and replacing built-in prices. Bad configuration fails at startup rather
+ * than letting spend go unaccounted
+ */
+export function loadModelPrices(env: NodeJS.ProcessEnv = process.env): Record<string, ModelPrice> {
+  const prices = { ...DEFAULT_MODEL_PRICES };
+  if (!env.AI_PRICES) {
+    return prices;
+  }
+
+  const custom: Record<string, unknown> = JSON.parse(env.AI_PRICES);
+  for (const [model, price] of Object.entries(custom)) {
+    if (!isPrice(price)) {
+      throw new Error(`AI_PRICES entry "${model}" must have non-negative input and output prices`);
+    }
+    prices[model] = price;
+  }
+  return prices;
+}
@@ -0,0 +1,95 @@
+import type { LanguageCode } from '../types';
+
+/**
+ * Training text the language identifier builds its character n-gram profiles from
+ * Plain encyclopedic prose on everyday subjects, so profiles reflect the function words,
+ * endings and accents of each language rather than any one topic
+ */
+export const LANGUAGE_SAMPLES: Record<LanguageCode, string> = {
+  en: `Rivers have shaped the land for millions of years. As water flows downhill it carries
+sand and stones that slowly wear away the rock beneath it, and over time this creates
+deep valleys and wide plains. Many of the oldest cities in the world were built on the
+banks of rivers, because they provided fresh water, fertile soil and an easy way to
+travel and trade. The weather also plays an important role in the life of a river. After
+heavy rain the water can rise quickly and flood the surrounding fields, while during a
+long summer it may shrink to a narrow stream. Scientists who study these changes measure
+how much water passes through each day and which plants and animals depend on it.
+Although modern engineering has changed the course of many rivers with dams and canals,
+people still think of them as living things that should be protected for the future.
+The history of music is just as rich. Every culture has found its own way to combine
+rhythm, melody and harmony, and these traditions are often passed from one generation
+to the next without ever being written down.`,
+
+  pt: `Os rios moldam a paisagem há milhões de anos. À medida que a água desce, ela
+carrega areia e pedras que desgastam lentamente a rocha, e com o tempo isso cria vales
+profundos e planícies extensas. Muitas das cidades mais antigas do mundo foram
+construídas nas margens de rios, porque eles ofereciam água doce, solo fértil e uma
+maneira fácil de viajar e fazer comércio. O clima também tem um papel importante na vida
+de um rio. Depois de chuvas fortes, a água pode subir rapidamente e inundar os campos ao
+redor, enquanto durante um verão longo ele pode se reduzir a um córrego estreito. Os
+cientistas que estudam essas mudanças medem quanta água passa a cada dia e quais plantas
+e animais dependem dela. Embora a engenharia moderna tenha mudado o curso de muitos rios
+com barragens e canais, as pessoas ainda os veem como seres vivos que precisam ser
+protegidos para o futuro. A história da música é igualmente rica. Cada cultura encontrou
+a sua própria forma de combinar ritmo, melodia e harmonia, e essas tradições são muitas
+vezes transmitidas de uma geração para outra sem nunca serem escritas.`,
+
+  es: `Los ríos han dado forma al paisaje durante millones de años. A medida que el agua
+baja, arrastra arena y piedras que desgastan lentamente la roca, y con el tiempo esto crea
+valles profundos y llanuras extensas. Muchas de las ciudades más antiguas del mundo se
+construyeron a orillas de los ríos, porque ofrecían agua dulce, suelo fértil y una manera
+sencilla de viajar y comerciar. El clima también tiene un papel importante en la vida de
+un río. Después de lluvias intensas, el agua puede subir con rapidez e inundar los campos
+cercanos, mientras que durante un verano largo puede quedar reducido a un arroyo
+estrecho. Los científicos que estudian estos cambios miden cuánta agua pasa cada día y
+qué plantas y animales dependen de ella. Aunque la ingeniería moderna ha cambiado el curso
+de muchos ríos con presas y canales, la gente todavía los considera seres vivos que hay
+que proteger para el futuro. La historia de la música es igual de rica. Cada cultura ha
+encontrado su propia forma de combinar ritmo, melodía y armonía, y estas tradiciones se
+transmiten a menudo de una generación a otra sin que nadie las escriba.`,
+
+  fr: `Les rivières façonnent le paysage depuis des millions d'années. À mesure que l'eau
+descend, elle emporte du sable et des pierres qui usent lentement la roche, et avec le
+temps cela crée des vallées profondes et de larges plaines. Beaucoup des plus anciennes
+villes du monde ont été construites au bord des fleuves, parce qu'ils offraient de l'eau
+douce, une terre fertile et un moyen facile de voyager et de faire du commerce. Le climat
+joue aussi un rôle important dans la vie d'une rivière. Après de fortes pluies, l'eau peut
+monter très vite et inonder les champs voisins, tandis que pendant un long été elle peut
+se réduire à un simple ruisseau. Les scientifiques qui étudient ces changements mesurent
+la quantité d'eau qui passe chaque jour et les plantes et les animaux qui en dépendent.
+Bien que l'ingénierie moderne ait modifié le cours de nombreux fleuves avec des barrages
+et des canaux, les gens les considèrent toujours comme des êtres vivants qu'il faut
+protéger pour l'avenir. L'histoire de la musique est tout aussi riche. Chaque culture a
+trouvé sa propre manière de combiner le rythme, la mélodie et l'harmonie, et ces
+traditions se transmettent souvent d'une génération à l'autre sans jamais être écrites.`,
+
+  de: `Flüsse prägen die Landschaft seit Millionen von Jahren. Während das Wasser bergab
+fließt, trägt es Sand und Steine mit sich, die den Fels langsam abtragen, und mit der
+Zeit entstehen so tiefe Täler und weite Ebenen. Viele der ältesten Städte der Welt wurden
+an den Ufern von Flüssen gebaut, weil sie frisches Wasser, fruchtbaren Boden und einen
+einfachen Weg für Reisen und Handel boten. Auch das Wetter spielt eine wichtige Rolle im
+Leben eines Flusses. Nach starkem Regen kann das Wasser schnell steigen und die
+umliegenden Felder überfluten, während er in einem langen Sommer zu einem schmalen Bach
+schrumpfen kann. Wissenschaftler, die diese Veränderungen untersuchen, messen, wie viel
+Wasser jeden Tag hindurchfließt und welche Pflanzen und Tiere davon abhängen. Obwohl die
+moderne Technik den Lauf vieler Flüsse mit Dämmen und Kanälen verändert hat, sehen die
+Menschen sie noch immer als lebendige Wesen, die für die Zukunft geschützt werden
+sollten. Die Geschichte der Musik ist ebenso reich. Jede Kultur hat ihre eigene Art
+gefunden, Rhythmus, Melodie und Harmonie zu verbinden, und diese Traditionen werden oft
+von einer Generation zur nächsten weitergegeben, ohne jemals aufgeschrieben zu werden.`,
+
+  it: `I fiumi modellano il paesaggio da milioni di anni. Mentre l'acqua scende a valle,
+trasporta sabbia e pietre che consumano lentamente la roccia, e con il tempo questo crea
+valli profonde e ampie pianure. Molte delle città più antiche del mondo sono state
+costruite sulle rive dei fiumi, perché offrivano acqua dolce, terreno fertile e un modo
+semplice per viaggiare e commerciare. Anche il clima ha un ruolo importante nella vita di
+un fiume. Dopo piogge abbondanti l'acqua può salire rapidamente e allagare i campi
+circostanti, mentre durante una lunga estate può ridursi a un piccolo ruscello. Gli
+scienziati che studiano questi cambiamenti misurano quanta acqua passa ogni giorno e
+quali piante e animali ne dipendono. Sebbene l'ingegneria moderna abbia cambiato il corso
+di molti fiumi con dighe e canali, le persone li considerano ancora come esseri viventi
+che devono essere protetti per il futuro. Anche la storia della musica è molto ricca.
+Ogni cultura ha trovato il proprio modo di combinare ritmo, melodia e armonia, e queste
+tradizioni vengono spesso tramandate da una generazione all'altra senza mai essere
+scritte.`,
+};
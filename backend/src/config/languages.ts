@@ -0,0 +1,72 @@
+import type { LanguageCode } from '../types';
+
+export interface LanguageDefinition {
+  code: LanguageCode;
+  name: string; // English name
+  nativeName: string;
+  wikipediaHost: string;
+  promptInstruction: string; // appended to AI prompts
+}
+
+export const DEFAULT_LANGUAGE: LanguageCode = 'en';
+
+/**
+ * Content languages the app can generate and fetch text in
+ */
+export const LANGUAGES: Record<LanguageCode, LanguageDefinition> = {
+  en: {
+    code: 'en',
+    name: 'English',
+    nativeName: 'English',
+    wikipediaHost: 'en.wikipedia.org',
+    promptInstruction: 'Written entirely in English',
+  },
+  pt: {
+    code: 'pt',
+    name: 'Portuguese',
+    nativeName: 'Português',
+    wikipediaHost: 'pt.wikipedia.org',
+    promptInstruction: 'Written entirely in Brazilian Portuguese, with correct accents',
+  },
+  es: {
+    code: 'es',
+    name: 'Spanish',
+    nativeName: 'Español',
+    wikipediaHost: 'es.wikipedia.org',
+    promptInstruction: 'Written entirely in Spanish, with correct accents and punctuation',
+  },
+  fr: {
+    code: 'fr',
+    name: 'French',
+    nativeName: 'Français',
+    wikipediaHost: 'fr.wikipedia.org',
+    promptInstruction: 'Written entirely in French, with correct accents',
+  },
+  de: {
+    code: 'de',
+    name: 'German',
+    nativeName: 'Deutsch',
+    wikipediaHost: 'de.wikipedia.org',
+    promptInstruction: 'Written entirely in German, with correct umlauts and capitalization',
+  },
+  it: {
+    code: 'it',
+    name: 'Italian',
+    nativeName: 'Italiano',
+    wikipediaHost: 'it.wikipedia.org',
+    promptInstruction: 'Written entirely in Italian, with correct accents',
+  },
+};
+
+export const SUPPORTED_LANGUAGES = Object.keys(LANGUAGES) as LanguageCode[];
+
+export function isSupportedLanguage(value: unknown): value is LanguageCode {
+  return typeof value === 'string' && SUPPORTED_LANGUAGES.includes(value as LanguageCode);
+}
+
+/**
+ * Registry entry for a language, or the default language when unsupported
+ */
+export function getLanguage(code: string): LanguageDefinition {
+  return isSupportedLanguage(code) ? LANGUAGES[code] : LANGUAGES[DEFAULT_LANGUAGE];
+}
@@ -0,0 +1,62 @@
+import type { LanguageCode } from '../types';
+
+/**
+ * Audiences content can be rated for, from the youngest up
+ */
+export const AGE_RATINGS = ['all', 'teen', 'adult'] as const;
+
+export type AgeRating = (typeof AGE_RATINGS)[number];
+
+/**
+ * Regular expression rule; a rated rule only rejects content for younger audiences
+ */
+export interface ModerationRule {
+  id: string;
+  pattern: string; // RegExp source
+  flags?: string; // "i" when omitted
+  rating?: Exclude<AgeRating, 'all'>; // least audience the matched text is suitable for
+  languages?: LanguageCode[]; // every language when omitted
+}
+
+export interface ModerationConfig {
+  // Words and phrases never served, matched whole and ignoring case and accents
+  blocklists: Partial<Record<LanguageCode, string[]>>;
+  rules: ModerationRule[];
+  // Audience content is served to; rated rules are skipped when unset
+  ageRating?: AgeRating;
+}
+
+export const isAgeRating = (value: unknown): value is AgeRating =>
+  typeof value === 'string' && (AGE_RATINGS as readonly string[]).includes(value);
+
+/**
+ * Built-in rules, extended through CONTENT_MODERATION_RULES
+ */
+export const DEFAULT_MODERATION_CONFIG: ModerationConfig = {
+  blocklists: {
+    en: ['fuck', 'fucking', 'shit', 'bullshit', 'asshole', 'bitch', 'cunt', 'motherfucker'],
+    pt: ['porra', 'caralho', 'foda-se', 'merda', 'puta que pariu', 'filho da puta', 'buceta'],
+    es: ['joder', 'mierda', 'hijo de puta', 'coño', 'gilipollas', 'cabrón'],
+    fr: ['putain', 'merde', 'connard', 'salope', 'enculé', 'fils de pute'],
+    de: ['scheiße', 'arschloch', 'fotze', 'hurensohn', 'wichser'],
+    it: ['cazzo', 'stronzo', 'vaffanculo', 'figlio di puttana', 'minchia'],
+  },
+  rules: [
+    {
+      id: 'explicit-sexual-content',
+      pattern: '\\b(porn\\w*|xxx|hardcore sex)\\b',
+      rating: 'adult',
+    },
+    {
+      id: 'graphic-violence',
+      pattern: '\\b(gore|gory|dismember\\w*|decapitat\\w*|disembowel\\w*)\\b',
+      rating: 'teen',
+    },
+    {
+      id: 'hard-drugs',
+      pattern: '\\b(cocaine|heroin|methamphetamine|crack pipe)\\b',
+      rating: 'teen',
+      languages: ['en'],
+    },
+  ],
+};
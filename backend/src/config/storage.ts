@@ -0,0 +1,78 @@
+import path from 'node:path';
+
+/**
+ * Files the repositories keep their data in
+ * Each store is file-backed by default (the content cache only with CONTENT_CACHE=file),
+ * under ./data unless its path variable points elsewhere
+ */
+
+export const STORAGE_NAMES = [
+  'sessions',
+  'users',
+  'preferences',
+  'customContent',
+  'moderationAudit',
+  'contentCache',
+  'aiUsage',
+] as const;
+
+export type StorageName = (typeof STORAGE_NAMES)[number];
+
+interface StorageConfig {
+  isFile: (env: NodeJS.ProcessEnv) => boolean;
+  pathVariable: string;
+  fileName: string;
+}
+
+const STORAGE: Record<StorageName, StorageConfig> = {
+  sessions: {
+    isFile: (env) => env.METRICS_STORAGE !== 'memory',
+    pathVariable: 'METRICS_STORAGE_PATH',
+    fileName: 'sessions.json',
+  },
+  users: {
+    isFile: (env) => env.USER_STORAGE !== 'memory',
+    pathVariable: 'USER_STORAGE_PATH',
+    fileName: 'users.json',
+  },
+  // Preferences only exist for registered users, so they follow USER_STORAGE
+  preferences: {
+    isFile: (env) => env.USER_STORAGE !== 'memory',
+    pathVariable: 'PREFERENCES_STORAGE_PATH',
+    fileName: 'preferences.json',
+  },
+  customContent: {
+    isFile: (env) => env.CUSTOM_CONTENT_STORAGE !== 'memory',
+    pathVariable: 'CUSTOM_CONTENT_PATH',
+    fileName: 'custom-content.json',
+  },
+  moderationAudit: {
+    isFile: (env) => env.MODERATION_AUDIT_STORAGE !== 'memory',
+    pathVariable: 'MODERATION_AUDIT_PATH',
+    fileName: 'moderation-audit.json',
+  },
+  contentCache: {
+    isFile: (env) => env.CONTENT_CACHE === 'file',
+    pathVariable: 'CONTENT_CACHE_PATH',
+    fileName: 'content-cache.json',
+  },
+  aiUsage: {
+    isFile: (env) => env.AI_USAGE_STORAGE !== 'memory',
+    pathVariable: 'AI_USAGE_PATH',
+    fileName: 'ai-usage.json',
+  },
+};
+
+/**
+ * File a store is kept in, or null when it is kept in memory
+ */
+export function getStoragePath(
+  name: StorageName,
+  env: NodeJS.ProcessEnv = process.env
+): string | null {
+  const { isFile, pathVariable, fileName } = STORAGE[name];
+  if (!isFile(env)) {
+    return null;
+  }
+  return env[pathVariable] || path.join(process.cwd(), 'data', fileName);
+}
@@ -2,9 +2,19 @@ import cors from 'cors';
 import dotenv from 'dotenv';
 import express, { type Application, type Request, type Response } from 'express';
 import rateLimit from 'express-rate-limit';
+import { authenticate } from './middleware/auth';
 import { errorHandler, notFoundHandler } from './middleware/errorHandler';
+import { requestContext } from './middleware/requestContext';
+import adminRoutes from './routes/admin.routes';
+import authRoutes from './routes/auth.routes';
 import contentRoutes from './routes/content.routes';
+import healthRoutes from './routes/health.routes';
 import metricsRoutes from './routes/metrics.routes';
+import syncRoutes from './routes/sync.routes';
+import { API_ROUTE_GROUPS } from './schemas';
+import { logger } from './utils/logger';
+import { buildOpenApiDocument } from './utils/openapi';
+import { registry } from './utils/prometheus';
 
 // Load environment variables
 dotenv.config();
@@ -28,14 +38,23 @@ const limiter = rateLimit({
   legacyHeaders: false,
 });
 
-// Stricter rate limit for content generation
+// Stricter rate limit for content generation, counted per account for signed-in users
 const contentLimiter = rateLimit({
   windowMs: 15 * 60 * 1000, // 15 minutes
   max: 20, // limit content generation requests
   message: 'Too many content generation requests, please try again later.',
+  keyGenerator: (req: Request) => req.user?.id || req.ip || 'unknown',
+});
+
+// Slow down credential guessing on login and registration
+const authLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  max: 10, // limit auth attempts
+  message: 'Too many authentication attempts, please try again later.',
 });
 
 // Middleware
+app.use(requestContext);
 app.use(cors(corsOptions));
 app.use(express.json({ limit: '10mb' }));
 app.use(express.urlencoded({ extended: true, limit: '10mb' }));
@@ -43,18 +62,33 @@ app.use(express.urlencoded({ extended: true, limit: '10mb' }));
 // Apply general rate limiting to all routes
 app.use('/api', limiter);
 
-// Health check route
-app.get('/health', (_req: Request, res: Response) => {
-  res.json({
-    status: 'OK',
-    timestamp: new Date().toISOString(),
-    service: 'Typing Study API',
-  });
+// Attach the signed-in user, if any; guests continue without one
+app.use('/api', authenticate);
+
+// Liveness and dependency-aware readiness checks
+app.use('/health', healthRoutes);
+
+// Prometheus metrics, outside /api so scrapes are not rate limited
+app.get('/metrics', (_req: Request, res: Response) => {
+  res.type('text/plain; version=0.0.4').send(registry.render());
+});
+
+// OpenAPI document, generated from the same route schemas that validate requests
+const openApiDocument = buildOpenApiDocument(
+  API_ROUTE_GROUPS,
+  process.env.npm_package_version || '1.0.0'
+);
+
+app.get('/api/docs', (_req: Request, res: Response) => {
+  res.json(openApiDocument);
 });
 
 // API routes
+app.use('/api/auth', authLimiter, authRoutes);
 app.use('/api/content', contentLimiter, contentRoutes);
 app.use('/api/metrics', metricsRoutes);
+app.use('/api/sync', syncRoutes);
+app.use('/api/admin', adminRoutes);
 
 // 404 handler
 app.use(notFoundHandler);
@@ -64,9 +98,11 @@ app.use(errorHandler);
 
 // Start server
 app.listen(PORT, () => {
-  console.log(`🚀 Server running on port ${PORT}`);
-  console.log(`📝 Environment: ${process.env.NODE_ENV || 'development'}`);
-  console.log(`🌐 CORS enabled for: ${corsOptions.origin}`);
+  logger.info('Server running', {
+    port: PORT,
+    environment: process.env.NODE_ENV || 'development',
+    corsOrigin: corsOptions.origin,
+  });
 });
 
 export default app;
@@ -0,0 +1,57 @@
+import type { NextFunction, Request, Response } from 'express';
+import { getAuthService } from '../services/auth.service';
+import { AppError, asyncHandler } from './errorHandler';
+
+/**
+ * Attach the authenticated user to the request when a Bearer token is sent
+ * Requests without a token continue as guests
+ */
+export const authenticate = asyncHandler(
+  async (req: Request, _res: Response, next: NextFunction): Promise<void> => {
+    const header = req.headers.authorization;
+
+    if (!header) {
+      next();
+      return;
+    }
+
+    const [scheme, token] = header.split(' ');
+
+    if (scheme !== 'Bearer' || !token) {
+      throw new AppError('Authorization header must use the Bearer scheme', 401);
+    }
+
+    req.user = await getAuthService().authenticate(token);
+    next();
+  }
+);
+
+/**
+ * Reject guest requests
+ */
+export const requireAuth = (req: Request, _res: Response, next: NextFunction) => {
+  if (!req.user) {
+    throw new AppError('Authentication required', 401);
+  }
+
+  next();
+};
+
+/**
+ * Reject requests from anyone but the users named in ADMIN_USERNAMES (comma-separated)
+ */
+export const requireAdmin = (req: Request, _res: Response, next: NextFunction) => {
+  if (!req.user) {
+    throw new AppError('Authentication required', 401);
+  }
+
+  const admins = (process.env.ADMIN_USERNAMES ?? '')
+    .split(',')
+    .map((name) => name.trim())
+    .filter(Boolean);
+  if (!admins.includes(req.user.username)) {
+    throw new AppError('Administrator access required', 403);
+  }
+
+  next();
+};
@@ -1,4 +1,7 @@
 import type { NextFunction, Request, Response } from 'express';
+import type { RejectionReason } from '../services/content.postprocessor';
+import { logger } from '../utils/logger';
+import type { FieldError } from '../utils/schema';
 
 export interface ApiError extends Error {
   statusCode?: number;
@@ -20,20 +23,69 @@ export class AppError extends Error implements ApiError {
   }
 }
 
+/**
+ * Request that failed its route's schemas, listing each failing field
+ */
+export class ValidationError extends AppError {
+  details: FieldError[];
+
+  constructor(details: FieldError[]) {
+    super(details.map((detail) => detail.message).join('; '), 400);
+    this.details = details;
+  }
+}
+
+/**
+ * Generated or fetched content that post-processing rejected, listing each reason
+ */
+export class ContentRejectedError extends AppError {
+  details: RejectionReason[];
+
+  constructor(details: RejectionReason[]) {
+    super(`Content was rejected: ${details.map((detail) => detail.message).join('; ')}`, 422);
+    this.details = details;
+  }
+}
+
+/**
+ * Upstream call given up because the client that asked for it went away, e.g. closed
+ * a content stream; 499 is the conventional "client closed request" status
+ */
+export class RequestAbortedError extends AppError {
+  constructor(service: string) {
+    super(`${service} request was aborted`, 499);
+  }
+}
+
 /**
  * Global error handling middleware
  */
-export const errorHandler = (err: ApiError, _req: Request, res: Response, _next: NextFunction) => {
+export const errorHandler = (err: ApiError, req: Request, res: Response, _next: NextFunction) => {
   const statusCode = err.statusCode || 500;
   const message = err.message || 'Internal Server Error';
 
-  // Log error for debugging
-  if (statusCode === 500) {
-    console.error('Error:', err);
+  // Server faults are errors with their stack; client errors are logged for tracing only
+  if (statusCode >= 500) {
+    logger.error('Request failed', {
+      method: req.method,
+      url: req.originalUrl,
+      statusCode,
+      error: err,
+    });
+  } else {
+    logger.warn('Request rejected', {
+      method: req.method,
+      url: req.originalUrl,
+      statusCode,
+      reason: message,
+    });
   }
 
   res.status(statusCode).json({
     error: message,
+    ...((err instanceof ValidationError || err instanceof ContentRejectedError) && {
+      details: err.details,
+    }),
     ...(process.env.NODE_ENV === 'development' && { stack: err.stack }),
   });
 };
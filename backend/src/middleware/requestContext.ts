@@ -0,0 +1,60 @@
+import { randomUUID } from 'node:crypto';
+import type { NextFunction, Request, Response } from 'express';
+import { logger, runWithRequestContext } from '../utils/logger';
+import { httpRequestDuration, httpRequests } from '../utils/prometheus';
+
+export const REQUEST_ID_HEADER = 'X-Request-Id';
+
+// IDs accepted from callers, so a proxy's correlation ID carries through
+const VALID_REQUEST_ID = /^[\w.:-]{1,128}$/;
+
+/**
+ * Route pattern a request matched, such as /api/content/custom/:id, so metrics are labelled
+ * by route rather than by every distinct URL
+ * Express resets baseUrl when an error leaves a router, so the mount path is recovered
+ * from the URL by dropping as many segments as the route pattern has
+ */
+export function getRouteLabel(req: Request): string {
+  if (!req.route) {
+    return 'unmatched';
+  }
+
+  const routePath: string = req.route.path;
+  const urlSegments = req.originalUrl.split('?')[0].split('/').filter(Boolean);
+  const routeSegments = routePath.split('/').filter(Boolean);
+  const mount = urlSegments.slice(0, urlSegments.length - routeSegments.length);
+
+  return `/${[...mount, ...routeSegments].join('/')}`;
+}
+
+/**
+ * Give every request an ID, returned in the X-Request-Id header and included in every log
+ * entry written while handling it, then log and measure the request once it completes
+ */
+export const requestContext = (req: Request, res: Response, next: NextFunction) => {
+  const incoming = req.get(REQUEST_ID_HEADER);
+  const requestId = incoming && VALID_REQUEST_ID.test(incoming) ? incoming : randomUUID();
+  const start = process.hrtime.bigint();
+
+  req.requestId = requestId;
+  res.setHeader(REQUEST_ID_HEADER, requestId);
+
+  res.on('finish', () => {
+    const seconds = Number(process.hrtime.bigint() - start) / 1e9;
+    const route = getRouteLabel(req);
+
+    httpRequests.inc({ method: req.method, route, status: String(res.statusCode) });
+    httpRequestDuration.observe({ method: req.method, route }, seconds);
+    // The finish event fires outside the request context, so the ID is passed explicitly
+    logger.info('Request completed', {
+      requestId,
+      method: req.method,
+      url: req.originalUrl,
+      route,
+      status: res.statusCode,
+      durationMs: Math.round(seconds * 1000),
+    });
+  });
+
+  runWithRequestContext({ requestId }, next);
+};
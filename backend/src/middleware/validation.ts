@@ -1,43 +1,60 @@
-import type { NextFunction, Request, Response } from 'express';
-import { AppError } from './errorHandler';
+import type { NextFunction, Request, RequestHandler, Response } from 'express';
+import type { RouteSpec, ValidatedRequest } from '../schemas';
+import type { FieldError } from '../utils/schema';
+import { asyncHandler, ValidationError } from './errorHandler';
 
 /**
- * Validate content generation request
+ * Validate a request against its route's schemas
+ * Params, query and body are replaced by their parsed values (defaults applied, dates
+ * and numeric query values converted); every failing field is reported in one 400
  */
-export const validateContentRequest = (req: Request, _res: Response, next: NextFunction) => {
-  const { theme, length } = req.body;
-
-  if (!theme || typeof theme !== 'string') {
-    throw new AppError('Valid theme is required', 400);
-  }
-
-  if (theme.length > 100) {
-    throw new AppError('Theme must be 100 characters or less', 400);
-  }
-
-  if (length && (typeof length !== 'number' || length < 100 || length > 500)) {
-    throw new AppError('Length must be between 100 and 500 words', 400);
-  }
-
-  next();
-};
+export const validateRequest =
+  (route: RouteSpec) =>
+  (req: Request, _res: Response, next: NextFunction): void => {
+    const errors: FieldError[] = [];
+
+    if (route.params) {
+      req.params = route.params.validate(req.params, 'params', errors) as Request['params'];
+    }
+    if (route.query) {
+      req.query = route.query.validate(req.query, 'query', errors) as Request['query'];
+    }
+    if (route.body) {
+      req.body = route.body.validate(req.body ?? {}, 'body', errors);
+    }
+
+    if (errors.length > 0) {
+      throw new ValidationError(errors);
+    }
+
+    next();
+  };
 
 /**
- * Validate session metrics request
+ * Validation followed by a handler typed from the route's schemas
  */
-export const validateMetricsRequest = (req: Request, _res: Response, next: NextFunction) => {
-  const { sessionId, wpm, accuracy } = req.body;
-
-  if (!sessionId || typeof sessionId !== 'string') {
-    throw new AppError('Valid session ID is required', 400);
-  }
+export const handle = <R extends RouteSpec>(
+  route: R,
+  handler: (req: ValidatedRequest<R>, res: Response) => Promise<void>
+): RequestHandler[] => [
+  validateRequest(route),
+  asyncHandler(handler as unknown as (req: Request, res: Response) => Promise<void>),
+];
 
-  if (wpm !== undefined && (typeof wpm !== 'number' || wpm < 0)) {
-    throw new AppError('WPM must be a positive number', 400);
-  }
-
-  if (accuracy !== undefined && (typeof accuracy !== 'number' || accuracy < 0 || accuracy > 100)) {
-    throw new AppError('Accuracy must be between 0 and 100', 400);
+/**
+ * Read a raw text/plain or text/markdown upload into the JSON shape of a custom text,
+ * with title, language and fileName taken from the query string
+ */
+export const readTextUpload = (req: Request, _res: Response, next: NextFunction): void => {
+  if (typeof req.body === 'string') {
+    const { title, language, fileName } = req.query;
+    req.body = {
+      text: req.body,
+      title,
+      language,
+      fileName,
+      format: req.is('text/markdown') ? 'markdown' : 'text',
+    };
   }
 
   next();
@@ -0,0 +1,67 @@
+import { promises as fs } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import {
+  type AIUsageRecord,
+  FileAIUsageRepository,
+  InMemoryAIUsageRepository,
+} from '../aiUsage.repository';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const buildRecord = (recordedAt: Date, overrides: Partial<AIUsageRecord> = {}): AIUsageRecord => ({
+  provider: 'openai',
+  model: 'gpt-3.5-turbo',
+  userId: 'user-1',
+  inputTokens: 100,
+  outputTokens: 50,
+  estimated: false,
+  costUsd: 0.000125,
+  recordedAt,
+  ...overrides,
+});
+
+describe('InMemoryAIUsageRepository', () => {
+  it('should list records within a range, excluding its end', async () => {
+    const repository = new InMemoryAIUsageRepository();
+    const now = Date.now();
+    for (const daysAgo of [3, 2, 1]) {
+      await repository.record(buildRecord(new Date(now - daysAgo * DAY_MS)));
+    }
+
+    const records = await repository.list(new Date(now - 2 * DAY_MS), new Date(now - DAY_MS));
+
+    expect(records.map(({ recordedAt }) => recordedAt.getTime())).toEqual([now - 2 * DAY_MS]);
+  });
+
+  it('should drop records older than the retention period', async () => {
+    const repository = new InMemoryAIUsageRepository(30);
+    await repository.record(buildRecord(new Date(Date.now() - 31 * DAY_MS)));
+    await repository.record(buildRecord(new Date(Date.now() - 29 * DAY_MS)));
+
+    expect(await repository.list()).toHaveLength(1);
+  });
+});
+
+describe('FileAIUsageRepository', () => {
+  let tempDir: string;
+  let filePath: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'ai-usage-'));
+    filePath = path.join(tempDir, 'ai-usage.json');
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should persist records across instances', async () => {
+    await new FileAIUsageRepository(filePath).record(buildRecord(new Date(), { userId: null }));
+
+    const [record] = await new FileAIUsageRepository(filePath).list();
+
+    expect(record.userId).toBeNull();
+    expect(record.recordedAt).toBeInstanceOf(Date);
+  });
+});
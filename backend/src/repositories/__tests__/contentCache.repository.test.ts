@@ -0,0 +1,89 @@
+import { promises as fs } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import type { GeneratedContent } from '../../services/content.service';
+import { FileContentCache, InMemoryContentCache } from '../contentCache.repository';
+
+const buildContent = (overrides: Partial<GeneratedContent> = {}): GeneratedContent => ({
+  id: 'content_1',
+  theme: 'TypeScript',
+  text: 'TypeScript adds types to JavaScript.',
+  source: 'ai',
+  difficulty: 'medium',
+  wordCount: 5,
+  estimatedTime: 1,
+  metadata: { language: 'en' },
+  createdAt: new Date('2024-01-01T10:00:00.000Z'),
+  ...overrides,
+});
+
+describe('InMemoryContentCache', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should return stored content until it expires', async () => {
+    const nowSpy = jest.spyOn(Date, 'now').mockReturnValue(1_000);
+    const cache = new InMemoryContentCache({ ttlMs: 500 });
+
+    await cache.set('key', buildContent());
+
+    nowSpy.mockReturnValue(1_499);
+    expect((await cache.get('key'))?.content.id).toBe('content_1');
+
+    nowSpy.mockReturnValue(1_500);
+    expect(await cache.get('key')).toBeNull();
+  });
+
+  it('should evict the least recently used entry when full', async () => {
+    const cache = new InMemoryContentCache({ maxEntries: 2 });
+
+    await cache.set('a', buildContent({ id: 'a' }));
+    await cache.set('b', buildContent({ id: 'b' }));
+    await cache.get('a');
+    await cache.set('c', buildContent({ id: 'c' }));
+
+    expect(await cache.get('a')).not.toBeNull();
+    expect(await cache.get('b')).toBeNull();
+    expect(await cache.get('c')).not.toBeNull();
+  });
+
+  it('should clear all entries', async () => {
+    const cache = new InMemoryContentCache();
+
+    await cache.set('key', buildContent());
+    await cache.clear();
+
+    expect(await cache.get('key')).toBeNull();
+  });
+});
+
+describe('FileContentCache', () => {
+  let tempDir: string;
+  let filePath: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'content-cache-'));
+    filePath = path.join(tempDir, 'content-cache.json');
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should persist entries across instances', async () => {
+    await new FileContentCache(filePath).set('key', buildContent());
+
+    const entry = await new FileContentCache(filePath).get('key');
+
+    expect(entry?.content.text).toBe('TypeScript adds types to JavaScript.');
+    expect(entry?.content.createdAt).toBeInstanceOf(Date);
+    expect(entry?.cachedAt).toBeInstanceOf(Date);
+  });
+
+  it('should drop entries that expired while stored', async () => {
+    await new FileContentCache(filePath, { ttlMs: -1 }).set('key', buildContent());
+
+    expect(await new FileContentCache(filePath).get('key')).toBeNull();
+  });
+});
@@ -0,0 +1,206 @@
+import { promises as fs } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import type { SessionHistoryQuery, UserSession } from '../../types';
+import { FileSessionRepository, InMemorySessionRepository } from '../session.repository';
+
+const buildSession = (overrides: Partial<UserSession> = {}): UserSession => ({
+  sessionId: 'session_1',
+  theme: 'TypeScript',
+  keyboardLayout: 'QWERTY',
+  startTime: new Date('2024-01-01T10:00:00.000Z'),
+  endTime: new Date('2024-01-01T10:05:00.000Z'),
+  isActive: false,
+  content: 'TypeScript adds types to JavaScript.',
+  userProgress: {
+    currentPosition: 36,
+    typedText: 'TypeScript adds typse to JavaScript.',
+    errors: [
+      {
+        position: 19,
+        expectedChar: 'e',
+        typedChar: 's',
+        timestamp: new Date('2024-01-01T10:02:00.000Z'),
+        corrected: false,
+      },
+    ],
+  },
+  metrics: {
+    wpm: 45,
+    averageWPM: 42,
+    accuracy: 97.2,
+    totalCharacters: 36,
+    correctCharacters: 35,
+    errorCount: 1,
+    timeElapsed: 300,
+    keystrokesPerMinute: 225,
+  },
+  ...overrides,
+});
+
+describe('InMemorySessionRepository', () => {
+  it('should save and find sessions', async () => {
+    const repository = new InMemorySessionRepository();
+    const session = buildSession();
+
+    await repository.save(session);
+
+    expect(await repository.findById('session_1')).toEqual(session);
+    expect(await repository.findById('missing')).toBeNull();
+    expect(await repository.findAll()).toHaveLength(1);
+  });
+
+  it('should overwrite sessions with the same id', async () => {
+    const repository = new InMemorySessionRepository();
+
+    await repository.save(buildSession());
+    await repository.save(buildSession({ theme: 'Rust' }));
+
+    const all = await repository.findAll();
+    expect(all).toHaveLength(1);
+    expect(all[0].theme).toBe('Rust');
+  });
+});
+
+describe('InMemorySessionRepository.query', () => {
+  let repository: InMemorySessionRepository;
+
+  const baseQuery: SessionHistoryQuery = {
+    userId: 'user_1',
+    sortBy: 'date',
+    order: 'desc',
+    limit: 10,
+  };
+
+  beforeEach(async () => {
+    repository = new InMemorySessionRepository();
+    const fixtures: [string, string, UserSession['keyboardLayout'], string, number, number][] = [
+      ['s1', 'React Hooks', 'QWERTY', '2024-01-01T10:00:00.000Z', 40, 90],
+      ['s2', 'Rust', 'DVORAK', '2024-01-02T10:00:00.000Z', 55, 98],
+      ['s3', 'React Router', 'QWERTY', '2024-01-03T10:00:00.000Z', 62, 85],
+      ['s4', 'Go', 'AZERTY', '2024-01-04T10:00:00.000Z', 30, 99],
+      ['s5', 'Python', 'QWERTY', '2024-01-05T10:00:00.000Z', 55, 95],
+    ];
+
+    for (const [sessionId, theme, keyboardLayout, startTime, wpm, accuracy] of fixtures) {
+      const base = buildSession();
+      await repository.save({
+        ...base,
+        sessionId,
+        userId: 'user_1',
+        theme,
+        keyboardLayout,
+        startTime: new Date(startTime),
+        metrics: { ...base.metrics, wpm, accuracy, timeElapsed: wpm * 2 },
+      });
+    }
+  });
+
+  it('should sort by date descending by default and return summaries', async () => {
+    const page = await repository.query(baseQuery);
+
+    expect(page.sessions.map((s) => s.sessionId)).toEqual(['s5', 's4', 's3', 's2', 's1']);
+    expect(page.sessions[0]).toEqual({
+      sessionId: 's5',
+      theme: 'Python',
+      date: new Date('2024-01-05T10:00:00.000Z'),
+      wpm: 55,
+      accuracy: 95,
+      duration: 110,
+      errorCount: 1,
+      keyboardLayout: 'QWERTY',
+    });
+    expect(page.nextCursor).toBeNull();
+  });
+
+  it('should filter by theme, layout, date range and minimum accuracy', async () => {
+    const byTheme = await repository.query({ ...baseQuery, theme: 'react' });
+    expect(byTheme.sessions.map((s) => s.sessionId)).toEqual(['s3', 's1']);
+
+    const byLayout = await repository.query({ ...baseQuery, keyboardLayout: 'QWERTY' });
+    expect(byLayout.sessions).toHaveLength(3);
+
+    const byRange = await repository.query({
+      ...baseQuery,
+      from: new Date('2024-01-02T00:00:00.000Z'),
+      to: new Date('2024-01-04T00:00:00.000Z'),
+    });
+    expect(byRange.sessions.map((s) => s.sessionId)).toEqual(['s3', 's2']);
+
+    const byAccuracy = await repository.query({ ...baseQuery, minAccuracy: 95 });
+    expect(byAccuracy.sessions.map((s) => s.sessionId)).toEqual(['s5', 's4', 's2']);
+  });
+
+  it('should sort by wpm with a stable tiebreaker', async () => {
+    const page = await repository.query({ ...baseQuery, sortBy: 'wpm', order: 'asc' });
+
+    expect(page.sessions.map((s) => s.sessionId)).toEqual(['s4', 's1', 's2', 's5', 's3']);
+  });
+
+  it('should paginate with cursors without skipping or repeating sessions', async () => {
+    const query: SessionHistoryQuery = { ...baseQuery, sortBy: 'wpm', limit: 2 };
+    const seen: string[] = [];
+    let cursor: string | undefined;
+
+    do {
+      const page = await repository.query({ ...query, cursor });
+      seen.push(...page.sessions.map((s) => s.sessionId));
+      cursor = page.nextCursor ?? undefined;
+    } while (cursor);
+
+    expect(seen).toEqual(['s3', 's5', 's2', 's1', 's4']);
+  });
+
+  it('should reject malformed cursors and cursors from another sort order', async () => {
+    const page = await repository.query({ ...baseQuery, limit: 1 });
+
+    await expect(repository.query({ ...baseQuery, cursor: 'garbage' })).rejects.toMatchObject({
+      statusCode: 400,
+    });
+    await expect(
+      repository.query({ ...baseQuery, sortBy: 'wpm', cursor: page.nextCursor as string })
+    ).rejects.toMatchObject({ statusCode: 400 });
+  });
+});
+
+describe('FileSessionRepository', () => {
+  let tempDir: string;
+  let filePath: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'sessions-'));
+    filePath = path.join(tempDir, 'nested', 'sessions.json');
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should return nothing when the file does not exist yet', async () => {
+    const repository = new FileSessionRepository(filePath);
+
+    expect(await repository.findAll()).toEqual([]);
+  });
+
+  it('should persist sessions to disk and revive dates', async () => {
+    const session = buildSession();
+    await new FileSessionRepository(filePath).save(session);
+
+    const reloaded = await new FileSessionRepository(filePath).findById('session_1');
+
+    expect(reloaded).toEqual(session);
+    expect(reloaded?.startTime).toBeInstanceOf(Date);
+    expect(reloaded?.userProgress.errors[0].timestamp).toBeInstanceOf(Date);
+  });
+
+  it('should keep every session when saves run concurrently', async () => {
+    const repository = new FileSessionRepository(filePath);
+
+    await Promise.all(
+      ['a', 'b', 'c'].map((id) => repository.save(buildSession({ sessionId: id })))
+    );
+
+    const reloaded = await new FileSessionRepository(filePath).findAll();
+    expect(reloaded.map((session) => session.sessionId).sort()).toEqual(['a', 'b', 'c']);
+  });
+});
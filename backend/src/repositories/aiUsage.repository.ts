@@ -0,0 +1,108 @@
+import { getStoragePath } from '../config/storage';
+import { JsonFileStore } from './jsonFile.store';
+
+// Days of records kept; a monthly budget needs at least the current month
+const DEFAULT_RETENTION_DAYS = 90;
+
+export interface AIUsageRecord {
+  provider: string;
+  model: string;
+  userId: string | null; // null for guests
+  inputTokens: number;
+  outputTokens: number;
+  estimated: boolean; // tokens counted from the text, as the provider reported none
+  costUsd: number;
+  recordedAt: Date;
+}
+
+/**
+ * Storage abstraction for the tokens and cost of each AI generation
+ */
+export interface AIUsageRepository {
+  record(entry: AIUsageRecord): Promise<void>;
+  list(from?: Date, to?: Date): Promise<AIUsageRecord[]>; // oldest first, to is exclusive
+}
+
+/**
+ * In-memory usage log, used for tests and ephemeral deployments
+ */
+export class InMemoryAIUsageRepository implements AIUsageRepository {
+  protected records: AIUsageRecord[] = [];
+  protected readonly retentionMs: number;
+
+  constructor(retentionDays: number = DEFAULT_RETENTION_DAYS) {
+    this.retentionMs = retentionDays * 24 * 60 * 60 * 1000;
+  }
+
+  async record(entry: AIUsageRecord): Promise<void> {
+    this.records.push(entry);
+    this.prune();
+  }
+
+  async list(from?: Date, to?: Date): Promise<AIUsageRecord[]> {
+    return this.records.filter(
+      ({ recordedAt }) => (!from || recordedAt >= from) && (!to || recordedAt < to)
+    );
+  }
+
+  /**
+   * Drop records older than the retention period
+   */
+  protected prune(): void {
+    const cutoff = Date.now() - this.retentionMs;
+    const firstKept = this.records.findIndex(({ recordedAt }) => recordedAt.getTime() >= cutoff);
+    this.records.splice(0, firstKept === -1 ? this.records.length : firstKept);
+  }
+}
+
+/**
+ * File-backed usage log
+ */
+export class FileAIUsageRepository extends InMemoryAIUsageRepository {
+  private readonly store: JsonFileStore<AIUsageRecord>;
+  private loaded: Promise<void> | null = null;
+
+  constructor(filePath: string, retentionDays?: number) {
+    super(retentionDays);
+    this.store = new JsonFileStore(filePath);
+  }
+
+  async record(entry: AIUsageRecord): Promise<void> {
+    await this.load();
+    await super.record(entry);
+    await this.store.write(this.records);
+  }
+
+  async list(from?: Date, to?: Date): Promise<AIUsageRecord[]> {
+    await this.load();
+    return super.list(from, to);
+  }
+
+  /**
+   * Load recorded usage from disk once, lazily
+   */
+  private load(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = this.store.read().then((stored) => {
+        this.records = stored.map((raw: any) => ({
+          ...raw,
+          recordedAt: new Date(raw.recordedAt),
+        }));
+        this.prune();
+      });
+    }
+    return this.loaded;
+  }
+}
+
+/**
+ * Create the usage log configured through the environment
+ * AI_USAGE_STORAGE is "file" (default) or "memory"; AI_USAGE_RETENTION_DAYS bounds its size
+ */
+export function createAIUsageRepository(): AIUsageRepository {
+  const retentionDays = Number(process.env.AI_USAGE_RETENTION_DAYS) || DEFAULT_RETENTION_DAYS;
+  const filePath = getStoragePath('aiUsage');
+  return filePath
+    ? new FileAIUsageRepository(filePath, retentionDays)
+    : new InMemoryAIUsageRepository(retentionDays);
+}
@@ -0,0 +1,165 @@
+import { getStoragePath } from '../config/storage';
+import type { GeneratedContent } from '../services/content.service';
+import { JsonFileStore } from './jsonFile.store';
+
+const DEFAULT_TTL_SECONDS = 60 * 60;
+const DEFAULT_MAX_ENTRIES = 200;
+
+export interface CachedContent {
+  key: string;
+  content: GeneratedContent;
+  cachedAt: Date;
+  expiresAt: Date;
+}
+
+export interface ContentCacheOptions {
+  ttlMs?: number;
+  maxEntries?: number;
+}
+
+/**
+ * Storage abstraction for generated content, keyed by request
+ */
+export interface ContentCacheRepository {
+  get(key: string): Promise<CachedContent | null>;
+  set(key: string, content: GeneratedContent): Promise<CachedContent>;
+  clear(): Promise<void>;
+}
+
+/**
+ * In-memory content cache with per-entry TTL and least-recently-used eviction
+ * Map iteration order doubles as recency order: reads move an entry to the end
+ */
+export class InMemoryContentCache implements ContentCacheRepository {
+  protected entries = new Map<string, CachedContent>();
+  protected readonly ttlMs: number;
+  protected readonly maxEntries: number;
+
+  constructor(options: ContentCacheOptions = {}) {
+    this.ttlMs = options.ttlMs ?? DEFAULT_TTL_SECONDS * 1000;
+    this.maxEntries = options.maxEntries ?? DEFAULT_MAX_ENTRIES;
+  }
+
+  async get(key: string): Promise<CachedContent | null> {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return null;
+    }
+
+    this.entries.delete(key);
+    if (entry.expiresAt.getTime() <= Date.now()) {
+      return null;
+    }
+
+    this.entries.set(key, entry);
+    return entry;
+  }
+
+  async set(key: string, content: GeneratedContent): Promise<CachedContent> {
+    const now = Date.now();
+    const entry: CachedContent = {
+      key,
+      content,
+      cachedAt: new Date(now),
+      expiresAt: new Date(now + this.ttlMs),
+    };
+
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    this.evict();
+    return entry;
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear();
+  }
+
+  /**
+   * Drop expired entries, then the least recently used until within maxEntries
+   */
+  protected evict(): void {
+    const now = Date.now();
+    for (const [key, entry] of this.entries) {
+      if (entry.expiresAt.getTime() <= now) {
+        this.entries.delete(key);
+      }
+    }
+
+    for (const key of this.entries.keys()) {
+      if (this.entries.size <= this.maxEntries) break;
+      this.entries.delete(key);
+    }
+  }
+}
+
+/**
+ * File-backed content cache
+ * Survives restarts so repeated themes keep hitting the cache after a deploy
+ */
+export class FileContentCache extends InMemoryContentCache {
+  private readonly store: JsonFileStore<CachedContent>;
+  private loaded: Promise<void> | null = null;
+
+  constructor(filePath: string, options: ContentCacheOptions = {}) {
+    super(options);
+    this.store = new JsonFileStore(filePath);
+  }
+
+  async get(key: string): Promise<CachedContent | null> {
+    await this.load();
+    return super.get(key);
+  }
+
+  async set(key: string, content: GeneratedContent): Promise<CachedContent> {
+    await this.load();
+    const entry = await super.set(key, content);
+    await this.store.write(Array.from(this.entries.values()));
+    return entry;
+  }
+
+  async clear(): Promise<void> {
+    await this.load();
+    await super.clear();
+    await this.store.write([]);
+  }
+
+  /**
+   * Load cached entries from disk once, lazily
+   */
+  private load(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = this.store.read().then((stored) => {
+        stored.forEach((raw: any) => {
+          this.entries.set(raw.key, {
+            key: raw.key,
+            content: { ...raw.content, createdAt: new Date(raw.content.createdAt) },
+            cachedAt: new Date(raw.cachedAt),
+            expiresAt: new Date(raw.expiresAt),
+          });
+        });
+        this.evict();
+      });
+    }
+    return this.loaded;
+  }
+}
+
+/**
+ * Create the cache configured through the environment
+ * CONTENT_CACHE=memory (default), file or off; returns null when caching is off
+ */
+export function createContentCache(): ContentCacheRepository | null {
+  const mode = process.env.CONTENT_CACHE || 'memory';
+  if (mode === 'off') {
+    return null;
+  }
+
+  const ttlSeconds = Number(process.env.CONTENT_CACHE_TTL_SECONDS) || DEFAULT_TTL_SECONDS;
+  const options: ContentCacheOptions = {
+    ttlMs: ttlSeconds * 1000,
+    maxEntries: Number(process.env.CONTENT_CACHE_MAX_ENTRIES) || DEFAULT_MAX_ENTRIES,
+  };
+
+  const filePath = getStoragePath('contentCache');
+  return filePath ? new FileContentCache(filePath, options) : new InMemoryContentCache(options);
+}
@@ -0,0 +1,86 @@
+import { getStoragePath } from '../config/storage';
+import type { GeneratedContent } from '../services/content.service';
+import { JsonFileStore } from './jsonFile.store';
+
+export interface StoredCustomContent {
+  content: GeneratedContent;
+  ownerId?: string; // undefined for texts saved by guests
+}
+
+/**
+ * Storage abstraction for texts users supplied themselves
+ */
+export interface CustomContentRepository {
+  save(content: GeneratedContent, ownerId?: string): Promise<StoredCustomContent>;
+  findById(id: string): Promise<StoredCustomContent | null>;
+}
+
+/**
+ * In-memory custom content repository, used for tests and ephemeral deployments
+ */
+export class InMemoryCustomContentRepository implements CustomContentRepository {
+  protected entries = new Map<string, StoredCustomContent>();
+
+  async save(content: GeneratedContent, ownerId?: string): Promise<StoredCustomContent> {
+    const entry: StoredCustomContent = { content, ownerId };
+    this.entries.set(content.id, entry);
+    return entry;
+  }
+
+  async findById(id: string): Promise<StoredCustomContent | null> {
+    return this.entries.get(id) || null;
+  }
+}
+
+/**
+ * File-backed custom content repository
+ */
+export class FileCustomContentRepository extends InMemoryCustomContentRepository {
+  private readonly store: JsonFileStore<StoredCustomContent>;
+  private loaded: Promise<void> | null = null;
+
+  constructor(filePath: string) {
+    super();
+    this.store = new JsonFileStore(filePath);
+  }
+
+  async save(content: GeneratedContent, ownerId?: string): Promise<StoredCustomContent> {
+    await this.load();
+    const entry = await super.save(content, ownerId);
+    await this.store.write(Array.from(this.entries.values()));
+    return entry;
+  }
+
+  async findById(id: string): Promise<StoredCustomContent | null> {
+    await this.load();
+    return super.findById(id);
+  }
+
+  /**
+   * Load saved texts from disk once, lazily
+   */
+  private load(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = this.store.read().then((stored) => {
+        stored.forEach((raw: any) => {
+          this.entries.set(raw.content.id, {
+            content: { ...raw.content, createdAt: new Date(raw.content.createdAt) },
+            ownerId: raw.ownerId,
+          });
+        });
+      });
+    }
+    return this.loaded;
+  }
+}
+
+/**
+ * Create the repository configured through the environment
+ * CUSTOM_CONTENT_STORAGE is "file" (default) or "memory"
+ */
+export function createCustomContentRepository(): CustomContentRepository {
+  const filePath = getStoragePath('customContent');
+  return filePath
+    ? new FileCustomContentRepository(filePath)
+    : new InMemoryCustomContentRepository();
+}
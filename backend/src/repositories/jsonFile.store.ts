@@ -0,0 +1,60 @@
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+
+/**
+ * Stores a list of records as a single JSON document
+ * Writes go through a temp file and rename so readers never see a partial document
+ */
+export class JsonFileStore<T> {
+  private readonly filePath: string;
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  /**
+   * Read all records, or an empty list when nothing has been stored yet
+   */
+  async read(): Promise<T[]> {
+    try {
+      const raw = await fs.readFile(this.filePath, 'utf-8');
+      return JSON.parse(raw);
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Replace the stored records
+   * Writes are serialized so concurrent callers never interleave on disk
+   */
+  write(records: T[]): Promise<void> {
+    const snapshot = JSON.stringify(records);
+
+    // A failed write must not block the ones queued after it
+    this.writeQueue = this.writeQueue
+      .catch(() => undefined)
+      .then(async () => {
+        const tempPath = `${this.filePath}.tmp`;
+        await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+        await fs.writeFile(tempPath, snapshot, 'utf-8');
+        await fs.rename(tempPath, this.filePath);
+      });
+
+    return this.writeQueue;
+  }
+}
+
+/**
+ * Check a store's file can be written, by writing and removing a probe file beside it
+ */
+export async function checkWritable(filePath: string): Promise<void> {
+  const probePath = `${filePath}.probe`;
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  await fs.writeFile(probePath, '', 'utf-8');
+  await fs.unlink(probePath);
+}
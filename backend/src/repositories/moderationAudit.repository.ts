@@ -0,0 +1,90 @@
+import { getStoragePath } from '../config/storage';
+import { JsonFileStore } from './jsonFile.store';
+
+// Entries kept before the oldest are dropped
+const MAX_AUDIT_ENTRIES = 1000;
+
+export interface ModerationAuditEntry {
+  contentId: string;
+  theme: string;
+  source: string;
+  language: string;
+  reasons: string[];
+  action: 'regenerated' | 'rejected'; // whether a new attempt followed the rejection
+  excerpt: string; // start of the rejected text
+  recordedAt: Date;
+}
+
+/**
+ * Storage abstraction for the record of content that moderation rejected
+ */
+export interface ModerationAuditLog {
+  record(entry: ModerationAuditEntry): Promise<void>;
+  list(limit?: number): Promise<ModerationAuditEntry[]>; // newest first
+}
+
+/**
+ * In-memory audit log, used for tests and ephemeral deployments
+ */
+export class InMemoryModerationAuditLog implements ModerationAuditLog {
+  protected entries: ModerationAuditEntry[] = [];
+
+  async record(entry: ModerationAuditEntry): Promise<void> {
+    this.entries.push(entry);
+    if (this.entries.length > MAX_AUDIT_ENTRIES) {
+      this.entries.splice(0, this.entries.length - MAX_AUDIT_ENTRIES);
+    }
+  }
+
+  async list(limit: number = MAX_AUDIT_ENTRIES): Promise<ModerationAuditEntry[]> {
+    return this.entries.slice(-limit).reverse();
+  }
+}
+
+/**
+ * File-backed audit log
+ */
+export class FileModerationAuditLog extends InMemoryModerationAuditLog {
+  private readonly store: JsonFileStore<ModerationAuditEntry>;
+  private loaded: Promise<void> | null = null;
+
+  constructor(filePath: string) {
+    super();
+    this.store = new JsonFileStore(filePath);
+  }
+
+  async record(entry: ModerationAuditEntry): Promise<void> {
+    await this.load();
+    await super.record(entry);
+    await this.store.write(this.entries);
+  }
+
+  async list(limit?: number): Promise<ModerationAuditEntry[]> {
+    await this.load();
+    return super.list(limit);
+  }
+
+  /**
+   * Load recorded entries from disk once, lazily
+   */
+  private load(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = this.store.read().then((stored) => {
+        this.entries = stored.map((raw: any) => ({
+          ...raw,
+          recordedAt: new Date(raw.recordedAt),
+        }));
+      });
+    }
+    return this.loaded;
+  }
+}
+
+/**
+ * Create the audit log configured through the environment
+ * MODERATION_AUDIT_STORAGE is "file" (default) or "memory"
+ */
+export function createModerationAuditLog(): ModerationAuditLog {
+  const filePath = getStoragePath('moderationAudit');
+  return filePath ? new FileModerationAuditLog(filePath) : new InMemoryModerationAuditLog();
+}
@@ -0,0 +1,81 @@
+import { getStoragePath } from '../config/storage';
+import type { SyncedPreferences } from '../types';
+import { JsonFileStore } from './jsonFile.store';
+
+interface StoredPreferences extends SyncedPreferences {
+  userId: string;
+}
+
+/**
+ * Storage abstraction for per-user synced preferences
+ */
+export interface PreferencesRepository {
+  get(userId: string): Promise<SyncedPreferences | null>;
+  save(userId: string, preferences: SyncedPreferences): Promise<SyncedPreferences>;
+}
+
+/**
+ * In-memory preferences repository, used for tests and ephemeral deployments
+ */
+export class InMemoryPreferencesRepository implements PreferencesRepository {
+  protected preferences = new Map<string, SyncedPreferences>();
+
+  async get(userId: string): Promise<SyncedPreferences | null> {
+    return this.preferences.get(userId) || null;
+  }
+
+  async save(userId: string, preferences: SyncedPreferences): Promise<SyncedPreferences> {
+    this.preferences.set(userId, preferences);
+    return preferences;
+  }
+}
+
+/**
+ * File-backed preferences repository
+ */
+export class FilePreferencesRepository extends InMemoryPreferencesRepository {
+  private readonly store: JsonFileStore<StoredPreferences>;
+  private loaded: Promise<void> | null = null;
+
+  constructor(filePath: string) {
+    super();
+    this.store = new JsonFileStore(filePath);
+  }
+
+  async get(userId: string): Promise<SyncedPreferences | null> {
+    await this.load();
+    return super.get(userId);
+  }
+
+  async save(userId: string, preferences: SyncedPreferences): Promise<SyncedPreferences> {
+    await this.load();
+    await super.save(userId, preferences);
+    await this.store.write(
+      Array.from(this.preferences.entries()).map(([id, stored]) => ({ userId: id, ...stored }))
+    );
+    return preferences;
+  }
+
+  /**
+   * Load preferences from disk once, lazily
+   */
+  private load(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = this.store.read().then((stored) => {
+        stored.forEach(({ userId, data, updatedAt }) => {
+          this.preferences.set(userId, { data, updatedAt: new Date(updatedAt) });
+        });
+      });
+    }
+    return this.loaded;
+  }
+}
+
+/**
+ * Create the repository configured through the environment
+ * Follows USER_STORAGE, since preferences only exist for registered users
+ */
+export function createPreferencesRepository(): PreferencesRepository {
+  const filePath = getStoragePath('preferences');
+  return filePath ? new FilePreferencesRepository(filePath) : new InMemoryPreferencesRepository();
+}
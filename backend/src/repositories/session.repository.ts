@@ -0,0 +1,242 @@
+import { getStoragePath } from '../config/storage';
+import { AppError } from '../middleware/errorHandler';
+import type {
+  SessionHistoryPage,
+  SessionHistoryQuery,
+  SessionSortField,
+  SessionSummary,
+  UserSession,
+} from '../types';
+import { JsonFileStore } from './jsonFile.store';
+
+/**
+ * Storage abstraction for typing sessions
+ */
+export interface SessionRepository {
+  save(session: UserSession): Promise<UserSession>;
+  findById(sessionId: string): Promise<UserSession | null>;
+  findAll(): Promise<UserSession[]>;
+  query(query: SessionHistoryQuery): Promise<SessionHistoryPage>;
+}
+
+/**
+ * Revive date fields lost during JSON serialization
+ */
+function reviveSession(raw: any): UserSession {
+  return {
+    ...raw,
+    startTime: new Date(raw.startTime),
+    endTime: raw.endTime ? new Date(raw.endTime) : undefined,
+    updatedAt: raw.updatedAt ? new Date(raw.updatedAt) : undefined,
+    userProgress: {
+      ...raw.userProgress,
+      errors: (raw.userProgress?.errors || []).map((error: any) => ({
+        ...error,
+        timestamp: new Date(error.timestamp),
+      })),
+    },
+  };
+}
+
+/**
+ * Value a session is ordered by for the given sort field
+ */
+function getSortValue(session: UserSession, field: SessionSortField): number {
+  switch (field) {
+    case 'wpm':
+      return session.metrics.wpm;
+    case 'accuracy':
+      return session.metrics.accuracy;
+    case 'duration':
+      return session.metrics.timeElapsed;
+    default:
+      return session.startTime.getTime();
+  }
+}
+
+function matchesFilters(session: UserSession, query: SessionHistoryQuery): boolean {
+  // Guests can't be told apart, so guest sessions are never listed
+  if (query.userId === undefined || session.userId !== query.userId) {
+    return false;
+  }
+  if (query.theme && !session.theme.toLowerCase().includes(query.theme.toLowerCase())) {
+    return false;
+  }
+  if (query.keyboardLayout && session.keyboardLayout !== query.keyboardLayout) {
+    return false;
+  }
+  if (query.from && session.startTime < query.from) {
+    return false;
+  }
+  if (query.to && session.startTime > query.to) {
+    return false;
+  }
+  if (query.minAccuracy !== undefined && session.metrics.accuracy < query.minAccuracy) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Compare two sessions by sort value, using the session id as a stable tiebreaker
+ */
+function compareSessions(
+  a: { value: number; sessionId: string },
+  b: { value: number; sessionId: string },
+  order: 'asc' | 'desc'
+): number {
+  const comparison = a.value - b.value || a.sessionId.localeCompare(b.sessionId);
+  return order === 'asc' ? comparison : -comparison;
+}
+
+/**
+ * Cursors are opaque to clients: the sort field, sort value and id of the last item returned
+ */
+function encodeCursor(field: SessionSortField, session: UserSession): string {
+  const payload = [field, getSortValue(session, field), session.sessionId];
+  return Buffer.from(JSON.stringify(payload)).toString('base64url');
+}
+
+function decodeCursor(
+  cursor: string,
+  field: SessionSortField
+): { value: number; sessionId: string } {
+  try {
+    const [cursorField, value, sessionId] = JSON.parse(
+      Buffer.from(cursor, 'base64url').toString('utf-8')
+    );
+    if (cursorField === field && typeof value === 'number' && typeof sessionId === 'string') {
+      return { value, sessionId };
+    }
+  } catch {
+    // Fall through to the error below
+  }
+  throw new AppError('Invalid or expired cursor for this sort order', 400);
+}
+
+export function toSessionSummary(session: UserSession): SessionSummary {
+  return {
+    sessionId: session.sessionId,
+    theme: session.theme,
+    date: session.startTime,
+    wpm: session.metrics.wpm,
+    accuracy: session.metrics.accuracy,
+    duration: session.metrics.timeElapsed,
+    errorCount: session.metrics.errorCount,
+    keyboardLayout: session.keyboardLayout,
+    updatedAt: session.updatedAt,
+  };
+}
+
+/**
+ * In-memory session repository, used for tests and ephemeral deployments
+ */
+export class InMemorySessionRepository implements SessionRepository {
+  protected sessions = new Map<string, UserSession>();
+
+  async save(session: UserSession): Promise<UserSession> {
+    this.sessions.set(session.sessionId, session);
+    return session;
+  }
+
+  async findById(sessionId: string): Promise<UserSession | null> {
+    return this.sessions.get(sessionId) || null;
+  }
+
+  async findAll(): Promise<UserSession[]> {
+    return Array.from(this.sessions.values());
+  }
+
+  async query(query: SessionHistoryQuery): Promise<SessionHistoryPage> {
+    const after = query.cursor ? decodeCursor(query.cursor, query.sortBy) : null;
+    const keyed = (session: UserSession) => ({
+      value: getSortValue(session, query.sortBy),
+      sessionId: session.sessionId,
+    });
+
+    const matching = Array.from(this.sessions.values())
+      .filter((session) => matchesFilters(session, query))
+      .filter((session) => !after || compareSessions(keyed(session), after, query.order) > 0)
+      .sort((a, b) => compareSessions(keyed(a), keyed(b), query.order));
+
+    const page = matching.slice(0, query.limit);
+    const hasMore = matching.length > query.limit;
+
+    return {
+      sessions: page.map(toSessionSummary),
+      nextCursor: hasMore ? encodeCursor(query.sortBy, page[page.length - 1]) : null,
+    };
+  }
+}
+
+/**
+ * File-backed session repository
+ * Keeps all sessions in a single JSON document, written atomically on every save
+ */
+export class FileSessionRepository extends InMemorySessionRepository {
+  private readonly store: JsonFileStore<UserSession>;
+  private loaded: Promise<void> | null = null;
+
+  constructor(filePath: string) {
+    super();
+    this.store = new JsonFileStore(filePath);
+  }
+
+  async save(session: UserSession): Promise<UserSession> {
+    await this.load();
+    await super.save(session);
+    await this.store.write(Array.from(this.sessions.values()));
+    return session;
+  }
+
+  async findById(sessionId: string): Promise<UserSession | null> {
+    await this.load();
+    return super.findById(sessionId);
+  }
+
+  async findAll(): Promise<UserSession[]> {
+    await this.load();
+    return super.findAll();
+  }
+
+  async query(query: SessionHistoryQuery): Promise<SessionHistoryPage> {
+    await this.load();
+    return super.query(query);
+  }
+
+  /**
+   * Load sessions from disk once, lazily
+   */
+  private load(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = this.store.read().then((stored) => {
+        stored.forEach((item) => {
+          const session = reviveSession(item);
+          this.sessions.set(session.sessionId, session);
+        });
+      });
+    }
+    return this.loaded;
+  }
+}
+
+/**
+ * Create the repository configured through the environment
+ * METRICS_STORAGE=memory keeps sessions in memory only
+ */
+export function createSessionRepository(): SessionRepository {
+  const filePath = getStoragePath('sessions');
+  return filePath ? new FileSessionRepository(filePath) : new InMemorySessionRepository();
+}
+
+let sharedSessionRepository: SessionRepository | null = null;
+
+/**
+ * Shared instance so every service reads and writes through the same cache
+ */
+export function getSessionRepository(): SessionRepository {
+  if (!sharedSessionRepository) {
+    sharedSessionRepository = createSessionRepository();
+  }
+  return sharedSessionRepository;
+}
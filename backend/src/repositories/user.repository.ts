@@ -0,0 +1,92 @@
+import { getStoragePath } from '../config/storage';
+import type { User } from '../types';
+import { JsonFileStore } from './jsonFile.store';
+
+/**
+ * Storage abstraction for user accounts
+ */
+export interface UserRepository {
+  create(user: User): Promise<User>;
+  findById(id: string): Promise<User | null>;
+  findByUsername(username: string): Promise<User | null>;
+}
+
+/**
+ * In-memory user repository, used for tests and ephemeral deployments
+ * Usernames are matched case-insensitively
+ */
+export class InMemoryUserRepository implements UserRepository {
+  protected users = new Map<string, User>();
+
+  async create(user: User): Promise<User> {
+    this.users.set(user.id, user);
+    return user;
+  }
+
+  async findById(id: string): Promise<User | null> {
+    return this.users.get(id) || null;
+  }
+
+  async findByUsername(username: string): Promise<User | null> {
+    const normalized = username.toLowerCase();
+    for (const user of this.users.values()) {
+      if (user.username.toLowerCase() === normalized) {
+        return user;
+      }
+    }
+    return null;
+  }
+}
+
+/**
+ * File-backed user repository
+ */
+export class FileUserRepository extends InMemoryUserRepository {
+  private readonly store: JsonFileStore<User>;
+  private loaded: Promise<void> | null = null;
+
+  constructor(filePath: string) {
+    super();
+    this.store = new JsonFileStore(filePath);
+  }
+
+  async create(user: User): Promise<User> {
+    await this.load();
+    await super.create(user);
+    await this.store.write(Array.from(this.users.values()));
+    return user;
+  }
+
+  async findById(id: string): Promise<User | null> {
+    await this.load();
+    return super.findById(id);
+  }
+
+  async findByUsername(username: string): Promise<User | null> {
+    await this.load();
+    return super.findByUsername(username);
+  }
+
+  /**
+   * Load users from disk once, lazily
+   */
+  private load(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = this.store.read().then((stored) => {
+        stored.forEach((user) => {
+          this.users.set(user.id, { ...user, createdAt: new Date(user.createdAt) });
+        });
+      });
+    }
+    return this.loaded;
+  }
+}
+
+/**
+ * Create the repository configured through the environment
+ * USER_STORAGE=memory keeps accounts in memory only
+ */
+export function createUserRepository(): UserRepository {
+  const filePath = getStoragePath('users');
+  return filePath ? new FileUserRepository(filePath) : new InMemoryUserRepository();
+}
@@ -0,0 +1,28 @@
+import { Router } from 'express';
+import { requireAdmin } from '../middleware/auth';
+import { handle } from '../middleware/validation';
+import { ADMIN_ROUTES } from '../schemas/admin.schemas';
+import { getUsageService } from '../services/usage.service';
+
+const router: Router = Router();
+const { routes } = ADMIN_ROUTES;
+
+router.use(requireAdmin);
+
+/**
+ * GET /api/admin/usage
+ * AI token usage and spend, in total and per day, provider and user, with budget status
+ */
+router.get(
+  routes.usage.path,
+  ...handle(routes.usage, async (req, res) => {
+    const report = await getUsageService().getReport(req.query.from, req.query.to);
+
+    res.json({
+      success: true,
+      data: report,
+    });
+  })
+);
+
+export default router;
@@ -0,0 +1,57 @@
+import { type Request, type Response, Router } from 'express';
+import { requireAuth } from '../middleware/auth';
+import { handle } from '../middleware/validation';
+import { AUTH_ROUTES } from '../schemas/auth.schemas';
+import { getAuthService } from '../services/auth.service';
+
+const router: Router = Router();
+const { routes } = AUTH_ROUTES;
+
+/**
+ * POST /api/auth/register
+ * Create an account and return a session token
+ */
+router.post(
+  routes.register.path,
+  ...handle(routes.register, async (req, res) => {
+    const { username, password } = req.body;
+
+    const result = await getAuthService().register(username, password);
+
+    res.status(201).json({
+      success: true,
+      data: result,
+    });
+  })
+);
+
+/**
+ * POST /api/auth/login
+ * Exchange credentials for a session token
+ */
+router.post(
+  routes.login.path,
+  ...handle(routes.login, async (req, res) => {
+    const { username, password } = req.body;
+
+    const result = await getAuthService().login(username, password);
+
+    res.json({
+      success: true,
+      data: result,
+    });
+  })
+);
+
+/**
+ * GET /api/auth/me
+ * Return the authenticated user
+ */
+router.get(routes.me.path, requireAuth, (req: Request, res: Response) => {
+  res.json({
+    success: true,
+    data: req.user,
+  });
+});
+
+export default router;
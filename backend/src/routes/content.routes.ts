@@ -1,34 +1,51 @@
-import { type Request, type Response, Router } from 'express';
-import { asyncHandler } from '../middleware/errorHandler';
-import { validateContentRequest } from '../middleware/validation';
-import { ContentService, type GeneratedContent } from '../services/content.service';
+import express, { type Response, Router } from 'express';
+import { handle, readTextUpload } from '../middleware/validation';
+import { CONTENT_ROUTES } from '../schemas/content.schemas';
+import { ContentService } from '../services/content.service';
+import { logger } from '../utils/logger';
 
 const router: Router = Router();
 const contentService = new ContentService();
+const { routes } = CONTENT_ROUTES;
 
 /**
  * POST /api/content/generate
  * Generate content based on theme using AI
+ * With passageLength, the text is also split into an ordered lesson of passages
  */
 router.post(
-  '/generate',
-  validateContentRequest,
-  asyncHandler(async (req: Request, res: Response): Promise<void> => {
-    const { theme, length = 300, source = 'combined', language = 'en' } = req.body;
-
-    let content: GeneratedContent;
-
-    switch (source) {
-      case 'ai':
-        content = await contentService.generateAIContent(theme, length);
-        break;
-      case 'wikipedia':
-        content = await contentService.fetchWikipediaContent(theme, language);
-        break;
-      default:
-        content = await contentService.generateCombinedContent(theme, length, language);
-        break;
-    }
+  routes.generate.path,
+  ...handle(routes.generate, async (req, res) => {
+    const {
+      theme,
+      length,
+      source,
+      language,
+      seed,
+      difficulty,
+      section,
+      afterSection,
+      article,
+      passageLength,
+      codeLanguage,
+    } = req.body;
+
+    const content = await contentService.generateContent(
+      {
+        theme,
+        length,
+        source,
+        language,
+        seed,
+        difficulty,
+        section,
+        afterSection,
+        article,
+        passageLength,
+        codeLanguage,
+      },
+      req.user?.id
+    );
 
     res.json({
       success: true,
@@ -37,22 +54,179 @@ router.post(
   })
 );
 
+/**
+ * Write one Server-Sent Event
+ */
+const writeEvent = (res: Response, event: string, data: unknown): void => {
+  res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+};
+
+/**
+ * POST /api/content/generate/stream
+ * Streaming variant of /generate: emits "token" events with text as it is produced,
+ * then a "done" event with the final content, or an "error" event on failure
+ */
+router.post(
+  routes.generateStream.path,
+  ...handle(routes.generateStream, async (req, res) => {
+    const {
+      theme,
+      length,
+      source,
+      language,
+      seed,
+      difficulty,
+      section,
+      afterSection,
+      article,
+      passageLength,
+      codeLanguage,
+    } = req.body;
+
+    // A client that disconnects stops the generation, so no more tokens are paid for
+    const abort = new AbortController();
+    res.on('close', () => abort.abort());
+
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    });
+
+    try {
+      const content = await contentService.streamContent(
+        {
+          theme,
+          length,
+          source,
+          language,
+          seed,
+          difficulty,
+          section,
+          afterSection,
+          article,
+          passageLength,
+          codeLanguage,
+        },
+        (chunk) => {
+          if (!abort.signal.aborted) writeEvent(res, 'token', { text: chunk });
+        },
+        req.user?.id,
+        abort.signal
+      );
+      if (!abort.signal.aborted) writeEvent(res, 'done', { success: true, data: content });
+    } catch (error: any) {
+      // Once the client is gone there is nobody to report to, and the abort is expected
+      if (!abort.signal.aborted) {
+        if (!error.statusCode || error.statusCode === 500) {
+          logger.error('Content stream failed', { error });
+        }
+        writeEvent(res, 'error', {
+          error: error.message || 'Internal Server Error',
+          ...(error.details && { details: error.details }),
+        });
+      }
+    }
+
+    res.end();
+  })
+);
+
 /**
  * GET /api/content/wikipedia/:theme
  * Fetch Wikipedia content for a theme
  */
 router.get(
-  '/wikipedia/:theme',
-  asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  routes.wikipedia.path,
+  ...handle(routes.wikipedia, async (req, res) => {
     const { theme } = req.params;
-    const { language = 'en' } = req.query;
+    const { language } = req.query;
 
-    if (!theme) {
-      res.status(400).json({ error: 'Theme is required' });
-      return;
-    }
+    const content = await contentService.generateContent({
+      theme,
+      source: 'wikipedia',
+      language,
+    });
+
+    res.json({
+      success: true,
+      data: content,
+    });
+  })
+);
+
+/**
+ * GET /api/content/wikipedia/:theme/search
+ * Candidate articles for a theme with their descriptions; "ambiguous" is set when a
+ * candidate is a disambiguation page, so clients can ask the user to pick an article
+ */
+router.get(
+  routes.wikipediaSearch.path,
+  ...handle(routes.wikipediaSearch, async (req, res) => {
+    const { theme } = req.params;
+    const { language } = req.query;
+
+    const results = await contentService.searchWikipedia(theme, language);
 
-    const content = await contentService.fetchWikipediaContent(theme, language as 'en' | 'pt');
+    res.json({
+      success: true,
+      data: results,
+    });
+  })
+);
+
+/**
+ * GET /api/content/wikipedia/:theme/sections
+ * List the sections of the Wikipedia article for a theme; pass ?article= to pin a title
+ */
+router.get(
+  routes.wikipediaSections.path,
+  ...handle(routes.wikipediaSections, async (req, res) => {
+    const { theme } = req.params;
+    const { language, article } = req.query;
+
+    const sections = await contentService.listWikipediaSections(theme, language, article);
+
+    res.json({
+      success: true,
+      data: sections,
+    });
+  })
+);
+
+/**
+ * POST /api/content/custom
+ * Save a user-supplied text for practice, sent as JSON { text, title, language, format }
+ * or uploaded as a raw text/plain or text/markdown body (?title=&language=&fileName=)
+ */
+router.post(
+  routes.saveCustom.path,
+  express.text({ type: routes.saveCustom.bodyTypes, limit: '1mb' }),
+  readTextUpload,
+  ...handle(routes.saveCustom, async (req, res) => {
+    const { text, title, language, format, fileName } = req.body;
+
+    const content = await contentService.saveCustomContent(
+      { text, title, language, format, fileName },
+      req.user?.id
+    );
+
+    res.status(201).json({
+      success: true,
+      data: content,
+    });
+  })
+);
+
+/**
+ * GET /api/content/custom/:id
+ * Get a saved custom text
+ */
+router.get(
+  routes.getCustom.path,
+  ...handle(routes.getCustom, async (req, res) => {
+    const content = await contentService.getCustomContent(req.params.id, req.user?.id);
 
     res.json({
       success: true,
@@ -66,12 +240,14 @@ router.get(
  * Generate content using AI only
  */
 router.post(
-  '/ai',
-  validateContentRequest,
-  asyncHandler(async (req: Request, res: Response) => {
-    const { theme, length = 300 } = req.body;
+  routes.ai.path,
+  ...handle(routes.ai, async (req, res) => {
+    const { theme, length, language } = req.body;
 
-    const content = await contentService.generateAIContent(theme, length);
+    const content = await contentService.generateContent(
+      { theme, length, source: 'ai', language },
+      req.user?.id
+    );
 
     res.json({
       success: true,
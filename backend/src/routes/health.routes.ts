@@ -0,0 +1,37 @@
+import { type Request, type Response, Router } from 'express';
+import { asyncHandler } from '../middleware/errorHandler';
+import { HealthService } from '../services/health.service';
+
+const router: Router = Router();
+const healthService = new HealthService();
+
+/**
+ * GET /health
+ * Liveness: the process is up and serving requests
+ */
+router.get('/', (_req: Request, res: Response) => {
+  res.json({
+    status: 'OK',
+    timestamp: new Date().toISOString(),
+    service: 'Typing Study API',
+  });
+});
+
+/**
+ * GET /health/ready
+ * Readiness: the status of each dependency and which content sources are available
+ * Responds 503 when data cannot be stored; unavailable AI or Wikipedia only degrade it
+ */
+router.get(
+  '/ready',
+  asyncHandler(async (_req: Request, res: Response): Promise<void> => {
+    const report = await healthService.getReadiness();
+
+    res.status(report.status === 'unavailable' ? 503 : 200).json({
+      success: report.status !== 'unavailable',
+      data: report,
+    });
+  })
+);
+
+export default router;
@@ -1,50 +1,62 @@
-import { type Request, type Response, Router } from 'express';
+import { Router } from 'express';
+import { requireAuth } from '../middleware/auth';
+import { handle } from '../middleware/validation';
+import { METRICS_ROUTES } from '../schemas/metrics.schemas';
+import { MetricsService } from '../services/metrics.service';
 
 const router: Router = Router();
+const metricsService = new MetricsService();
+const { routes } = METRICS_ROUTES;
 
 /**
  * POST /api/metrics/session
  * Save session metrics
  */
-router.post('/session', async (req: Request, res: Response) => {
-  try {
-    const { sessionId, theme, wpm, accuracy, errors } = req.body;
+router.post(
+  routes.saveSession.path,
+  ...handle(routes.saveSession, async (req, res) => {
+    const session = await metricsService.saveSession(req.body, req.user?.id);
 
-    if (!sessionId) {
-      return res.status(400).json({ error: 'Session ID is required' });
-    }
+    res.status(201).json({
+      success: true,
+      data: session,
+    });
+  })
+);
+
+/**
+ * GET /api/metrics/session/:sessionId
+ * Get a stored session of the signed-in user
+ */
+router.get(
+  routes.getSession.path,
+  requireAuth,
+  ...handle(routes.getSession, async (req, res) => {
+    const session = await metricsService.getSession(req.params.sessionId, req.user?.id);
 
-    // Placeholder - metrics storage will be implemented later
     res.json({
-      message: 'Session metrics saved',
-      sessionId,
-      theme,
-      wpm,
-      accuracy,
-      errorCount: errors?.length || 0,
+      success: true,
+      data: session,
     });
-  } catch (_error) {
-    res.status(500).json({ error: 'Failed to save session metrics' });
-  }
-});
+  })
+);
 
 /**
  * GET /api/metrics/history
- * Get user's session history
+ * Get the signed-in user's session history
+ * Query: theme, keyboardLayout, from, to, minAccuracy, sortBy, order, limit, cursor
  */
-router.get('/history', async (req: Request, res: Response) => {
-  try {
-    const { limit = 10 } = req.query;
+router.get(
+  routes.history.path,
+  requireAuth,
+  ...handle(routes.history, async (req, res) => {
+    const page = await metricsService.getHistory({ ...req.query, userId: req.user?.id });
 
-    // Placeholder - will return actual history later
     res.json({
-      message: 'Session history endpoint',
-      sessions: [],
-      limit: Number(limit),
+      success: true,
+      data: page,
     });
-  } catch (_error) {
-    res.status(500).json({ error: 'Failed to fetch session history' });
-  }
-});
+  })
+);
 
 export default router;
@@ -0,0 +1,46 @@
+import { Router } from 'express';
+import { requireAuth } from '../middleware/auth';
+import { handle } from '../middleware/validation';
+import { SYNC_ROUTES } from '../schemas/sync.schemas';
+import { SyncService } from '../services/sync.service';
+
+const router: Router = Router();
+const syncService = new SyncService();
+const { routes } = SYNC_ROUTES;
+
+// Sync is tied to an account; guests keep their data in the browser only
+router.use(requireAuth);
+
+/**
+ * POST /api/sync/push
+ * Upload new local sessions and preference changes
+ */
+router.post(
+  routes.push.path,
+  ...handle(routes.push, async (req, res) => {
+    const result = await syncService.push(req.user?.id as string, req.body);
+
+    res.json({
+      success: true,
+      data: result,
+    });
+  })
+);
+
+/**
+ * GET /api/sync/pull?since=<ISO date>
+ * Download sessions recorded since the last pull and the current preferences
+ */
+router.get(
+  routes.pull.path,
+  ...handle(routes.pull, async (req, res) => {
+    const result = await syncService.pull(req.user?.id as string, req.query.since);
+
+    res.json({
+      success: true,
+      data: result,
+    });
+  })
+);
+
+export default router;
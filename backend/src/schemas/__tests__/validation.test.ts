@@ -0,0 +1,120 @@
+import type { Request, Response } from 'express';
+import { ValidationError } from '../../middleware/errorHandler';
+import { validateRequest } from '../../middleware/validation';
+import { CONTENT_ROUTES } from '../content.schemas';
+import { METRICS_ROUTES } from '../metrics.schemas';
+import type { RouteSpec } from '../route';
+
+/**
+ * Run a route's validation and return the parsed request or the thrown error
+ */
+const validate = (route: RouteSpec, input: Partial<Request>) => {
+  const req = { params: {}, query: {}, ...input } as Request;
+  const next = jest.fn();
+  try {
+    validateRequest(route)(req, {} as Response, next);
+  } catch (error) {
+    return { req, error: error as ValidationError };
+  }
+  expect(next).toHaveBeenCalled();
+  return { req, error: undefined };
+};
+
+describe('route schemas', () => {
+  const { generate, wikipedia, saveCustom } = CONTENT_ROUTES.routes;
+
+  describe('content generation', () => {
+    it('should accept a complete request', () => {
+      const { error } = validate(generate, {
+        body: {
+          theme: 'Revolução Francesa',
+          length: 300,
+          source: 'wikipedia',
+          language: 'pt',
+          section: 'next',
+          afterSection: 2,
+          difficulty: 40,
+          passageLength: 60,
+        },
+      });
+
+      expect(error).toBeUndefined();
+    });
+
+    it('should reject unknown sources and languages', () => {
+      const { error } = validate(generate, {
+        body: { theme: 'Rome', source: 'library', language: 'xx' },
+      });
+
+      expect(error).toBeInstanceOf(ValidationError);
+      expect(error?.statusCode).toBe(400);
+      expect(error?.details.map((detail) => detail.field)).toEqual([
+        'body.source',
+        'body.language',
+      ]);
+    });
+
+    it('should reject themes with markup', () => {
+      const { error } = validate(generate, { body: { theme: '<script>' } });
+
+      expect(error?.details).toEqual([
+        {
+          field: 'body.theme',
+          message: '"theme" must contain only letters, digits, spaces and - . , ! ? ( )',
+        },
+      ]);
+    });
+
+    it('should check rules spanning several fields', () => {
+      expect(
+        validate(generate, { body: { theme: 'Rome', source: 'ai', section: 1 } }).error?.message
+      ).toBe('Sections are only available for the wikipedia source');
+      expect(
+        validate(generate, { body: { theme: 'Rome', source: 'ai', codeLanguage: 'python' } }).error
+          ?.message
+      ).toBe('A code language can only be chosen for the code source');
+    });
+  });
+
+  it('should validate path parameters and apply query defaults', () => {
+    const valid = validate(wikipedia, { params: { theme: 'Rome' } });
+    const invalid = validate(wikipedia, { params: { theme: 'Rome' }, query: { language: 'xx' } });
+
+    expect(valid.req.query).toEqual({ language: 'en' });
+    expect(invalid.error?.details[0].field).toBe('query.language');
+  });
+
+  it('should accept a language for AI-only content', () => {
+    const { req, error } = validate(CONTENT_ROUTES.routes.ai, {
+      body: { theme: 'Vulcões', language: 'pt' },
+    });
+
+    expect(error).toBeUndefined();
+    expect(req.body).toEqual({ theme: 'Vulcões', language: 'pt' });
+  });
+
+  it('should validate custom texts with their details', () => {
+    const { error } = validate(saveCustom, {
+      body: { text: 'Some text', fileName: 'notes.pdf', format: 'html' },
+    });
+
+    expect(error?.details).toEqual([
+      { field: 'body.format', message: '"format" must be one of text, markdown' },
+      { field: 'body.fileName', message: 'Only .txt and .md files can be uploaded' },
+    ]);
+  });
+
+  it('should parse history queries into typed values', () => {
+    const { req } = validate(METRICS_ROUTES.routes.history, {
+      query: { minAccuracy: '90', limit: '5', from: '2024-01-01' },
+    });
+
+    expect(req.query).toEqual({
+      minAccuracy: 90,
+      limit: 5,
+      from: new Date('2024-01-01'),
+      sortBy: 'date',
+      order: 'desc',
+    });
+  });
+});
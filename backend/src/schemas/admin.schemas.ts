@@ -0,0 +1,31 @@
+import { s } from '../utils/schema';
+import { defineRoutes } from './route';
+
+export const ADMIN_ROUTES = defineRoutes({
+  prefix: '/api/admin',
+  tag: 'Admin',
+  routes: {
+    usage: {
+      method: 'get',
+      path: '/usage',
+      summary: 'Report AI token usage and spend per day, provider and user',
+      description: 'Only for users listed in ADMIN_USERNAMES',
+      auth: 'required',
+      query: s
+        .object({
+          from: s.date().describe('Defaults to the start of the current month (UTC)').optional(),
+          to: s.date().describe('Defaults to now').optional(),
+        })
+        .refine(({ from, to }) =>
+          from && to && from > to
+            ? { field: 'to', message: '"to" must not be before "from"' }
+            : undefined
+        ),
+      responses: {
+        200: 'Usage totals and budget status',
+        401: 'Not signed in',
+        403: 'Not an administrator',
+      },
+    },
+  },
+});
@@ -0,0 +1,40 @@
+import { s } from '../utils/schema';
+import { defineRoutes } from './route';
+
+const credentialsSchema = () =>
+  s.object({
+    username: s
+      .string({ pattern: /^[a-zA-Z0-9_.-]{3,32}$/ })
+      .message('Username must be 3-32 characters of letters, numbers, dots, dashes or underscores'),
+    password: s
+      .string({ min: 8, max: 128 })
+      .message('Password must be between 8 and 128 characters'),
+  });
+
+export const AUTH_ROUTES = defineRoutes({
+  prefix: '/api/auth',
+  tag: 'Auth',
+  routes: {
+    register: {
+      method: 'post',
+      path: '/register',
+      summary: 'Create an account and return a session token',
+      body: credentialsSchema(),
+      responses: { 201: 'Account and token', 409: 'Username is taken' },
+    },
+    login: {
+      method: 'post',
+      path: '/login',
+      summary: 'Exchange credentials for a session token',
+      body: credentialsSchema(),
+      responses: { 200: 'Account and token', 401: 'Invalid credentials' },
+    },
+    me: {
+      method: 'get',
+      path: '/me',
+      summary: 'Return the authenticated user',
+      auth: 'required',
+      responses: { 200: 'Authenticated user', 401: 'Authentication required' },
+    },
+  },
+});
@@ -0,0 +1,31 @@
+import { SUPPORTED_LANGUAGES } from '../config/languages';
+import type { KeyboardLayoutType } from '../types';
+import { DIFFICULTY_LEVELS } from '../utils/difficulty';
+import { s } from '../utils/schema';
+import { THEME_PATTERN } from '../utils/validation';
+
+/**
+ * Field schemas shared by several routes
+ */
+
+export const themeSchema = () =>
+  s
+    .string({
+      min: 1,
+      max: 100,
+      pattern: THEME_PATTERN,
+      format: 'letters, digits, spaces and - . , ! ? ( )',
+    })
+    .describe('Topic of the text, in any script');
+
+export const languageSchema = () => s.enum(SUPPORTED_LANGUAGES).describe('Content language code');
+
+export const difficultySchema = () =>
+  s
+    .union(s.enum(DIFFICULTY_LEVELS), s.number({ min: 0, max: 100 }))
+    .message('Difficulty must be "easy", "medium", "hard" or a score from 0 to 100')
+    .describe('Difficulty level, or a readability score target from 0 to 100');
+
+export const KEYBOARD_LAYOUTS: KeyboardLayoutType[] = ['QWERTY', 'DVORAK', 'AZERTY'];
+
+export const keyboardLayoutSchema = () => s.enum(KEYBOARD_LAYOUTS);
@@ -0,0 +1,174 @@
+import { CODE_LANGUAGES } from '../services/snippets.corpus';
+import { s } from '../utils/schema';
+import { difficultySchema, languageSchema, themeSchema } from './common';
+import { defineRoutes } from './route';
+
+// Sources /generate serves; custom texts are saved and fetched through /custom
+export const GENERATION_SOURCES = [
+  'ai',
+  'wikipedia',
+  'combined',
+  'offline',
+  'corpus',
+  'code',
+] as const;
+
+const MAX_CUSTOM_TEXT_LENGTH = 100_000;
+
+const sectionIndex = () => s.number({ integer: true, min: 0 });
+
+const contentRequestSchema = () =>
+  s
+    .object({
+      theme: themeSchema(),
+      length: s.number({ min: 100, max: 500 }).describe('Target length in words').optional(),
+      source: s.enum(GENERATION_SOURCES).describe('Defaults to combined').optional(),
+      language: languageSchema().optional(),
+      seed: s
+        .union(s.number(), s.string({ max: 64 }))
+        .message('Seed must be a number or a string of 64 characters or less')
+        .describe('Picks a different offline text or snippet for the same theme')
+        .optional(),
+      difficulty: difficultySchema().optional(),
+      section: s
+        .union(s.enum(['next'] as const), sectionIndex())
+        .message('Section must be a section index or "next"')
+        .describe('Wikipedia source only: section index, or "next" after afterSection')
+        .optional(),
+      afterSection: sectionIndex().optional(),
+      article: s.string({ min: 1, max: 256 }).describe('Exact Wikipedia article title').optional(),
+      passageLength: s
+        .number({ integer: true, min: 30, max: 300 })
+        .describe('Words per passage; splits the text into a lesson')
+        .optional(),
+      codeLanguage: s.enum(CODE_LANGUAGES).describe('Code source only').optional(),
+    })
+    .refine(({ source, article }) =>
+      article !== undefined &&
+      source !== undefined &&
+      source !== 'wikipedia' &&
+      source !== 'combined'
+        ? {
+            field: 'article',
+            message: 'An article can only be chosen for the wikipedia and combined sources',
+          }
+        : undefined
+    )
+    .refine(({ source, section }) =>
+      section !== undefined && source !== 'wikipedia'
+        ? { field: 'section', message: 'Sections are only available for the wikipedia source' }
+        : undefined
+    )
+    .refine(({ section, afterSection }) =>
+      afterSection !== undefined && section !== 'next'
+        ? { field: 'afterSection', message: '"afterSection" requires section "next"' }
+        : undefined
+    )
+    .refine(({ source, codeLanguage }) =>
+      codeLanguage !== undefined && source !== 'code'
+        ? {
+            field: 'codeLanguage',
+            message: 'A code language can only be chosen for the code source',
+          }
+        : undefined
+    );
+
+const wikipediaParams = () => s.object({ theme: themeSchema() });
+
+const languageQuery = () => s.object({ language: languageSchema().optional().default('en') });
+
+export const CONTENT_ROUTES = defineRoutes({
+  prefix: '/api/content',
+  tag: 'Content',
+  routes: {
+    generate: {
+      method: 'post',
+      path: '/generate',
+      summary: 'Generate practice content for a theme',
+      description: 'With passageLength, the text is also split into an ordered lesson of passages',
+      auth: 'optional',
+      body: contentRequestSchema(),
+      responses: { 200: 'Generated content', 422: 'Content was rejected by moderation' },
+    },
+    generateStream: {
+      method: 'post',
+      path: '/generate/stream',
+      summary: 'Generate practice content as Server-Sent Events',
+      description:
+        'Emits "token" events with text as it is produced, then "done" with the content or "error"',
+      auth: 'optional',
+      body: contentRequestSchema(),
+      responses: { 200: 'Event stream' },
+      stream: true,
+    },
+    wikipedia: {
+      method: 'get',
+      path: '/wikipedia/:theme',
+      summary: 'Fetch Wikipedia content for a theme',
+      params: wikipediaParams(),
+      query: languageQuery(),
+      responses: { 200: 'Wikipedia content', 404: 'No article found' },
+    },
+    wikipediaSearch: {
+      method: 'get',
+      path: '/wikipedia/:theme/search',
+      summary: 'Search Wikipedia articles for a theme',
+      description: '"ambiguous" is set when a candidate is a disambiguation page',
+      params: wikipediaParams(),
+      query: languageQuery(),
+      responses: { 200: 'Candidate articles' },
+    },
+    wikipediaSections: {
+      method: 'get',
+      path: '/wikipedia/:theme/sections',
+      summary: 'List the sections of the Wikipedia article for a theme',
+      params: wikipediaParams(),
+      query: s.object({
+        language: languageSchema().optional().default('en'),
+        article: s.string({ min: 1, max: 256 }).describe('Exact article title').optional(),
+      }),
+      responses: { 200: 'Article sections', 404: 'No article found' },
+    },
+    saveCustom: {
+      method: 'post',
+      path: '/custom',
+      summary: 'Save a text of your own for practice',
+      description:
+        'Send JSON, or upload a raw text/plain or text/markdown body with title, language and fileName in the query string',
+      auth: 'optional',
+      body: s.object({
+        text: s
+          .string({ min: 1, max: MAX_CUSTOM_TEXT_LENGTH })
+          .message('Text is required and must be 100,000 characters or less'),
+        title: s.string({ max: 100 }).optional(),
+        language: languageSchema().optional(),
+        format: s.enum(['text', 'markdown'] as const).optional(),
+        fileName: s
+          .string({ max: 255, pattern: /\.(txt|md)$/i, format: '.txt and .md file names' })
+          .message('Only .txt and .md files can be uploaded')
+          .optional(),
+      }),
+      bodyTypes: ['text/plain', 'text/markdown'],
+      responses: { 201: 'Saved content', 422: 'Text was rejected by moderation' },
+    },
+    getCustom: {
+      method: 'get',
+      path: '/custom/:id',
+      summary: 'Get a saved custom text',
+      auth: 'optional',
+      params: s.object({ id: s.string({ min: 1 }) }),
+      responses: { 200: 'Saved content', 404: 'Not found or saved by someone else' },
+    },
+    ai: {
+      method: 'post',
+      path: '/ai',
+      summary: 'Generate content using AI only',
+      body: s.object({
+        theme: themeSchema(),
+        length: s.number({ min: 100, max: 500 }).optional(),
+        language: languageSchema().optional(),
+      }),
+      responses: { 200: 'Generated content' },
+    },
+  },
+});
@@ -0,0 +1,19 @@
+import { ADMIN_ROUTES } from './admin.schemas';
+import { AUTH_ROUTES } from './auth.schemas';
+import { CONTENT_ROUTES } from './content.schemas';
+import { METRICS_ROUTES } from './metrics.schemas';
+import type { RouteGroup } from './route';
+import { SYNC_ROUTES } from './sync.schemas';
+
+export * from './route';
+
+/**
+ * Every documented route group, in the order the OpenAPI document lists them
+ */
+export const API_ROUTE_GROUPS: RouteGroup[] = [
+  CONTENT_ROUTES,
+  METRICS_ROUTES,
+  AUTH_ROUTES,
+  SYNC_ROUTES,
+  ADMIN_ROUTES,
+];
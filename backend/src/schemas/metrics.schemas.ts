@@ -0,0 +1,88 @@
+import type { SessionSortField } from '../types';
+import { s } from '../utils/schema';
+import { keyboardLayoutSchema } from './common';
+import { defineRoutes } from './route';
+
+const HISTORY_SORT_FIELDS: SessionSortField[] = ['date', 'wpm', 'accuracy', 'duration'];
+
+const positive = () => s.number({ min: 0 });
+
+const sessionMetricsSchema = () =>
+  s.object({
+    wpm: positive().message('WPM must be a positive number'),
+    accuracy: s.number({ min: 0, max: 100 }).message('Accuracy must be between 0 and 100'),
+    averageWPM: positive().optional(),
+    totalCharacters: positive().optional(),
+    correctCharacters: positive().optional(),
+    errorCount: positive().optional(),
+    timeElapsed: positive().describe('Seconds').optional(),
+    keystrokesPerMinute: positive().optional(),
+  });
+
+const typingErrorSchema = () =>
+  s.object({
+    position: positive(),
+    expectedChar: s.string(),
+    typedChar: s.string(),
+    timestamp: s.date(),
+    corrected: s.boolean().optional(),
+  });
+
+export const METRICS_ROUTES = defineRoutes({
+  prefix: '/api/metrics',
+  tag: 'Metrics',
+  routes: {
+    saveSession: {
+      method: 'post',
+      path: '/session',
+      summary: 'Save the metrics of a typing session',
+      auth: 'optional',
+      body: s.object({
+        sessionId: s.string({ min: 1 }).message('Valid session ID is required'),
+        theme: s.string({ min: 1 }).message('Valid theme is required'),
+        keyboardLayout: keyboardLayoutSchema().optional(),
+        startTime: s.date(),
+        endTime: s.date().nullable().optional(),
+        metrics: sessionMetricsSchema(),
+        userProgress: s
+          .object({
+            errors: s
+              .array(typingErrorSchema())
+              .message('Typing errors must include position, characters and timestamp')
+              .optional(),
+          })
+          .optional(),
+      }),
+      responses: { 201: 'Stored session', 404: 'Session recorded by someone else' },
+    },
+    getSession: {
+      method: 'get',
+      path: '/session/:sessionId',
+      summary: 'Get a stored session',
+      auth: 'required',
+      params: s.object({ sessionId: s.string({ min: 1 }) }),
+      responses: { 200: 'Stored session', 404: 'Not found or recorded by someone else' },
+    },
+    history: {
+      method: 'get',
+      path: '/history',
+      summary: 'List session history with filters, sorting and cursor pagination',
+      auth: 'required',
+      query: s.object({
+        theme: s.string({ max: 100 }).optional(),
+        keyboardLayout: keyboardLayoutSchema().optional(),
+        from: s.date().optional(),
+        to: s.date().optional(),
+        minAccuracy: s.number({ min: 0, max: 100, coerce: true }).optional(),
+        sortBy: s.enum(HISTORY_SORT_FIELDS).optional().default('date'),
+        order: s
+          .enum(['asc', 'desc'] as const)
+          .optional()
+          .default('desc'),
+        limit: s.number({ integer: true, min: 1, max: 100, coerce: true }).optional().default(10),
+        cursor: s.string().describe('nextCursor of the previous page').optional(),
+      }),
+      responses: { 200: 'One page of session summaries' },
+    },
+  },
+});
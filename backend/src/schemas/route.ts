@@ -0,0 +1,43 @@
+import type { Request } from 'express';
+import type { Infer, ObjectSchema, Schema } from '../utils/schema';
+
+/**
+ * Contract of one endpoint: the schemas that validate its input and the documentation
+ * the OpenAPI document is built from
+ */
+export interface RouteSpec {
+  method: 'get' | 'post';
+  path: string; // relative to the group prefix, in Express syntax (/custom/:id)
+  summary: string;
+  description?: string;
+  auth?: 'required' | 'optional'; // whether a Bearer token must or may be sent
+  params?: ObjectSchema<any>;
+  query?: ObjectSchema<any>;
+  body?: Schema<any>;
+  bodyTypes?: string[]; // media types accepted besides application/json
+  responses: Record<number, string>;
+  stream?: boolean; // responds with Server-Sent Events
+}
+
+/**
+ * Routes served by one router, mounted at prefix
+ */
+export interface RouteGroup<R extends Record<string, RouteSpec> = Record<string, RouteSpec>> {
+  prefix: string;
+  tag: string;
+  routes: R;
+}
+
+export const defineRoutes = <R extends Record<string, RouteSpec>>(group: RouteGroup<R>) => group;
+
+type InputOf<R, K extends string, Fallback> = R extends { [P in K]: infer S } ? Infer<S> : Fallback;
+
+/**
+ * Express request whose params, query and body have passed the route's schemas
+ */
+export type ValidatedRequest<R extends RouteSpec> = Request<
+  InputOf<R, 'params', Request['params']>,
+  unknown,
+  InputOf<R, 'body', unknown>,
+  InputOf<R, 'query', Request['query']>
+>;
@@ -0,0 +1,52 @@
+import { s } from '../utils/schema';
+import { keyboardLayoutSchema } from './common';
+import { defineRoutes } from './route';
+
+const MAX_PUSHED_SESSIONS = 500;
+
+const sessionSummarySchema = () =>
+  s.object({
+    sessionId: s.string(),
+    theme: s.string(),
+    keyboardLayout: keyboardLayoutSchema(),
+    date: s.date(),
+    wpm: s.number({ min: 0 }),
+    accuracy: s.number({ min: 0 }),
+    duration: s.number({ min: 0 }).describe('Seconds'),
+    errorCount: s.number({ min: 0 }),
+  });
+
+export const SYNC_ROUTES = defineRoutes({
+  prefix: '/api/sync',
+  tag: 'Sync',
+  routes: {
+    push: {
+      method: 'post',
+      path: '/push',
+      summary: 'Upload new local sessions and preference changes',
+      auth: 'required',
+      body: s.object({
+        sessions: s
+          .array(sessionSummarySchema(), MAX_PUSHED_SESSIONS)
+          .message(
+            `Sessions must be an array of at most ${MAX_PUSHED_SESSIONS} items, each with an id, theme, layout, date and metrics`
+          ),
+        preferences: s
+          .object({ data: s.object({}), updatedAt: s.date() })
+          .message('Preferences must include a data object and an updatedAt date')
+          .optional(),
+      }),
+      responses: { 200: 'Sessions accepted and the resolved preferences' },
+    },
+    pull: {
+      method: 'get',
+      path: '/pull',
+      summary: 'Download sessions recorded since the last pull and the current preferences',
+      auth: 'required',
+      query: s.object({
+        since: s.date().describe('Time of the previous pull').optional(),
+      }),
+      responses: { 200: 'Remote sessions and preferences' },
+    },
+  },
+});
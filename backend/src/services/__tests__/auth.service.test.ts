@@ -0,0 +1,107 @@
+import { InMemoryUserRepository } from '../../repositories/user.repository';
+import { AuthService } from '../auth.service';
+
+describe('AuthService', () => {
+  const originalEnv = process.env;
+  let authService: AuthService;
+
+  beforeEach(() => {
+    process.env = { ...originalEnv, AUTH_TOKEN_SECRET: 'test-secret' };
+    authService = new AuthService(new InMemoryUserRepository());
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+    jest.restoreAllMocks();
+  });
+
+  describe('register', () => {
+    it('should create an account and return a token without the password hash', async () => {
+      const result = await authService.register('ada', 'correct-horse');
+
+      expect(result.user.username).toBe('ada');
+      expect(result.user.id).toMatch(/^user_/);
+      expect(result.user).not.toHaveProperty('passwordHash');
+      expect(result.token.split('.')).toHaveLength(2);
+      expect(result.expiresAt.getTime()).toBeGreaterThan(Date.now());
+    });
+
+    it('should reject duplicate usernames regardless of case', async () => {
+      await authService.register('ada', 'correct-horse');
+
+      await expect(authService.register('ADA', 'another-pass')).rejects.toMatchObject({
+        statusCode: 409,
+      });
+    });
+  });
+
+  describe('login', () => {
+    beforeEach(async () => {
+      await authService.register('grace', 'battery-staple');
+    });
+
+    it('should issue a token for valid credentials', async () => {
+      const result = await authService.login('grace', 'battery-staple');
+
+      await expect(authService.authenticate(result.token)).resolves.toMatchObject({
+        username: 'grace',
+      });
+    });
+
+    it('should reject a wrong password', async () => {
+      await expect(authService.login('grace', 'wrong-password')).rejects.toMatchObject({
+        statusCode: 401,
+      });
+    });
+
+    it('should reject an unknown user', async () => {
+      await expect(authService.login('nobody', 'battery-staple')).rejects.toThrow(
+        'Invalid username or password'
+      );
+    });
+  });
+
+  describe('authenticate', () => {
+    it('should reject tampered tokens', async () => {
+      const { token } = await authService.register('linus', 'penguin-power');
+      const [payload, signature] = token.split('.');
+      const forged = Buffer.from(
+        JSON.stringify({ ...JSON.parse(Buffer.from(payload, 'base64url').toString()), sub: 'x' })
+      ).toString('base64url');
+
+      await expect(authService.authenticate(`${forged}.${signature}`)).rejects.toMatchObject({
+        statusCode: 401,
+      });
+      await expect(authService.authenticate('not-a-token')).rejects.toMatchObject({
+        statusCode: 401,
+      });
+    });
+
+    it('should reject tokens signed with another secret', async () => {
+      const { token } = await authService.register('linus', 'penguin-power');
+      process.env.AUTH_TOKEN_SECRET = 'other-secret';
+      const otherService = new AuthService(new InMemoryUserRepository());
+
+      await expect(otherService.authenticate(token)).rejects.toThrow('Invalid or expired token');
+    });
+
+    it('should reject expired tokens', async () => {
+      const { token } = await authService.register('linus', 'penguin-power');
+      jest.spyOn(Date, 'now').mockReturnValue(Date.now() + 8 * 24 * 60 * 60 * 1000);
+
+      await expect(authService.authenticate(token)).rejects.toThrow('Invalid or expired token');
+    });
+  });
+
+  describe('password hashing', () => {
+    it('should salt hashes and verify them', async () => {
+      const first = await authService.hashPassword('secret-pass');
+      const second = await authService.hashPassword('secret-pass');
+
+      expect(first).not.toBe(second);
+      await expect(authService.verifyPassword('secret-pass', first)).resolves.toBe(true);
+      await expect(authService.verifyPassword('other-pass', first)).resolves.toBe(false);
+      await expect(authService.verifyPassword('secret-pass', 'malformed')).resolves.toBe(false);
+    });
+  });
+});
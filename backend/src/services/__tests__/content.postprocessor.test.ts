@@ -0,0 +1,67 @@
+import { postProcessText, trimToWords } from '../content.postprocessor';
+
+/**
+ * English text of count sentences, each of ten words
+ */
+const sentences = (count: number): string =>
+  Array.from(
+    { length: count },
+    (_, i) => `Sentence ${i + 1} says the river is long and it flows.`
+  ).join(' ');
+
+describe('content post-processing', () => {
+  describe('trimToWords', () => {
+    it('should cut after the last whole sentence that fits, keeping paragraphs', () => {
+      const text = `${sentences(2)}\n\n${sentences(2)}`;
+
+      expect(trimToWords(text, 35, 'en')).toBe(`${sentences(2)}\n\n${sentences(1)}`);
+    });
+
+    it('should cut at a word boundary when the first sentence is too long', () => {
+      expect(trimToWords('one two three four five six.', 3, 'en')).toBe('one two three');
+    });
+  });
+
+  describe('postProcessText', () => {
+    it('should strip markdown and HTML', () => {
+      const result = postProcessText(`## Rivers\n\n**${sentences(2)}** <b>Done.</b>`, {
+        language: 'en',
+        bounds: { minWords: 1 },
+      });
+
+      expect(result.text).toBe(`${sentences(2)} Done.`);
+      expect(result.wordCount).toBe(21);
+      expect(result.rejections).toEqual([]);
+    });
+
+    it('should trim text over the maximum at a sentence boundary', () => {
+      const result = postProcessText(sentences(60), { language: 'en' });
+
+      expect(result).toMatchObject({ text: sentences(50), wordCount: 500, trimmed: true });
+      expect(result.rejections).toEqual([]);
+    });
+
+    it('should reject text under the minimum', () => {
+      const result = postProcessText(sentences(5), { language: 'en' });
+
+      expect(result.rejections).toEqual([
+        { code: 'too_short', message: 'Content has 50 words, fewer than the minimum of 100' },
+      ]);
+    });
+
+    it('should reject empty text', () => {
+      const result = postProcessText('<p></p>', { language: 'en' });
+
+      expect(result.rejections.map(({ code }) => code)).toEqual(['empty']);
+    });
+
+    it('should reject text in another language than requested', () => {
+      const result = postProcessText(sentences(12), { language: 'pt' });
+
+      expect(result.detectedLanguage).toBe('en');
+      expect(result.rejections).toEqual([
+        { code: 'wrong_language', message: 'Content appears to be in "en" rather than "pt"' },
+      ]);
+    });
+  });
+});
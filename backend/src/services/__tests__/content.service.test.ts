@@ -1,5 +1,12 @@
+import { ContentRejectedError, RequestAbortedError } from '../../middleware/errorHandler';
+import { InMemoryContentCache } from '../../repositories/contentCache.repository';
+import { InMemoryCustomContentRepository } from '../../repositories/customContent.repository';
+import { InMemoryModerationAuditLog } from '../../repositories/moderationAudit.repository';
+import { contentCacheLookups } from '../../utils/prometheus';
 import { AIService } from '../ai.service';
-import { ContentService } from '../content.service';
+import { ContentService, getContentCacheKey } from '../content.service';
+import { ModerationService } from '../moderation.service';
+import type { UsageService } from '../usage.service';
 import { WikipediaService } from '../wikipedia.service';
 
 jest.mock('../ai.service');
@@ -15,15 +22,23 @@ describe('ContentService', () => {
 
   beforeEach(() => {
     jest.clearAllMocks();
+    // Fixtures are a sentence or two; the post-processing tests restore the 100-word minimum
+    process.env.CONTENT_MIN_WORDS = '1';
 
     mockAIService = new MockedAIService() as jest.Mocked<AIService>;
     mockWikipediaService = new MockedWikipediaService() as jest.Mocked<WikipediaService>;
+    mockAIService.isAvailable = jest.fn().mockReturnValue(true);
+    mockWikipediaService.isAvailable = jest.fn().mockReturnValue(true);
 
     contentService = new ContentService();
     (contentService as any).aiService = mockAIService;
     (contentService as any).wikipediaService = mockWikipediaService;
   });
 
+  afterEach(() => {
+    delete process.env.CONTENT_MIN_WORDS;
+  });
+
   describe('generateAIContent', () => {
     it('should generate AI content successfully', async () => {
       const mockAIContent = {
@@ -31,6 +46,8 @@ describe('ContentService', () => {
         source: 'ai' as const,
         wordCount: 15,
         difficulty: 'medium' as const,
+        provider: 'gemini',
+        model: 'gemini-pro',
       };
 
       mockAIService.generateContent = jest.fn().mockResolvedValue(mockAIContent);
@@ -46,8 +63,27 @@ describe('ContentService', () => {
       expect(result).toHaveProperty('estimatedTime');
       expect(result).toHaveProperty('metadata');
       expect(result).toHaveProperty('createdAt');
-      expect(result.metadata.aiModel).toBe('openai-gpt-3.5-turbo');
-      expect(mockAIService.generateContent).toHaveBeenCalledWith('React', 300);
+      expect(result.metadata.aiProvider).toBe('gemini');
+      expect(result.metadata.aiModel).toBe('gemini-gemini-pro');
+      expect(mockAIService.generateContent).toHaveBeenCalledWith('React', 300, { language: 'en' });
+    });
+
+    it('should generate AI content in the requested language', async () => {
+      mockAIService.generateContent = jest.fn().mockResolvedValue({
+        text: 'La fotosíntesis convierte la luz en energía química.',
+        source: 'ai' as const,
+        wordCount: 8,
+        difficulty: 'medium' as const,
+        provider: 'openai',
+        model: 'gpt-4o-mini',
+      });
+
+      const result = await contentService.generateAIContent('Fotosíntesis', 300, 'es');
+
+      expect(mockAIService.generateContent).toHaveBeenCalledWith('Fotosíntesis', 300, {
+        language: 'es',
+      });
+      expect(result.metadata.language).toBe('es');
     });
 
     it('should handle AI generation errors', async () => {
@@ -62,6 +98,65 @@ describe('ContentService', () => {
   });
 
   describe('fetchWikipediaContent', () => {
+    it('should use an explicitly chosen article for combined content', async () => {
+      mockAIService.generateContent = jest.fn().mockResolvedValue({
+        text: 'Mercury orbits the Sun every 88 days.',
+        source: 'ai' as const,
+        wordCount: 7,
+        difficulty: 'easy' as const,
+      });
+      mockWikipediaService.fetchContent = jest.fn().mockResolvedValue({
+        text: 'Mercury is the first planet from the Sun.',
+        source: 'wikipedia' as const,
+        articleTitle: 'Mercury (planet)',
+        url: 'https://en.wikipedia.org/wiki/Mercury_(planet)',
+        wordCount: 8,
+      });
+      mockWikipediaService.extractSummary = jest
+        .fn()
+        .mockReturnValue('Mercury is the first planet from the Sun.');
+
+      const result = await contentService.generateContent({
+        theme: 'Mercury',
+        article: 'Mercury (planet)',
+      });
+
+      expect(mockWikipediaService.fetchContent).toHaveBeenCalledWith(
+        'Mercury',
+        'en',
+        'Mercury (planet)'
+      );
+      expect(result.metadata.wikipediaArticle).toBe('Mercury (planet)');
+    });
+
+    it('should fetch a requested article section', async () => {
+      const mockSection = {
+        text: 'Volcanoes form where magma reaches the surface.',
+        source: 'wikipedia' as const,
+        articleTitle: 'Volcano',
+        url: 'https://en.wikipedia.org/wiki/Volcano#Formation',
+        wordCount: 7,
+        section: { index: 2, title: 'Formation', count: 6, next: 3 },
+      };
+      mockWikipediaService.fetchSection = jest.fn().mockResolvedValue(mockSection);
+
+      const result = await contentService.generateContent({
+        theme: 'Volcano',
+        source: 'wikipedia',
+        section: 'next',
+        afterSection: 1,
+        article: 'Volcano',
+      });
+
+      expect(mockWikipediaService.fetchSection).toHaveBeenCalledWith('Volcano', 'en', {
+        section: 'next',
+        afterSection: 1,
+        article: 'Volcano',
+      });
+      expect(result.metadata.wikipediaSection).toEqual(mockSection.section);
+      expect(result.metadata.wikipediaUrl).toBe(mockSection.url);
+    });
+
     it('should fetch Wikipedia content successfully', async () => {
       const mockWikiContent = {
         text: 'Node.js is an open-source, cross-platform JavaScript runtime environment. It executes JavaScript code outside a web browser.',
@@ -121,6 +216,8 @@ describe('ContentService', () => {
         source: 'ai' as const,
         wordCount: 14,
         difficulty: 'medium' as const,
+        provider: 'openai-compatible',
+        model: 'llama3',
       };
 
       const mockWikiContent = {
@@ -140,7 +237,8 @@ describe('ContentService', () => {
       expect(result).toHaveProperty('source', 'combined');
       expect(result.text).toContain(mockAIContent.text);
       expect(result.text).toContain(mockWikiContent.text);
-      expect(result.metadata.aiModel).toBe('openai-gpt-3.5-turbo');
+      expect(result.metadata.aiProvider).toBe('openai-compatible');
+      expect(result.metadata.aiModel).toBe('openai-compatible-llama3');
       expect(result.metadata.wikipediaArticle).toBe('Vue.js');
       expect(mockAIService.generateContent).toHaveBeenCalled();
       expect(mockWikipediaService.fetchContent).toHaveBeenCalled();
@@ -163,6 +261,7 @@ describe('ContentService', () => {
 
       expect(result).toHaveProperty('source', 'ai');
       expect(result.text).toBe(mockAIContent.text);
+      expect(mockAIService.generateContent).toHaveBeenCalledTimes(1);
     });
 
     it('should fallback to Wikipedia only when AI fails', async () => {
@@ -181,6 +280,7 @@ describe('ContentService', () => {
 
       expect(result).toHaveProperty('source', 'wikipedia');
       expect(result.metadata.wikipediaArticle).toBe('Svelte');
+      expect(mockWikipediaService.fetchContent).toHaveBeenCalledTimes(1);
     });
 
     it('should throw error when both sources fail', async () => {
@@ -193,6 +293,836 @@ describe('ContentService', () => {
         'Failed to generate content from any source'
       );
     });
+
+    it('should fall back to offline content when enabled and both sources fail', async () => {
+      process.env.CONTENT_OFFLINE_FALLBACK = 'true';
+      mockAIService.generateContent = jest.fn().mockRejectedValue(new Error('AI failed'));
+      mockWikipediaService.fetchContent = jest
+        .fn()
+        .mockRejectedValue(new Error('Wikipedia failed'));
+
+      try {
+        const result = await contentService.generateCombinedContent('Geology', 200, 'pt');
+
+        expect(result).toHaveProperty('source', 'offline');
+        expect(result.metadata.language).toBe('pt');
+        expect(result.text).toContain('Geology');
+      } finally {
+        delete process.env.CONTENT_OFFLINE_FALLBACK;
+      }
+    });
+
+    it('should go straight to AI while the Wikipedia circuit is open', async () => {
+      mockWikipediaService.isAvailable = jest.fn().mockReturnValue(false);
+      mockWikipediaService.fetchContent = jest.fn();
+      mockAIService.generateContent = jest.fn().mockResolvedValue({
+        text: 'Ember is a JavaScript framework for ambitious web applications.',
+        source: 'ai' as const,
+        wordCount: 9,
+        difficulty: 'easy' as const,
+      });
+
+      const result = await contentService.generateCombinedContent('Ember', 300, 'en');
+
+      expect(result).toHaveProperty('source', 'ai');
+      expect(mockAIService.generateContent).toHaveBeenCalledTimes(1);
+      expect(mockAIService.generateContent).toHaveBeenCalledWith('Ember', 300, expect.anything());
+      expect(mockWikipediaService.fetchContent).not.toHaveBeenCalled();
+    });
+
+    it('should go straight to Wikipedia while every AI circuit is open', async () => {
+      mockAIService.isAvailable = jest.fn().mockReturnValue(false);
+      mockAIService.generateContent = jest.fn();
+      mockWikipediaService.fetchContent = jest.fn().mockResolvedValue({
+        text: 'Solid is a declarative JavaScript library for building user interfaces.',
+        source: 'wikipedia' as const,
+        articleTitle: 'Solid',
+        url: 'https://en.wikipedia.org/wiki/Solid',
+        wordCount: 10,
+      });
+
+      const result = await contentService.generateCombinedContent('Solid', 300, 'en');
+
+      expect(result).toHaveProperty('source', 'wikipedia');
+      expect(mockAIService.generateContent).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('AI budget', () => {
+    const wikiContent = {
+      text: 'Rust is a general-purpose programming language emphasizing performance and safety.',
+      source: 'wikipedia' as const,
+      articleTitle: 'Rust (programming language)',
+      url: 'https://en.wikipedia.org/wiki/Rust_(programming_language)',
+      wordCount: 10,
+    };
+    let overBudget: boolean;
+
+    beforeEach(() => {
+      overBudget = true;
+      const usage = { isOverBudget: jest.fn(async () => overBudget) };
+      contentService = new ContentService(
+        null,
+        undefined,
+        undefined,
+        usage as unknown as UsageService
+      );
+      (contentService as any).aiService = mockAIService;
+      (contentService as any).wikipediaService = mockWikipediaService;
+      mockAIService.generateContent = jest.fn();
+      mockAIService.streamContent = jest.fn();
+      mockWikipediaService.fetchContent = jest.fn().mockResolvedValue(wikiContent);
+      mockWikipediaService.extractSummary = jest.fn().mockReturnValue(wikiContent.text);
+      jest.spyOn(console, 'warn').mockImplementation(() => {});
+    });
+
+    it.each(['ai', 'combined'] as const)(
+      'should serve Wikipedia content for %s requests once the budget is spent',
+      async (source) => {
+        const result = await contentService.generateContent({ theme: 'Rust', source }, 'user-1');
+
+        expect(result.source).toBe('wikipedia');
+        expect(result.metadata.aiBudgetExceeded).toBe(true);
+        expect(mockAIService.generateContent).not.toHaveBeenCalled();
+      }
+    );
+
+    it('should not cache content served in place of AI', async () => {
+      contentService = new ContentService(new InMemoryContentCache(), undefined, undefined, {
+        isOverBudget: jest.fn(async () => overBudget),
+      } as unknown as UsageService);
+      (contentService as any).aiService = mockAIService;
+      (contentService as any).wikipediaService = mockWikipediaService;
+      mockAIService.generateContent = jest.fn().mockResolvedValue({
+        text: 'Rust guarantees memory safety without a garbage collector.',
+        source: 'ai',
+        wordCount: 8,
+        difficulty: 'medium',
+        provider: 'openai',
+        model: 'gpt-3.5-turbo',
+      });
+
+      await contentService.generateContent({ theme: 'Rust', source: 'ai' });
+      overBudget = false;
+      const result = await contentService.generateContent({ theme: 'Rust', source: 'ai' });
+
+      expect(result.source).toBe('ai');
+      expect(result.metadata.cacheHit).toBe(false);
+    });
+
+    it('should stream Wikipedia content as one chunk once the budget is spent', async () => {
+      const chunks: string[] = [];
+
+      const result = await contentService.streamContent({ theme: 'Rust' }, (chunk) =>
+        chunks.push(chunk)
+      );
+
+      expect(result.source).toBe('wikipedia');
+      expect(chunks).toEqual([result.text]);
+      expect(mockAIService.streamContent).not.toHaveBeenCalled();
+    });
+
+    it('should fail with 503 when Wikipedia fails too', async () => {
+      mockWikipediaService.fetchContent = jest.fn().mockRejectedValue(new Error('timeout'));
+
+      await expect(
+        contentService.generateContent({ theme: 'Rust', source: 'ai' })
+      ).rejects.toMatchObject({
+        statusCode: 503,
+        message: 'AI budget exceeded and Wikipedia content fetch failed: timeout',
+      });
+    });
+
+    it('should pass the user to AI generation within budget', async () => {
+      overBudget = false;
+      mockAIService.generateContent = jest.fn().mockResolvedValue({
+        text: 'Rust guarantees memory safety without a garbage collector.',
+        source: 'ai',
+        wordCount: 8,
+        difficulty: 'medium',
+        provider: 'openai',
+        model: 'gpt-3.5-turbo',
+      });
+
+      await contentService.generateContent({ theme: 'Rust', source: 'ai' }, 'user-1');
+
+      expect(mockAIService.generateContent).toHaveBeenCalledWith(
+        'Rust',
+        300,
+        expect.objectContaining({ userId: 'user-1' })
+      );
+    });
+  });
+
+  describe('generateCorpusContent', () => {
+    it('should format corpus passages and skip the cache', async () => {
+      contentService = new ContentService(new InMemoryContentCache());
+      const fetchCorpus = jest.fn().mockResolvedValue({
+        text: 'Sourdough needs a lively starter. Feed it daily.',
+        source: 'corpus',
+        documentId: 'baking/sourdough.md',
+        documentTitle: 'Sourdough',
+        wordCount: 8,
+      });
+      (contentService as any).corpusService = { fetchContent: fetchCorpus };
+
+      const first = await contentService.generateContent({ theme: 'Bread', source: 'corpus' });
+      await contentService.generateContent({ theme: 'Bread', source: 'corpus' });
+
+      expect(first).toMatchObject({
+        source: 'corpus',
+        wordCount: 8,
+        metadata: { corpusDocument: 'baking/sourdough.md', language: 'en' },
+      });
+      expect(first.metadata.cacheHit).toBeUndefined();
+      expect(fetchCorpus).toHaveBeenCalledTimes(2);
+      expect(fetchCorpus).toHaveBeenCalledWith('Bread', 'en', 300);
+    });
+  });
+
+  describe('custom content', () => {
+    const pasted = 'Practice makes perfect. Type these words every single day to build speed.';
+
+    beforeEach(() => {
+      contentService = new ContentService(null, new InMemoryCustomContentRepository());
+    });
+
+    it('should sanitize, count, score and save pasted text', async () => {
+      const content = await contentService.saveCustomContent(
+        { text: `  <b>${pasted}</b>\r\n\r\n\r\n  `, title: 'My drill', language: 'pt' },
+        'user_1'
+      );
+
+      expect(content).toMatchObject({
+        theme: 'My drill',
+        text: pasted,
+        source: 'custom',
+        wordCount: 12,
+        metadata: { language: 'pt' },
+      });
+      expect(content.metadata.difficultyScore).toEqual(expect.any(Number));
+      await expect(contentService.getCustomContent(content.id, 'user_1')).resolves.toEqual(content);
+    });
+
+    it('should reduce uploaded Markdown to plain text', async () => {
+      const content = await contentService.saveCustomContent({
+        text: `# Notes\n\n- **Practice** makes [perfect](https://example.com).\n\n${pasted}`,
+        fileName: 'notes.md',
+      });
+
+      expect(content.text).toBe(`Practice makes perfect.\n\n${pasted}`);
+      expect(content.theme).toBe('Custom text');
+      expect(content.metadata.customFileName).toBe('notes.md');
+    });
+
+    it('should reject texts that are too short', async () => {
+      await expect(
+        contentService.saveCustomContent({ text: '<p>Too short</p>' })
+      ).rejects.toMatchObject({ statusCode: 400 });
+    });
+
+    it("should hide other users' texts", async () => {
+      const content = await contentService.saveCustomContent({ text: pasted }, 'user_1');
+
+      await expect(contentService.getCustomContent(content.id, 'user_2')).rejects.toMatchObject({
+        statusCode: 404,
+      });
+      await expect(contentService.getCustomContent(content.id)).rejects.toMatchObject({
+        statusCode: 404,
+      });
+    });
+  });
+
+  describe('moderation', () => {
+    const aiText = (text: string) => ({
+      text,
+      source: 'ai' as const,
+      wordCount: text.split(/\s+/).length,
+      difficulty: 'medium' as const,
+      provider: 'openai',
+      model: 'gpt-4',
+    });
+    let auditLog: InMemoryModerationAuditLog;
+
+    beforeEach(() => {
+      auditLog = new InMemoryModerationAuditLog();
+      contentService = new ContentService(
+        null,
+        new InMemoryCustomContentRepository(),
+        new ModerationService({ blocklists: { en: ['darn'] }, rules: [] }, auditLog)
+      );
+      (contentService as any).aiService = mockAIService;
+    });
+
+    it('should regenerate rejected AI text and record the rejection', async () => {
+      mockAIService.generateContent = jest
+        .fn()
+        .mockResolvedValueOnce(aiText('Well darn, volcanoes erupt.'))
+        .mockResolvedValueOnce(aiText('Volcanoes erupt when magma rises.'));
+
+      const content = await contentService.generateContent({ theme: 'Volcanoes', source: 'ai' });
+
+      expect(content.text).toBe('Volcanoes erupt when magma rises.');
+      expect(mockAIService.generateContent).toHaveBeenCalledTimes(2);
+      expect(await auditLog.list()).toEqual([
+        expect.objectContaining({
+          theme: 'Volcanoes',
+          source: 'ai',
+          reasons: ['Blocked term "darn"'],
+          action: 'regenerated',
+          excerpt: 'Well darn, volcanoes erupt.',
+        }),
+      ]);
+    });
+
+    it('should reject content that fails again after regenerating', async () => {
+      mockAIService.generateContent = jest.fn().mockResolvedValue(aiText('Darn it, volcanoes.'));
+
+      await expect(
+        contentService.generateContent({ theme: 'Volcanoes', source: 'ai' })
+      ).rejects.toMatchObject({ statusCode: 422 });
+      expect((await auditLog.list()).map((entry) => entry.action)).toEqual([
+        'rejected',
+        'regenerated',
+      ]);
+    });
+
+    it('should not regenerate rejected Wikipedia text', async () => {
+      mockWikipediaService.fetchContent = jest.fn().mockResolvedValue({
+        source: 'wikipedia' as const,
+        articleTitle: 'Darn',
+        text: 'To darn is to mend a hole in fabric with thread.',
+        url: 'https://en.wikipedia.org/wiki/Darn',
+        wordCount: 11,
+      });
+      (contentService as any).wikipediaService = mockWikipediaService;
+
+      await expect(
+        contentService.generateContent({ theme: 'Darn', source: 'wikipedia' })
+      ).rejects.toMatchObject({ statusCode: 422 });
+      expect(mockWikipediaService.fetchContent).toHaveBeenCalledTimes(1);
+      expect((await auditLog.list())[0].action).toBe('rejected');
+    });
+
+    it('should reject custom texts with the reasons', async () => {
+      await expect(
+        contentService.saveCustomContent({
+          text: 'This darn sentence has more than ten words in it for practice.',
+        })
+      ).rejects.toMatchObject({ statusCode: 422, message: expect.stringContaining('"darn"') });
+    });
+  });
+
+  describe('post-processing', () => {
+    // Ten-word English sentences
+    const sentences = (count: number) =>
+      Array.from(
+        { length: count },
+        (_, i) => `Volcano ${i + 1} is the one that erupted with grey ash.`
+      ).join(' ');
+    const aiText = (text: string) => ({
+      text,
+      source: 'ai' as const,
+      wordCount: text.split(/\s+/).length,
+      difficulty: 'medium' as const,
+      provider: 'openai',
+      model: 'gpt-4',
+    });
+    const wikiContent = (text: string) => ({
+      source: 'wikipedia' as const,
+      articleTitle: 'Volcano',
+      text,
+      url: 'https://en.wikipedia.org/wiki/Volcano',
+      wordCount: text.split(/\s+/).length,
+    });
+    let auditLog: InMemoryModerationAuditLog;
+
+    beforeEach(() => {
+      delete process.env.CONTENT_MIN_WORDS;
+      auditLog = new InMemoryModerationAuditLog();
+      contentService = new ContentService(
+        null,
+        new InMemoryCustomContentRepository(),
+        new ModerationService({ blocklists: {}, rules: [] }, auditLog)
+      );
+      (contentService as any).aiService = mockAIService;
+      (contentService as any).wikipediaService = mockWikipediaService;
+    });
+
+    it('should strip markdown from AI text and trim it to the maximum', async () => {
+      mockAIService.generateContent = jest
+        .fn()
+        .mockResolvedValue(aiText(`# Volcanoes\n\n**${sentences(55)}**`));
+
+      const content = await contentService.generateContent({ theme: 'Volcanoes', source: 'ai' });
+
+      expect(content.text).toBe(sentences(50));
+      expect(content.wordCount).toBe(500);
+      expect(content.estimatedTime).toBe(13);
+    });
+
+    it('should record the language the text was identified as', async () => {
+      mockAIService.generateContent = jest.fn().mockResolvedValue(aiText(sentences(12)));
+
+      const content = await contentService.generateContent({ theme: 'Volcanoes', source: 'ai' });
+
+      expect(content.metadata).toMatchObject({ language: 'en', detectedLanguage: 'en' });
+    });
+
+    it('should regenerate AI text under the minimum', async () => {
+      mockAIService.generateContent = jest
+        .fn()
+        .mockResolvedValueOnce(aiText(sentences(3)))
+        .mockResolvedValueOnce(aiText(sentences(12)));
+
+      const content = await contentService.generateContent({ theme: 'Volcanoes', source: 'ai' });
+
+      expect(content.wordCount).toBe(120);
+      expect(await auditLog.list()).toEqual([
+        expect.objectContaining({
+          reasons: ['Content has 30 words, fewer than the minimum of 100'],
+          action: 'regenerated',
+        }),
+      ]);
+    });
+
+    it('should reject Wikipedia text in another language with structured reasons', async () => {
+      mockWikipediaService.fetchContent = jest.fn().mockResolvedValue(wikiContent(sentences(12)));
+
+      const error = await contentService
+        .generateContent({ theme: 'Vulcão', source: 'wikipedia', language: 'pt' })
+        .catch((rejection) => rejection);
+
+      expect(error).toBeInstanceOf(ContentRejectedError);
+      expect(error.statusCode).toBe(422);
+      expect(error.details).toEqual([
+        { code: 'wrong_language', message: 'Content appears to be in "en" rather than "pt"' },
+      ]);
+      expect(mockWikipediaService.fetchContent).toHaveBeenCalledTimes(1);
+    });
+
+    it('should extend a short Wikipedia introduction with the sections after it', async () => {
+      mockWikipediaService.fetchContent = jest.fn().mockResolvedValue(wikiContent(sentences(2)));
+      mockWikipediaService.extendContent = jest
+        .fn()
+        .mockResolvedValue(wikiContent(`${sentences(2)}\n\n${sentences(10)}`));
+
+      const content = await contentService.generateContent({
+        theme: 'Volcanoes',
+        source: 'wikipedia',
+      });
+
+      expect(content.wordCount).toBe(120);
+      expect(mockWikipediaService.extendContent).toHaveBeenCalledWith(
+        expect.objectContaining({ wordCount: 20 }),
+        'en',
+        100
+      );
+    });
+
+    it('should reject a Wikipedia article too short to extend', async () => {
+      mockWikipediaService.fetchContent = jest.fn().mockResolvedValue(wikiContent(sentences(2)));
+      mockWikipediaService.extendContent = jest.fn().mockRejectedValue(new Error('timeout'));
+      jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+      await expect(
+        contentService.generateContent({ theme: 'Volcanoes', source: 'wikipedia' })
+      ).rejects.toMatchObject({
+        statusCode: 422,
+        details: [
+          { code: 'too_short', message: 'Content has 20 words, fewer than the minimum of 100' },
+        ],
+      });
+    });
+
+    it('should let sections be shorter than the minimum', async () => {
+      mockWikipediaService.fetchSection = jest
+        .fn()
+        .mockResolvedValue({ ...wikiContent(sentences(2)), section: { index: 1, title: 'Ash' } });
+
+      const content = await contentService.generateContent({
+        theme: 'Volcanoes',
+        source: 'wikipedia',
+        section: 1,
+      });
+
+      expect(content.wordCount).toBe(20);
+    });
+
+    it('should keep code verbatim', async () => {
+      const content = await contentService.generateContent({ theme: 'loops', source: 'code' });
+
+      expect(content.text).toMatch(/\n {2}/);
+    });
+  });
+
+  describe('generateOfflineContent', () => {
+    it('should generate deterministic offline content', async () => {
+      const first = await contentService.generateOfflineContent('Robotics', 250, 'en', 7);
+      const second = await contentService.generateOfflineContent('Robotics', 250, 'en', 7);
+
+      expect(first).toHaveProperty('source', 'offline');
+      expect(first.text).toBe(second.text);
+      expect(first.metadata.offlineSeed).toBe('7');
+      expect(first.estimatedTime).toBe(Math.ceil(first.wordCount / 40));
+      expect(mockAIService.generateContent).not.toHaveBeenCalled();
+      expect(mockWikipediaService.fetchContent).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('generateCodeContent', () => {
+    it('should keep snippet whitespace and never split it into passages', async () => {
+      const content = await contentService.generateContent({
+        theme: 'binary search',
+        source: 'code',
+        codeLanguage: 'typescript',
+        passageLength: 40,
+      });
+
+      expect(content).toHaveProperty('source', 'code');
+      expect(content.metadata).toMatchObject({
+        codeLanguage: 'typescript',
+        snippetTitle: 'Binary search',
+        language: 'en',
+      });
+      expect(content.text).toContain('\n  let low = 0;\n');
+      expect(content.passages).toBeUndefined();
+      expect(mockAIService.generateContent).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('generateContent', () => {
+    const mockAIContent = {
+      text: 'Rust is a systems programming language focused on safety.',
+      source: 'ai' as const,
+      wordCount: 9,
+      difficulty: 'medium' as const,
+      provider: 'openai',
+      model: 'gpt-3.5-turbo',
+    };
+
+    beforeEach(() => {
+      contentService = new ContentService(new InMemoryContentCache());
+      (contentService as any).aiService = mockAIService;
+      (contentService as any).wikipediaService = mockWikipediaService;
+      mockAIService.generateContent = jest.fn().mockResolvedValue(mockAIContent);
+    });
+
+    it('should serve repeated requests from the cache', async () => {
+      const hits = contentCacheLookups.get({ result: 'hit' });
+      const misses = contentCacheLookups.get({ result: 'miss' });
+      const first = await contentService.generateContent({ theme: 'Rust', source: 'ai' });
+      const second = await contentService.generateContent({ theme: ' rust ', source: 'ai' });
+
+      expect(mockAIService.generateContent).toHaveBeenCalledTimes(1);
+      expect(first.metadata.cacheHit).toBe(false);
+      expect(second.metadata.cacheHit).toBe(true);
+      expect(second.metadata.cachedAt).toBeInstanceOf(Date);
+      expect(second.text).toBe(first.text);
+      expect(contentCacheLookups.get({ result: 'hit' })).toBe(hits + 1);
+      expect(contentCacheLookups.get({ result: 'miss' })).toBe(misses + 1);
+    });
+
+    it('should not share cache entries between different requests', async () => {
+      await contentService.generateContent({ theme: 'Rust', source: 'ai', length: 200 });
+      await contentService.generateContent({ theme: 'Rust', source: 'ai', length: 300 });
+
+      expect(mockAIService.generateContent).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not cache failures', async () => {
+      mockAIService.generateContent = jest
+        .fn()
+        .mockRejectedValueOnce(new Error('AI failed'))
+        .mockResolvedValue(mockAIContent);
+
+      await expect(contentService.generateContent({ theme: 'Rust', source: 'ai' })).rejects.toThrow(
+        'AI failed'
+      );
+      const result = await contentService.generateContent({ theme: 'Rust', source: 'ai' });
+
+      expect(result.metadata.cacheHit).toBe(false);
+    });
+
+    it('should bypass the cache when caching is disabled', async () => {
+      contentService = new ContentService(null);
+      (contentService as any).aiService = mockAIService;
+
+      await contentService.generateContent({ theme: 'Rust', source: 'ai' });
+      const result = await contentService.generateContent({ theme: 'Rust', source: 'ai' });
+
+      expect(mockAIService.generateContent).toHaveBeenCalledTimes(2);
+      expect(result.metadata.cacheHit).toBeUndefined();
+    });
+
+    it('should build keys from every request dimension', () => {
+      expect(
+        getContentCacheKey({
+          theme: '  Machine   Learning ',
+          source: 'wikipedia',
+          language: 'pt',
+          length: 200,
+          difficulty: 'hard',
+        })
+      ).toBe('machine learning|wikipedia|pt|200|hard');
+      expect(getContentCacheKey({ theme: 'Rust' })).toBe('rust|combined|en|300|any');
+      expect(
+        getContentCacheKey({
+          theme: 'Rust',
+          source: 'wikipedia',
+          section: 'next',
+          afterSection: 2,
+          article: 'Rust (programming language)',
+        })
+      ).toBe('rust|wikipedia|en|300|any|Rust (programming language)#next>2');
+      expect(getContentCacheKey({ theme: 'Rust', passageLength: 80 })).toBe(
+        'rust|combined|en|300|any|lesson'
+      );
+    });
+
+    it('should split content into ordered passages when a passage length is requested', async () => {
+      mockAIService.generateContent = jest.fn().mockResolvedValue({
+        ...mockAIContent,
+        text: 'Rust is fast and safe. It has no garbage collector. Cargo builds projects. Crates are packages.',
+      });
+
+      const result = await contentService.generateContent({
+        theme: 'Rust',
+        source: 'ai',
+        passageLength: 8,
+      });
+
+      expect(result.passages?.map((passage) => passage.text)).toEqual([
+        'Rust is fast and safe. It has no garbage collector.',
+        'Cargo builds projects. Crates are packages.',
+      ]);
+      expect(result.passages?.[0].id).toBe(`${result.id}_1`);
+
+      const cached = await contentService.generateContent({ theme: 'Rust', source: 'ai' });
+      expect(cached.passages).toBeUndefined();
+      expect(mockAIService.generateContent).toHaveBeenCalledTimes(2);
+    });
+
+    it('should keep more Wikipedia text for lessons', async () => {
+      const article = {
+        title: 'Rust',
+        text: 'Rust is a language. '.repeat(600).trim(),
+        url: 'https://en.wikipedia.org/wiki/Rust',
+        wordCount: 2400,
+        articleTitle: 'Rust',
+      };
+      mockWikipediaService.fetchContent = jest.fn().mockResolvedValue(article);
+      mockWikipediaService.extractSummary = jest.fn().mockReturnValue(article.text);
+
+      await contentService.generateContent({
+        theme: 'Rust',
+        source: 'wikipedia',
+        passageLength: 80,
+      });
+
+      expect(mockWikipediaService.extractSummary).toHaveBeenCalledWith(article, 1500);
+    });
+  });
+
+  describe('streamContent', () => {
+    const mockAIContent = {
+      text: 'Go is a statically typed language.',
+      source: 'ai' as const,
+      wordCount: 6,
+      difficulty: 'easy' as const,
+      provider: 'openai',
+      model: 'gpt-3.5-turbo',
+    };
+    const mockWikiContent = {
+      text: 'Go was designed at Google in 2007.',
+      source: 'wikipedia' as const,
+      articleTitle: 'Go (programming language)',
+      url: 'https://en.wikipedia.org/wiki/Go_(programming_language)',
+      wordCount: 7,
+    };
+
+    beforeEach(() => {
+      contentService = new ContentService(new InMemoryContentCache());
+      (contentService as any).aiService = mockAIService;
+      (contentService as any).wikipediaService = mockWikipediaService;
+      mockAIService.streamContent = jest.fn(async (_theme, _length, onToken) => {
+        onToken('Go is a ');
+        onToken('statically typed language.');
+        return mockAIContent;
+      });
+      mockWikipediaService.fetchContent = jest.fn().mockResolvedValue(mockWikiContent);
+      mockWikipediaService.extractSummary = jest.fn().mockReturnValue(mockWikiContent.text);
+    });
+
+    it('should stream AI tokens followed by the Wikipedia summary', async () => {
+      const chunks: string[] = [];
+
+      const result = await contentService.streamContent({ theme: 'Go' }, (chunk) =>
+        chunks.push(chunk)
+      );
+
+      expect(result.source).toBe('combined');
+      expect(chunks.join('')).toBe(result.text);
+      expect(chunks.slice(0, 2)).toEqual(['Go is a ', 'statically typed language.']);
+    });
+
+    it('should stream Wikipedia content as one chunk when AI fails', async () => {
+      jest.spyOn(console, 'warn').mockImplementation(() => {});
+      mockAIService.streamContent = jest.fn().mockRejectedValue(new Error('AI failed'));
+      const chunks: string[] = [];
+
+      const result = await contentService.streamContent({ theme: 'Go' }, (chunk) =>
+        chunks.push(chunk)
+      );
+
+      expect(result.source).toBe('wikipedia');
+      expect(chunks).toEqual([mockWikiContent.text]);
+    });
+
+    it('should stream full-length AI text while the Wikipedia circuit is open', async () => {
+      mockWikipediaService.isAvailable = jest.fn().mockReturnValue(false);
+      const chunks: string[] = [];
+
+      const result = await contentService.streamContent({ theme: 'Go', length: 200 }, (chunk) =>
+        chunks.push(chunk)
+      );
+
+      expect(result.source).toBe('ai');
+      expect(chunks.join('')).toBe(result.text);
+      expect(mockAIService.streamContent).toHaveBeenCalledWith(
+        'Go',
+        200,
+        expect.any(Function),
+        expect.anything()
+      );
+      expect(mockWikipediaService.fetchContent).not.toHaveBeenCalled();
+    });
+
+    it('should fail when AI breaks after emitting tokens', async () => {
+      mockAIService.streamContent = jest.fn(async (_theme, _length, onToken) => {
+        onToken('Go is');
+        throw new Error('socket hang up');
+      });
+
+      await expect(contentService.streamContent({ theme: 'Go' }, () => {})).rejects.toThrow(
+        'Combined content generation failed: socket hang up'
+      );
+    });
+
+    it('should stop without falling back to Wikipedia once the client disconnects', async () => {
+      const abort = new AbortController();
+      mockAIService.streamContent = jest.fn(async (_theme, _length, _onToken) => {
+        abort.abort();
+        throw new RequestAbortedError('openai');
+      });
+
+      await expect(
+        contentService.streamContent({ theme: 'Go' }, () => {}, undefined, abort.signal)
+      ).rejects.toMatchObject({ statusCode: 499 });
+      expect(mockAIService.streamContent).toHaveBeenCalledWith(
+        'Go',
+        expect.any(Number),
+        expect.any(Function),
+        expect.objectContaining({ signal: abort.signal })
+      );
+    });
+
+    it('should replay cached content as a single chunk', async () => {
+      await contentService.streamContent({ theme: 'Go', source: 'ai' }, () => {});
+      const chunks: string[] = [];
+
+      const result = await contentService.streamContent({ theme: 'Go', source: 'ai' }, (chunk) =>
+        chunks.push(chunk)
+      );
+
+      expect(result.metadata.cacheHit).toBe(true);
+      expect(chunks).toEqual([mockAIContent.text]);
+      expect(mockAIService.streamContent).toHaveBeenCalledTimes(1);
+    });
+
+    it('should emit offline content as one chunk', async () => {
+      const chunks: string[] = [];
+
+      const result = await contentService.streamContent(
+        { theme: 'Go', source: 'offline', length: 150 },
+        (chunk) => chunks.push(chunk)
+      );
+
+      expect(chunks).toEqual([result.text]);
+    });
+  });
+
+  describe('difficulty', () => {
+    const easyContent = {
+      text: 'The cat sat on the mat. It was a warm day. We had fun in the sun.',
+      source: 'ai' as const,
+      wordCount: 17,
+      difficulty: 'easy' as const,
+    };
+    const hardContent = {
+      text: 'Photosynthetic organisms convert electromagnetic radiation into chemical energy through sophisticated biochemical pathways, ultimately synthesizing carbohydrates.',
+      source: 'ai' as const,
+      wordCount: 17,
+      difficulty: 'hard' as const,
+    };
+
+    it('should regenerate AI content that misses the requested difficulty', async () => {
+      mockAIService.generateContent = jest
+        .fn()
+        .mockResolvedValueOnce(hardContent)
+        .mockResolvedValueOnce(easyContent);
+
+      const result = await contentService.generateAIContent('Plants', 300, 'en', 'easy');
+
+      expect(mockAIService.generateContent).toHaveBeenNthCalledWith(1, 'Plants', 300, {
+        language: 'en',
+        difficulty: 'easy',
+      });
+      expect(mockAIService.generateContent).toHaveBeenNthCalledWith(2, 'Plants', 300, {
+        language: 'en',
+        difficulty: 'easy',
+        adjustment: 'simpler',
+      });
+      expect(result.text).toBe(easyContent.text);
+      expect(result.difficulty).toBe('easy');
+      expect(result.metadata.requestedDifficulty).toBe('easy');
+      expect(result.metadata.difficultyMatched).toBe(true);
+    });
+
+    it('should not regenerate content already within the band', async () => {
+      mockAIService.generateContent = jest.fn().mockResolvedValue(hardContent);
+
+      const result = await contentService.generateAIContent('Plants', 300, 'en', 'hard');
+
+      expect(mockAIService.generateContent).toHaveBeenCalledTimes(1);
+      expect(result.metadata.difficultyMatched).toBe(true);
+    });
+
+    it('should keep the closest attempt when retries are exhausted', async () => {
+      mockAIService.generateContent = jest.fn().mockResolvedValue(hardContent);
+
+      const result = await contentService.generateAIContent('Plants', 300, 'en', 'easy');
+
+      expect(mockAIService.generateContent).toHaveBeenCalledTimes(2);
+      expect(result.text).toBe(hardContent.text);
+      expect(result.metadata.difficultyMatched).toBe(false);
+    });
+
+    it('should summarise Wikipedia content for the requested difficulty', async () => {
+      const wikiContent = {
+        text: 'Short article.',
+        source: 'wikipedia' as const,
+        articleTitle: 'Short',
+        url: 'https://en.wikipedia.org/wiki/Short',
+        wordCount: 2,
+      };
+      mockWikipediaService.fetchContent = jest.fn().mockResolvedValue(wikiContent);
+      mockWikipediaService.extractSummary = jest.fn().mockReturnValue('Short article.');
+
+      await contentService.fetchWikipediaContent('Short', 'en', 40);
+
+      expect(mockWikipediaService.extractSummary).toHaveBeenCalledWith(wikiContent, 400, 40);
+    });
   });
 
   describe('content formatting and calculations', () => {
@@ -0,0 +1,102 @@
+import { promises as fs } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { CorpusService } from '../corpus.service';
+
+const sentences = (topic: string, count: number): string =>
+  Array.from({ length: count }, (_, i) => `Paragraph ${i + 1} is about ${topic} today.`).join(' ');
+
+describe('CorpusService', () => {
+  let directory: string;
+
+  const write = async (name: string, content: string) => {
+    const file = path.join(directory, name);
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    await fs.writeFile(file, content, 'utf-8');
+  };
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'corpus-'));
+    await write('gardening.txt', sentences('tomatoes and soil', 6));
+    await write(
+      'docs/volcanoes.md',
+      `# Volcanoes\n\n${sentences('lava', 3)}\n\nSee [the survey](https://example.com) for **volcano** maps.`
+    );
+    await write('pt/ciencia.txt', `A ciência dos vulcões estuda a lava. ${sentences('lava', 2)}`);
+    await write('notes.json', '{"lava": true}');
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('should rank documents by keyword matches, weighting titles', async () => {
+    const corpus = new CorpusService(directory);
+
+    const results = await corpus.search('volcanoes lava', 'en');
+
+    expect(results.map((result) => result.documentId)).toEqual(['docs/volcanoes.md']);
+    expect(results[0].title).toBe('Volcanoes');
+  });
+
+  it('should only offer language subdirectories for their language', async () => {
+    const corpus = new CorpusService(directory);
+
+    const ids = (await corpus.search('lava', 'pt')).map((result) => result.documentId);
+    expect(ids.sort()).toEqual(['docs/volcanoes.md', 'pt/ciencia.txt']);
+    expect((await corpus.search('ciencia', 'en')).length).toBe(0);
+  });
+
+  it('should return the best matching passage as plain text', async () => {
+    const corpus = new CorpusService(directory);
+
+    const content = await corpus.fetchContent('Volcanoes', 'en', 300);
+
+    expect(content).toMatchObject({ source: 'corpus', documentId: 'docs/volcanoes.md' });
+    expect(content.text).toContain('See the survey for volcano maps.');
+    expect(content.text).not.toContain('#');
+    expect(content.wordCount).toBe(content.text.split(/\s+/).length);
+  });
+
+  it('should pick the passage with the most theme terms', async () => {
+    await write(
+      'mixed.txt',
+      `${sentences('bread', 5)} ${sentences('sourdough', 5)} ${sentences('bread', 5)}`
+    );
+    const corpus = new CorpusService(directory);
+
+    const content = await corpus.fetchContent('sourdough', 'en', 30);
+
+    expect(content.text).toBe(sentences('sourdough', 5));
+    expect(content.text).not.toContain('about bread');
+  });
+
+  it('should fail with 404 when nothing matches', async () => {
+    const corpus = new CorpusService(directory);
+
+    await expect(corpus.fetchContent('Quantum chromodynamics')).rejects.toMatchObject({
+      statusCode: 404,
+    });
+  });
+
+  it('should fail with 404 when the directory has no documents', async () => {
+    const corpus = new CorpusService(path.join(directory, 'missing'));
+
+    await expect(corpus.search('lava')).rejects.toMatchObject({ statusCode: 404 });
+    expect(await corpus.countDocuments()).toBe(0);
+  });
+
+  it('should count the documents it can serve', async () => {
+    expect(await new CorpusService(directory).countDocuments()).toBe(3);
+  });
+
+  it('should pick up new files after reindexing', async () => {
+    const corpus = new CorpusService(directory);
+    expect(await corpus.search('astronomy')).toEqual([]);
+
+    await write('astronomy.txt', sentences('stars', 2));
+    corpus.reindex();
+
+    expect((await corpus.search('astronomy'))[0].documentId).toBe('astronomy.txt');
+  });
+});
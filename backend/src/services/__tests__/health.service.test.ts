@@ -0,0 +1,243 @@
+import { promises as fs } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { AIService } from '../ai.service';
+import { ContentService } from '../content.service';
+import type { CorpusService } from '../corpus.service';
+import { HealthService } from '../health.service';
+import type { AIProvider } from '../providers/provider';
+import type { WikipediaService } from '../wikipedia.service';
+
+const buildProvider = (name: string, ping?: () => Promise<void>): AIProvider => ({
+  name,
+  model: `${name}-model`,
+  generate: jest.fn(),
+  ...(ping && { ping }),
+});
+
+const buildWikipedia = (ping: () => Promise<void>) => ({ ping }) as unknown as WikipediaService;
+
+const buildCorpus = (documents: number) =>
+  ({ countDocuments: async () => documents }) as unknown as CorpusService;
+
+// Storage modes too, as the jest setup keeps every store in memory
+const STORAGE_VARIABLES = [
+  'METRICS_STORAGE',
+  'USER_STORAGE',
+  'CUSTOM_CONTENT_STORAGE',
+  'MODERATION_AUDIT_STORAGE',
+  'AI_USAGE_STORAGE',
+  'METRICS_STORAGE_PATH',
+  'USER_STORAGE_PATH',
+  'PREFERENCES_STORAGE_PATH',
+  'CUSTOM_CONTENT_PATH',
+  'MODERATION_AUDIT_PATH',
+  'AI_USAGE_PATH',
+  'CONTENT_CACHE',
+  'CONTENT_CACHE_PATH',
+  'CONTENT_OFFLINE_FALLBACK',
+];
+
+describe('HealthService', () => {
+  const originalEnv = { ...process.env };
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'health-'));
+    for (const variable of STORAGE_VARIABLES) {
+      delete process.env[variable];
+    }
+    process.env.METRICS_STORAGE_PATH = path.join(tempDir, 'sessions.json');
+    process.env.USER_STORAGE_PATH = path.join(tempDir, 'users.json');
+    process.env.PREFERENCES_STORAGE_PATH = path.join(tempDir, 'preferences.json');
+    process.env.CUSTOM_CONTENT_PATH = path.join(tempDir, 'custom', 'custom-content.json');
+    process.env.MODERATION_AUDIT_PATH = path.join(tempDir, 'moderation-audit.json');
+    process.env.AI_USAGE_PATH = path.join(tempDir, 'ai-usage.json');
+  });
+
+  afterEach(async () => {
+    process.env = { ...originalEnv };
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should check the AI, Wikipedia and corpus services content generation uses', () => {
+    const health = new HealthService() as any;
+    const content = new ContentService() as any;
+
+    expect(health.aiService).toBe(content.aiService);
+    expect(health.wikipediaService).toBe(content.wikipediaService);
+    expect(health.corpusService).toBe(content.corpusService);
+  });
+
+  it('should be ready when every dependency answers', async () => {
+    const service = new HealthService(
+      new AIService([buildProvider('openai', async () => undefined)]),
+      buildWikipedia(async () => undefined),
+      buildCorpus(1)
+    );
+
+    const report = await service.getReadiness();
+
+    expect(report.status).toBe('ready');
+    expect(report.dependencies.ai.providers).toEqual([
+      expect.objectContaining({ name: 'openai', model: 'openai-model', status: 'ok' }),
+    ]);
+    expect(report.dependencies.storage.stores.map((store) => store.name)).toEqual([
+      'sessions',
+      'users',
+      'preferences',
+      'customContent',
+      'moderationAudit',
+      'aiUsage',
+    ]);
+    expect(report.dependencies.cache).toEqual({ status: 'ok', mode: 'memory' });
+    expect(Object.values(report.sources).every(Boolean)).toBe(true);
+    // Probe files are removed again
+    expect(await fs.readdir(path.join(tempDir, 'custom'))).toEqual([]);
+  });
+
+  it('should be degraded without an AI provider, keeping the other sources', async () => {
+    const service = new HealthService(
+      new AIService([]),
+      buildWikipedia(async () => undefined),
+      buildCorpus(1)
+    );
+
+    const report = await service.getReadiness();
+
+    expect(report.status).toBe('degraded');
+    expect(report.dependencies.ai).toEqual({
+      status: 'unavailable',
+      message: 'No AI provider is configured',
+      providers: [],
+    });
+    expect(report.sources).toMatchObject({ ai: false, wikipedia: true, combined: true });
+  });
+
+  it('should count AI as available while any provider in the chain answers', async () => {
+    const service = new HealthService(
+      new AIService([
+        buildProvider('openai', async () => {
+          throw new Error('Invalid OpenAI API key');
+        }),
+        buildProvider('custom'),
+      ]),
+      buildWikipedia(async () => undefined),
+      buildCorpus(1)
+    );
+
+    const { dependencies } = await service.getReadiness();
+
+    expect(dependencies.ai.status).toBe('ok');
+    expect(dependencies.ai.providers.map(({ status, message }) => ({ status, message }))).toEqual([
+      { status: 'unavailable', message: 'Invalid OpenAI API key' },
+      { status: 'ok', message: 'Configured; reachability is not checked' },
+    ]);
+  });
+
+  it('should mark AI-backed sources unavailable when nothing answers', async () => {
+    const service = new HealthService(
+      new AIService([buildProvider('slow', () => new Promise(() => undefined))]),
+      buildWikipedia(async () => {
+        throw new Error('Wikipedia is unreachable: timeout');
+      }),
+      buildCorpus(1),
+      { probeTimeoutMs: 20 }
+    );
+
+    const report = await service.getReadiness();
+
+    expect(report.status).toBe('degraded');
+    expect(report.dependencies.ai.providers[0].message).toBe('No answer within 20 ms');
+    expect(report.sources).toMatchObject({
+      ai: false,
+      wikipedia: false,
+      combined: false,
+      offline: true,
+      code: true,
+    });
+  });
+
+  it('should keep combined content available with the offline fallback', async () => {
+    process.env.CONTENT_OFFLINE_FALLBACK = 'true';
+    const service = new HealthService(
+      new AIService([]),
+      buildWikipedia(async () => {
+        throw new Error('down');
+      }),
+      buildCorpus(1)
+    );
+
+    expect((await service.getReadiness()).sources.combined).toBe(true);
+  });
+
+  it('should be unavailable when a store cannot be written', async () => {
+    // A file where the directory should be fails even for root, unlike permissions
+    await fs.writeFile(path.join(tempDir, 'blocked'), '');
+    process.env.CUSTOM_CONTENT_PATH = path.join(tempDir, 'blocked', 'custom-content.json');
+    const service = new HealthService(
+      new AIService([buildProvider('openai', async () => undefined)]),
+      buildWikipedia(async () => undefined),
+      buildCorpus(1)
+    );
+
+    const report = await service.getReadiness();
+
+    expect(report.status).toBe('unavailable');
+    expect(report.dependencies.storage.message).toBe('Cannot write customContent');
+    expect(report.sources.custom).toBe(false);
+  });
+
+  it('should report a disabled cache without failing', async () => {
+    process.env.CONTENT_CACHE = 'off';
+    const service = new HealthService(
+      new AIService([buildProvider('openai', async () => undefined)]),
+      buildWikipedia(async () => undefined),
+      buildCorpus(1)
+    );
+
+    const report = await service.getReadiness();
+
+    expect(report.dependencies.cache).toEqual({ status: 'disabled', mode: 'off' });
+    expect(report.status).toBe('ready');
+  });
+
+  it('should report a corpus without documents as disabled', async () => {
+    const service = new HealthService(
+      new AIService([buildProvider('openai', async () => undefined)]),
+      buildWikipedia(async () => undefined),
+      buildCorpus(0)
+    );
+
+    const report = await service.getReadiness();
+
+    expect(report.dependencies.corpus).toEqual({
+      status: 'disabled',
+      message: 'The corpus directory has no documents',
+      documents: 0,
+    });
+    expect(report.sources.corpus).toBe(false);
+    expect(report.status).toBe('ready');
+  });
+
+  it('should reuse the report until it expires', async () => {
+    const ping = jest.fn(async () => undefined);
+    const service = new HealthService(new AIService([]), buildWikipedia(ping), buildCorpus(1), {
+      cacheTtlMs: 60_000,
+    });
+
+    const [first, second] = await Promise.all([service.getReadiness(), service.getReadiness()]);
+    await service.getReadiness();
+
+    expect(first).toBe(second);
+    expect(ping).toHaveBeenCalledTimes(1);
+
+    const uncached = new HealthService(new AIService([]), buildWikipedia(ping), buildCorpus(1), {
+      cacheTtlMs: 0,
+    });
+    await uncached.getReadiness();
+    await uncached.getReadiness();
+
+    expect(ping).toHaveBeenCalledTimes(3);
+  });
+});
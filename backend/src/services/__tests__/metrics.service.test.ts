@@ -0,0 +1,133 @@
+import { InMemorySessionRepository } from '../../repositories/session.repository';
+import { MetricsService } from '../metrics.service';
+
+describe('MetricsService', () => {
+  let repository: InMemorySessionRepository;
+  let metricsService: MetricsService;
+
+  const payload = {
+    sessionId: 'session_42',
+    theme: 'Astronomy',
+    keyboardLayout: 'DVORAK',
+    startTime: '2024-03-01T12:00:00.000Z',
+    endTime: '2024-03-01T12:03:00.000Z',
+    isActive: false,
+    content: 'Stars are born in nebulae.',
+    userProgress: {
+      currentPosition: 26,
+      typedText: 'Stars are born in nebulae.',
+      errors: [
+        {
+          position: 3,
+          expectedChar: 'r',
+          typedChar: 't',
+          timestamp: '2024-03-01T12:01:00.000Z',
+          corrected: true,
+        },
+      ],
+    },
+    metrics: {
+      wpm: 38,
+      accuracy: 96,
+      totalCharacters: 26,
+      correctCharacters: 25,
+      timeElapsed: 180,
+      keystrokesPerMinute: 190,
+    },
+  };
+
+  beforeEach(() => {
+    repository = new InMemorySessionRepository();
+    metricsService = new MetricsService(repository);
+  });
+
+  describe('saveSession', () => {
+    it('should store the full session shape', async () => {
+      const result = await metricsService.saveSession(payload);
+
+      expect(result.sessionId).toBe('session_42');
+      expect(result.keyboardLayout).toBe('DVORAK');
+      expect(result.startTime).toBeInstanceOf(Date);
+      expect(result.endTime).toBeInstanceOf(Date);
+      expect(result.userProgress.errors).toHaveLength(1);
+      expect(result.userProgress.errors[0].timestamp).toBeInstanceOf(Date);
+      expect(await repository.findById('session_42')).toEqual(result);
+    });
+
+    it('should fill derived metrics when omitted', async () => {
+      const result = await metricsService.saveSession(payload);
+
+      expect(result.metrics.averageWPM).toBe(38);
+      expect(result.metrics.errorCount).toBe(1);
+    });
+
+    it('should wrap storage failures', async () => {
+      repository.save = jest.fn().mockRejectedValue(new Error('disk full'));
+
+      await expect(metricsService.saveSession(payload)).rejects.toThrow(
+        'Failed to save session metrics: disk full'
+      );
+    });
+  });
+
+  describe('user scoping', () => {
+    it('should ignore a client-supplied userId and use the authenticated user', async () => {
+      const result = await metricsService.saveSession({ ...payload, userId: 'spoofed' }, 'user_1');
+
+      expect(result.userId).toBe('user_1');
+    });
+
+    it('should not let another user overwrite or read a session', async () => {
+      await metricsService.saveSession(payload, 'user_1');
+
+      await expect(metricsService.saveSession(payload, 'user_2')).rejects.toMatchObject({
+        statusCode: 404,
+      });
+      await expect(metricsService.getSession('session_42', 'user_2')).rejects.toMatchObject({
+        statusCode: 404,
+      });
+      await expect(metricsService.getSession('session_42')).rejects.toMatchObject({
+        statusCode: 404,
+      });
+    });
+
+    it('should only list sessions belonging to the requester', async () => {
+      await metricsService.saveSession(payload, 'user_1');
+      await metricsService.saveSession({ ...payload, sessionId: 'guest_session' });
+
+      const query = { sortBy: 'date' as const, order: 'desc' as const, limit: 10 };
+      const mine = await metricsService.getHistory({ ...query, userId: 'user_1' });
+      const guest = await metricsService.getHistory(query);
+
+      expect(mine.sessions.map((s) => s.sessionId)).toEqual(['session_42']);
+      expect(guest.sessions).toEqual([]);
+    });
+
+    it('should not let guests read or overwrite guest sessions', async () => {
+      await metricsService.saveSession(payload);
+
+      await expect(metricsService.getSession('session_42')).rejects.toMatchObject({
+        statusCode: 404,
+      });
+      await expect(
+        metricsService.saveSession({ ...payload, theme: 'Overwritten' })
+      ).rejects.toMatchObject({ statusCode: 404 });
+    });
+  });
+
+  describe('getSession', () => {
+    it('should return stored sessions', async () => {
+      await metricsService.saveSession(payload, 'user_1');
+
+      const result = await metricsService.getSession('session_42', 'user_1');
+
+      expect(result.theme).toBe('Astronomy');
+    });
+
+    it('should throw 404 for unknown sessions', async () => {
+      await expect(metricsService.getSession('unknown')).rejects.toMatchObject({
+        statusCode: 404,
+      });
+    });
+  });
+});
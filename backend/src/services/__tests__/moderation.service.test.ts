@@ -0,0 +1,139 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { InMemoryModerationAuditLog } from '../../repositories/moderationAudit.repository';
+import type { GeneratedContent } from '../content.service';
+import { loadModerationConfig, ModerationService } from '../moderation.service';
+
+const content = (text: string, language = 'en'): GeneratedContent => ({
+  id: 'content_1',
+  theme: 'Test',
+  text,
+  source: 'ai',
+  difficulty: 'medium',
+  wordCount: text.split(/\s+/).filter(Boolean).length,
+  estimatedTime: 1,
+  metadata: { language },
+  createdAt: new Date(),
+});
+
+describe('ModerationService', () => {
+  // Test texts are single sentences, far below the 100 words of a generated passage
+  const bounds = { minWords: 1 };
+  const config = {
+    blocklists: { en: ['heck'], pt: ['droga'] },
+    rules: [
+      { id: 'spoilers', pattern: '\\bspoiler\\b' },
+      { id: 'battles', pattern: '\\bbattle\\b', rating: 'teen' as const },
+    ],
+  };
+
+  it('should approve clean content', () => {
+    const moderation = new ModerationService(config, new InMemoryModerationAuditLog());
+
+    expect(moderation.review(content('Stars form in clouds of gas and dust.'), bounds)).toEqual({
+      approved: true,
+      reasons: [],
+    });
+  });
+
+  it('should apply the blocklist of the content language only', () => {
+    const moderation = new ModerationService(config, new InMemoryModerationAuditLog());
+
+    expect(moderation.review(content('What the HECK happened?'), bounds).reasons).toEqual([
+      'Blocked term "heck"',
+    ]);
+    expect(moderation.review(content('What the heck happened?', 'pt'), bounds).approved).toBe(true);
+    expect(moderation.review(content('Que dróga de dia.', 'pt'), bounds).reasons).toEqual([
+      'Blocked term "droga"',
+    ]);
+  });
+
+  it('should match blocked terms as whole words', () => {
+    const moderation = new ModerationService(config, new InMemoryModerationAuditLog());
+
+    expect(moderation.review(content('Checking the hecklers.'), bounds).approved).toBe(true);
+  });
+
+  it('should apply rated rules only above the configured audience', () => {
+    const text = content('The battle lasted three days.');
+
+    expect(new ModerationService(config).review(text, bounds).approved).toBe(true);
+    expect(
+      new ModerationService({ ...config, ageRating: 'all' }).review(text, bounds).reasons
+    ).toEqual(['Rule "battles" (rated teen)']);
+    expect(
+      new ModerationService({ ...config, ageRating: 'teen' }).review(text, bounds).approved
+    ).toBe(true);
+  });
+
+  it('should apply the generated content checks', () => {
+    const moderation = new ModerationService(config, new InMemoryModerationAuditLog());
+
+    expect(
+      moderation.review(content('Click <script>alert(1)</script> spoiler'), bounds).reasons
+    ).toEqual(['Content contains inappropriate or unsafe patterns', 'Rule "spoilers"']);
+    expect(moderation.review(content('Too short.'), { minWords: 5 }).reasons).toEqual([
+      'Content must be between 5 and 500 words',
+    ]);
+  });
+
+  it('should record rejections in the audit log, newest first', async () => {
+    const auditLog = new InMemoryModerationAuditLog();
+    const moderation = new ModerationService(config, auditLog);
+
+    await moderation.recordRejection(content('heck one'), ['Blocked term "heck"'], 'regenerated');
+    await moderation.recordRejection(content('heck two'), ['Blocked term "heck"'], 'rejected');
+
+    expect(await moderation.getAuditLog()).toEqual([
+      expect.objectContaining({ excerpt: 'heck two', action: 'rejected' }),
+      expect.objectContaining({
+        excerpt: 'heck one',
+        action: 'regenerated',
+        contentId: 'content_1',
+      }),
+    ]);
+  });
+});
+
+describe('loadModerationConfig', () => {
+  const originalEnv = process.env;
+  let directory: string;
+
+  beforeEach(() => {
+    process.env = { ...originalEnv };
+    directory = mkdtempSync(path.join(os.tmpdir(), 'moderation-'));
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should extend the defaults with the rules file', () => {
+    const rulesPath = path.join(directory, 'rules.json');
+    writeFileSync(
+      rulesPath,
+      JSON.stringify({
+        blocklists: { en: ['frak'] },
+        rules: [{ id: 'no-gambling', pattern: 'casino' }],
+        ageRating: 'teen',
+      })
+    );
+    process.env.CONTENT_MODERATION_RULES = rulesPath;
+
+    const config = loadModerationConfig();
+
+    expect(config.blocklists.en).toEqual(expect.arrayContaining(['shit', 'frak']));
+    expect(config.rules.map((rule) => rule.id)).toContain('no-gambling');
+    expect(config.ageRating).toBe('teen');
+  });
+
+  it('should reject unknown age ratings', () => {
+    process.env.CONTENT_AGE_RATING = 'toddler';
+
+    expect(() => loadModerationConfig()).toThrow(
+      'Content age rating must be one of all, teen, adult'
+    );
+  });
+});
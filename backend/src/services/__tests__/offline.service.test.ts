@@ -0,0 +1,57 @@
+import { OfflineContentService } from '../offline.service';
+
+describe('OfflineContentService', () => {
+  let offlineService: OfflineContentService;
+
+  beforeEach(() => {
+    offlineService = new OfflineContentService();
+  });
+
+  it('should produce the same passage for the same inputs', () => {
+    const first = offlineService.generateContent('Astronomy', 300, 'en', 42);
+    const second = offlineService.generateContent('Astronomy', 300, 'en', 42);
+
+    expect(first.text).toBe(second.text);
+    expect(first.seed).toBe('42');
+  });
+
+  it('should vary the passage with the seed', () => {
+    const first = offlineService.generateContent('Astronomy', 300, 'en', 1);
+    const second = offlineService.generateContent('Astronomy', 300, 'en', 2);
+
+    expect(first.text).not.toBe(second.text);
+  });
+
+  it('should mention the theme', () => {
+    const content = offlineService.generateContent('Marine Biology', 200, 'en');
+
+    expect(content.text).toContain('Marine Biology');
+    expect(content.text).not.toContain('{theme}');
+  });
+
+  it.each([100, 300, 500])('should land close to a target of %i words', (target) => {
+    const content = offlineService.generateContent('History', target, 'en', 'ci');
+
+    expect(Math.abs(content.wordCount - target)).toBeLessThanOrEqual(target * 0.1);
+    expect(content.wordCount).toBe(content.text.split(/\s+/).length);
+  });
+
+  it('should generate Portuguese content', () => {
+    const content = offlineService.generateContent('Música', 200, 'pt');
+
+    expect(content.text).toContain('Música');
+    expect(content.text).toMatch(/\b(sobre|de|com)\b/);
+  });
+
+  it('should split the passage into paragraphs', () => {
+    const content = offlineService.generateContent('Chemistry', 400, 'en');
+
+    expect(content.text.split('\n\n').length).toBeGreaterThan(1);
+  });
+
+  it('should reject unsupported languages', () => {
+    expect(() => offlineService.generateContent('Art', 200, 'xx')).toThrow(
+      'Offline content is not available in language "xx"'
+    );
+  });
+});
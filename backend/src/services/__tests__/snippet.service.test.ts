@@ -0,0 +1,46 @@
+import { SnippetService } from '../snippet.service';
+import { CODE_LANGUAGES, CODE_SNIPPETS } from '../snippets.corpus';
+
+describe('SnippetService', () => {
+  let snippetService: SnippetService;
+
+  beforeEach(() => {
+    snippetService = new SnippetService();
+  });
+
+  it('should cover every code language with snippets', () => {
+    expect(snippetService.getSupportedLanguages()).toEqual([...CODE_LANGUAGES]);
+    for (const language of CODE_LANGUAGES) {
+      expect(CODE_SNIPPETS[language].length).toBeGreaterThan(0);
+    }
+  });
+
+  it('should prefer snippets whose title or tags match the theme', () => {
+    const snippet = snippetService.pickSnippet('concurrency with channels', 'go');
+
+    expect(snippet.title).toBe('Worker pool');
+    expect(snippet.codeLanguage).toBe('go');
+    expect(snippet.code).toContain('\n\tvar wg sync.WaitGroup\n');
+  });
+
+  it('should search every language when none is given', () => {
+    const snippet = snippetService.pickSnippet('memoization');
+
+    expect(snippet.codeLanguage).toBe('python');
+    expect(snippet.title).toBe('Fibonacci with memoization');
+  });
+
+  it('should pick the same snippet for the same seed', () => {
+    const first = snippetService.pickSnippet('Astronomy', 'rust', 3);
+    const second = snippetService.pickSnippet('Astronomy', 'rust', 3);
+
+    expect(first).toEqual(second);
+    expect(first.wordCount).toBe(first.code.split(/\s+/).filter(Boolean).length);
+  });
+
+  it('should reject unknown code languages', () => {
+    expect(() => snippetService.pickSnippet('sorting', 'cobol')).toThrow(
+      'Code snippets are not available in language "cobol"'
+    );
+  });
+});
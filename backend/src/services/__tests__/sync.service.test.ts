@@ -0,0 +1,87 @@
+import { InMemoryPreferencesRepository } from '../../repositories/preferences.repository';
+import { InMemorySessionRepository } from '../../repositories/session.repository';
+import type { SessionSummary } from '../../types';
+import { SyncService } from '../sync.service';
+
+const buildSummary = (sessionId: string, date: string): SessionSummary => ({
+  sessionId,
+  theme: 'Biology',
+  date: new Date(date),
+  wpm: 50,
+  accuracy: 96,
+  duration: 120,
+  errorCount: 3,
+  keyboardLayout: 'QWERTY',
+});
+
+describe('SyncService', () => {
+  let sessionRepository: InMemorySessionRepository;
+  let syncService: SyncService;
+
+  beforeEach(() => {
+    sessionRepository = new InMemorySessionRepository();
+    syncService = new SyncService(sessionRepository, new InMemoryPreferencesRepository());
+  });
+
+  describe('push', () => {
+    it('should store new sessions for the user and skip known ones', async () => {
+      const first = await syncService.push('user_1', {
+        sessions: [buildSummary('a', '2024-01-01'), buildSummary('b', '2024-01-02')],
+      });
+      const second = await syncService.push('user_1', {
+        sessions: [buildSummary('b', '2024-01-02'), buildSummary('c', '2024-01-03')],
+      });
+
+      expect(first.accepted).toBe(2);
+      expect(second.accepted).toBe(1);
+
+      const stored = await sessionRepository.findById('a');
+      expect(stored?.userId).toBe('user_1');
+      expect(stored?.metrics.timeElapsed).toBe(120);
+      expect(stored?.updatedAt).toBeInstanceOf(Date);
+    });
+
+    it('should not claim sessions already owned by another user', async () => {
+      await syncService.push('user_1', { sessions: [buildSummary('a', '2024-01-01')] });
+      const result = await syncService.push('user_2', {
+        sessions: [buildSummary('a', '2024-01-01')],
+      });
+
+      expect(result.accepted).toBe(0);
+      expect((await sessionRepository.findById('a'))?.userId).toBe('user_1');
+    });
+
+    it('should keep the most recently edited preferences', async () => {
+      const older = { data: { language: 'en' }, updatedAt: new Date('2024-01-01') };
+      const newer = { data: { language: 'pt' }, updatedAt: new Date('2024-02-01') };
+
+      await syncService.push('user_1', { sessions: [], preferences: newer });
+      const result = await syncService.push('user_1', { sessions: [], preferences: older });
+
+      expect(result.preferences).toEqual(newer);
+    });
+  });
+
+  describe('pull', () => {
+    it('should return only the user sessions written after since', async () => {
+      await syncService.push('user_1', { sessions: [buildSummary('a', '2024-01-01')] });
+      await syncService.push('user_2', { sessions: [buildSummary('b', '2024-01-01')] });
+      const checkpoint = await syncService.pull('user_1');
+
+      expect(checkpoint.sessions.map((s) => s.sessionId)).toEqual(['a']);
+
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      await syncService.push('user_1', { sessions: [buildSummary('c', '2023-12-01')] });
+      const delta = await syncService.pull('user_1', checkpoint.serverTime);
+
+      expect(delta.sessions.map((s) => s.sessionId)).toEqual(['c']);
+    });
+
+    it('should return null preferences when none were pushed', async () => {
+      const result = await syncService.pull('user_1');
+
+      expect(result.preferences).toBeNull();
+      expect(result.serverTime).toBeInstanceOf(Date);
+    });
+  });
+});
@@ -0,0 +1,212 @@
+import { loadModelPrices } from '../../config/aiPricing';
+import { InMemoryAIUsageRepository } from '../../repositories/aiUsage.repository';
+import { aiCost } from '../../utils/prometheus';
+import { estimateTokens, UsageService, type UsageServiceOptions } from '../usage.service';
+
+const PRICES = {
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gemini-pro': { input: 0.5, output: 1.5 },
+};
+
+describe('UsageService', () => {
+  let now: Date;
+  let repository: InMemoryAIUsageRepository;
+
+  const createService = (options: UsageServiceOptions = {}) =>
+    new UsageService(repository, { prices: PRICES, now: () => now, ...options });
+
+  beforeEach(() => {
+    now = new Date('2024-05-20T10:00:00Z');
+    // Retention is measured from the real clock; keep the fixed dates below
+    repository = new InMemoryAIUsageRepository(100 * 365);
+  });
+
+  describe('getCost', () => {
+    it('should price input and output tokens per million', () => {
+      const service = createService();
+
+      expect(service.getCost('gpt-4o-mini', { inputTokens: 2000, outputTokens: 1000 })).toBe(
+        0.0009
+      );
+    });
+
+    it('should account unpriced models as free, warning once', () => {
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+      const service = createService();
+
+      expect(service.getCost('llama3', { inputTokens: 500, outputTokens: 500 })).toBe(0);
+      service.getCost('llama3', { inputTokens: 500, outputTokens: 500 });
+
+      expect(warn).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('record', () => {
+    it('should store the priced usage and count the cost', async () => {
+      const service = createService();
+      const before = aiCost.get({ provider: 'gemini' });
+
+      const record = await service.record({
+        provider: 'gemini',
+        model: 'gemini-pro',
+        userId: 'user-1',
+        inputTokens: 1000,
+        outputTokens: 1000,
+        estimated: false,
+      });
+
+      expect(record).toEqual(expect.objectContaining({ costUsd: 0.002, recordedAt: now }));
+      expect(await repository.list()).toEqual([record]);
+      expect(aiCost.get({ provider: 'gemini' }) - before).toBeCloseTo(0.002);
+    });
+  });
+
+  describe('budgets', () => {
+    const spend = async (service: UsageService, at: string, outputTokens: number) => {
+      now = new Date(at);
+      await service.record({
+        provider: 'gemini',
+        model: 'gemini-pro',
+        userId: null,
+        inputTokens: 0,
+        outputTokens,
+        estimated: false,
+      });
+    };
+
+    it('should have no limits when no budget is configured', async () => {
+      const service = createService();
+      await spend(service, '2024-05-20T09:00:00Z', 10_000_000);
+
+      expect(await service.getBudgetStatus()).toEqual([]);
+      expect(await service.isOverBudget()).toBe(false);
+    });
+
+    it('should count spend within the current UTC day and month', async () => {
+      const service = createService({ dailyBudgetUsd: 1, monthlyBudgetUsd: 5 });
+      await spend(service, '2024-04-30T23:00:00Z', 2_000_000); // $3, previous month
+      await spend(service, '2024-05-19T23:00:00Z', 1_000_000); // $1.50, yesterday
+      await spend(service, '2024-05-20T01:00:00Z', 400_000); // $0.60, today
+      now = new Date('2024-05-20T10:00:00Z');
+
+      expect(await service.getBudgetStatus()).toEqual([
+        { period: 'day', limitUsd: 1, spentUsd: 0.6, exceeded: false },
+        { period: 'month', limitUsd: 5, spentUsd: 2.1, exceeded: false },
+      ]);
+      expect(await service.isOverBudget()).toBe(false);
+    });
+
+    it('should be over budget once either limit is reached', async () => {
+      const service = createService({ dailyBudgetUsd: 1 });
+      await spend(service, '2024-05-20T08:00:00Z', 700_000);
+
+      expect(await service.isOverBudget()).toBe(true);
+
+      now = new Date('2024-05-21T00:00:00Z');
+      expect(await service.isOverBudget()).toBe(false);
+    });
+
+    it('should read budgets from the environment', async () => {
+      process.env.AI_BUDGET_MONTHLY_USD = '0.5';
+      try {
+        const service = createService();
+        await spend(service, '2024-05-02T08:00:00Z', 400_000);
+
+        expect(await service.isOverBudget()).toBe(true);
+      } finally {
+        delete process.env.AI_BUDGET_MONTHLY_USD;
+      }
+    });
+  });
+
+  describe('getReport', () => {
+    it('should total usage per day, provider and user within the range', async () => {
+      const service = createService();
+      const entries = [
+        ['2024-04-30T12:00:00Z', 'gemini', 'gemini-pro', 'user-1'],
+        ['2024-05-01T12:00:00Z', 'gemini', 'gemini-pro', 'user-1'],
+        ['2024-05-01T13:00:00Z', 'openai', 'gpt-4o-mini', null],
+        ['2024-05-02T12:00:00Z', 'gemini', 'gemini-pro', 'user-2'],
+      ] as const;
+      for (const [at, provider, model, userId] of entries) {
+        now = new Date(at);
+        await service.record({
+          provider,
+          model,
+          userId,
+          inputTokens: 1000,
+          outputTokens: 1000,
+          estimated: false,
+        });
+      }
+      now = new Date('2024-05-20T10:00:00Z');
+
+      const report = await service.getReport();
+
+      expect(report.from).toEqual(new Date('2024-05-01T00:00:00Z'));
+      expect(report.totals).toEqual({
+        requests: 3,
+        inputTokens: 3000,
+        outputTokens: 3000,
+        costUsd: 0.00475,
+      });
+      expect(report.byDay.map(({ day, requests }) => [day, requests])).toEqual([
+        ['2024-05-01', 2],
+        ['2024-05-02', 1],
+      ]);
+      expect(report.byProvider).toEqual([
+        expect.objectContaining({ provider: 'gemini', model: 'gemini-pro', costUsd: 0.004 }),
+        expect.objectContaining({ provider: 'openai', model: 'gpt-4o-mini', costUsd: 0.00075 }),
+      ]);
+      expect(report.byUser.map(({ userId, requests }) => [userId, requests])).toEqual([
+        ['user-1', 1],
+        [null, 1],
+        ['user-2', 1],
+      ]);
+    });
+
+    it('should include records made at the end of the range', async () => {
+      const service = createService();
+      await service.record({
+        provider: 'gemini',
+        model: 'gemini-pro',
+        userId: null,
+        inputTokens: 10,
+        outputTokens: 10,
+        estimated: true,
+      });
+
+      const report = await service.getReport(new Date('2024-05-20T00:00:00Z'), now);
+
+      expect(report.totals.requests).toBe(1);
+    });
+  });
+
+  describe('estimateTokens', () => {
+    it('should count about four characters per token', () => {
+      expect(estimateTokens('')).toBe(0);
+      expect(estimateTokens('Rivers carve valleys.')).toBe(6);
+    });
+  });
+
+  describe('loadModelPrices', () => {
+    it('should add and replace prices from AI_PRICES', () => {
+      const prices = loadModelPrices({
+        AI_PRICES: JSON.stringify({
+          llama3: { input: 0.2, output: 0.2 },
+          'gpt-4o': { input: 2, output: 8 },
+        }),
+      });
+
+      expect(prices.llama3).toEqual({ input: 0.2, output: 0.2 });
+      expect(prices['gpt-4o']).toEqual({ input: 2, output: 8 });
+      expect(prices['gemini-pro']).toBeDefined();
+    });
+
+    it('should reject malformed prices', () => {
+      expect(() => loadModelPrices({ AI_PRICES: '{"llama3": {"input": -1}}' })).toThrow(
+        'AI_PRICES entry "llama3"'
+      );
+    });
+  });
+});
@@ -1,4 +1,5 @@
 import axios from 'axios';
+import { CircuitBreaker, isTransientError } from '../../utils/resilience';
 import { WikipediaService } from '../wikipedia.service';
 
 jest.mock('axios');
@@ -9,7 +10,8 @@ describe('WikipediaService', () => {
 
   beforeEach(() => {
     jest.clearAllMocks();
-    wikipediaService = new WikipediaService();
+    // One-off mocked failures would otherwise be retried
+    wikipediaService = new WikipediaService({ retry: { retries: 0 } });
   });
 
   describe('fetchContent', () => {
@@ -81,6 +83,31 @@ describe('WikipediaService', () => {
       );
     });
 
+    it('should fetch content from the Wikipedia of any registered language', async () => {
+      mockedAxios.get
+        .mockResolvedValueOnce({ data: ['Berlin', ['Berlin'], [], []] })
+        .mockResolvedValueOnce({
+          data: {
+            query: {
+              pages: {
+                '13579': {
+                  title: 'Berlin',
+                  extract: 'Berlin ist die Hauptstadt der Bundesrepublik Deutschland.',
+                },
+              },
+            },
+          },
+        });
+
+      const result = await wikipediaService.fetchContent('Berlin', 'de');
+
+      expect(result.url).toBe('https://de.wikipedia.org/wiki/Berlin');
+      expect(mockedAxios.get).toHaveBeenCalledWith(
+        'https://de.wikipedia.org/w/api.php',
+        expect.any(Object)
+      );
+    });
+
     it('should handle no search results found', async () => {
       const mockSearchResponse = {
         data: ['NonExistentTopic', [], [], []],
@@ -147,6 +174,334 @@ describe('WikipediaService', () => {
     });
   });
 
+  describe('search', () => {
+    it('should return candidates with descriptions and flag disambiguation pages', async () => {
+      mockedAxios.get
+        .mockResolvedValueOnce({
+          data: [
+            'Mercury',
+            ['Mercury', 'Mercury (planet)', 'Mercury (element)'],
+            ['', 'Smallest planet in the Solar System', 'Chemical element with symbol Hg'],
+            [
+              'https://en.wikipedia.org/wiki/Mercury',
+              'https://en.wikipedia.org/wiki/Mercury_(planet)',
+              'https://en.wikipedia.org/wiki/Mercury_(element)',
+            ],
+          ],
+        })
+        .mockResolvedValueOnce({
+          data: {
+            query: {
+              pages: {
+                '1': { title: 'Mercury', pageprops: { disambiguation: '' } },
+                '2': { title: 'Mercury (planet)' },
+                '3': { title: 'Mercury (element)' },
+              },
+            },
+          },
+        });
+
+      const result = await wikipediaService.search('Mercury', 'en');
+
+      expect(result.ambiguous).toBe(true);
+      expect(result.results).toEqual([
+        {
+          title: 'Mercury',
+          description: '',
+          url: 'https://en.wikipedia.org/wiki/Mercury',
+          disambiguation: true,
+        },
+        {
+          title: 'Mercury (planet)',
+          description: 'Smallest planet in the Solar System',
+          url: 'https://en.wikipedia.org/wiki/Mercury_(planet)',
+          disambiguation: false,
+        },
+        {
+          title: 'Mercury (element)',
+          description: 'Chemical element with symbol Hg',
+          url: 'https://en.wikipedia.org/wiki/Mercury_(element)',
+          disambiguation: false,
+        },
+      ]);
+      expect(mockedAxios.get.mock.calls[1][1]?.params).toMatchObject({
+        prop: 'pageprops',
+        titles: 'Mercury|Mercury (planet)|Mercury (element)',
+      });
+    });
+
+    it('should return no results without checking for disambiguation', async () => {
+      mockedAxios.get.mockResolvedValueOnce({ data: ['Xyzzy', [], [], []] });
+
+      const result = await wikipediaService.search('Xyzzy');
+
+      expect(result).toEqual({ query: 'Xyzzy', ambiguous: false, results: [] });
+      expect(mockedAxios.get).toHaveBeenCalledTimes(1);
+    });
+
+    it('should skip disambiguation pages when fetching content', async () => {
+      mockedAxios.get
+        .mockResolvedValueOnce({ data: ['Mercury', ['Mercury', 'Mercury (planet)'], [], []] })
+        .mockResolvedValueOnce({
+          data: {
+            query: {
+              pages: {
+                '1': {
+                  title: 'Mercury',
+                  extract: 'Mercury may refer to:',
+                  pageprops: { disambiguation: '' },
+                },
+              },
+            },
+          },
+        })
+        .mockResolvedValueOnce({
+          data: {
+            query: {
+              pages: {
+                '2': {
+                  title: 'Mercury (planet)',
+                  extract: 'Mercury is the first planet from the Sun.',
+                },
+              },
+            },
+          },
+        });
+
+      const result = await wikipediaService.fetchContent('Mercury', 'en');
+
+      expect(result.articleTitle).toBe('Mercury (planet)');
+    });
+
+    it('should fetch an explicit article title without searching', async () => {
+      mockedAxios.get.mockResolvedValueOnce({
+        data: {
+          query: {
+            pages: {
+              '3': { title: 'Mercury (element)', extract: 'Mercury is a chemical element.' },
+            },
+          },
+        },
+      });
+
+      const result = await wikipediaService.fetchContent('Mercury', 'en', 'Mercury (element)');
+
+      expect(result.articleTitle).toBe('Mercury (element)');
+      expect(mockedAxios.get).toHaveBeenCalledTimes(1);
+      expect(mockedAxios.get.mock.calls[0][1]?.params).toMatchObject({
+        titles: 'Mercury (element)',
+      });
+    });
+
+    it('should reject an explicit disambiguation page', async () => {
+      mockedAxios.get.mockResolvedValueOnce({
+        data: {
+          query: {
+            pages: {
+              '1': {
+                title: 'Mercury',
+                extract: 'Mercury may refer to:',
+                pageprops: { disambiguation: '' },
+              },
+            },
+          },
+        },
+      });
+      await expect(wikipediaService.fetchContent('Mercury', 'en', 'Mercury')).rejects.toThrow(
+        '"Mercury" is a disambiguation page; choose a specific article'
+      );
+    });
+  });
+
+  describe('sections', () => {
+    const filler = (topic: string) =>
+      `${topic} is covered in this part of the article with enough words to count as a readable section for typing practice sessions.`;
+    const mockArticle = {
+      data: {
+        query: {
+          pages: {
+            '4242': {
+              title: 'Volcano',
+              extract: [
+                filler('The lead'),
+                '',
+                '== Etymology ==',
+                filler('Etymology'),
+                '',
+                '== Formation ==',
+                '',
+                '=== Plate boundaries ===',
+                filler('Plate boundaries'),
+                '',
+                '== See also ==',
+                '',
+              ].join('\n'),
+            },
+          },
+        },
+      },
+    };
+
+    beforeEach(() => {
+      mockedAxios.get
+        .mockResolvedValueOnce({ data: ['Volcano', ['Volcano'], [], []] })
+        .mockResolvedValueOnce(mockArticle);
+    });
+
+    it('should list article sections with their levels and word counts', async () => {
+      const result = await wikipediaService.listSections('volcanoes', 'en');
+
+      expect(result.articleTitle).toBe('Volcano');
+      expect(result.sections.map(({ title, level }) => [title, level])).toEqual([
+        ['Introduction', 1],
+        ['Etymology', 2],
+        ['Formation', 2],
+        ['Plate boundaries', 3],
+        ['See also', 2],
+      ]);
+      expect(result.sections[2].wordCount).toBe(0);
+      expect(mockedAxios.get.mock.calls[1][1]?.params).toMatchObject({
+        explaintext: true,
+        exsectionformat: 'wiki',
+      });
+      expect(mockedAxios.get.mock.calls[1][1]?.params).not.toHaveProperty('exintro');
+    });
+
+    it('should fetch a section by index with a pointer to the next readable one', async () => {
+      const result = await wikipediaService.fetchSection('volcanoes', 'en', { section: 1 });
+
+      expect(result.text).toContain('Etymology is covered');
+      expect(result.url).toBe('https://en.wikipedia.org/wiki/Volcano#Etymology');
+      expect(result.section).toEqual({ index: 1, title: 'Etymology', count: 5, next: 3 });
+    });
+
+    it('should fetch the next readable section, skipping empty ones', async () => {
+      const result = await wikipediaService.fetchSection('volcanoes', 'en', {
+        section: 'next',
+        afterSection: 1,
+      });
+
+      expect(result.section).toEqual({ index: 3, title: 'Plate boundaries', count: 5, next: null });
+    });
+
+    it('should use a pinned article title without searching', async () => {
+      mockedAxios.get.mockReset();
+      mockedAxios.get.mockResolvedValueOnce(mockArticle);
+
+      const result = await wikipediaService.fetchSection('anything', 'en', {
+        section: 0,
+        article: 'Volcano',
+      });
+
+      expect(result.section?.title).toBe('Introduction');
+      expect(mockedAxios.get).toHaveBeenCalledTimes(1);
+    });
+
+    it('should extend a short introduction with the readable sections after it', async () => {
+      mockedAxios.get.mockReset();
+      mockedAxios.get.mockResolvedValueOnce(mockArticle);
+      const intro = filler('The lead');
+
+      const result = await wikipediaService.extendContent(
+        {
+          text: intro,
+          source: 'wikipedia',
+          articleTitle: 'Volcano',
+          url: 'https://en.wikipedia.org/wiki/Volcano',
+          wordCount: 23,
+        },
+        'en',
+        30
+      );
+
+      expect(result.text).toBe(`${intro}\n\n${filler('Etymology')}`);
+      expect(result.wordCount).toBe(45);
+    });
+
+    it('should reject sections without text and reading past the end', async () => {
+      await expect(
+        wikipediaService.fetchSection('volcanoes', 'en', { section: 2 })
+      ).rejects.toThrow('Section 2 of "Volcano" has no text');
+
+      mockedAxios.get
+        .mockResolvedValueOnce({ data: ['Volcano', ['Volcano'], [], []] })
+        .mockResolvedValueOnce(mockArticle);
+
+      await expect(
+        wikipediaService.fetchSection('volcanoes', 'en', { section: 'next', afterSection: 3 })
+      ).rejects.toThrow('No more sections to read in "Volcano"');
+    });
+  });
+
+  describe('ping', () => {
+    it('should query the site info of the language edition', async () => {
+      mockedAxios.get.mockResolvedValueOnce({ data: { query: { general: {} } } });
+
+      await wikipediaService.ping('pt');
+
+      expect(mockedAxios.get).toHaveBeenCalledWith(
+        'https://pt.wikipedia.org/w/api.php',
+        expect.objectContaining({ params: expect.objectContaining({ meta: 'siteinfo' }) })
+      );
+    });
+
+    it('should report Wikipedia as unreachable when the call fails', async () => {
+      jest.spyOn(console, 'warn').mockImplementation(() => {});
+      mockedAxios.get.mockRejectedValueOnce(new Error('getaddrinfo ENOTFOUND'));
+
+      await expect(wikipediaService.ping()).rejects.toThrow(
+        'Wikipedia is unreachable: getaddrinfo ENOTFOUND'
+      );
+    });
+  });
+
+  describe('retries and circuit breaker', () => {
+    const siteInfo = { data: { query: { general: {} } } };
+
+    beforeEach(() => {
+      jest.spyOn(console, 'warn').mockImplementation(() => {});
+    });
+
+    it('should retry transient failures', async () => {
+      const service = new WikipediaService({ retry: { retries: 2, baseDelayMs: 0 } });
+      mockedAxios.get
+        .mockRejectedValueOnce(new Error('socket hang up'))
+        .mockRejectedValueOnce({ response: { status: 503 }, message: 'Service Unavailable' })
+        .mockResolvedValueOnce(siteInfo);
+
+      await service.ping();
+
+      expect(mockedAxios.get).toHaveBeenCalledTimes(3);
+    });
+
+    it('should not retry client errors', async () => {
+      const service = new WikipediaService({ retry: { retries: 2, baseDelayMs: 0 } });
+      mockedAxios.get.mockRejectedValueOnce({ response: { status: 400 }, message: 'Bad Request' });
+
+      await expect(service.ping()).rejects.toThrow('Wikipedia is unreachable: Bad Request');
+      expect(mockedAxios.get).toHaveBeenCalledTimes(1);
+    });
+
+    it('should stop calling Wikipedia once its circuit opens', async () => {
+      const service = new WikipediaService({
+        retry: { retries: 0 },
+        breaker: new CircuitBreaker('Wikipedia', {
+          failureThreshold: 2,
+          isFailure: isTransientError,
+        }),
+      });
+      mockedAxios.get.mockRejectedValue(new Error('getaddrinfo ENOTFOUND'));
+
+      await expect(service.ping()).rejects.toThrow('ENOTFOUND');
+      await expect(service.ping()).rejects.toThrow('ENOTFOUND');
+      expect(service.isAvailable()).toBe(false);
+
+      await expect(service.ping()).rejects.toThrow('Wikipedia is temporarily unavailable');
+      expect(mockedAxios.get).toHaveBeenCalledTimes(2);
+      mockedAxios.get.mockReset();
+    });
+  });
+
   describe('extractSummary', () => {
     it('should extract summary within word limit', () => {
       const mockContent = {
@@ -191,5 +546,21 @@ describe('WikipediaService', () => {
 
       expect(summary).toContain('...');
     });
+
+    it('should prefer sentences near the requested difficulty', () => {
+      const easy = 'The sun is hot. It gives us light.';
+      const hard =
+        'Thermonuclear fusion reactions within the stellar core continuously transform hydrogen nuclei into helium, liberating extraordinary quantities of electromagnetic radiation.';
+      const mockContent = {
+        text: `${hard} ${easy}`,
+        source: 'wikipedia' as const,
+        articleTitle: 'Sun',
+        url: 'https://en.wikipedia.org/wiki/Sun',
+        wordCount: 27,
+      };
+
+      expect(wikipediaService.extractSummary(mockContent, 10, 'easy')).toBe(easy);
+      expect(wikipediaService.extractSummary(mockContent, 20, 'hard')).toBe(hard);
+    });
   });
 });
@@ -1,208 +1,319 @@
-import axios from 'axios';
-import { AppError } from '../middleware/errorHandler';
+import { AppError, RequestAbortedError } from '../middleware/errorHandler';
+import type { LanguageCode } from '../types';
+import { assessDifficulty, type DifficultyTarget } from '../utils/difficulty';
+import { logger } from '../utils/logger';
+import {
+  aiProviderFailures,
+  aiProviderFallbacks,
+  upstreamRequestDuration,
+} from '../utils/prometheus';
+import { CircuitBreaker, CircuitOpenError } from '../utils/resilience';
+import { stripMarkdown } from '../utils/text';
+import { processAIContent } from '../utils/validation';
+import {
+  buildContentPrompt,
+  checkGeneratedText,
+  containsInjection,
+  getSubjectTerms,
+} from './prompt.builder';
+import type { AIProvider, ProviderRequest, ProviderResult } from './providers/provider';
+import { createProviderChain } from './providers/registry';
+import { estimateTokens, getUsageService, type UsageService } from './usage.service';
 
 export interface AIGeneratedContent {
   text: string;
   source: 'ai';
   wordCount: number;
   difficulty: 'easy' | 'medium' | 'hard';
+  provider: string;
+  model: string;
+}
+
+export interface AIGenerationOptions {
+  language?: LanguageCode;
+  difficulty?: DifficultyTarget;
+  /** Direction to move from a previous attempt that missed the requested difficulty */
+  adjustment?: 'simpler' | 'harder';
+  /** Account the usage is recorded against; guests when omitted */
+  userId?: string;
+  /** Stops generation, e.g. when the client streaming it disconnects */
+  signal?: AbortSignal;
 }
 
 /**
  * AI Service for content generation
- * Supports OpenAI and Google Gemini
+ * Walks an ordered chain of providers (see providers/registry) until one returns text
+ * that passes the output check of prompt.builder. Each provider has a circuit breaker,
+ * so one that keeps failing is skipped instead of costing every request its timeout.
+ * Generations are not retried: the next provider in the chain is the retry.
+ * The tokens of every response are recorded with the usage service, including
+ * responses the output check rejects, since they are paid for all the same
  */
 export class AIService {
-  private openaiApiKey: string | undefined;
-  private geminiApiKey: string | undefined;
+  private providers: AIProvider[];
+  private breakers: Map<string, CircuitBreaker>;
+  private usage: UsageService;
+
+  constructor(
+    providers: AIProvider[] = createProviderChain(),
+    usage: UsageService = getUsageService()
+  ) {
+    this.providers = providers;
+    this.usage = usage;
+    this.breakers = new Map(
+      providers.map((provider) => [
+        provider.name,
+        new CircuitBreaker(provider.name, {
+          isFailure: (error) => !(error instanceof RequestAbortedError),
+        }),
+      ])
+    );
+  }
+
+  /**
+   * Whether any provider can be called now, i.e. not every circuit is open
+   */
+  isAvailable(): boolean {
+    return this.providers.some((provider) => this.getBreaker(provider).isAvailable());
+  }
+
+  /**
+   * Names of the configured providers, in fallback order
+   */
+  getProviderNames(): string[] {
+    return this.providers.map((provider) => provider.name);
+  }
 
-  constructor() {
-    this.openaiApiKey = process.env.OPENAI_API_KEY;
-    this.geminiApiKey = process.env.GEMINI_API_KEY;
+  /**
+   * The configured providers, in fallback order
+   */
+  getProviders(): readonly AIProvider[] {
+    return this.providers;
   }
 
   /**
    * Generate educational content using AI
    */
-  async generateContent(theme: string, targetLength: number = 300): Promise<AIGeneratedContent> {
-    // Try OpenAI first, then Gemini as fallback
-    if (this.openaiApiKey) {
+  async generateContent(
+    theme: string,
+    targetLength: number = 300,
+    options: AIGenerationOptions = {}
+  ): Promise<AIGeneratedContent> {
+    const request = this.buildRequest(theme, targetLength, options);
+    let lastError: unknown;
+
+    for (const [index, provider] of this.providers.entries()) {
+      const stopTimer = upstreamRequestDuration.startTimer({ service: provider.name });
       try {
-        return await this.generateWithOpenAI(theme, targetLength);
+        const result = await this.getBreaker(provider).execute(() => provider.generate(request));
+        await this.recordUsage(provider, request, result, options.userId);
+        const content = this.formatResponse(result.text, theme, provider, options.language);
+        stopTimer({ outcome: 'success' });
+        return content;
       } catch (error) {
-        console.error('OpenAI generation failed, trying Gemini:', error);
-        if (this.geminiApiKey) {
-          return await this.generateWithGemini(theme, targetLength);
-        }
-        throw error;
+        this.recordFailure(provider, error, stopTimer);
+        lastError = error;
+        this.fallBack(index, error);
       }
-    } else if (this.geminiApiKey) {
-      return await this.generateWithGemini(theme, targetLength);
-    } else {
-      throw new AppError(
-        'No AI service configured. Please set OPENAI_API_KEY or GEMINI_API_KEY',
-        503
-      );
     }
+
+    throw lastError;
   }
 
   /**
-   * Generate content using OpenAI
+   * Generate educational content, calling onToken with text fragments as they arrive
+   * Providers without streaming support emit their whole text as one fragment. Falls
+   * back to the next provider only while nothing has been emitted yet
    */
-  private async generateWithOpenAI(
+  async streamContent(
     theme: string,
-    targetLength: number
+    targetLength: number,
+    onToken: (token: string) => void,
+    options: AIGenerationOptions = {}
   ): Promise<AIGeneratedContent> {
-    try {
-      const prompt = this.buildPrompt(theme, targetLength);
-
-      const response = await axios.post(
-        'https://api.openai.com/v1/chat/completions',
-        {
-          model: 'gpt-3.5-turbo',
-          messages: [
-            {
-              role: 'system',
-              content:
-                'You are an educational content writer. Create clear, factual, and engaging educational content.',
-            },
-            {
-              role: 'user',
-              content: prompt,
-            },
-          ],
-          max_tokens: Math.ceil(targetLength * 1.5),
-          temperature: 0.7,
-        },
-        {
-          headers: {
-            Authorization: `Bearer ${this.openaiApiKey}`,
-            'Content-Type': 'application/json',
-          },
-          timeout: 30000,
-        }
-      );
-
-      const text = response.data.choices[0]?.message?.content?.trim();
+    const request = this.buildRequest(theme, targetLength, options);
+    let lastError: unknown;
+    let emitted = false;
+    const emit = (token: string) => {
+      emitted = true;
+      onToken(token);
+    };
 
-      if (!text) {
-        throw new AppError('No content generated from OpenAI', 500);
+    for (const [index, provider] of this.providers.entries()) {
+      const stopTimer = upstreamRequestDuration.startTimer({ service: provider.name });
+      try {
+        const result = await this.getBreaker(provider).execute(() =>
+          this.streamFrom(provider, request, emit)
+        );
+        await this.recordUsage(provider, request, result, options.userId);
+        const content = this.formatResponse(result.text, theme, provider, options.language);
+        stopTimer({ outcome: 'success' });
+        return content;
+      } catch (error) {
+        // Nobody is waiting for the text, so no other provider is tried
+        if (error instanceof RequestAbortedError) {
+          stopTimer({ outcome: 'aborted' });
+          throw error;
+        }
+        this.recordFailure(provider, error, stopTimer);
+        if (emitted) throw error;
+        lastError = error;
+        this.fallBack(index, error);
       }
+    }
 
-      return this.formatResponse(text);
-    } catch (error: any) {
-      if (error.response?.status === 401) {
-        throw new AppError('Invalid OpenAI API key', 503);
+    throw lastError;
+  }
+
+  /**
+   * Stream from a provider, emitting the whole text at once for providers that can't
+   * An aborted call is raised as RequestAbortedError, which the provider is not blamed for
+   */
+  private async streamFrom(
+    provider: AIProvider,
+    request: ProviderRequest,
+    emit: (token: string) => void
+  ): Promise<ProviderResult> {
+    try {
+      if (provider.stream) {
+        return await provider.stream(request, emit);
       }
-      if (error.response?.status === 429) {
-        throw new AppError('OpenAI rate limit exceeded', 429);
+      const generated = await provider.generate(request);
+      emit(generated.text);
+      return generated;
+    } catch (error) {
+      if (request.signal?.aborted) {
+        throw new RequestAbortedError(provider.name);
       }
-      throw new AppError(`OpenAI generation failed: ${error.message}`, 500);
+      throw error;
     }
   }
 
-  /**
-   * Generate content using Google Gemini
-   */
-  private async generateWithGemini(
+  private buildRequest(
     theme: string,
-    targetLength: number
-  ): Promise<AIGeneratedContent> {
-    try {
-      const prompt = this.buildPrompt(theme, targetLength);
-
-      const response = await axios.post(
-        `https://generativelanguage.googleapis.com/v1beta/models/gemini-pro:generateContent?key=${this.geminiApiKey}`,
-        {
-          contents: [
-            {
-              parts: [
-                {
-                  text: prompt,
-                },
-              ],
-            },
-          ],
-          generationConfig: {
-            temperature: 0.7,
-            maxOutputTokens: Math.ceil(targetLength * 1.5),
-          },
-        },
-        {
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          timeout: 30000,
-        }
+    targetLength: number,
+    options: AIGenerationOptions
+  ): ProviderRequest {
+    if (this.providers.length === 0) {
+      throw new AppError(
+        'No AI service configured. Please set OPENAI_API_KEY, GEMINI_API_KEY or OPENAI_COMPATIBLE_BASE_URL',
+        503
       );
+    }
+    // Without a subject there is nothing to check the output against
+    if (containsInjection(theme) && getSubjectTerms(theme).length === 0) {
+      throw new AppError('Theme must name a subject to write about', 400);
+    }
 
-      const text = response.data.candidates?.[0]?.content?.parts?.[0]?.text?.trim();
+    return {
+      ...buildContentPrompt(theme, targetLength, options),
+      maxTokens: Math.ceil(targetLength * 1.5),
+      temperature: 0.7,
+      signal: options.signal,
+    };
+  }
 
-      if (!text) {
-        throw new AppError('No content generated from Gemini', 500);
-      }
+  /**
+   * Record the tokens a response used, estimated from the text when the provider did not
+   * report them. A usage log that cannot be written does not fail the generation
+   */
+  private async recordUsage(
+    provider: AIProvider,
+    request: ProviderRequest,
+    result: ProviderResult,
+    userId?: string
+  ): Promise<void> {
+    const usage = result.usage ?? {
+      inputTokens: estimateTokens(request.systemPrompt + request.prompt),
+      outputTokens: estimateTokens(result.text),
+    };
 
-      return this.formatResponse(text);
-    } catch (error: any) {
-      if (error.response?.status === 401 || error.response?.status === 403) {
-        throw new AppError('Invalid Gemini API key', 503);
-      }
-      if (error.response?.status === 429) {
-        throw new AppError('Gemini rate limit exceeded', 429);
-      }
-      throw new AppError(`Gemini generation failed: ${error.message}`, 500);
+    try {
+      await this.usage.record({
+        provider: provider.name,
+        model: provider.model,
+        userId: userId ?? null,
+        ...usage,
+        estimated: !result.usage,
+      });
+    } catch (error) {
+      logger.error('Failed to record AI usage', { provider: provider.name, error });
     }
   }
 
+  private getBreaker(provider: AIProvider): CircuitBreaker {
+    return this.breakers.get(provider.name) as CircuitBreaker;
+  }
+
   /**
-   * Build prompt for AI content generation
+   * Time and count a failed call; providers skipped for an open circuit were not called
    */
-  private buildPrompt(theme: string, targetLength: number): string {
-    return `Write an educational text about "${theme}" in approximately ${targetLength} words. 
-The text should be:
-- Clear and factual
-- Suitable for typing practice
-- Well-structured with proper paragraphs
-- Engaging and informative
-- Free of special formatting or markdown
-
-Do not include a title or heading. Start directly with the content.`;
+  private recordFailure(
+    provider: AIProvider,
+    error: unknown,
+    stopTimer: (labels: { outcome: string }) => void
+  ): void {
+    if (error instanceof CircuitOpenError) {
+      return;
+    }
+    stopTimer({ outcome: 'failure' });
+    aiProviderFailures.inc({ provider: provider.name });
   }
 
   /**
-   * Format and validate AI response
+   * Log and count a move to the next provider after one failed; the last provider's
+   * error is rethrown to the caller instead
    */
-  private formatResponse(text: string): AIGeneratedContent {
-    // Clean up the text
-    const cleanText = text
-      .replace(/\n{3,}/g, '\n\n') // Remove excessive line breaks
-      .replace(/^\s+|\s+$/g, '') // Trim whitespace
-      .replace(/[^\S\n]+/g, ' '); // Normalize spaces
+  private fallBack(index: number, error: unknown): void {
+    const from = this.providers[index].name;
+    const next = this.providers[index + 1];
+    if (next) {
+      aiProviderFallbacks.inc({ from, to: next.name });
+      logger.warn('AI provider failed, trying the next one', {
+        provider: from,
+        next: next.name,
+        error,
+      });
+    }
+  }
 
-    const wordCount = cleanText.split(/\s+/).length;
+  /**
+   * Format and validate AI response
+   * Its language is checked with every other source's, by content post-processing
+   */
+  private formatResponse(
+    text: string,
+    theme: string,
+    provider: AIProvider,
+    language?: LanguageCode
+  ): AIGeneratedContent {
+    // Models often answer in Markdown despite the prompt; reduce it to plain typing text
+    const { content: cleanText, wordCount } = processAIContent(stripMarkdown(text));
 
-    // Determine difficulty based on word complexity and length
-    const difficulty = this.calculateDifficulty(cleanText, wordCount);
+    const check = checkGeneratedText(cleanText, theme, language);
+    if (!check.onTopic) {
+      throw new AppError(`${provider.name} output was rejected: ${check.reasons.join('; ')}`, 500);
+    }
 
     return {
       text: cleanText,
       source: 'ai',
       wordCount,
-      difficulty,
+      difficulty: assessDifficulty(cleanText).level,
+      provider: provider.name,
+      model: provider.model,
     };
   }
+}
 
-  /**
-   * Calculate content difficulty
-   */
-  private calculateDifficulty(text: string, wordCount: number): 'easy' | 'medium' | 'hard' {
-    const avgWordLength = text.replace(/\s/g, '').length / wordCount;
+let sharedAIService: AIService | null = null;
 
-    if (avgWordLength < 5 && wordCount < 200) {
-      return 'easy';
-    } else if (avgWordLength > 6 || wordCount > 400) {
-      return 'hard';
-    }
-    return 'medium';
+/**
+ * Shared instance so content generation and readiness checks see the same provider circuits
+ */
+export function getAIService(): AIService {
+  if (!sharedAIService) {
+    sharedAIService = new AIService();
   }
+  return sharedAIService;
 }
@@ -0,0 +1,189 @@
+import crypto from 'node:crypto';
+import { promisify } from 'node:util';
+import { AppError } from '../middleware/errorHandler';
+import { createUserRepository, type UserRepository } from '../repositories/user.repository';
+import type { PublicUser, User } from '../types';
+import { logger } from '../utils/logger';
+
+const scrypt = promisify(crypto.scrypt) as (
+  password: string,
+  salt: string,
+  keylen: number
+) => Promise<Buffer>;
+
+const KEY_LENGTH = 64;
+const DEFAULT_TOKEN_TTL_SECONDS = 7 * 24 * 60 * 60; // 7 days
+
+export interface AuthResult {
+  user: PublicUser;
+  token: string;
+  expiresAt: Date;
+}
+
+interface TokenPayload {
+  sub: string;
+  iat: number;
+  exp: number;
+}
+
+/**
+ * Auth Service - Local accounts with scrypt password hashing and HMAC-signed tokens
+ */
+export class AuthService {
+  private repository: UserRepository;
+  private tokenSecret: string;
+  private tokenTtlSeconds: number;
+
+  constructor(repository: UserRepository = createUserRepository()) {
+    this.repository = repository;
+    this.tokenTtlSeconds = Number(process.env.AUTH_TOKEN_TTL_SECONDS) || DEFAULT_TOKEN_TTL_SECONDS;
+
+    if (process.env.AUTH_TOKEN_SECRET) {
+      this.tokenSecret = process.env.AUTH_TOKEN_SECRET;
+    } else {
+      // Tokens signed with a random secret stop validating after a restart
+      logger.warn('AUTH_TOKEN_SECRET is not set, using a random secret for this process');
+      this.tokenSecret = crypto.randomBytes(32).toString('hex');
+    }
+  }
+
+  /**
+   * Register a new account and sign it in
+   */
+  async register(username: string, password: string): Promise<AuthResult> {
+    const existing = await this.repository.findByUsername(username);
+
+    if (existing) {
+      throw new AppError('Username is already taken', 409);
+    }
+
+    const user = await this.repository.create({
+      id: `user_${crypto.randomUUID()}`,
+      username,
+      passwordHash: await this.hashPassword(password),
+      createdAt: new Date(),
+    });
+
+    return this.issueToken(user);
+  }
+
+  /**
+   * Verify credentials and issue a session token
+   */
+  async login(username: string, password: string): Promise<AuthResult> {
+    const user = await this.repository.findByUsername(username);
+
+    if (!user || !(await this.verifyPassword(password, user.passwordHash))) {
+      throw new AppError('Invalid username or password', 401);
+    }
+
+    return this.issueToken(user);
+  }
+
+  /**
+   * Resolve the user a token was issued to
+   */
+  async authenticate(token: string): Promise<PublicUser> {
+    const payload = this.verifyToken(token);
+    const user = await this.repository.findById(payload.sub);
+
+    if (!user) {
+      throw new AppError('Invalid or expired token', 401);
+    }
+
+    return this.toPublicUser(user);
+  }
+
+  /**
+   * Hash a password as "salt:hash" using scrypt
+   */
+  async hashPassword(password: string): Promise<string> {
+    const salt = crypto.randomBytes(16).toString('hex');
+    const hash = await scrypt(password, salt, KEY_LENGTH);
+    return `${salt}:${hash.toString('hex')}`;
+  }
+
+  /**
+   * Compare a password against a stored hash in constant time
+   */
+  async verifyPassword(password: string, storedHash: string): Promise<boolean> {
+    const [salt, hash] = storedHash.split(':');
+
+    if (!salt || !hash) {
+      return false;
+    }
+
+    const expected = Buffer.from(hash, 'hex');
+    const actual = await scrypt(password, salt, KEY_LENGTH);
+    return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+  }
+
+  /**
+   * Sign a token as "payload.signature", both base64url encoded
+   */
+  private issueToken(user: User): AuthResult {
+    const issuedAt = Math.floor(Date.now() / 1000);
+    const payload: TokenPayload = {
+      sub: user.id,
+      iat: issuedAt,
+      exp: issuedAt + this.tokenTtlSeconds,
+    };
+
+    const encodedPayload = Buffer.from(JSON.stringify(payload)).toString('base64url');
+
+    return {
+      user: this.toPublicUser(user),
+      token: `${encodedPayload}.${this.sign(encodedPayload)}`,
+      expiresAt: new Date(payload.exp * 1000),
+    };
+  }
+
+  private verifyToken(token: string): TokenPayload {
+    const [encodedPayload, signature] = token.split('.');
+
+    if (!encodedPayload || !signature) {
+      throw new AppError('Invalid or expired token', 401);
+    }
+
+    const expected = Buffer.from(this.sign(encodedPayload));
+    const actual = Buffer.from(signature);
+
+    if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+      throw new AppError('Invalid or expired token', 401);
+    }
+
+    const payload: TokenPayload = JSON.parse(
+      Buffer.from(encodedPayload, 'base64url').toString('utf-8')
+    );
+
+    if (typeof payload.sub !== 'string' || payload.exp * 1000 <= Date.now()) {
+      throw new AppError('Invalid or expired token', 401);
+    }
+
+    return payload;
+  }
+
+  private sign(value: string): string {
+    return crypto.createHmac('sha256', this.tokenSecret).update(value).digest('base64url');
+  }
+
+  private toPublicUser(user: User): PublicUser {
+    return {
+      id: user.id,
+      username: user.username,
+      createdAt: user.createdAt,
+    };
+  }
+}
+
+let sharedAuthService: AuthService | null = null;
+
+/**
+ * Shared instance so the middleware and auth routes sign and verify with the same secret
+ */
+export function getAuthService(): AuthService {
+  if (!sharedAuthService) {
+    sharedAuthService = new AuthService();
+  }
+  return sharedAuthService;
+}
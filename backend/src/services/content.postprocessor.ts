@@ -0,0 +1,85 @@
+// Post-processing pipeline every generated or fetched text goes through before it is served
+
+import type { LanguageCode } from '../types';
+import { detectLanguage } from '../utils/language';
+import { segmentSentences } from '../utils/segmentation';
+import { stripMarkdown } from '../utils/text';
+import { countWords, processAIContent, type WordBounds } from '../utils/validation';
+
+export type RejectionCode = 'empty' | 'too_short' | 'wrong_language';
+
+/**
+ * Why a text was rejected, in a form clients can act on
+ */
+export interface RejectionReason {
+  code: RejectionCode;
+  message: string;
+}
+
+export interface PostProcessOptions {
+  language: LanguageCode; // language the text was requested in
+  bounds?: WordBounds; // 100-500 words by default
+}
+
+export interface PostProcessResult {
+  text: string;
+  wordCount: number;
+  trimmed: boolean; // whether sentences past maxWords were dropped
+  detectedLanguage: LanguageCode | null;
+  rejections: RejectionReason[]; // empty when the text can be served
+}
+
+/**
+ * Cut text after the last whole sentence that fits in maxWords, keeping its paragraphs
+ * A first sentence longer than maxWords is cut at a word boundary instead
+ */
+export function trimToWords(text: string, maxWords: number, language: LanguageCode): string {
+  let end = 0;
+  let words = 0;
+
+  for (const sentence of segmentSentences(text, language)) {
+    words += countWords(sentence);
+    if (words > maxWords) break;
+    end = text.indexOf(sentence, end) + sentence.length;
+  }
+
+  return end > 0 ? text.slice(0, end) : text.split(/\s+/).slice(0, maxWords).join(' ');
+}
+
+/**
+ * Reduce a text to plain typing text and check it can be served
+ * Markdown and HTML are stripped and whitespace normalized, then text over maxWords is
+ * trimmed at a sentence boundary. Text under minWords, or detected to be in another
+ * language than requested, is rejected; regenerating it is up to the caller
+ */
+export function postProcessText(raw: string, options: PostProcessOptions): PostProcessResult {
+  const { language, bounds = {} } = options;
+  const { minWords = 100, maxWords = 500 } = bounds;
+  let { content: text, wordCount } = processAIContent(stripMarkdown(raw));
+
+  const trimmed = wordCount > maxWords;
+  if (trimmed) {
+    text = trimToWords(text, maxWords, language);
+    wordCount = countWords(text);
+  }
+
+  const rejections: RejectionReason[] = [];
+  if (wordCount === 0) {
+    rejections.push({ code: 'empty', message: 'Content text cannot be empty' });
+  } else if (wordCount < minWords) {
+    rejections.push({
+      code: 'too_short',
+      message: `Content has ${wordCount} words, fewer than the minimum of ${minWords}`,
+    });
+  }
+
+  const detectedLanguage = detectLanguage(text);
+  if (detectedLanguage && detectedLanguage !== language) {
+    rejections.push({
+      code: 'wrong_language',
+      message: `Content appears to be in "${detectedLanguage}" rather than "${language}"`,
+    });
+  }
+
+  return { text, wordCount, trimmed, detectedLanguage, rejections };
+}
@@ -1,54 +1,254 @@
-import { AppError } from '../middleware/errorHandler';
-import { type AIGeneratedContent, AIService } from './ai.service';
-import { type WikipediaContent, WikipediaService } from './wikipedia.service';
+import { AppError, ContentRejectedError, RequestAbortedError } from '../middleware/errorHandler';
+import {
+  type ContentCacheRepository,
+  createContentCache,
+} from '../repositories/contentCache.repository';
+import {
+  type CustomContentRepository,
+  createCustomContentRepository,
+} from '../repositories/customContent.repository';
+import type { LanguageCode, Passage } from '../types';
+import {
+  assessDifficulty,
+  type DifficultyLevel,
+  type DifficultyTarget,
+  distanceFromBand,
+  resolveDifficultyBand,
+  scoreDifficulty,
+} from '../utils/difficulty';
+import { logger } from '../utils/logger';
+import { contentCacheLookups, contentFallbacks } from '../utils/prometheus';
+import { segmentText } from '../utils/segmentation';
+import { stripMarkdown } from '../utils/text';
+import { countWords, sanitizeContent, type WordBounds } from '../utils/validation';
+import { type AIGeneratedContent, type AIService, getAIService } from './ai.service';
+import { postProcessText, type RejectionReason } from './content.postprocessor';
+import { type CorpusService, getCorpusService } from './corpus.service';
+import { ModerationService } from './moderation.service';
+import { OfflineContentService } from './offline.service';
+import { SnippetService } from './snippet.service';
+import type { CodeLanguage } from './snippets.corpus';
+import { getUsageService, type UsageService } from './usage.service';
+import {
+  getWikipediaService,
+  type WikipediaArticleSections,
+  type WikipediaContent,
+  type WikipediaSearchResults,
+  type WikipediaSectionRequest,
+  type WikipediaService,
+} from './wikipedia.service';
+
+export type ContentSource =
+  | 'ai'
+  | 'wikipedia'
+  | 'combined'
+  | 'offline'
+  | 'corpus'
+  | 'custom'
+  | 'code';
+
+// Wikipedia words kept for a single passage, and for a text to be split into a lesson
+const SUMMARY_WORDS = 400;
+const LESSON_WORDS = 1500;
+
+// Sources read from local data, which are not cached
+const LOCAL_SOURCES = new Set<ContentSource>(['offline', 'corpus', 'code']);
+
+// Sources whose text an AI writes afresh on every request
+const AI_SOURCES = new Set<ContentSource>(['ai', 'combined']);
+
+// Bounds on user-supplied texts, after sanitization
+const MIN_CUSTOM_WORDS = 10;
+const MAX_CUSTOM_WORDS = 5000;
+
+// Word counts moderation accepts; sections, snippets and lessons fall outside the
+// 100-500 words of a single generated passage
+const MODERATION_WORD_BOUNDS: WordBounds = { minWords: 1, maxWords: MAX_CUSTOM_WORDS };
 
 export interface GeneratedContent {
   id: string;
   theme: string;
   text: string;
-  source: 'ai' | 'wikipedia' | 'combined';
-  difficulty: 'easy' | 'medium' | 'hard';
+  source: ContentSource;
+  difficulty: DifficultyLevel;
   wordCount: number;
   estimatedTime: number;
   metadata: {
+    aiProvider?: string;
     aiModel?: string;
     wikipediaArticle?: string;
     wikipediaUrl?: string;
+    wikipediaSection?: WikipediaContent['section'];
+    offlineSeed?: string;
+    corpusDocument?: string; // path of the corpus file, relative to the corpus directory
+    customFileName?: string; // uploaded file a custom text came from
+    codeLanguage?: CodeLanguage; // programming language of a code snippet
+    snippetTitle?: string;
     language: string;
+    detectedLanguage?: LanguageCode; // language the text was identified as, when it could be
+    difficultyScore?: number; // 0 (easiest) to 100, see utils/difficulty
+    requestedDifficulty?: DifficultyTarget;
+    difficultyMatched?: boolean; // whether the score fell in the requested band
+    cacheHit?: boolean;
+    cachedAt?: Date;
+    aiBudgetExceeded?: boolean; // served without AI because the AI budget was spent
   };
+  passages?: Passage[]; // ordered lesson, set when passageLength was requested
   createdAt: Date;
 }
 
+export interface ContentRequest {
+  theme: string;
+  source?: ContentSource;
+  language?: string;
+  length?: number;
+  difficulty?: DifficultyTarget;
+  seed?: string | number;
+  // Wikipedia source only: a section index, or "next" for the one after afterSection
+  section?: number | 'next';
+  afterSection?: number;
+  article?: string; // exact Wikipedia article title, instead of the top search result
+  passageLength?: number; // target words per passage; splits the text into a lesson
+  codeLanguage?: CodeLanguage; // code source only; any language when omitted
+}
+
+/**
+ * Text supplied by the user, pasted or read from an uploaded .txt/.md file
+ */
+export interface CustomTextInput {
+  text: string;
+  title?: string;
+  language?: LanguageCode;
+  format?: 'text' | 'markdown';
+  fileName?: string;
+}
+
+/**
+ * Wikipedia article, and optionally section, to use instead of the top search result
+ */
+export type WikipediaSelection = Partial<WikipediaSectionRequest>;
+
+/**
+ * Cache key for a content request; themes match case- and whitespace-insensitively
+ */
+export function getContentCacheKey(request: ContentRequest): string {
+  return [
+    request.theme.trim().toLowerCase().replace(/\s+/g, ' '),
+    request.source || 'combined',
+    request.language || 'en',
+    request.length || 300,
+    request.difficulty ?? 'any',
+    ...(request.section === undefined && !request.article
+      ? []
+      : [`${request.article ?? ''}#${request.section ?? ''}>${request.afterSection ?? ''}`]),
+    // Lessons keep more Wikipedia text, so they can't share entries with single passages
+    ...(request.passageLength === undefined ? [] : ['lesson']),
+  ].join('|');
+}
+
 /**
  * Content Service - Orchestrates content generation from multiple sources
  */
 export class ContentService {
   private aiService: AIService;
   private wikipediaService: WikipediaService;
+  private offlineService: OfflineContentService;
+  private corpusService: CorpusService;
+  private snippetService: SnippetService;
+  private cache: ContentCacheRepository | null;
+  private customContent: CustomContentRepository;
+  private moderation: ModerationService;
+  private usage: UsageService;
+  private difficultyRetries: number;
+  private moderationRetries: number;
+  private wordBounds: Required<WordBounds>;
 
-  constructor() {
-    this.aiService = new AIService();
-    this.wikipediaService = new WikipediaService();
+  constructor(
+    cache: ContentCacheRepository | null = createContentCache(),
+    customContent: CustomContentRepository = createCustomContentRepository(),
+    moderation: ModerationService = new ModerationService(),
+    usage: UsageService = getUsageService()
+  ) {
+    this.aiService = getAIService();
+    this.wikipediaService = getWikipediaService();
+    this.offlineService = new OfflineContentService();
+    this.corpusService = getCorpusService();
+    this.snippetService = new SnippetService();
+    this.cache = cache;
+    this.customContent = customContent;
+    this.moderation = moderation;
+    this.usage = usage;
+    // Extra AI generations allowed when a passage misses the requested difficulty
+    this.difficultyRetries = Number(process.env.CONTENT_DIFFICULTY_RETRIES ?? 1);
+    // Extra AI generations allowed when moderation or post-processing rejects a passage
+    this.moderationRetries = Number(process.env.CONTENT_MODERATION_RETRIES ?? 1);
+    // Word counts a single passage is trimmed or regenerated to fall in
+    this.wordBounds = {
+      minWords: Number(process.env.CONTENT_MIN_WORDS ?? 100),
+      maxWords: Number(process.env.CONTENT_MAX_WORDS ?? 500),
+    };
+  }
+
+  /**
+   * Generate content for a request from the requested source
+   * Network-backed results are cached, so repeated requests don't spend API quota.
+   * Only content that passed post-processing and moderation is returned or cached,
+   * with rejections raised as ContentRejectedError listing each reason. AI usage is recorded
+   * against userId; once the AI budget is spent, AI sources are served without AI
+   */
+  async generateContent(request: ContentRequest, userId?: string): Promise<GeneratedContent> {
+    const content = await this.withCache(request, () =>
+      this.withModeration(request, () => this.generateFromSource(request, userId))
+    );
+    return this.withPassages(content, request);
+  }
+
+  /**
+   * Generate content for a request, calling onChunk with text as it is produced
+   * AI text arrives token by token; other sources and cache hits arrive as one chunk.
+   * Resolves to the final content, whose text is authoritative over the chunks.
+   * Aborting the signal stops AI generation, which then rejects with status 499
+   */
+  async streamContent(
+    request: ContentRequest,
+    onChunk: (chunk: string) => void,
+    userId?: string,
+    signal?: AbortSignal
+  ): Promise<GeneratedContent> {
+    // Streamed text can't be taken back, so rejected text is never regenerated here
+    const content = await this.withCache(request, () =>
+      this.withModeration(
+        request,
+        () => this.streamFromSource(request, onChunk, userId, signal),
+        false
+      )
+    );
+
+    if (content.metadata.cacheHit) {
+      onChunk(content.text);
+    }
+    return this.withPassages(content, request);
   }
 
   /**
    * Generate content from AI only
    */
-  async generateAIContent(theme: string, targetLength: number = 300): Promise<GeneratedContent> {
+  async generateAIContent(
+    theme: string,
+    targetLength: number = 300,
+    language: LanguageCode = 'en',
+    difficulty?: DifficultyTarget,
+    userId?: string
+  ): Promise<GeneratedContent> {
     try {
-      const aiContent = await this.aiService.generateContent(theme, targetLength);
-
-      return this.formatContent({
+      const aiContent = await this.generateAIForDifficulty(
         theme,
-        text: aiContent.text,
-        source: 'ai',
-        difficulty: aiContent.difficulty,
-        wordCount: aiContent.wordCount,
-        metadata: {
-          aiModel: 'openai-gpt-3.5-turbo',
-          language: 'en',
-        },
-      });
+        targetLength,
+        language,
+        difficulty,
+        userId
+      );
+      return this.fromAIContent(theme, aiContent, language, difficulty);
     } catch (error: any) {
       throw new AppError(`AI content generation failed: ${error.message}`, error.statusCode || 500);
     }
@@ -59,66 +259,244 @@ export class ContentService {
    */
   async fetchWikipediaContent(
     theme: string,
-    language: 'en' | 'pt' = 'en'
+    language: LanguageCode = 'en',
+    difficulty?: DifficultyTarget,
+    selection?: WikipediaSelection,
+    maxWords: number = SUMMARY_WORDS
   ): Promise<GeneratedContent> {
     try {
-      const wikiContent = await this.wikipediaService.fetchContent(theme, language);
+      const wikiContent = await this.fetchWikipediaArticle(theme, language, selection);
+      return this.fromWikipediaContent(theme, wikiContent, language, difficulty, maxWords);
+    } catch (error: any) {
+      throw new AppError(
+        `Wikipedia content fetch failed: ${error.message}`,
+        error.statusCode || 500
+      );
+    }
+  }
 
-      // Extract summary if content is too long
-      const text =
-        wikiContent.wordCount > 500
-          ? this.wikipediaService.extractSummary(wikiContent, 400)
-          : wikiContent.text;
+  /**
+   * Candidate Wikipedia articles for a theme, so ambiguous themes can be resolved by the user
+   */
+  async searchWikipedia(
+    theme: string,
+    language: LanguageCode = 'en'
+  ): Promise<WikipediaSearchResults> {
+    try {
+      return await this.wikipediaService.search(theme, language);
+    } catch (error: any) {
+      throw new AppError(`Wikipedia search failed: ${error.message}`, error.statusCode || 500);
+    }
+  }
 
-      const wordCount = text.split(/\s+/).length;
+  /**
+   * List the sections of the Wikipedia article for a theme
+   */
+  async listWikipediaSections(
+    theme: string,
+    language: LanguageCode = 'en',
+    article?: string
+  ): Promise<WikipediaArticleSections> {
+    try {
+      return await this.wikipediaService.listSections(theme, language, article);
+    } catch (error: any) {
+      throw new AppError(
+        `Wikipedia sections fetch failed: ${error.message}`,
+        error.statusCode || 500
+      );
+    }
+  }
+
+  /**
+   * Generate content from the bundled offline corpus
+   * Needs no network and is deterministic for a given seed. The corpus has a fixed
+   * style, so a requested difficulty is only recorded, not applied
+   */
+  async generateOfflineContent(
+    theme: string,
+    targetLength: number = 300,
+    language: string = 'en',
+    seed: string | number = 0,
+    difficulty?: DifficultyTarget
+  ): Promise<GeneratedContent> {
+    const offlineContent = this.offlineService.generateContent(theme, targetLength, language, seed);
+
+    return this.formatContent({
+      theme,
+      text: offlineContent.text,
+      source: 'offline',
+      wordCount: offlineContent.wordCount,
+      requestedDifficulty: difficulty,
+      metadata: {
+        offlineSeed: offlineContent.seed,
+        language,
+      },
+    });
+  }
+
+  /**
+   * Generate content from the local text corpus (CONTENT_CORPUS_DIR)
+   * The passage comes from the document that best matches the theme
+   */
+  async generateCorpusContent(
+    theme: string,
+    targetLength: number = 300,
+    language: LanguageCode = 'en',
+    difficulty?: DifficultyTarget
+  ): Promise<GeneratedContent> {
+    try {
+      const corpusContent = await this.corpusService.fetchContent(theme, language, targetLength);
 
       return this.formatContent({
         theme,
-        text,
-        source: 'wikipedia',
-        difficulty: this.calculateDifficulty(text, wordCount),
-        wordCount,
+        text: corpusContent.text,
+        source: 'corpus',
+        wordCount: corpusContent.wordCount,
+        requestedDifficulty: difficulty,
         metadata: {
-          wikipediaArticle: wikiContent.articleTitle,
-          wikipediaUrl: wikiContent.url,
+          corpusDocument: corpusContent.documentId,
           language,
         },
       });
     } catch (error: any) {
       throw new AppError(
-        `Wikipedia content fetch failed: ${error.message}`,
+        `Corpus content generation failed: ${error.message}`,
         error.statusCode || 500
       );
     }
   }
 
+  /**
+   * Serve a code snippet from the bundled snippet corpus for the code typing mode
+   * The code is kept verbatim, since its whitespace and line breaks are part of the text
+   * to type
+   */
+  async generateCodeContent(
+    theme: string,
+    codeLanguage?: CodeLanguage,
+    language: string = 'en',
+    seed: string | number = 0,
+    difficulty?: DifficultyTarget
+  ): Promise<GeneratedContent> {
+    const snippet = this.snippetService.pickSnippet(theme, codeLanguage, seed);
+
+    return this.formatContent({
+      theme,
+      text: snippet.code,
+      source: 'code',
+      wordCount: snippet.wordCount,
+      requestedDifficulty: difficulty,
+      metadata: {
+        codeLanguage: snippet.codeLanguage,
+        snippetTitle: snippet.title,
+        language,
+      },
+    });
+  }
+
+  /**
+   * Save a text supplied by the user as practice content
+   * Markdown is reduced to plain text, then the text is sanitized, counted and scored
+   */
+  async saveCustomContent(input: CustomTextInput, ownerId?: string): Promise<GeneratedContent> {
+    const isMarkdown = input.format === 'markdown' || /\.md$/i.test(input.fileName ?? '');
+    const text = sanitizeContent(isMarkdown ? stripMarkdown(input.text) : input.text);
+    const wordCount = countWords(text);
+
+    if (wordCount < MIN_CUSTOM_WORDS || wordCount > MAX_CUSTOM_WORDS) {
+      throw new AppError(
+        `Custom text must be between ${MIN_CUSTOM_WORDS} and ${MAX_CUSTOM_WORDS} words`,
+        400
+      );
+    }
+
+    const content = this.formatContent({
+      theme: input.title?.trim() || 'Custom text',
+      text,
+      source: 'custom',
+      wordCount,
+      metadata: {
+        ...(input.fileName && { customFileName: input.fileName }),
+        language: input.language || 'en',
+      },
+    });
+
+    const verdict = this.moderation.review(content, MODERATION_WORD_BOUNDS);
+    if (!verdict.approved) {
+      await this.moderation.recordRejection(content, verdict.reasons, 'rejected');
+      throw new AppError(`Custom text was rejected: ${verdict.reasons.join('; ')}`, 422);
+    }
+
+    await this.customContent.save(content, ownerId);
+    return content;
+  }
+
+  /**
+   * Load a saved custom text; texts saved by someone else are reported as missing
+   */
+  async getCustomContent(id: string, ownerId?: string): Promise<GeneratedContent> {
+    const stored = await this.customContent.findById(id);
+
+    if (!stored || stored.ownerId !== ownerId) {
+      throw new AppError(`Custom content "${id}" not found`, 404);
+    }
+
+    return stored.content;
+  }
+
   /**
    * Generate combined content from AI and Wikipedia
+   * A source whose circuit breaker is open is skipped rather than waited on. With
+   * CONTENT_OFFLINE_FALLBACK=true, offline content is served when both fail
    */
   async generateCombinedContent(
     theme: string,
     targetLength: number = 300,
-    language: 'en' | 'pt' = 'en'
+    language: LanguageCode = 'en',
+    difficulty?: DifficultyTarget,
+    article?: string,
+    userId?: string
   ): Promise<GeneratedContent> {
     try {
+      const aiAvailable = this.aiService.isAvailable();
+      const wikipediaAvailable = this.wikipediaService.isAvailable();
+
+      if (aiAvailable && !wikipediaAvailable) {
+        this.logFallback('ai', 'Wikipedia circuit is open, using AI only');
+        return await this.generateAIContent(theme, targetLength, language, difficulty, userId);
+      }
+      if (wikipediaAvailable && !aiAvailable) {
+        this.logFallback('wikipedia', 'AI circuits are open, using Wikipedia only');
+        return await this.fetchWikipediaContent(theme, language, difficulty, { article });
+      }
+
       // Fetch both sources in parallel
       const [aiResult, wikiResult] = await Promise.allSettled([
-        this.aiService.generateContent(theme, Math.floor(targetLength * 0.6)),
-        this.wikipediaService.fetchContent(theme, language),
+        this.generateAIForDifficulty(
+          theme,
+          Math.floor(targetLength * 0.6),
+          language,
+          difficulty,
+          userId
+        ),
+        this.fetchWikipediaArticle(theme, language, { article }),
       ]);
 
       // Handle different scenarios
       if (aiResult.status === 'fulfilled' && wikiResult.status === 'fulfilled') {
         // Both succeeded - combine them
-        return this.combineContent(theme, aiResult.value, wikiResult.value, language);
+        return this.combineContent(theme, aiResult.value, wikiResult.value, language, difficulty);
       } else if (aiResult.status === 'fulfilled') {
-        // Only AI succeeded
-        console.warn('Wikipedia fetch failed, using AI only');
-        return this.generateAIContent(theme, targetLength);
+        // Only AI succeeded; generating again would pay for a second text
+        this.logFallback('ai', 'Wikipedia fetch failed, using AI only');
+        return this.fromAIContent(theme, aiResult.value, language, difficulty);
       } else if (wikiResult.status === 'fulfilled') {
         // Only Wikipedia succeeded
-        console.warn('AI generation failed, using Wikipedia only');
-        return this.fetchWikipediaContent(theme, language);
+        this.logFallback('wikipedia', 'AI generation failed, using Wikipedia only');
+        return this.fromWikipediaContent(theme, wikiResult.value, language, difficulty);
+      } else if (process.env.CONTENT_OFFLINE_FALLBACK === 'true') {
+        this.logFallback('offline', 'AI and Wikipedia both failed, using offline content');
+        return this.generateOfflineContent(theme, targetLength, language, 0, difficulty);
       } else {
         // Both failed
         throw new AppError('Failed to generate content from any source', 500);
@@ -131,6 +509,513 @@ export class ContentService {
     }
   }
 
+  /**
+   * Log and count combined content served from fewer sources than requested
+   */
+  private logFallback(served: 'ai' | 'wikipedia' | 'offline', message: string): void {
+    contentFallbacks.inc({ served });
+    logger.warn(message, { served });
+  }
+
+  /**
+   * Serve a request from the cache, or produce and cache it
+   */
+  private async withCache(
+    request: ContentRequest,
+    produce: () => Promise<GeneratedContent>
+  ): Promise<GeneratedContent> {
+    // Offline, corpus and code content are local and cheap, so caching them gains nothing
+    if (LOCAL_SOURCES.has(request.source ?? 'combined') || !this.cache) {
+      return produce();
+    }
+
+    const key = getContentCacheKey(request);
+    const cached = await this.cache.get(key);
+    contentCacheLookups.inc({ result: cached ? 'hit' : 'miss' });
+    if (cached) {
+      return {
+        ...cached.content,
+        metadata: { ...cached.content.metadata, cacheHit: true, cachedAt: cached.cachedAt },
+      };
+    }
+
+    const content = await produce();
+    // Content served in place of AI while the budget is spent would outlive the budget reset
+    if (!content.metadata.aiBudgetExceeded) {
+      await this.cache.set(key, content).catch((error) => {
+        logger.error('Failed to cache generated content', { key, error });
+      });
+    }
+
+    return { ...content, metadata: { ...content.metadata, cacheHit: false } };
+  }
+
+  /**
+   * Produce content that passes post-processing and moderation, recording every rejection
+   * Sources involving AI are regenerated after a rejection, up to moderationRetries
+   * times; other sources would return the same text again, so their rejections are final
+   */
+  private async withModeration(
+    request: ContentRequest,
+    produce: () => Promise<GeneratedContent>,
+    canRegenerate: boolean = AI_SOURCES.has(request.source ?? 'combined')
+  ): Promise<GeneratedContent> {
+    const attempts = 1 + (canRegenerate ? this.moderationRetries : 0);
+
+    for (let attempt = 1; ; attempt++) {
+      const { content, rejections } = this.postProcess(await produce(), request);
+      const verdict =
+        rejections.length > 0
+          ? { approved: false, reasons: rejections.map(({ message }) => message) }
+          : this.moderation.review(content, MODERATION_WORD_BOUNDS);
+      if (verdict.approved) {
+        return content;
+      }
+
+      const isFinal = attempt >= attempts;
+      await this.moderation.recordRejection(
+        content,
+        verdict.reasons,
+        isFinal ? 'rejected' : 'regenerated'
+      );
+      if (isFinal) {
+        throw rejections.length > 0
+          ? new ContentRejectedError(rejections)
+          : new AppError('Content was rejected by moderation', 422);
+      }
+    }
+  }
+
+  /**
+   * Run content through the post-processing pipeline, re-measuring it when its text
+   * changed and recording the language it was identified as. Code is kept verbatim, so
+   * snippets pass through untouched
+   */
+  private postProcess(
+    content: GeneratedContent,
+    request: ContentRequest
+  ): { content: GeneratedContent; rejections: RejectionReason[] } {
+    if (content.source === 'code') {
+      return { content, rejections: [] };
+    }
+
+    const { text, wordCount, detectedLanguage, rejections } = postProcessText(content.text, {
+      language: content.metadata.language as LanguageCode,
+      bounds: this.getWordBounds(request),
+    });
+    const metadata = { ...content.metadata, ...(detectedLanguage && { detectedLanguage }) };
+    if (text === content.text && wordCount === content.wordCount) {
+      return { content: { ...content, metadata }, rejections };
+    }
+
+    const formatted = this.formatContent({
+      theme: content.theme,
+      text,
+      source: content.source,
+      wordCount,
+      requestedDifficulty: content.metadata.requestedDifficulty,
+      metadata,
+    });
+    return { content: { ...formatted, id: content.id, createdAt: content.createdAt }, rejections };
+  }
+
+  /**
+   * Word counts the text for a request must fall in
+   * A section is as long as the article makes it, and a lesson keeps up to LESSON_WORDS
+   */
+  private getWordBounds(request: ContentRequest): WordBounds {
+    return {
+      minWords: request.section === undefined ? this.wordBounds.minWords : 1,
+      maxWords: request.passageLength === undefined ? this.wordBounds.maxWords : LESSON_WORDS,
+    };
+  }
+
+  /**
+   * Streaming counterpart of generateFromSource
+   */
+  private async streamFromSource(
+    request: ContentRequest,
+    onChunk: (chunk: string) => void,
+    userId?: string,
+    signal?: AbortSignal
+  ): Promise<GeneratedContent> {
+    const { theme, length = 300, difficulty } = request;
+    const language = (request.language || 'en') as LanguageCode;
+
+    if (await this.isAIBudgetExceeded(request)) {
+      const content = await this.generateWithoutAI(request);
+      onChunk(content.text);
+      return content;
+    }
+
+    // Streamed text can't be taken back, so AI output is not regenerated for difficulty
+    if (request.source === 'ai') {
+      try {
+        const aiContent = await this.aiService.streamContent(theme, length, onChunk, {
+          language,
+          difficulty,
+          userId,
+          signal,
+        });
+        return this.fromAIContent(theme, aiContent, language, difficulty);
+      } catch (error: any) {
+        throw new AppError(
+          `AI content generation failed: ${error.message}`,
+          error.statusCode || 500
+        );
+      }
+    }
+
+    if (!request.source || request.source === 'combined') {
+      return this.streamCombinedContent(
+        theme,
+        length,
+        language,
+        difficulty,
+        request.article,
+        onChunk,
+        userId,
+        signal
+      );
+    }
+
+    const content = await this.generateFromSource(request);
+    onChunk(content.text);
+    return content;
+  }
+
+  /**
+   * Stream the AI part of combined content while Wikipedia is fetched in parallel
+   * Unlike generateCombinedContent, a Wikipedia failure keeps the already streamed
+   * AI text rather than generating a longer one. Sources whose circuit breaker is open
+   * are skipped as in generateCombinedContent
+   */
+  private async streamCombinedContent(
+    theme: string,
+    targetLength: number,
+    language: LanguageCode,
+    difficulty: DifficultyTarget | undefined,
+    article: string | undefined,
+    onChunk: (chunk: string) => void,
+    userId?: string,
+    signal?: AbortSignal
+  ): Promise<GeneratedContent> {
+    // An open AI circuit needs no check: streamContent then rejects before emitting anything
+    if (this.aiService.isAvailable() && !this.wikipediaService.isAvailable()) {
+      this.logFallback('ai', 'Wikipedia circuit is open, using AI only');
+      try {
+        const aiContent = await this.aiService.streamContent(theme, targetLength, onChunk, {
+          language,
+          difficulty,
+          userId,
+          signal,
+        });
+        return this.fromAIContent(theme, aiContent, language, difficulty);
+      } catch (error: any) {
+        throw new AppError(
+          `Combined content generation failed: ${error.message}`,
+          error.statusCode || 500
+        );
+      }
+    }
+
+    const wikiSettled = Promise.allSettled([
+      this.fetchWikipediaArticle(theme, language, { article }),
+    ]).then(([result]) => result);
+
+    let aiContent: AIGeneratedContent | null = null;
+    let emitted = false;
+
+    try {
+      aiContent = await this.aiService.streamContent(
+        theme,
+        Math.floor(targetLength * 0.6),
+        (token) => {
+          emitted = true;
+          onChunk(token);
+        },
+        { language, difficulty, userId, signal }
+      );
+    } catch (error: any) {
+      // Nobody is left to serve Wikipedia content to once the client disconnected
+      if (emitted || error instanceof RequestAbortedError) {
+        throw new AppError(
+          `Combined content generation failed: ${error.message}`,
+          error.statusCode || 500
+        );
+      }
+      this.logFallback('wikipedia', 'AI generation failed, using Wikipedia only');
+    }
+
+    const wikiResult = await wikiSettled;
+
+    if (aiContent && wikiResult.status === 'fulfilled') {
+      const content = this.combineContent(theme, aiContent, wikiResult.value, language, difficulty);
+      onChunk(content.text.slice(aiContent.text.length));
+      return content;
+    }
+    if (aiContent) {
+      this.logFallback('ai', 'Wikipedia fetch failed, using AI only');
+      return this.fromAIContent(theme, aiContent, language, difficulty);
+    }
+
+    const content = await this.contentWithoutAI(
+      theme,
+      targetLength,
+      language,
+      difficulty,
+      wikiResult
+    );
+    onChunk(content.text);
+    return content;
+  }
+
+  /**
+   * Wikipedia content, or offline content when enabled, for when AI generation failed
+   */
+  private async contentWithoutAI(
+    theme: string,
+    targetLength: number,
+    language: LanguageCode,
+    difficulty: DifficultyTarget | undefined,
+    wikiResult: PromiseSettledResult<WikipediaContent>
+  ): Promise<GeneratedContent> {
+    if (wikiResult.status === 'fulfilled') {
+      return this.fromWikipediaContent(theme, wikiResult.value, language, difficulty);
+    }
+    if (process.env.CONTENT_OFFLINE_FALLBACK === 'true') {
+      this.logFallback('offline', 'AI and Wikipedia both failed, using offline content');
+      return this.generateOfflineContent(theme, targetLength, language, 0, difficulty);
+    }
+    throw new AppError(
+      'Combined content generation failed: Failed to generate content from any source',
+      500
+    );
+  }
+
+  /**
+   * Dispatch a request to the generator for its source
+   */
+  private async generateFromSource(
+    request: ContentRequest,
+    userId?: string
+  ): Promise<GeneratedContent> {
+    const { theme, length = 300, seed, difficulty } = request;
+    const language = (request.language || 'en') as LanguageCode;
+
+    if (await this.isAIBudgetExceeded(request)) {
+      return this.generateWithoutAI(request);
+    }
+
+    switch (request.source) {
+      case 'ai':
+        return this.generateAIContent(theme, length, language, difficulty, userId);
+      case 'wikipedia':
+        return this.fetchWikipediaContent(
+          theme,
+          language,
+          difficulty,
+          {
+            section: request.section,
+            afterSection: request.afterSection,
+            article: request.article,
+          },
+          request.passageLength === undefined ? SUMMARY_WORDS : LESSON_WORDS
+        );
+      case 'offline':
+        return this.generateOfflineContent(theme, length, language, seed, difficulty);
+      case 'corpus':
+        return this.generateCorpusContent(theme, length, language, difficulty);
+      case 'code':
+        return this.generateCodeContent(theme, request.codeLanguage, language, seed, difficulty);
+      default:
+        return this.generateCombinedContent(
+          theme,
+          length,
+          language,
+          difficulty,
+          request.article,
+          userId
+        );
+    }
+  }
+
+  /**
+   * Whether a request needs AI while the AI budget is spent
+   */
+  private async isAIBudgetExceeded(request: ContentRequest): Promise<boolean> {
+    return AI_SOURCES.has(request.source ?? 'combined') && (await this.usage.isOverBudget());
+  }
+
+  /**
+   * Wikipedia content, or offline content when enabled, for an AI request made once the
+   * AI budget is spent; it is marked as such, so it isn't cached under the AI request
+   */
+  private async generateWithoutAI(request: ContentRequest): Promise<GeneratedContent> {
+    const content = await this.fetchWithoutAI(request);
+    return { ...content, metadata: { ...content.metadata, aiBudgetExceeded: true } };
+  }
+
+  /**
+   * Source the budget fallback is served from
+   */
+  private async fetchWithoutAI(request: ContentRequest): Promise<GeneratedContent> {
+    const { theme, length = 300, seed, difficulty, article } = request;
+    const language = (request.language || 'en') as LanguageCode;
+
+    try {
+      const wikiContent = await this.fetchWikipediaArticle(theme, language, { article });
+      this.logFallback('wikipedia', 'AI budget exceeded, using Wikipedia');
+      return this.fromWikipediaContent(theme, wikiContent, language, difficulty);
+    } catch (error: any) {
+      if (process.env.CONTENT_OFFLINE_FALLBACK === 'true') {
+        this.logFallback(
+          'offline',
+          'AI budget exceeded and Wikipedia failed, using offline content'
+        );
+        return this.generateOfflineContent(theme, length, language, seed, difficulty);
+      }
+      throw new AppError(
+        `AI budget exceeded and Wikipedia content fetch failed: ${error.message}`,
+        503
+      );
+    }
+  }
+
+  /**
+   * Fetch the chosen article or section, or the best search match when none was chosen
+   * An introduction shorter than the minimum passage is extended with the sections after
+   * it, since Wikipedia text can't be regenerated; one that can't be extended is left to
+   * post-processing
+   */
+  private async fetchWikipediaArticle(
+    theme: string,
+    language: LanguageCode,
+    selection: WikipediaSelection = {}
+  ): Promise<WikipediaContent> {
+    const { article, section, afterSection } = selection;
+
+    if (section !== undefined) {
+      return this.wikipediaService.fetchSection(theme, language, {
+        section,
+        afterSection,
+        article,
+      });
+    }
+
+    const content = article
+      ? await this.wikipediaService.fetchContent(theme, language, article)
+      : await this.wikipediaService.fetchContent(theme, language);
+    if (content.wordCount >= this.wordBounds.minWords) {
+      return content;
+    }
+
+    try {
+      return await this.wikipediaService.extendContent(content, language, this.wordBounds.minWords);
+    } catch (error) {
+      logger.warn('Failed to extend a short Wikipedia introduction', {
+        article: content.articleTitle,
+        error,
+      });
+      return content;
+    }
+  }
+
+  /**
+   * Generate AI text, regenerating when it misses the requested difficulty
+   * Each retry asks for simpler or harder text; the attempt closest to the band wins
+   */
+  private async generateAIForDifficulty(
+    theme: string,
+    targetLength: number,
+    language: LanguageCode,
+    difficulty?: DifficultyTarget,
+    userId?: string
+  ): Promise<AIGeneratedContent> {
+    if (difficulty === undefined) {
+      return this.aiService.generateContent(theme, targetLength, { language, userId });
+    }
+
+    const { max } = resolveDifficultyBand(difficulty);
+    let best = await this.aiService.generateContent(theme, targetLength, {
+      language,
+      difficulty,
+      userId,
+    });
+    let bestScore = scoreDifficulty(best.text);
+
+    for (let attempt = 0; attempt < this.difficultyRetries; attempt++) {
+      if (distanceFromBand(bestScore, difficulty) === 0) break;
+
+      const retry = await this.aiService.generateContent(theme, targetLength, {
+        language,
+        difficulty,
+        adjustment: bestScore > max ? 'simpler' : 'harder',
+        userId,
+      });
+      const retryScore = scoreDifficulty(retry.text);
+
+      if (distanceFromBand(retryScore, difficulty) < distanceFromBand(bestScore, difficulty)) {
+        best = retry;
+        bestScore = retryScore;
+      }
+    }
+
+    return best;
+  }
+
+  private fromAIContent(
+    theme: string,
+    aiContent: AIGeneratedContent,
+    language: LanguageCode,
+    difficulty?: DifficultyTarget
+  ): GeneratedContent {
+    return this.formatContent({
+      theme,
+      text: aiContent.text,
+      source: 'ai',
+      wordCount: aiContent.wordCount,
+      requestedDifficulty: difficulty,
+      metadata: {
+        aiProvider: aiContent.provider,
+        aiModel: `${aiContent.provider}-${aiContent.model}`,
+        language,
+      },
+    });
+  }
+
+  private fromWikipediaContent(
+    theme: string,
+    wikiContent: WikipediaContent,
+    language: LanguageCode,
+    difficulty?: DifficultyTarget,
+    maxWords: number = SUMMARY_WORDS
+  ): GeneratedContent {
+    // Extract summary if content is too long, or to keep the sentences nearest the difficulty
+    const text =
+      difficulty !== undefined
+        ? this.wikipediaService.extractSummary(wikiContent, maxWords, difficulty)
+        : wikiContent.wordCount > maxWords * 1.25
+          ? this.wikipediaService.extractSummary(wikiContent, maxWords)
+          : wikiContent.text;
+
+    const wordCount = text.split(/\s+/).length;
+
+    return this.formatContent({
+      theme,
+      text,
+      source: 'wikipedia',
+      wordCount,
+      requestedDifficulty: difficulty,
+      metadata: {
+        wikipediaArticle: wikiContent.articleTitle,
+        wikipediaUrl: wikiContent.url,
+        wikipediaSection: wikiContent.section,
+        language,
+      },
+    });
+  }
+
   /**
    * Combine AI and Wikipedia content intelligently
    */
@@ -138,10 +1023,14 @@ export class ContentService {
     theme: string,
     aiContent: AIGeneratedContent,
     wikiContent: WikipediaContent,
-    language: 'en' | 'pt'
+    language: LanguageCode,
+    difficulty?: DifficultyTarget
   ): GeneratedContent {
     // Extract Wikipedia summary
-    const wikiSummary = this.wikipediaService.extractSummary(wikiContent, 200);
+    const wikiSummary =
+      difficulty === undefined
+        ? this.wikipediaService.extractSummary(wikiContent, 200)
+        : this.wikipediaService.extractSummary(wikiContent, 200, difficulty);
 
     // Combine: AI intro + Wikipedia facts
     const combinedText = `${aiContent.text}\n\n${wikiSummary}`;
@@ -151,10 +1040,11 @@ export class ContentService {
       theme,
       text: combinedText,
       source: 'combined',
-      difficulty: aiContent.difficulty,
       wordCount,
+      requestedDifficulty: difficulty,
       metadata: {
-        aiModel: 'openai-gpt-3.5-turbo',
+        aiProvider: aiContent.provider,
+        aiModel: `${aiContent.provider}-${aiContent.model}`,
         wikipediaArticle: wikiContent.articleTitle,
         wikipediaUrl: wikiContent.url,
         language,
@@ -162,44 +1052,61 @@ export class ContentService {
     });
   }
 
+  /**
+   * Split content into an ordered lesson when the request asks for passages
+   * Segmentation is cheap, so it runs after the cache rather than being stored in it
+   */
+  private withPassages(content: GeneratedContent, request: ContentRequest): GeneratedContent {
+    // Code has no sentences to split on, so a snippet is always a single passage
+    if (request.passageLength === undefined || content.source === 'code') {
+      return content;
+    }
+
+    return {
+      ...content,
+      passages: segmentText(content.text, {
+        targetWords: request.passageLength,
+        language: content.metadata.language as LanguageCode,
+        idPrefix: content.id,
+      }),
+    };
+  }
+
   /**
    * Format content into standard structure
+   * Difficulty is always measured from the final text, and checked against any request
    */
   private formatContent(data: {
     theme: string;
     text: string;
-    source: 'ai' | 'wikipedia' | 'combined';
-    difficulty: 'easy' | 'medium' | 'hard';
+    source: ContentSource;
     wordCount: number;
-    metadata: any;
+    requestedDifficulty?: DifficultyTarget;
+    metadata: GeneratedContent['metadata'];
   }): GeneratedContent {
+    const { score, level } = assessDifficulty(data.text);
+    const requested = data.requestedDifficulty;
+
     return {
       id: this.generateId(),
       theme: data.theme,
       text: data.text,
       source: data.source,
-      difficulty: data.difficulty,
+      difficulty: level,
       wordCount: data.wordCount,
       estimatedTime: this.calculateEstimatedTime(data.wordCount),
-      metadata: data.metadata,
+      metadata: {
+        ...data.metadata,
+        difficultyScore: score,
+        ...(requested !== undefined && {
+          requestedDifficulty: requested,
+          difficultyMatched: distanceFromBand(score, requested) === 0,
+        }),
+      },
       createdAt: new Date(),
     };
   }
 
-  /**
-   * Calculate difficulty based on text characteristics
-   */
-  private calculateDifficulty(text: string, wordCount: number): 'easy' | 'medium' | 'hard' {
-    const avgWordLength = text.replace(/\s/g, '').length / wordCount;
-
-    if (avgWordLength < 5 && wordCount < 200) {
-      return 'easy';
-    } else if (avgWordLength > 6 || wordCount > 400) {
-      return 'hard';
-    }
-    return 'medium';
-  }
-
   /**
    * Calculate estimated typing time (assuming 40 WPM average)
    */
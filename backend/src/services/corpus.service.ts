@@ -0,0 +1,253 @@
+import { type Dirent, promises as fs } from 'node:fs';
+import path from 'node:path';
+import { isSupportedLanguage } from '../config/languages';
+import { AppError } from '../middleware/errorHandler';
+import type { LanguageCode } from '../types';
+import { segmentText } from '../utils/segmentation';
+import { stripMarkdown, tokenize } from '../utils/text';
+
+const CORPUS_EXTENSIONS = new Set(['.txt', '.md']);
+
+// Title matches count this many times more than matches in the body
+const TITLE_WEIGHT = 3;
+
+export interface CorpusDocument {
+  id: string; // path relative to the corpus directory
+  title: string;
+  language?: LanguageCode; // set for documents under a <language>/ subdirectory
+  text: string;
+  wordCount: number;
+}
+
+export interface CorpusSearchResult {
+  documentId: string;
+  title: string;
+  score: number;
+}
+
+export interface CorpusContent {
+  text: string;
+  source: 'corpus';
+  documentId: string;
+  documentTitle: string;
+  wordCount: number;
+}
+
+interface CorpusIndex {
+  documents: Map<string, CorpusDocument>;
+  // term -> document id -> weighted number of occurrences
+  postings: Map<string, Map<string, number>>;
+}
+
+const countWords = (text: string): number => text.split(/\s+/).filter(Boolean).length;
+
+/**
+ * Corpus Service - Serves passages from a local directory of .txt and .md files
+ * Documents are indexed on first use for keyword search over titles and text.
+ * Files in a top-level directory named after a language code ("pt/", "en/") are only
+ * offered for that language; all other files are offered for every language
+ */
+export class CorpusService {
+  private directory: string;
+  private index: Promise<CorpusIndex> | null = null;
+
+  constructor(directory: string = process.env.CONTENT_CORPUS_DIR || './data/corpus') {
+    this.directory = path.resolve(directory);
+  }
+
+  /**
+   * Documents matching a theme, best first
+   * Scores are TF-IDF sums over the theme's terms, with title matches weighted higher
+   */
+  async search(
+    theme: string,
+    language: LanguageCode = 'en',
+    limit: number = 5
+  ): Promise<CorpusSearchResult[]> {
+    const { documents, postings } = await this.getIndex();
+    const scores = new Map<string, number>();
+
+    for (const term of new Set(tokenize(theme))) {
+      const matches = postings.get(term);
+      if (!matches) continue;
+
+      const idf = Math.log(1 + documents.size / matches.size);
+      for (const [documentId, count] of matches) {
+        const document = documents.get(documentId) as CorpusDocument;
+        if (document.language && document.language !== language) continue;
+
+        scores.set(documentId, (scores.get(documentId) ?? 0) + (1 + Math.log(count)) * idf);
+      }
+    }
+
+    return [...scores]
+      .sort(([idA, a], [idB, b]) => b - a || idA.localeCompare(idB))
+      .slice(0, limit)
+      .map(([documentId, score]) => ({
+        documentId,
+        title: (documents.get(documentId) as CorpusDocument).title,
+        score: Math.round(score * 1000) / 1000,
+      }));
+  }
+
+  /**
+   * Passage of about targetLength words from the document that best matches a theme
+   * The passage with the most theme terms is chosen, the earliest one on ties
+   */
+  async fetchContent(
+    theme: string,
+    language: LanguageCode = 'en',
+    targetLength: number = 300
+  ): Promise<CorpusContent> {
+    const [best] = await this.search(theme, language, 1);
+    if (!best) {
+      throw new AppError(`No corpus documents match "${theme}"`, 404);
+    }
+
+    const { documents } = await this.getIndex();
+    const document = documents.get(best.documentId) as CorpusDocument;
+    const themeTerms = new Set(tokenize(theme));
+
+    const passages = segmentText(document.text, { targetWords: targetLength, language });
+    const ranked = passages
+      .map((passage) => ({
+        passage,
+        hits: tokenize(passage.text).filter((term) => themeTerms.has(term)).length,
+      }))
+      .sort((a, b) => b.hits - a.hits || a.passage.index - b.passage.index);
+
+    const text = ranked[0]?.passage.text ?? document.text;
+
+    return {
+      text,
+      source: 'corpus',
+      documentId: document.id,
+      documentTitle: document.title,
+      wordCount: countWords(text),
+    };
+  }
+
+  /**
+   * Number of documents that can be served; 0 when the directory has none
+   */
+  async countDocuments(): Promise<number> {
+    try {
+      return (await this.getIndex()).documents.size;
+    } catch (error) {
+      if (error instanceof AppError && error.statusCode === 404) {
+        return 0;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Drop the index so the next request rescans the directory
+   */
+  reindex(): void {
+    this.index = null;
+  }
+
+  private getIndex(): Promise<CorpusIndex> {
+    if (!this.index) {
+      this.index = this.buildIndex().catch((error) => {
+        this.index = null;
+        throw error;
+      });
+    }
+    return this.index;
+  }
+
+  private async buildIndex(): Promise<CorpusIndex> {
+    const files = await this.listFiles(this.directory);
+    if (files.length === 0) {
+      throw new AppError('No .txt or .md documents found in the corpus directory', 404);
+    }
+
+    const documents = new Map<string, CorpusDocument>();
+    const postings = new Map<string, Map<string, number>>();
+
+    for (const file of files) {
+      const document = await this.readDocument(file);
+      if (!document.text) continue;
+
+      documents.set(document.id, document);
+      this.addPostings(postings, document.id, tokenize(document.title), TITLE_WEIGHT);
+      this.addPostings(postings, document.id, tokenize(document.text), 1);
+    }
+
+    return { documents, postings };
+  }
+
+  private addPostings(
+    postings: Map<string, Map<string, number>>,
+    documentId: string,
+    terms: string[],
+    weight: number
+  ): void {
+    for (const term of terms) {
+      const matches = postings.get(term) ?? new Map<string, number>();
+      matches.set(documentId, (matches.get(documentId) ?? 0) + weight);
+      postings.set(term, matches);
+    }
+  }
+
+  /**
+   * Corpus files under a directory, recursively; a missing directory has none
+   */
+  private async listFiles(directory: string): Promise<string[]> {
+    let entries: Dirent[];
+    try {
+      entries = await fs.readdir(directory, { withFileTypes: true });
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    const files: string[] = [];
+    for (const entry of entries) {
+      const fullPath = path.join(directory, entry.name);
+      if (entry.isDirectory()) {
+        files.push(...(await this.listFiles(fullPath)));
+      } else if (CORPUS_EXTENSIONS.has(path.extname(entry.name).toLowerCase())) {
+        files.push(fullPath);
+      }
+    }
+    return files.sort();
+  }
+
+  private async readDocument(file: string): Promise<CorpusDocument> {
+    const raw = await fs.readFile(file, 'utf-8');
+    const id = path.relative(this.directory, file).split(path.sep).join('/');
+    const isMarkdown = path.extname(file).toLowerCase() === '.md';
+    const text = isMarkdown ? stripMarkdown(raw) : raw.trim();
+
+    // A Markdown document's first heading is its title; otherwise the file name is
+    const heading = isMarkdown ? /^\s{0,3}#\s+(.+)$/m.exec(raw)?.[1].trim() : undefined;
+    const title = heading || path.basename(file, path.extname(file)).replace(/[-_]+/g, ' ');
+
+    const topDirectory = id.includes('/') ? id.split('/')[0] : undefined;
+
+    return {
+      id,
+      title,
+      language: isSupportedLanguage(topDirectory) ? topDirectory : undefined,
+      text,
+      wordCount: countWords(text),
+    };
+  }
+}
+
+let sharedCorpusService: CorpusService | null = null;
+
+/**
+ * Shared instance so content generation and readiness checks use the same index
+ */
+export function getCorpusService(): CorpusService {
+  if (!sharedCorpusService) {
+    sharedCorpusService = new CorpusService();
+  }
+  return sharedCorpusService;
+}
@@ -0,0 +1,232 @@
+import { getStoragePath, STORAGE_NAMES, type StorageName } from '../config/storage';
+import { checkWritable } from '../repositories/jsonFile.store';
+import { logger } from '../utils/logger';
+import { type AIService, getAIService } from './ai.service';
+import type { ContentSource } from './content.service';
+import { type CorpusService, getCorpusService } from './corpus.service';
+import { getWikipediaService, type WikipediaService } from './wikipedia.service';
+
+const DEFAULT_CACHE_SECONDS = 30;
+const DEFAULT_PROBE_TIMEOUT_MS = 5000;
+
+export type DependencyStatus = 'ok' | 'unavailable' | 'disabled';
+
+export interface DependencyCheck {
+  status: DependencyStatus;
+  message?: string;
+  latencyMs?: number;
+}
+
+export interface AIProviderCheck extends DependencyCheck {
+  name: string;
+  model: string;
+}
+
+// Paths are left out, so the public report does not reveal the server's layout
+export interface StoreCheck extends DependencyCheck {
+  name: StorageName;
+}
+
+export interface ReadinessReport {
+  // ready: every dependency is up; degraded: some content sources are unavailable;
+  // unavailable: data cannot be stored
+  status: 'ready' | 'degraded' | 'unavailable';
+  checkedAt: Date;
+  dependencies: {
+    ai: DependencyCheck & { providers: AIProviderCheck[] };
+    wikipedia: DependencyCheck;
+    corpus: DependencyCheck & { documents: number };
+    storage: DependencyCheck & { stores: StoreCheck[] };
+    cache: DependencyCheck & { mode: 'memory' | 'file' | 'off' };
+  };
+  sources: Record<ContentSource, boolean>;
+}
+
+export interface HealthServiceOptions {
+  cacheTtlMs?: number;
+  probeTimeoutMs?: number;
+}
+
+/**
+ * Health Service - Probes the dependencies content generation relies on
+ * Reports are cached for HEALTH_CACHE_SECONDS, so frequent readiness checks from load
+ * balancers and clients do not turn into calls to AI providers and Wikipedia
+ */
+export class HealthService {
+  private aiService: AIService;
+  private wikipediaService: WikipediaService;
+  private corpusService: CorpusService;
+  private cacheTtlMs: number;
+  private probeTimeoutMs: number;
+  private cached: { report: Promise<ReadinessReport>; expiresAt: number } | null = null;
+
+  constructor(
+    aiService: AIService = getAIService(),
+    wikipediaService: WikipediaService = getWikipediaService(),
+    corpusService: CorpusService = getCorpusService(),
+    options: HealthServiceOptions = {}
+  ) {
+    this.aiService = aiService;
+    this.wikipediaService = wikipediaService;
+    this.corpusService = corpusService;
+    this.cacheTtlMs =
+      options.cacheTtlMs ??
+      (Number(process.env.HEALTH_CACHE_SECONDS) || DEFAULT_CACHE_SECONDS) * 1000;
+    this.probeTimeoutMs =
+      options.probeTimeoutMs ??
+      (Number(process.env.HEALTH_PROBE_TIMEOUT_MS) || DEFAULT_PROBE_TIMEOUT_MS);
+  }
+
+  /**
+   * Status of every dependency and the content sources they leave available
+   * Concurrent callers share one round of probes
+   */
+  getReadiness(): Promise<ReadinessReport> {
+    const now = Date.now();
+    if (!this.cached || this.cached.expiresAt <= now) {
+      this.cached = { report: this.runChecks(), expiresAt: now + this.cacheTtlMs };
+    }
+    return this.cached.report;
+  }
+
+  private async runChecks(): Promise<ReadinessReport> {
+    const [ai, wikipedia, corpus, storage] = await Promise.all([
+      this.checkAI(),
+      this.probe(() => this.wikipediaService.ping()),
+      this.checkCorpus(),
+      this.checkStorage(),
+    ]);
+    const cache = this.checkCache(storage.stores);
+
+    const dependencies = { ai, wikipedia, corpus, storage, cache };
+    for (const [name, check] of Object.entries(dependencies)) {
+      if (check.status === 'unavailable') {
+        logger.warn('Dependency unavailable', { dependency: name, reason: check.message });
+      }
+    }
+
+    const aiUp = ai.status === 'ok';
+    const wikipediaUp = wikipedia.status === 'ok';
+    const customStore = storage.stores.find((store) => store.name === 'customContent');
+
+    let status: ReadinessReport['status'] = aiUp && wikipediaUp ? 'ready' : 'degraded';
+    if (storage.status === 'unavailable') {
+      status = 'unavailable';
+    }
+
+    return {
+      status,
+      checkedAt: new Date(),
+      dependencies,
+      sources: {
+        ai: aiUp,
+        wikipedia: wikipediaUp,
+        combined: aiUp || wikipediaUp || process.env.CONTENT_OFFLINE_FALLBACK === 'true',
+        offline: true,
+        corpus: corpus.status === 'ok',
+        code: true,
+        custom: customStore?.status !== 'unavailable',
+      },
+    };
+  }
+
+  /**
+   * AI is available when at least one provider in the fallback chain answers
+   */
+  private async checkAI(): Promise<ReadinessReport['dependencies']['ai']> {
+    const providers = await Promise.all(
+      this.aiService.getProviders().map(async (provider) => {
+        const ping = provider.ping?.bind(provider);
+        const check: DependencyCheck = ping
+          ? await this.probe(ping)
+          : { status: 'ok', message: 'Configured; reachability is not checked' };
+        return { name: provider.name, model: provider.model, ...check };
+      })
+    );
+
+    if (providers.length === 0) {
+      return { status: 'unavailable', message: 'No AI provider is configured', providers };
+    }
+    return providers.some((provider) => provider.status === 'ok')
+      ? { status: 'ok', providers }
+      : { status: 'unavailable', message: 'No AI provider is reachable', providers };
+  }
+
+  /**
+   * The corpus is optional: a directory without documents is reported as disabled
+   */
+  private async checkCorpus(): Promise<ReadinessReport['dependencies']['corpus']> {
+    let documents = 0;
+    const check = await this.probe(async () => {
+      documents = await this.corpusService.countDocuments();
+    });
+
+    if (check.status === 'ok' && documents === 0) {
+      return { status: 'disabled', message: 'The corpus directory has no documents', documents };
+    }
+    return { ...check, documents };
+  }
+
+  /**
+   * Storage is available when every file-backed store can be written
+   */
+  private async checkStorage(): Promise<ReadinessReport['dependencies']['storage']> {
+    const stores: StoreCheck[] = [];
+    for (const name of STORAGE_NAMES) {
+      const filePath = getStoragePath(name);
+      if (filePath) {
+        stores.push({ name, ...(await this.probe(() => checkWritable(filePath))) });
+      }
+    }
+
+    const failed = stores.filter((store) => store.status === 'unavailable');
+    return failed.length > 0
+      ? {
+          status: 'unavailable',
+          message: `Cannot write ${failed.map((store) => store.name).join(', ')}`,
+          stores,
+        }
+      : { status: 'ok', stores };
+  }
+
+  /**
+   * The cache is optional: off is reported as disabled rather than as a failure
+   */
+  private checkCache(stores: StoreCheck[]): ReadinessReport['dependencies']['cache'] {
+    const mode = process.env.CONTENT_CACHE || 'memory';
+    if (mode === 'off') {
+      return { status: 'disabled', mode };
+    }
+    if (mode !== 'file') {
+      return { status: 'ok', mode: 'memory' };
+    }
+
+    const store = stores.find(({ name }) => name === 'contentCache');
+    return store?.status === 'unavailable'
+      ? { status: 'unavailable', message: 'Cache file cannot be written', mode }
+      : { status: 'ok', mode };
+  }
+
+  /**
+   * Run a check within the probe timeout, measuring how long it took
+   */
+  private async probe(check: () => Promise<void>): Promise<DependencyCheck> {
+    const start = Date.now();
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<never>((_resolve, reject) => {
+      timer = setTimeout(
+        () => reject(new Error(`No answer within ${this.probeTimeoutMs} ms`)),
+        this.probeTimeoutMs
+      );
+    });
+
+    try {
+      await Promise.race([check(), timeout]);
+      return { status: 'ok', latencyMs: Date.now() - start };
+    } catch (error: any) {
+      return { status: 'unavailable', message: error.message, latencyMs: Date.now() - start };
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
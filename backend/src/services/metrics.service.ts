@@ -0,0 +1,110 @@
+import { AppError } from '../middleware/errorHandler';
+import { getSessionRepository, type SessionRepository } from '../repositories/session.repository';
+import type {
+  KeyboardLayoutType,
+  SessionHistoryPage,
+  SessionHistoryQuery,
+  TypingError,
+  UserSession,
+} from '../types';
+
+/**
+ * Whether a session belongs to the user; guest sessions belong to no one
+ */
+function isOwnedBy(session: UserSession, userId?: string): boolean {
+  return userId !== undefined && session.userId === userId;
+}
+
+/**
+ * Metrics Service - Stores and retrieves typing session metrics
+ */
+export class MetricsService {
+  private repository: SessionRepository;
+
+  constructor(repository: SessionRepository = getSessionRepository()) {
+    this.repository = repository;
+  }
+
+  /**
+   * Save a completed or in-progress typing session
+   * The session is owned by userId, or is a guest session when userId is undefined.
+   * Only owners can update a session, so guest sessions can't be saved over
+   */
+  async saveSession(payload: any, userId?: string): Promise<UserSession> {
+    const session = this.toUserSession(payload, userId);
+    const existing = await this.repository.findById(session.sessionId);
+
+    // Reported like getSession does, so the answer doesn't reveal that the id is taken
+    if (existing && !isOwnedBy(existing, userId)) {
+      throw new AppError(`Session "${session.sessionId}" not found`, 404);
+    }
+
+    try {
+      return await this.repository.save(session);
+    } catch (error: any) {
+      throw new AppError(`Failed to save session metrics: ${error.message}`, 500);
+    }
+  }
+
+  /**
+   * Fetch a stored session by id
+   * Guest sessions can't be read back, since guests can't be told apart
+   */
+  async getSession(sessionId: string, userId?: string): Promise<UserSession> {
+    const session = await this.repository.findById(sessionId);
+
+    // Sessions owned by someone else are reported as missing
+    if (!session || !isOwnedBy(session, userId)) {
+      throw new AppError(`Session "${sessionId}" not found`, 404);
+    }
+
+    return session;
+  }
+
+  /**
+   * Query session history with filters, sorting and cursor pagination
+   */
+  async getHistory(query: SessionHistoryQuery): Promise<SessionHistoryPage> {
+    return this.repository.query(query);
+  }
+
+  /**
+   * Convert a validated request payload into a UserSession
+   */
+  private toUserSession(payload: any, userId?: string): UserSession {
+    const errors: TypingError[] = (payload.userProgress?.errors || []).map((error: any) => ({
+      position: error.position,
+      expectedChar: error.expectedChar,
+      typedChar: error.typedChar,
+      timestamp: new Date(error.timestamp),
+      corrected: Boolean(error.corrected),
+    }));
+
+    return {
+      sessionId: payload.sessionId,
+      userId,
+      theme: payload.theme,
+      keyboardLayout: (payload.keyboardLayout || 'QWERTY') as KeyboardLayoutType,
+      startTime: new Date(payload.startTime),
+      endTime: payload.endTime ? new Date(payload.endTime) : undefined,
+      isActive: Boolean(payload.isActive),
+      content: payload.content || '',
+      userProgress: {
+        currentPosition: payload.userProgress?.currentPosition || 0,
+        typedText: payload.userProgress?.typedText || '',
+        errors,
+      },
+      updatedAt: new Date(),
+      metrics: {
+        wpm: payload.metrics.wpm,
+        averageWPM: payload.metrics.averageWPM ?? payload.metrics.wpm,
+        accuracy: payload.metrics.accuracy,
+        totalCharacters: payload.metrics.totalCharacters || 0,
+        correctCharacters: payload.metrics.correctCharacters || 0,
+        errorCount: payload.metrics.errorCount ?? errors.length,
+        timeElapsed: payload.metrics.timeElapsed || 0,
+        keystrokesPerMinute: payload.metrics.keystrokesPerMinute || 0,
+      },
+    };
+  }
+}
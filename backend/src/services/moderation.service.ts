@@ -0,0 +1,160 @@
+import { readFileSync } from 'node:fs';
+import {
+  AGE_RATINGS,
+  type AgeRating,
+  DEFAULT_MODERATION_CONFIG,
+  isAgeRating,
+  type ModerationConfig,
+  type ModerationRule,
+} from '../config/moderation';
+import {
+  createModerationAuditLog,
+  type ModerationAuditEntry,
+  type ModerationAuditLog,
+} from '../repositories/moderationAudit.repository';
+import type { LanguageCode } from '../types';
+import { logger } from '../utils/logger';
+import { findBlockedTerms, validateGeneratedContent, type WordBounds } from '../utils/validation';
+import type { GeneratedContent } from './content.service';
+
+// Characters of rejected text kept in the audit log
+const EXCERPT_LENGTH = 200;
+
+export interface ModerationVerdict {
+  approved: boolean;
+  reasons: string[];
+}
+
+interface CompiledRule extends ModerationRule {
+  regex: RegExp;
+}
+
+/**
+ * Moderation config from the built-in defaults, extended by the JSON file at
+ * CONTENT_MODERATION_RULES (blocklists and rules are added, ageRating replaces) and
+ * CONTENT_AGE_RATING. Bad configuration fails at startup rather than letting text through
+ */
+export function loadModerationConfig(): ModerationConfig {
+  const config: ModerationConfig = {
+    blocklists: { ...DEFAULT_MODERATION_CONFIG.blocklists },
+    rules: [...DEFAULT_MODERATION_CONFIG.rules],
+    ageRating: DEFAULT_MODERATION_CONFIG.ageRating,
+  };
+
+  const rulesPath = process.env.CONTENT_MODERATION_RULES;
+  if (rulesPath) {
+    const custom: Partial<ModerationConfig> = JSON.parse(readFileSync(rulesPath, 'utf-8'));
+
+    for (const [language, terms] of Object.entries(custom.blocklists ?? {})) {
+      const code = language as LanguageCode;
+      config.blocklists[code] = [...(config.blocklists[code] ?? []), ...(terms ?? [])];
+    }
+    config.rules.push(...(custom.rules ?? []));
+    config.ageRating = custom.ageRating ?? config.ageRating;
+  }
+
+  const ageRating = process.env.CONTENT_AGE_RATING || config.ageRating;
+  if (ageRating !== undefined && !isAgeRating(ageRating)) {
+    throw new Error(`Content age rating must be one of ${AGE_RATINGS.join(', ')}`);
+  }
+
+  return { ...config, ageRating };
+}
+
+/**
+ * Moderation Service - Reviews content before it reaches users
+ * Every text must pass validateGeneratedContent, the blocklist of its language and the
+ * regex rules; rated rules apply when an age rating is configured. Rejections are
+ * recorded in the audit log
+ */
+export class ModerationService {
+  private config: ModerationConfig;
+  private rules: CompiledRule[];
+  private auditLog: ModerationAuditLog;
+
+  constructor(
+    config: ModerationConfig = loadModerationConfig(),
+    auditLog: ModerationAuditLog = createModerationAuditLog()
+  ) {
+    this.config = config;
+    this.auditLog = auditLog;
+    this.rules = config.rules.map((rule) => ({
+      ...rule,
+      regex: new RegExp(rule.pattern, rule.flags ?? 'i'),
+    }));
+  }
+
+  /**
+   * Review content; the verdict lists every reason it was rejected for
+   */
+  review(content: GeneratedContent, bounds?: WordBounds): ModerationVerdict {
+    const reasons: string[] = [];
+    const language = content.metadata.language as LanguageCode;
+
+    const validation = validateGeneratedContent(content, bounds);
+    if (!validation.valid) {
+      reasons.push(validation.error as string);
+    }
+
+    for (const term of findBlockedTerms(content.text, this.config.blocklists[language] ?? [])) {
+      reasons.push(`Blocked term "${term}"`);
+    }
+
+    for (const rule of this.rules) {
+      if (this.appliesTo(rule, language) && rule.regex.test(content.text)) {
+        reasons.push(`Rule "${rule.id}"${rule.rating ? ` (rated ${rule.rating})` : ''}`);
+      }
+    }
+
+    return { approved: reasons.length === 0, reasons };
+  }
+
+  /**
+   * Record rejected content in the audit log; failures are logged rather than thrown
+   */
+  async recordRejection(
+    content: GeneratedContent,
+    reasons: string[],
+    action: ModerationAuditEntry['action']
+  ): Promise<void> {
+    await this.auditLog
+      .record({
+        contentId: content.id,
+        theme: content.theme,
+        source: content.source,
+        language: content.metadata.language,
+        reasons,
+        action,
+        excerpt: content.text.slice(0, EXCERPT_LENGTH),
+        recordedAt: new Date(),
+      })
+      .catch((error) => {
+        logger.error('Failed to record moderation rejection', { contentId: content.id, error });
+      });
+  }
+
+  /**
+   * Most recent rejections, newest first
+   */
+  getAuditLog(limit?: number): Promise<ModerationAuditEntry[]> {
+    return this.auditLog.list(limit);
+  }
+
+  /**
+   * Whether a rule applies to text in a language for the configured audience
+   */
+  private appliesTo(rule: ModerationRule, language: LanguageCode): boolean {
+    if (rule.languages && !rule.languages.includes(language)) {
+      return false;
+    }
+    if (!rule.rating) {
+      return true;
+    }
+    return this.isAboveAudience(rule.rating);
+  }
+
+  private isAboveAudience(rating: AgeRating): boolean {
+    const { ageRating } = this.config;
+    return ageRating !== undefined && AGE_RATINGS.indexOf(rating) > AGE_RATINGS.indexOf(ageRating);
+  }
+}
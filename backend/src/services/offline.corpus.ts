@@ -0,0 +1,87 @@
+/**
+ * Sentence templates for the offline content generator
+ * "{theme}" is replaced with the requested theme; templates avoid articles and
+ * agreement around the placeholder so any theme reads naturally
+ */
+export interface OfflineCorpus {
+  openings: string[];
+  body: string[];
+  closings: string[];
+}
+
+export const OFFLINE_CORPUS: Record<'en' | 'pt', OfflineCorpus> = {
+  en: {
+    openings: [
+      'The topic of {theme} has fascinated curious minds for a long time.',
+      'Anyone who starts to study {theme} quickly discovers how much there is to learn.',
+      'Few subjects reward careful attention as generously as {theme}.',
+      'To understand {theme}, it helps to begin with a few simple questions.',
+      'People approach {theme} from many different directions and backgrounds.',
+    ],
+    body: [
+      'Experts often explain {theme} by breaking it into smaller ideas that are easier to follow.',
+      'A good first step is to learn the basic vocabulary that describes {theme}.',
+      'Over the years, many books and articles have been written about {theme}.',
+      'Some ideas related to {theme} seem obvious at first but turn out to be surprisingly deep.',
+      'Students who compare different sources about {theme} usually build a clearer picture.',
+      'Practical examples make the main concepts of {theme} much easier to remember.',
+      'Questions about {theme} often lead to new questions in neighboring fields.',
+      'Teachers like to connect {theme} with everyday situations that learners already know.',
+      'History shows that our understanding of {theme} has changed as new evidence appeared.',
+      'Discussing {theme} with other people is a reliable way to test what you have learned.',
+      'Careful observation is one of the most useful habits when exploring {theme}.',
+      'It is normal to make mistakes while learning about {theme}, and each one teaches something.',
+      'Many communities share resources, notes and stories about {theme} freely.',
+      'Summaries are helpful, but the details of {theme} are where the real insight lives.',
+      'Writing short notes about {theme} helps to organize thoughts and spot gaps.',
+      'The vocabulary of {theme} can feel technical, yet most terms have simple meanings.',
+      'Patience matters, because a solid grasp of {theme} grows one small step at a time.',
+      'Diagrams and timelines can reveal patterns in {theme} that words alone might hide.',
+      'Reading slowly and typing accurately are both skills that improve with regular practice.',
+      'Each new fact about {theme} becomes easier to learn when it is linked to an older one.',
+    ],
+    closings: [
+      'In the end, {theme} is a subject that rewards steady curiosity.',
+      'Whatever your goal, time spent on {theme} is rarely wasted.',
+      'There is always more to discover about {theme}, and that is part of its appeal.',
+      'With regular practice, both your knowledge of {theme} and your typing will keep improving.',
+    ],
+  },
+  pt: {
+    openings: [
+      'O tema {theme} desperta a curiosidade de muitas pessoas há bastante tempo.',
+      'Quem começa a estudar {theme} logo percebe o quanto há para aprender.',
+      'Poucos assuntos recompensam tanto a atenção cuidadosa quanto {theme}.',
+      'Para entender {theme}, vale a pena começar com algumas perguntas simples.',
+      'Pessoas de diferentes origens se aproximam do tema {theme} por caminhos variados.',
+    ],
+    body: [
+      'Especialistas costumam explicar {theme} dividindo o assunto em ideias menores e mais fáceis.',
+      'Um bom primeiro passo é aprender o vocabulário básico usado para descrever {theme}.',
+      'Ao longo dos anos, muitos livros e artigos foram escritos sobre {theme}.',
+      'Algumas ideias ligadas a {theme} parecem óbvias no início, mas se revelam profundas.',
+      'Estudantes que comparam fontes diferentes sobre {theme} costumam formar uma visão mais clara.',
+      'Exemplos práticos tornam os conceitos principais de {theme} muito mais fáceis de lembrar.',
+      'Perguntas sobre {theme} frequentemente levam a novas perguntas em áreas vizinhas.',
+      'Professores gostam de relacionar {theme} com situações do dia a dia dos alunos.',
+      'A história mostra que a compreensão sobre {theme} mudou à medida que surgiram novas evidências.',
+      'Conversar sobre {theme} com outras pessoas é uma boa forma de testar o que foi aprendido.',
+      'A observação cuidadosa é um dos hábitos mais úteis para explorar {theme}.',
+      'É normal errar enquanto se aprende sobre {theme}, e cada erro ensina alguma coisa.',
+      'Muitas comunidades compartilham materiais, anotações e histórias sobre {theme} gratuitamente.',
+      'Resumos ajudam, mas é nos detalhes de {theme} que está o verdadeiro aprendizado.',
+      'Escrever pequenas anotações sobre {theme} ajuda a organizar o pensamento e encontrar lacunas.',
+      'O vocabulário de {theme} pode parecer técnico, mas a maioria dos termos tem significado simples.',
+      'A paciência é importante, porque o domínio de {theme} cresce um pequeno passo de cada vez.',
+      'Diagramas e linhas do tempo podem revelar padrões em {theme} que as palavras escondem.',
+      'Ler com calma e digitar com precisão são habilidades que melhoram com a prática regular.',
+      'Cada fato novo sobre {theme} fica mais fácil de aprender quando ligado a um fato antigo.',
+    ],
+    closings: [
+      'No fim das contas, {theme} é um assunto que recompensa a curiosidade constante.',
+      'Seja qual for o seu objetivo, o tempo dedicado a {theme} raramente é desperdiçado.',
+      'Sempre há algo novo a descobrir sobre {theme}, e isso faz parte do seu encanto.',
+      'Com prática regular, tanto o conhecimento sobre {theme} quanto a digitação continuam a melhorar.',
+    ],
+  },
+};
@@ -0,0 +1,137 @@
+import { AppError } from '../middleware/errorHandler';
+import { OFFLINE_CORPUS } from './offline.corpus';
+
+export type OfflineLanguage = keyof typeof OFFLINE_CORPUS;
+
+export interface OfflineGeneratedContent {
+  text: string;
+  wordCount: number;
+  seed: string;
+}
+
+const MIN_SENTENCES_PER_PARAGRAPH = 3;
+const MAX_SENTENCES_PER_PARAGRAPH = 5;
+
+/**
+ * FNV-1a hash, used to turn a seed string into PRNG state
+ */
+export function hashSeed(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Mulberry32 PRNG - small, fast and reproducible across platforms
+ */
+function createRandom(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function shuffle<T>(items: T[], random: () => number): T[] {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
+
+function countWords(text: string): number {
+  return text.split(/\s+/).filter(Boolean).length;
+}
+
+/**
+ * Offline Content Service - Builds themed passages from a bundled sentence corpus
+ * Output depends only on theme, language, length and seed, so it needs no network
+ * and is reproducible in tests and demos
+ */
+export class OfflineContentService {
+  /**
+   * Languages the bundled corpus covers
+   */
+  getSupportedLanguages(): OfflineLanguage[] {
+    return Object.keys(OFFLINE_CORPUS) as OfflineLanguage[];
+  }
+
+  /**
+   * Generate a passage of roughly targetLength words
+   * The same theme, language, length and seed always produce the same passage
+   */
+  generateContent(
+    theme: string,
+    targetLength: number = 300,
+    language: string = 'en',
+    seed: string | number = 0
+  ): OfflineGeneratedContent {
+    const corpus = OFFLINE_CORPUS[language as OfflineLanguage];
+    if (!corpus) {
+      throw new AppError(`Offline content is not available in language "${language}"`, 400);
+    }
+
+    const topic = theme.trim();
+    const seedKey = String(seed);
+    const random = createRandom(hashSeed(`${seedKey}|${language}|${topic.toLowerCase()}`));
+    const fill = (template: string) => template.replace(/\{theme\}/g, topic);
+
+    const pick = (items: string[]) => items[Math.floor(random() * items.length)];
+    const opening = fill(pick(corpus.openings));
+    const closing = fill(pick(corpus.closings));
+    const closingWords = countWords(closing);
+
+    const sentences = [opening];
+    let wordCount = countWords(opening);
+    let pool: string[] = [];
+
+    // Add body sentences while doing so moves the total closer to the target
+    while (true) {
+      if (pool.length === 0) {
+        pool = shuffle(corpus.body, random);
+      }
+      const next = fill(pool[0]);
+      const current = Math.abs(wordCount + closingWords - targetLength);
+      const extended = Math.abs(wordCount + countWords(next) + closingWords - targetLength);
+      if (extended >= current) break;
+
+      sentences.push(next);
+      wordCount += countWords(next);
+      pool.shift();
+    }
+
+    sentences.push(closing);
+    const text = this.toParagraphs(sentences, random);
+
+    return {
+      text,
+      wordCount: countWords(text),
+      seed: seedKey,
+    };
+  }
+
+  /**
+   * Group sentences into paragraphs of varying size
+   */
+  private toParagraphs(sentences: string[], random: () => number): string {
+    const paragraphs: string[] = [];
+    let index = 0;
+
+    while (index < sentences.length) {
+      const size =
+        MIN_SENTENCES_PER_PARAGRAPH +
+        Math.floor(random() * (MAX_SENTENCES_PER_PARAGRAPH - MIN_SENTENCES_PER_PARAGRAPH + 1));
+      paragraphs.push(sentences.slice(index, index + size).join(' '));
+      index += size;
+    }
+
+    return paragraphs.join('\n\n');
+  }
+}
@@ -0,0 +1,158 @@
+import axios from 'axios';
+import { AppError } from '../../middleware/errorHandler';
+import type { AIProvider, ProviderRequest, ProviderResult, TokenUsage } from './provider';
+import { readSSEData } from './sse';
+
+// Health checks must answer quickly, whatever the generation timeout
+const PING_TIMEOUT_MS = 5000;
+
+export interface GeminiOptions {
+  apiKey: string;
+  model: string;
+  baseUrl?: string;
+  timeout?: number;
+}
+
+/**
+ * Provider for the Google Gemini generateContent API
+ */
+export class GeminiProvider implements AIProvider {
+  readonly name = 'gemini';
+  readonly model: string;
+  private readonly apiKey: string;
+  private readonly baseUrl: string;
+  private readonly timeout: number;
+
+  constructor(options: GeminiOptions) {
+    this.apiKey = options.apiKey;
+    this.model = options.model;
+    this.baseUrl = (options.baseUrl || 'https://generativelanguage.googleapis.com/v1beta').replace(
+      /\/+$/,
+      ''
+    );
+    this.timeout = options.timeout ?? 30000;
+  }
+
+  async generate(request: ProviderRequest): Promise<ProviderResult> {
+    try {
+      const response = await axios.post(
+        `${this.baseUrl}/models/${this.model}:generateContent?key=${this.apiKey}`,
+        this.buildBody(request),
+        {
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          timeout: this.timeout,
+          signal: request.signal,
+        }
+      );
+
+      const text = response.data.candidates?.[0]?.content?.parts?.[0]?.text?.trim();
+
+      if (!text) {
+        throw new AppError('No content generated from Gemini', 500);
+      }
+
+      return { text, usage: this.readUsage(response.data.usageMetadata) };
+    } catch (error: any) {
+      throw this.toAppError(error);
+    }
+  }
+
+  async stream(
+    request: ProviderRequest,
+    onToken: (token: string) => void
+  ): Promise<ProviderResult> {
+    try {
+      const response = await axios.post(
+        `${this.baseUrl}/models/${this.model}:streamGenerateContent?alt=sse&key=${this.apiKey}`,
+        this.buildBody(request),
+        {
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          timeout: this.timeout,
+          responseType: 'stream',
+          signal: request.signal,
+        }
+      );
+
+      let text = '';
+      let usage: TokenUsage | undefined;
+      await readSSEData(response.data, (data) => {
+        const chunk = JSON.parse(data);
+        const token = chunk.candidates?.[0]?.content?.parts?.[0]?.text;
+        if (token) {
+          text += token;
+          onToken(token);
+        }
+        // Every chunk carries the running totals; the last one is complete
+        usage = this.readUsage(chunk.usageMetadata) ?? usage;
+      });
+
+      if (!text.trim()) {
+        throw new AppError('No content generated from Gemini', 500);
+      }
+
+      return { text: text.trim(), usage };
+    } catch (error: any) {
+      throw this.toAppError(error);
+    }
+  }
+
+  /**
+   * Look up the configured model, which checks both the key and the model name
+   */
+  async ping(): Promise<void> {
+    try {
+      await axios.get(`${this.baseUrl}/models/${this.model}?key=${this.apiKey}`, {
+        timeout: Math.min(this.timeout, PING_TIMEOUT_MS),
+      });
+    } catch (error: any) {
+      throw this.toAppError(error, 'health check');
+    }
+  }
+
+  private readUsage(metadata: any): TokenUsage | undefined {
+    if (typeof metadata?.promptTokenCount !== 'number') {
+      return undefined;
+    }
+    return {
+      inputTokens: metadata.promptTokenCount,
+      outputTokens: metadata.candidatesTokenCount ?? 0,
+    };
+  }
+
+  private buildBody(request: ProviderRequest) {
+    return {
+      systemInstruction: {
+        parts: [{ text: request.systemPrompt }],
+      },
+      contents: [
+        {
+          parts: [{ text: request.prompt }],
+        },
+      ],
+      generationConfig: {
+        temperature: request.temperature,
+        maxOutputTokens: request.maxTokens,
+      },
+    };
+  }
+
+  /**
+   * Map HTTP and network failures onto the errors the API reports
+   */
+  private toAppError(error: any, action = 'generation'): AppError {
+    if (error instanceof AppError) {
+      return error;
+    }
+    if (error.response?.status === 401 || error.response?.status === 403) {
+      return new AppError('Invalid Gemini API key', 503);
+    }
+    if (error.response?.status === 429) {
+      return new AppError('Gemini rate limit exceeded', 429);
+    }
+    return new AppError(`Gemini ${action} failed: ${error.message}`, 500);
+  }
+}
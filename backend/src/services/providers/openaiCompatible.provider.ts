@@ -0,0 +1,162 @@
+import axios from 'axios';
+import { AppError } from '../../middleware/errorHandler';
+import type { AIProvider, ProviderRequest, ProviderResult, TokenUsage } from './provider';
+import { readSSEData } from './sse';
+
+// Health checks must answer quickly, whatever the generation timeout
+const PING_TIMEOUT_MS = 5000;
+
+export interface OpenAICompatibleOptions {
+  name: string;
+  label: string; // used in error messages
+  baseUrl: string;
+  model: string;
+  apiKey?: string;
+  timeout?: number;
+  // Ask for token usage at the end of streams; not every compatible server accepts it
+  streamUsage?: boolean;
+}
+
+/**
+ * Provider for the OpenAI chat completions API and any server that implements it
+ * (self-hosted models behind vLLM, Ollama, LM Studio, llama.cpp and similar)
+ */
+export class OpenAICompatibleProvider implements AIProvider {
+  readonly name: string;
+  readonly model: string;
+  private readonly label: string;
+  private readonly baseUrl: string;
+  private readonly apiKey?: string;
+  private readonly timeout: number;
+  private readonly streamUsage: boolean;
+
+  constructor(options: OpenAICompatibleOptions) {
+    this.name = options.name;
+    this.label = options.label;
+    this.baseUrl = options.baseUrl.replace(/\/+$/, '');
+    this.model = options.model;
+    this.apiKey = options.apiKey;
+    this.timeout = options.timeout ?? 30000;
+    this.streamUsage = options.streamUsage ?? false;
+  }
+
+  async generate(request: ProviderRequest): Promise<ProviderResult> {
+    try {
+      const response = await axios.post(
+        `${this.baseUrl}/chat/completions`,
+        this.buildBody(request),
+        { headers: this.buildHeaders(), timeout: this.timeout, signal: request.signal }
+      );
+
+      const text = response.data.choices?.[0]?.message?.content?.trim();
+
+      if (!text) {
+        throw new AppError(`No content generated from ${this.label}`, 500);
+      }
+
+      return { text, usage: this.readUsage(response.data.usage) };
+    } catch (error: any) {
+      throw this.toAppError(error);
+    }
+  }
+
+  async stream(
+    request: ProviderRequest,
+    onToken: (token: string) => void
+  ): Promise<ProviderResult> {
+    try {
+      const response = await axios.post(
+        `${this.baseUrl}/chat/completions`,
+        {
+          ...this.buildBody(request),
+          stream: true,
+          ...(this.streamUsage && { stream_options: { include_usage: true } }),
+        },
+        {
+          headers: this.buildHeaders(),
+          timeout: this.timeout,
+          responseType: 'stream',
+          signal: request.signal,
+        }
+      );
+
+      let text = '';
+      let usage: TokenUsage | undefined;
+      await readSSEData(response.data, (data) => {
+        const chunk = JSON.parse(data);
+        const token = chunk.choices?.[0]?.delta?.content;
+        if (token) {
+          text += token;
+          onToken(token);
+        }
+        // Sent in a final chunk without choices
+        usage = this.readUsage(chunk.usage) ?? usage;
+      });
+
+      if (!text.trim()) {
+        throw new AppError(`No content generated from ${this.label}`, 500);
+      }
+
+      return { text: text.trim(), usage };
+    } catch (error: any) {
+      throw this.toAppError(error);
+    }
+  }
+
+  /**
+   * List the server's models, which needs the same key as generation but costs nothing
+   */
+  async ping(): Promise<void> {
+    try {
+      await axios.get(`${this.baseUrl}/models`, {
+        headers: this.buildHeaders(),
+        timeout: Math.min(this.timeout, PING_TIMEOUT_MS),
+      });
+    } catch (error: any) {
+      throw this.toAppError(error, 'health check');
+    }
+  }
+
+  private readUsage(usage: any): TokenUsage | undefined {
+    if (typeof usage?.prompt_tokens !== 'number') {
+      return undefined;
+    }
+    return { inputTokens: usage.prompt_tokens, outputTokens: usage.completion_tokens ?? 0 };
+  }
+
+  private buildHeaders(): Record<string, string> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.apiKey) {
+      headers.Authorization = `Bearer ${this.apiKey}`;
+    }
+    return headers;
+  }
+
+  private buildBody(request: ProviderRequest) {
+    return {
+      model: this.model,
+      messages: [
+        { role: 'system', content: request.systemPrompt },
+        { role: 'user', content: request.prompt },
+      ],
+      max_tokens: request.maxTokens,
+      temperature: request.temperature,
+    };
+  }
+
+  /**
+   * Map HTTP and network failures onto the errors the API reports
+   */
+  private toAppError(error: any, action = 'generation'): AppError {
+    if (error instanceof AppError) {
+      return error;
+    }
+    if (error.response?.status === 401) {
+      return new AppError(`Invalid ${this.label} API key`, 503);
+    }
+    if (error.response?.status === 429) {
+      return new AppError(`${this.label} rate limit exceeded`, 429);
+    }
+    return new AppError(`${this.label} ${action} failed: ${error.message}`, 500);
+  }
+}
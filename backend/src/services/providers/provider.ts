@@ -0,0 +1,48 @@
+/**
+ * Request passed to an AI provider
+ */
+export interface ProviderRequest {
+  systemPrompt: string;
+  prompt: string;
+  maxTokens: number;
+  temperature: number;
+  /** Cancels the upstream call, e.g. once the client that asked for it disconnects */
+  signal?: AbortSignal;
+}
+
+/**
+ * Tokens a generation consumed, as reported by the provider
+ */
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+/**
+ * Generated text, with its token usage when the provider reports it
+ */
+export interface ProviderResult {
+  text: string;
+  usage?: TokenUsage;
+}
+
+/**
+ * A text generation backend the AI service can fall back through
+ */
+export interface AIProvider {
+  /** Registry name, e.g. "openai" */
+  readonly name: string;
+  /** Model identifier sent to the provider */
+  readonly model: string;
+  generate(request: ProviderRequest): Promise<ProviderResult>;
+  /**
+   * Generate text, calling onToken with each fragment as it arrives
+   * Resolves to the complete text; optional, the AI service falls back to generate
+   */
+  stream?(request: ProviderRequest, onToken: (token: string) => void): Promise<ProviderResult>;
+  /**
+   * Check the provider is reachable and accepts the credentials, without generating text
+   * Optional; providers without it are reported as configured but not probed
+   */
+  ping?(): Promise<void>;
+}
@@ -0,0 +1,89 @@
+import { logger } from '../../utils/logger';
+import { GeminiProvider } from './gemini.provider';
+import { OpenAICompatibleProvider } from './openaiCompatible.provider';
+import type { AIProvider } from './provider';
+
+/**
+ * Builds a provider from the environment, or returns null when it is not configured
+ */
+export type ProviderFactory = (env: NodeJS.ProcessEnv) => AIProvider | null;
+
+const DEFAULT_CHAIN = ['openai', 'gemini', 'openai-compatible'];
+
+const factories = new Map<string, ProviderFactory>([
+  [
+    'openai',
+    (env) =>
+      env.OPENAI_API_KEY
+        ? new OpenAICompatibleProvider({
+            name: 'openai',
+            label: 'OpenAI',
+            baseUrl: env.OPENAI_BASE_URL || 'https://api.openai.com/v1',
+            model: env.OPENAI_MODEL || 'gpt-3.5-turbo',
+            apiKey: env.OPENAI_API_KEY,
+            streamUsage: true,
+          })
+        : null,
+  ],
+  [
+    'gemini',
+    (env) =>
+      env.GEMINI_API_KEY
+        ? new GeminiProvider({
+            apiKey: env.GEMINI_API_KEY,
+            model: env.GEMINI_MODEL || 'gemini-1.5-flash',
+          })
+        : null,
+  ],
+  [
+    'openai-compatible',
+    (env) =>
+      env.OPENAI_COMPATIBLE_BASE_URL
+        ? new OpenAICompatibleProvider({
+            name: 'openai-compatible',
+            label: 'OpenAI-compatible endpoint',
+            baseUrl: env.OPENAI_COMPATIBLE_BASE_URL,
+            model: env.OPENAI_COMPATIBLE_MODEL || 'llama3',
+            apiKey: env.OPENAI_COMPATIBLE_API_KEY,
+            timeout: Number(env.OPENAI_COMPATIBLE_TIMEOUT_MS) || undefined,
+          })
+        : null,
+  ],
+]);
+
+/**
+ * Register an additional provider under a name usable in AI_PROVIDERS
+ */
+export function registerProvider(name: string, factory: ProviderFactory): void {
+  factories.set(name, factory);
+}
+
+/**
+ * Build the ordered fallback chain of configured providers
+ * AI_PROVIDERS is a comma-separated list of provider names; unconfigured providers are skipped
+ */
+export function createProviderChain(env: NodeJS.ProcessEnv = process.env): AIProvider[] {
+  const names = env.AI_PROVIDERS
+    ? env.AI_PROVIDERS.split(',')
+        .map((name) => name.trim())
+        .filter(Boolean)
+    : DEFAULT_CHAIN;
+
+  const providers: AIProvider[] = [];
+
+  for (const name of names) {
+    const factory = factories.get(name);
+
+    if (!factory) {
+      logger.warn(`Unknown AI provider "${name}" in AI_PROVIDERS, skipping`);
+      continue;
+    }
+
+    const provider = factory(env);
+    if (provider) {
+      providers.push(provider);
+    }
+  }
+
+  return providers;
+}
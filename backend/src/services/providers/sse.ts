@@ -0,0 +1,31 @@
+import type { Readable } from 'node:stream';
+import { StringDecoder } from 'node:string_decoder';
+
+/**
+ * Read a Server-Sent Events response body, calling onData with each `data:` payload
+ * Providers end their streams with either connection close or a "[DONE]" payload.
+ * Chunks are decoded as one UTF-8 stream, since a character may be split between two
+ */
+export async function readSSEData(stream: Readable, onData: (data: string) => void): Promise<void> {
+  const decoder = new StringDecoder('utf8');
+  let buffer = '';
+
+  for await (const chunk of stream) {
+    buffer += decoder.write(chunk);
+    const lines = buffer.split(/\r?\n/);
+    buffer = lines.pop() || '';
+
+    for (const line of lines) {
+      if (!line.startsWith('data:')) continue;
+
+      const data = line.slice(5).trim();
+      if (data === '[DONE]') return;
+      if (data) onData(data);
+    }
+  }
+
+  const last = (buffer + decoder.end()).trim();
+  if (last.startsWith('data:') && last.slice(5).trim() !== '[DONE]') {
+    onData(last.slice(5).trim());
+  }
+}
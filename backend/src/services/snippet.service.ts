@@ -0,0 +1,73 @@
+import { AppError } from '../middleware/errorHandler';
+import { tokenize } from '../utils/text';
+import { hashSeed } from './offline.service';
+import {
+  CODE_LANGUAGES,
+  CODE_SNIPPETS,
+  type CodeLanguage,
+  type CodeSnippet,
+  isCodeLanguage,
+} from './snippets.corpus';
+
+export interface CodeSnippetContent {
+  code: string;
+  codeLanguage: CodeLanguage;
+  title: string;
+  wordCount: number;
+}
+
+interface Candidate {
+  snippet: CodeSnippet;
+  codeLanguage: CodeLanguage;
+  hits: number;
+}
+
+const countWords = (text: string): number => text.split(/\s+/).filter(Boolean).length;
+
+/**
+ * Snippet Service - Picks code snippets from the bundled multi-language corpus
+ * Snippets whose title or tags match the theme are preferred; among equally good
+ * matches the seed decides, so the same request always gets the same snippet
+ */
+export class SnippetService {
+  /**
+   * Programming languages the bundled corpus covers
+   */
+  getSupportedLanguages(): CodeLanguage[] {
+    return [...CODE_LANGUAGES];
+  }
+
+  /**
+   * Snippet for a theme, in codeLanguage or in any language when none is given
+   */
+  pickSnippet(theme: string, codeLanguage?: string, seed: string | number = 0): CodeSnippetContent {
+    if (codeLanguage !== undefined && !isCodeLanguage(codeLanguage)) {
+      throw new AppError(`Code snippets are not available in language "${codeLanguage}"`, 400);
+    }
+
+    const themeTerms = new Set(tokenize(theme));
+    const candidates: Candidate[] = (codeLanguage ? [codeLanguage] : CODE_LANGUAGES).flatMap(
+      (language) =>
+        CODE_SNIPPETS[language].map((snippet) => ({
+          snippet,
+          codeLanguage: language,
+          hits: tokenize(`${snippet.title} ${snippet.tags.join(' ')}`).filter((term) =>
+            themeTerms.has(term)
+          ).length,
+        }))
+    );
+
+    const bestHits = Math.max(...candidates.map((candidate) => candidate.hits));
+    const best = candidates.filter((candidate) => candidate.hits === bestHits);
+    const index =
+      hashSeed(`${seed}|${codeLanguage ?? 'any'}|${theme.trim().toLowerCase()}`) % best.length;
+    const { snippet, codeLanguage: language } = best[index];
+
+    return {
+      code: snippet.code,
+      codeLanguage: language,
+      title: snippet.title,
+      wordCount: countWords(snippet.code),
+    };
+  }
+}
@@ -0,0 +1,363 @@
+/**
+ * Code snippets for the code typing mode
+ * Indentation is significant: snippets are served verbatim, with tabs where the
+ * language's conventional style uses them (Go)
+ */
+export const CODE_LANGUAGES = ['javascript', 'typescript', 'python', 'go', 'rust'] as const;
+
+export type CodeLanguage = (typeof CODE_LANGUAGES)[number];
+
+export interface CodeSnippet {
+  title: string;
+  tags: string[]; // topics a theme can match, in addition to the title
+  code: string;
+}
+
+export const isCodeLanguage = (value: unknown): value is CodeLanguage =>
+  typeof value === 'string' && (CODE_LANGUAGES as readonly string[]).includes(value);
+
+export const CODE_SNIPPETS: Record<CodeLanguage, CodeSnippet[]> = {
+  javascript: [
+    {
+      title: 'Debounce a function',
+      tags: ['timers', 'events', 'functions', 'closures'],
+      code: `function debounce(fn, delay = 250) {
+  let timer = null;
+
+  return function (...args) {
+    clearTimeout(timer);
+    timer = setTimeout(() => {
+      fn.apply(this, args);
+    }, delay);
+  };
+}
+
+const onResize = debounce(() => {
+  console.log('Window size:', window.innerWidth, window.innerHeight);
+});
+
+window.addEventListener('resize', onResize);`,
+    },
+    {
+      title: 'Count word frequencies',
+      tags: ['strings', 'maps', 'text', 'sorting'],
+      code: `function wordFrequencies(text) {
+  const counts = new Map();
+
+  for (const word of text.toLowerCase().match(/[a-z']+/g) ?? []) {
+    counts.set(word, (counts.get(word) ?? 0) + 1);
+  }
+
+  return [...counts.entries()]
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, 10);
+}
+
+// Prints the ten most frequent words with their counts
+console.table(wordFrequencies('the quick brown fox jumps over the lazy dog'));`,
+    },
+    {
+      title: 'Fetch JSON with retries',
+      tags: ['network', 'async', 'http', 'errors'],
+      code: `async function fetchJson(url, retries = 3) {
+  for (let attempt = 1; attempt <= retries; attempt++) {
+    try {
+      const response = await fetch(url);
+      if (!response.ok) {
+        throw new Error(\`Request failed with status \${response.status}\`);
+      }
+      return await response.json();
+    } catch (error) {
+      if (attempt === retries) throw error;
+      await new Promise((resolve) => setTimeout(resolve, 2 ** attempt * 100));
+    }
+  }
+}`,
+    },
+  ],
+  typescript: [
+    {
+      title: 'Typed event emitter',
+      tags: ['events', 'generics', 'classes', 'types'],
+      code: `type Listener<T> = (payload: T) => void;
+
+class Emitter<Events extends Record<string, unknown>> {
+  private listeners = new Map<keyof Events, Set<Listener<any>>>();
+
+  on<K extends keyof Events>(event: K, listener: Listener<Events[K]>): () => void {
+    const set = this.listeners.get(event) ?? new Set();
+    set.add(listener);
+    this.listeners.set(event, set);
+    return () => set.delete(listener);
+  }
+
+  emit<K extends keyof Events>(event: K, payload: Events[K]): void {
+    this.listeners.get(event)?.forEach((listener) => listener(payload));
+  }
+}`,
+    },
+    {
+      title: 'Binary search',
+      tags: ['algorithms', 'search', 'arrays', 'sorting'],
+      code: `export function binarySearch(items: number[], target: number): number {
+  let low = 0;
+  let high = items.length - 1;
+
+  while (low <= high) {
+    const middle = Math.floor((low + high) / 2);
+
+    if (items[middle] === target) {
+      return middle;
+    } else if (items[middle] < target) {
+      low = middle + 1;
+    } else {
+      high = middle - 1;
+    }
+  }
+
+  return -1;
+}`,
+    },
+    {
+      title: 'Least recently used cache',
+      tags: ['cache', 'maps', 'classes', 'data structures'],
+      code: `export class LruCache<K, V> {
+  private entries = new Map<K, V>();
+
+  constructor(private readonly capacity: number) {}
+
+  get(key: K): V | undefined {
+    const value = this.entries.get(key);
+    if (value !== undefined) {
+      // Re-insert so the key becomes the most recently used
+      this.entries.delete(key);
+      this.entries.set(key, value);
+    }
+    return value;
+  }
+
+  set(key: K, value: V): void {
+    this.entries.delete(key);
+    this.entries.set(key, value);
+    if (this.entries.size > this.capacity) {
+      const oldest = this.entries.keys().next().value as K;
+      this.entries.delete(oldest);
+    }
+  }
+}`,
+    },
+  ],
+  python: [
+    {
+      title: 'Fibonacci with memoization',
+      tags: ['recursion', 'math', 'algorithms', 'cache'],
+      code: `from functools import lru_cache
+
+
+@lru_cache(maxsize=None)
+def fibonacci(n: int) -> int:
+    """Return the n-th Fibonacci number."""
+    if n < 2:
+        return n
+    return fibonacci(n - 1) + fibonacci(n - 2)
+
+
+if __name__ == "__main__":
+    for i in range(10):
+        print(i, fibonacci(i))`,
+    },
+    {
+      title: 'Read a CSV file',
+      tags: ['files', 'csv', 'data', 'text'],
+      code: `import csv
+from collections import defaultdict
+
+
+def totals_by_category(path):
+    totals = defaultdict(float)
+
+    with open(path, newline="", encoding="utf-8") as file:
+        for row in csv.DictReader(file):
+            # Skip rows without an amount
+            if not row["amount"]:
+                continue
+            totals[row["category"]] += float(row["amount"])
+
+    return dict(sorted(totals.items(), key=lambda item: -item[1]))`,
+    },
+    {
+      title: 'Stack class',
+      tags: ['classes', 'data structures', 'lists'],
+      code: `class Stack:
+    def __init__(self):
+        self._items = []
+
+    def push(self, item):
+        self._items.append(item)
+
+    def pop(self):
+        if not self._items:
+            raise IndexError("pop from an empty stack")
+        return self._items.pop()
+
+    def peek(self):
+        return self._items[-1] if self._items else None
+
+    def __len__(self):
+        return len(self._items)`,
+    },
+  ],
+  go: [
+    {
+      title: 'HTTP handler',
+      tags: ['network', 'http', 'json', 'servers'],
+      code: `package main
+
+import (
+	"encoding/json"
+	"log"
+	"net/http"
+)
+
+type status struct {
+	Service string \`json:"service"\`
+	Healthy bool   \`json:"healthy"\`
+}
+
+func health(w http.ResponseWriter, r *http.Request) {
+	w.Header().Set("Content-Type", "application/json")
+	json.NewEncoder(w).Encode(status{Service: "api", Healthy: true})
+}
+
+func main() {
+	http.HandleFunc("/health", health)
+	log.Fatal(http.ListenAndServe(":8080", nil))
+}`,
+    },
+    {
+      title: 'Worker pool',
+      tags: ['concurrency', 'channels', 'goroutines', 'async'],
+      code: `func process(jobs []int, workers int) []int {
+	in := make(chan int)
+	out := make(chan int)
+	var wg sync.WaitGroup
+
+	for i := 0; i < workers; i++ {
+		wg.Add(1)
+		go func() {
+			defer wg.Done()
+			for job := range in {
+				out <- job * job
+			}
+		}()
+	}
+
+	go func() {
+		for _, job := range jobs {
+			in <- job
+		}
+		close(in)
+	}()
+
+	go func() {
+		wg.Wait()
+		close(out)
+	}()
+
+	var results []int
+	for result := range out {
+		results = append(results, result)
+	}
+	return results
+}`,
+    },
+    {
+      title: 'Reverse a string',
+      tags: ['strings', 'runes', 'text', 'unicode'],
+      code: `// Reverse returns s with its characters in reverse order.
+// It works on runes, so multi-byte characters stay intact.
+func Reverse(s string) string {
+	runes := []rune(s)
+	for i, j := 0, len(runes)-1; i < j; i, j = i+1, j-1 {
+		runes[i], runes[j] = runes[j], runes[i]
+	}
+	return string(runes)
+}`,
+    },
+  ],
+  rust: [
+    {
+      title: 'Word count with a hash map',
+      tags: ['strings', 'maps', 'text', 'collections'],
+      code: `use std::collections::HashMap;
+
+fn word_count(text: &str) -> HashMap<String, usize> {
+    let mut counts = HashMap::new();
+
+    for word in text.split_whitespace() {
+        let word = word.to_lowercase();
+        *counts.entry(word).or_insert(0) += 1;
+    }
+
+    counts
+}
+
+fn main() {
+    let counts = word_count("one fish two fish red fish blue fish");
+    println!("{:?}", counts.get("fish"));
+}`,
+    },
+    {
+      title: 'Shapes with traits',
+      tags: ['traits', 'structs', 'types', 'math'],
+      code: `trait Shape {
+    fn area(&self) -> f64;
+}
+
+struct Circle {
+    radius: f64,
+}
+
+struct Rectangle {
+    width: f64,
+    height: f64,
+}
+
+impl Shape for Circle {
+    fn area(&self) -> f64 {
+        std::f64::consts::PI * self.radius * self.radius
+    }
+}
+
+impl Shape for Rectangle {
+    fn area(&self) -> f64 {
+        self.width * self.height
+    }
+}`,
+    },
+    {
+      title: 'Parse numbers with error handling',
+      tags: ['errors', 'parsing', 'results', 'text'],
+      code: `use std::num::ParseIntError;
+
+/// Sum the comma-separated integers in input, failing on the first bad one.
+fn sum_numbers(input: &str) -> Result<i64, ParseIntError> {
+    let mut total = 0;
+
+    for part in input.split(',') {
+        let value: i64 = part.trim().parse()?;
+        total += value;
+    }
+
+    Ok(total)
+}
+
+fn main() {
+    match sum_numbers("4, 8, 15, 16, 23, 42") {
+        Ok(total) => println!("Total: {}", total),
+        Err(error) => eprintln!("Invalid input: {}", error),
+    }
+}`,
+    },
+  ],
+};
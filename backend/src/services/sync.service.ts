@@ -0,0 +1,116 @@
+import {
+  createPreferencesRepository,
+  type PreferencesRepository,
+} from '../repositories/preferences.repository';
+import {
+  getSessionRepository,
+  type SessionRepository,
+  toSessionSummary,
+} from '../repositories/session.repository';
+import type {
+  SessionSummary,
+  SyncedPreferences,
+  SyncPullResult,
+  SyncPushRequest,
+  UserSession,
+} from '../types';
+
+export interface SyncPushResult {
+  accepted: number;
+  preferences: SyncedPreferences | null;
+  serverTime: Date;
+}
+
+/**
+ * Sync Service - Merges client history and preferences with the server copy
+ * Sessions are merged as a union keyed by sessionId; preferences use last-writer-wins
+ */
+export class SyncService {
+  private sessionRepository: SessionRepository;
+  private preferencesRepository: PreferencesRepository;
+
+  constructor(
+    sessionRepository: SessionRepository = getSessionRepository(),
+    preferencesRepository: PreferencesRepository = createPreferencesRepository()
+  ) {
+    this.sessionRepository = sessionRepository;
+    this.preferencesRepository = preferencesRepository;
+  }
+
+  /**
+   * Store sessions the server has not seen and apply newer preferences
+   */
+  async push(userId: string, request: SyncPushRequest): Promise<SyncPushResult> {
+    let accepted = 0;
+
+    for (const summary of request.sessions) {
+      const existing = await this.sessionRepository.findById(summary.sessionId);
+
+      // Sessions are immutable once recorded, so a known id needs no update
+      if (!existing) {
+        await this.sessionRepository.save(this.fromSummary(summary, userId));
+        accepted++;
+      }
+    }
+
+    let preferences = await this.preferencesRepository.get(userId);
+
+    if (
+      request.preferences &&
+      (!preferences || request.preferences.updatedAt > preferences.updatedAt)
+    ) {
+      preferences = await this.preferencesRepository.save(userId, request.preferences);
+    }
+
+    return { accepted, preferences, serverTime: new Date() };
+  }
+
+  /**
+   * Return sessions written after `since` and the current preferences
+   */
+  async pull(userId: string, since?: Date): Promise<SyncPullResult> {
+    const serverTime = new Date();
+    const sessions = (await this.sessionRepository.findAll())
+      .filter((session) => session.userId === userId)
+      .filter((session) => !since || (session.updatedAt || session.startTime) > since)
+      .map(toSessionSummary);
+
+    return {
+      sessions,
+      preferences: await this.preferencesRepository.get(userId),
+      serverTime,
+    };
+  }
+
+  /**
+   * Expand a history summary into a stored session
+   * Typed text and per-keystroke errors are not part of the client history, so they stay empty
+   */
+  private fromSummary(summary: SessionSummary, userId: string): UserSession {
+    return {
+      sessionId: summary.sessionId,
+      userId,
+      theme: summary.theme,
+      keyboardLayout: summary.keyboardLayout,
+      startTime: new Date(summary.date),
+      isActive: false,
+      content: '',
+      userProgress: {
+        currentPosition: 0,
+        typedText: '',
+        errors: [],
+      },
+      metrics: {
+        wpm: summary.wpm,
+        averageWPM: summary.wpm,
+        accuracy: summary.accuracy,
+        totalCharacters: 0,
+        correctCharacters: 0,
+        errorCount: summary.errorCount,
+        timeElapsed: summary.duration,
+        keystrokesPerMinute: 0,
+      },
+      updatedAt: new Date(),
+    };
+  }
+}
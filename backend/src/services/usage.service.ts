@@ -0,0 +1,230 @@
+import { loadModelPrices, type ModelPrice } from '../config/aiPricing';
+import {
+  type AIUsageRecord,
+  type AIUsageRepository,
+  createAIUsageRepository,
+} from '../repositories/aiUsage.repository';
+import { logger } from '../utils/logger';
+import { aiCost, aiTokens } from '../utils/prometheus';
+import type { TokenUsage } from './providers/provider';
+
+// Rough size of a token in English text, for providers that report no usage
+const CHARS_PER_TOKEN = 4;
+
+export interface UsageTotals {
+  requests: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+}
+
+export interface BudgetStatus {
+  period: 'day' | 'month'; // calendar day or month, in UTC
+  limitUsd: number;
+  spentUsd: number;
+  exceeded: boolean;
+}
+
+export interface UsageReport {
+  from: Date;
+  to: Date;
+  totals: UsageTotals;
+  byDay: (UsageTotals & { day: string })[]; // YYYY-MM-DD, UTC
+  byProvider: (UsageTotals & { provider: string; model: string })[];
+  byUser: (UsageTotals & { userId: string | null })[];
+  budgets: BudgetStatus[];
+}
+
+export interface UsageServiceOptions {
+  prices?: Record<string, ModelPrice>;
+  dailyBudgetUsd?: number;
+  monthlyBudgetUsd?: number;
+  now?: () => Date;
+}
+
+export type UsageEntry = Omit<AIUsageRecord, 'costUsd' | 'recordedAt'>;
+
+/**
+ * Tokens in a text, estimated from its length
+ */
+export const estimateTokens = (text: string): number => Math.ceil(text.length / CHARS_PER_TOKEN);
+
+// Sums of many small float costs pick up rounding noise
+const roundUsd = (value: number): number => Math.round(value * 1e6) / 1e6;
+
+const startOfDay = (date: Date): Date =>
+  new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+
+const startOfMonth = (date: Date): Date =>
+  new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1));
+
+const emptyTotals = (): UsageTotals => ({
+  requests: 0,
+  inputTokens: 0,
+  outputTokens: 0,
+  costUsd: 0,
+});
+
+function addRecord(totals: UsageTotals, record: AIUsageRecord): void {
+  totals.requests++;
+  totals.inputTokens += record.inputTokens;
+  totals.outputTokens += record.outputTokens;
+  totals.costUsd += record.costUsd;
+}
+
+/**
+ * Totals of records grouped by key, in order of first appearance
+ */
+function groupTotals<G extends object>(
+  records: AIUsageRecord[],
+  groupOf: (record: AIUsageRecord) => G
+): (UsageTotals & G)[] {
+  const groups = new Map<string, UsageTotals & G>();
+  for (const record of records) {
+    const group = groupOf(record);
+    const key = JSON.stringify(group);
+    let totals = groups.get(key);
+    if (!totals) {
+      totals = { ...group, ...emptyTotals() };
+      groups.set(key, totals);
+    }
+    addRecord(totals, record);
+  }
+  return [...groups.values()].map((totals) => ({ ...totals, costUsd: roundUsd(totals.costUsd) }));
+}
+
+/**
+ * Usage Service - Accounts the tokens and cost of AI generations and enforces budgets
+ * AI_BUDGET_DAILY_USD and AI_BUDGET_MONTHLY_USD cap spend across all users; once either
+ * is reached, content generation switches to sources that need no AI
+ */
+export class UsageService {
+  private repository: AIUsageRepository;
+  private prices: Record<string, ModelPrice>;
+  private dailyBudgetUsd: number;
+  private monthlyBudgetUsd: number;
+  private now: () => Date;
+  private unpricedModels = new Set<string>();
+
+  constructor(
+    repository: AIUsageRepository = createAIUsageRepository(),
+    options: UsageServiceOptions = {}
+  ) {
+    this.repository = repository;
+    this.prices = options.prices ?? loadModelPrices();
+    // 0 or unset means no limit
+    this.dailyBudgetUsd = options.dailyBudgetUsd ?? (Number(process.env.AI_BUDGET_DAILY_USD) || 0);
+    this.monthlyBudgetUsd =
+      options.monthlyBudgetUsd ?? (Number(process.env.AI_BUDGET_MONTHLY_USD) || 0);
+    this.now = options.now ?? (() => new Date());
+  }
+
+  /**
+   * Cost in US dollars of the tokens a model used; unpriced models are free
+   */
+  getCost(model: string, usage: TokenUsage): number {
+    const price = this.prices[model];
+    if (!price) {
+      if (!this.unpricedModels.has(model)) {
+        this.unpricedModels.add(model);
+        logger.warn('No price configured for AI model, accounting it as free', { model });
+      }
+      return 0;
+    }
+    return (usage.inputTokens * price.input + usage.outputTokens * price.output) / 1e6;
+  }
+
+  /**
+   * Store the usage of one generation, priced by its model
+   */
+  async record(entry: UsageEntry): Promise<AIUsageRecord> {
+    const record: AIUsageRecord = {
+      ...entry,
+      costUsd: this.getCost(entry.model, entry),
+      recordedAt: this.now(),
+    };
+
+    await this.repository.record(record);
+    aiTokens.inc({ provider: entry.provider, type: 'input' }, entry.inputTokens);
+    aiTokens.inc({ provider: entry.provider, type: 'output' }, entry.outputTokens);
+    aiCost.inc({ provider: entry.provider }, record.costUsd);
+    return record;
+  }
+
+  /**
+   * Spend against each configured budget
+   */
+  async getBudgetStatus(): Promise<BudgetStatus[]> {
+    const budgets: { period: BudgetStatus['period']; limitUsd: number; since: Date }[] = [];
+    const now = this.now();
+    if (this.dailyBudgetUsd > 0) {
+      budgets.push({ period: 'day', limitUsd: this.dailyBudgetUsd, since: startOfDay(now) });
+    }
+    if (this.monthlyBudgetUsd > 0) {
+      budgets.push({ period: 'month', limitUsd: this.monthlyBudgetUsd, since: startOfMonth(now) });
+    }
+    if (budgets.length === 0) {
+      return [];
+    }
+
+    const records = await this.repository.list(startOfMonth(now));
+    return budgets.map(({ period, limitUsd, since }) => {
+      const spentUsd = roundUsd(
+        records
+          .filter(({ recordedAt }) => recordedAt >= since)
+          .reduce((sum, record) => sum + record.costUsd, 0)
+      );
+      return { period, limitUsd, spentUsd, exceeded: spentUsd >= limitUsd };
+    });
+  }
+
+  /**
+   * Whether the daily or monthly budget is spent
+   */
+  async isOverBudget(): Promise<boolean> {
+    const budgets = await this.getBudgetStatus();
+    return budgets.some((budget) => budget.exceeded);
+  }
+
+  /**
+   * Spend between from (default: start of the current month) and to (default: now),
+   * in total and per day, provider and user
+   */
+  async getReport(from?: Date, to?: Date): Promise<UsageReport> {
+    const now = this.now();
+    const start = from ?? startOfMonth(now);
+    const end = to ?? now;
+    // The repository's upper bound is exclusive; the report's includes records made at to
+    const records = await this.repository.list(start, new Date(end.getTime() + 1));
+
+    const totals = emptyTotals();
+    for (const record of records) {
+      addRecord(totals, record);
+    }
+
+    return {
+      from: start,
+      to: end,
+      totals: { ...totals, costUsd: roundUsd(totals.costUsd) },
+      byDay: groupTotals(records, ({ recordedAt }) => ({
+        day: recordedAt.toISOString().slice(0, 10),
+      })),
+      byProvider: groupTotals(records, ({ provider, model }) => ({ provider, model })),
+      byUser: groupTotals(records, ({ userId }) => ({ userId })),
+      budgets: await this.getBudgetStatus(),
+    };
+  }
+}
+
+let sharedUsageService: UsageService | null = null;
+
+/**
+ * Shared instance so AI generation records to, and content generation and the admin
+ * report read from, the same usage log
+ */
+export function getUsageService(): UsageService {
+  if (!sharedUsageService) {
+    sharedUsageService = new UsageService();
+  }
+  return sharedUsageService;
+}
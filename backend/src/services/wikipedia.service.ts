@@ -1,5 +1,21 @@
 import axios from 'axios';
+import { getLanguage } from '../config/languages';
 import { AppError } from '../middleware/errorHandler';
+import type { LanguageCode } from '../types';
+import {
+  type DifficultyTarget,
+  distanceFromBand,
+  scoreDifficulty,
+  splitSentences,
+} from '../utils/difficulty';
+import { logger } from '../utils/logger';
+import { upstreamRequestDuration } from '../utils/prometheus';
+import {
+  CircuitBreaker,
+  isTransientError,
+  type RetryOptions,
+  withRetry,
+} from '../utils/resilience';
 
 export interface WikipediaContent {
   text: string;
@@ -7,34 +23,116 @@ export interface WikipediaContent {
   articleTitle: string;
   url: string;
   wordCount: number;
+  section?: {
+    index: number;
+    title: string;
+    count: number;
+    next: number | null; // index of the next readable section, null at the end
+  };
+}
+
+export interface WikipediaSearchResult {
+  title: string;
+  description: string;
+  url: string;
+  disambiguation: boolean; // a page listing other articles with the same name
+}
+
+export interface WikipediaSearchResults {
+  query: string;
+  ambiguous: boolean; // true when a result is a disambiguation page, so the user should choose
+  results: WikipediaSearchResult[];
+}
+
+export interface WikipediaSection {
+  index: number; // 0 is the lead section before the first heading
+  title: string;
+  level: number; // 1 for the lead, 2 for "== Heading ==", 3 for "=== Heading ===", ...
+  wordCount: number;
+}
+
+export interface WikipediaArticleSections {
+  articleTitle: string;
+  url: string;
+  sections: WikipediaSection[];
+}
+
+/**
+ * Section to fetch: a section index, or "next" for the first readable one after afterSection
+ * article pins the exact article title so follow-up requests stay on the same article
+ */
+export interface WikipediaSectionRequest {
+  section: number | 'next';
+  afterSection?: number;
+  article?: string;
+}
+
+// Status of the error raised for disambiguation pages, which have no article text to type
+const DISAMBIGUATION_STATUS = 409;
+
+// Sections shorter than this (lists of links, empty headings) are skipped by "next"
+const MIN_SECTION_WORDS = 20;
+
+export interface WikipediaServiceOptions {
+  retry?: RetryOptions;
+  breaker?: CircuitBreaker;
 }
 
 /**
  * Wikipedia Service for fetching educational content
+ * API calls are read-only, so transient failures are retried (WIKIPEDIA_RETRIES times);
+ * a circuit breaker fails calls fast while Wikipedia keeps failing
  */
 export class WikipediaService {
-  private readonly baseUrl = 'https://en.wikipedia.org/w/api.php';
-  private readonly ptBaseUrl = 'https://pt.wikipedia.org/w/api.php';
+  private retryOptions: RetryOptions;
+  private breaker: CircuitBreaker;
+
+  constructor(options: WikipediaServiceOptions = {}) {
+    this.retryOptions = {
+      retries: Number(process.env.WIKIPEDIA_RETRIES ?? 2),
+      ...options.retry,
+      service: 'wikipedia',
+    };
+    this.breaker =
+      options.breaker ?? new CircuitBreaker('Wikipedia', { isFailure: isTransientError });
+  }
+
+  /**
+   * Whether Wikipedia can be called now, i.e. its circuit is not open
+   */
+  isAvailable(): boolean {
+    return this.breaker.isAvailable();
+  }
 
   /**
-   * Fetch Wikipedia content for a given theme
+   * Fetch Wikipedia content for a given theme, or for an exact article title
+   * Without a title, disambiguation pages among the search results are skipped
    */
-  async fetchContent(theme: string, language: 'en' | 'pt' = 'en'): Promise<WikipediaContent> {
+  async fetchContent(
+    theme: string,
+    language: LanguageCode = 'en',
+    article?: string
+  ): Promise<WikipediaContent> {
     try {
-      // First, search for the article
-      const searchResults = await this.searchArticles(theme, language);
+      if (article) {
+        return await this.fetchArticleContent(article, language);
+      }
+
+      const candidates = await this.searchArticles(theme, language);
 
-      if (searchResults.length === 0) {
+      if (candidates.length === 0) {
         throw new AppError(`No Wikipedia articles found for "${theme}"`, 404);
       }
 
-      // Get the first result
-      const articleTitle = searchResults[0];
-
-      // Fetch the article content
-      const content = await this.fetchArticleContent(articleTitle, language);
+      for (const { title } of candidates) {
+        try {
+          return await this.fetchArticleContent(title, language);
+        } catch (error: any) {
+          if (error.statusCode !== DISAMBIGUATION_STATUS) throw error;
+        }
+      }
 
-      return content;
+      throw new AppError(`"${theme}" only matches disambiguation pages; choose an article`, 404);
     } catch (error: any) {
       if (error instanceof AppError) {
         throw error;
@@ -44,51 +142,284 @@ export class WikipediaService {
   }
 
   /**
-   * Search for Wikipedia articles by theme
+   * Candidate articles for a theme, flagging disambiguation pages
    */
-  private async searchArticles(theme: string, language: 'en' | 'pt'): Promise<string[]> {
-    const baseUrl = language === 'pt' ? this.ptBaseUrl : this.baseUrl;
+  async search(theme: string, language: LanguageCode = 'en'): Promise<WikipediaSearchResults> {
+    const candidates = await this.searchArticles(theme, language);
+
+    if (candidates.length === 0) {
+      return { query: theme, ambiguous: false, results: [] };
+    }
+
+    const disambiguations = await this.findDisambiguationPages(
+      candidates.map(({ title }) => title),
+      language
+    );
+    const results = candidates.map((candidate) => ({
+      ...candidate,
+      disambiguation: disambiguations.has(candidate.title),
+    }));
+
+    return { query: theme, ambiguous: disambiguations.size > 0, results };
+  }
+
+  /**
+   * List the sections of the article for a theme, or of an exact article title
+   */
+  async listSections(
+    theme: string,
+    language: LanguageCode = 'en',
+    article?: string
+  ): Promise<WikipediaArticleSections> {
+    try {
+      const articleTitle = article || (await this.findArticleTitle(theme, language));
+      const { title, sections } = await this.fetchArticleSections(articleTitle, language);
+
+      return {
+        articleTitle: title,
+        url: this.getArticleUrl(title, language),
+        sections: sections.map(({ text: _text, ...section }) => section),
+      };
+    } catch (error: any) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      throw new AppError(`Failed to fetch Wikipedia sections: ${error.message}`, 500);
+    }
+  }
 
+  /**
+   * Fetch one section of the article for a theme, so long articles can be worked
+   * through across sessions
+   */
+  async fetchSection(
+    theme: string,
+    language: LanguageCode = 'en',
+    request: WikipediaSectionRequest
+  ): Promise<WikipediaContent> {
     try {
-      const response = await axios.get(baseUrl, {
-        params: {
-          action: 'opensearch',
-          search: theme,
-          limit: 5,
-          namespace: 0,
-          format: 'json',
+      const articleTitle = request.article || (await this.findArticleTitle(theme, language));
+      const { title, sections } = await this.fetchArticleSections(articleTitle, language);
+      const selected = this.selectSection(sections, request, title);
+      const next = sections.find(
+        (section) => section.index > selected.index && section.wordCount >= MIN_SECTION_WORDS
+      );
+
+      return {
+        text: selected.text,
+        source: 'wikipedia',
+        articleTitle: title,
+        url:
+          selected.index === 0
+            ? this.getArticleUrl(title, language)
+            : `${this.getArticleUrl(title, language)}#${encodeURIComponent(selected.title.replace(/ /g, '_'))}`,
+        wordCount: selected.wordCount,
+        section: {
+          index: selected.index,
+          title: selected.title,
+          count: sections.length,
+          next: next ? next.index : null,
         },
-        timeout: 10000,
+      };
+    } catch (error: any) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      throw new AppError(`Failed to fetch Wikipedia section: ${error.message}`, 500);
+    }
+  }
+
+  /**
+   * Extend an introduction too short to type with the readable sections that follow it,
+   * until it has at least minWords words or the article runs out
+   */
+  async extendContent(
+    content: WikipediaContent,
+    language: LanguageCode,
+    minWords: number
+  ): Promise<WikipediaContent> {
+    try {
+      const { sections } = await this.fetchArticleSections(content.articleTitle, language);
+      const texts = [content.text];
+      let wordCount = content.wordCount;
+
+      for (const section of sections.slice(1)) {
+        if (wordCount >= minWords) break;
+        if (section.wordCount < MIN_SECTION_WORDS) continue;
+        texts.push(section.text);
+        wordCount += section.wordCount;
+      }
+
+      return { ...content, text: texts.join('\n\n'), wordCount };
+    } catch (error: any) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      throw new AppError(`Failed to extend Wikipedia content: ${error.message}`, 500);
+    }
+  }
+
+  /**
+   * Check the MediaWiki API of a language edition answers, with a cheap siteinfo query
+   */
+  async ping(language: LanguageCode = 'en'): Promise<void> {
+    try {
+      await this.callApi(language, { action: 'query', meta: 'siteinfo', format: 'json' });
+    } catch (error: any) {
+      throw new AppError(`Wikipedia is unreachable: ${error.message}`, 503);
+    }
+  }
+
+  /**
+   * Title of the best matching article for a theme
+   */
+  private async findArticleTitle(theme: string, language: LanguageCode): Promise<string> {
+    const searchResults = await this.searchArticles(theme, language);
+
+    if (searchResults.length === 0) {
+      throw new AppError(`No Wikipedia articles found for "${theme}"`, 404);
+    }
+
+    return searchResults[0].title;
+  }
+
+  private selectSection(
+    sections: Array<WikipediaSection & { text: string }>,
+    request: WikipediaSectionRequest,
+    articleTitle: string
+  ): WikipediaSection & { text: string } {
+    if (request.section === 'next') {
+      const after = request.afterSection ?? -1;
+      const next = sections.find(
+        (section) => section.index > after && section.wordCount >= MIN_SECTION_WORDS
+      );
+      if (!next) {
+        throw new AppError(`No more sections to read in "${articleTitle}"`, 404);
+      }
+      return next;
+    }
+
+    const section = sections[request.section];
+    if (!section || section.wordCount === 0) {
+      throw new AppError(`Section ${request.section} of "${articleTitle}" has no text`, 404);
+    }
+    return section;
+  }
+
+  private assertNotDisambiguation(page: any, title: string): void {
+    if (page.pageprops?.disambiguation !== undefined) {
+      throw new AppError(
+        `"${title}" is a disambiguation page; choose a specific article`,
+        DISAMBIGUATION_STATUS
+      );
+    }
+  }
+
+  /**
+   * Call the MediaWiki API of a language edition through the circuit breaker, retrying
+   * transient failures
+   */
+  private callApi(language: LanguageCode, params: Record<string, unknown>) {
+    return this.breaker.execute(() =>
+      withRetry(() => this.request(language, params), this.retryOptions)
+    );
+  }
+
+  /**
+   * One API request, timed, with failures logged
+   */
+  private async request(language: LanguageCode, params: Record<string, unknown>) {
+    const stopTimer = upstreamRequestDuration.startTimer({ service: 'wikipedia' });
+    try {
+      const response = await axios.get(this.getApiUrl(language), { params, timeout: 10000 });
+      stopTimer({ outcome: 'success' });
+      return response;
+    } catch (error) {
+      stopTimer({ outcome: 'failure' });
+      logger.warn('Wikipedia request failed', { action: params.action, language, error });
+      throw error;
+    }
+  }
+
+  private getArticleUrl(title: string, language: LanguageCode): string {
+    return `https://${getLanguage(language).wikipediaHost}/wiki/${encodeURIComponent(title)}`;
+  }
+
+  private getApiUrl(language: LanguageCode): string {
+    return `https://${getLanguage(language).wikipediaHost}/w/api.php`;
+  }
+
+  /**
+   * Search for Wikipedia articles by theme
+   */
+  private async searchArticles(
+    theme: string,
+    language: LanguageCode
+  ): Promise<Array<Omit<WikipediaSearchResult, 'disambiguation'>>> {
+    try {
+      const response = await this.callApi(language, {
+        action: 'opensearch',
+        search: theme,
+        limit: 5,
+        namespace: 0,
+        format: 'json',
       });
 
       // OpenSearch returns [query, [titles], [descriptions], [urls]]
-      const titles = response.data[1] || [];
-      return titles;
+      const [, titles = [], descriptions = [], urls = []] = response.data;
+      return titles.map((title: string, index: number) => ({
+        title,
+        description: descriptions[index] || '',
+        url: urls[index] || this.getArticleUrl(title, language),
+      }));
     } catch (error: any) {
       throw new AppError(`Wikipedia search failed: ${error.message}`, 500);
     }
   }
 
+  /**
+   * Titles among the given ones that are disambiguation pages
+   */
+  private async findDisambiguationPages(
+    titles: string[],
+    language: LanguageCode
+  ): Promise<Set<string>> {
+    try {
+      const response = await this.callApi(language, {
+        action: 'query',
+        prop: 'pageprops',
+        ppprop: 'disambiguation',
+        titles: titles.join('|'),
+        format: 'json',
+      });
+
+      const pages: any[] = Object.values(response.data.query?.pages || {});
+      return new Set(
+        pages
+          .filter((page) => page.pageprops?.disambiguation !== undefined)
+          .map((page) => page.title)
+      );
+    } catch (error: any) {
+      throw new AppError(`Wikipedia disambiguation check failed: ${error.message}`, 500);
+    }
+  }
+
   /**
    * Fetch article content by title
    */
   private async fetchArticleContent(
     title: string,
-    language: 'en' | 'pt'
+    language: LanguageCode
   ): Promise<WikipediaContent> {
-    const baseUrl = language === 'pt' ? this.ptBaseUrl : this.baseUrl;
-
     try {
-      const response = await axios.get(baseUrl, {
-        params: {
-          action: 'query',
-          prop: 'extracts',
-          exintro: true, // Only get the introduction
-          explaintext: true, // Plain text, no HTML
-          titles: title,
-          format: 'json',
-        },
-        timeout: 10000,
+      const response = await this.callApi(language, {
+        action: 'query',
+        prop: 'extracts|pageprops',
+        ppprop: 'disambiguation',
+        exintro: true, // Only get the introduction
+        explaintext: true, // Plain text, no HTML
+        titles: title,
+        format: 'json',
       });
 
       const pages = response.data.query?.pages;
@@ -103,10 +434,11 @@ export class WikipediaService {
       if (pageId === '-1' || !page.extract) {
         throw new AppError(`Article "${title}" not found or has no content`, 404);
       }
+      this.assertNotDisambiguation(page, title);
 
       const text = this.processWikipediaText(page.extract);
       const wordCount = text.split(/\s+/).length;
-      const url = `https://${language}.wikipedia.org/wiki/${encodeURIComponent(title)}`;
+      const url = this.getArticleUrl(title, language);
 
       return {
         text,
@@ -123,6 +455,70 @@ export class WikipediaService {
     }
   }
 
+  /**
+   * Fetch the full plain-text article and split it into sections at its headings
+   */
+  private async fetchArticleSections(
+    title: string,
+    language: LanguageCode
+  ): Promise<{ title: string; sections: Array<WikipediaSection & { text: string }> }> {
+    const response = await this.callApi(language, {
+      action: 'query',
+      prop: 'extracts|pageprops',
+      ppprop: 'disambiguation',
+      explaintext: true,
+      exsectionformat: 'wiki', // Keep headings as "== Heading ==" lines
+      titles: title,
+      redirects: true,
+      format: 'json',
+    });
+
+    const pages = response.data.query?.pages;
+
+    if (!pages) {
+      throw new AppError('Invalid Wikipedia response', 500);
+    }
+
+    const pageId = Object.keys(pages)[0];
+    const page = pages[pageId];
+
+    if (pageId === '-1' || !page.extract) {
+      throw new AppError(`Article "${title}" not found or has no content`, 404);
+    }
+    this.assertNotDisambiguation(page, title);
+
+    return { title: page.title || title, sections: this.splitSections(page.extract) };
+  }
+
+  private splitSections(extract: string): Array<WikipediaSection & { text: string }> {
+    const sections: Array<WikipediaSection & { text: string }> = [];
+    let current = { title: 'Introduction', level: 1, lines: [] as string[] };
+
+    const pushCurrent = () => {
+      const text = this.processWikipediaText(current.lines.join('\n'));
+      sections.push({
+        index: sections.length,
+        title: current.title,
+        level: current.level,
+        wordCount: text ? text.split(/\s+/).length : 0,
+        text,
+      });
+    };
+
+    for (const line of extract.split('\n')) {
+      const heading = line.match(/^(={2,6})\s*(.+?)\s*\1\s*$/);
+      if (heading) {
+        pushCurrent();
+        current = { title: heading[2], level: heading[1].length, lines: [] };
+      } else {
+        current.lines.push(line);
+      }
+    }
+    pushCurrent();
+
+    return sections;
+  }
+
   /**
    * Process and clean Wikipedia text
    */
@@ -138,8 +534,17 @@ export class WikipediaService {
 
   /**
    * Get a summary of Wikipedia content (first N words)
+   * With a difficulty, picks the sentences closest to it instead, in article order
    */
-  extractSummary(content: WikipediaContent, maxWords: number = 300): string {
+  extractSummary(
+    content: WikipediaContent,
+    maxWords: number = 300,
+    difficulty?: DifficultyTarget
+  ): string {
+    if (difficulty !== undefined) {
+      return this.extractSummaryForDifficulty(content, maxWords, difficulty);
+    }
+
     const words = content.text.split(/\s+/);
 
     if (words.length <= maxWords) {
@@ -156,4 +561,44 @@ export class WikipediaService {
 
     return `${truncated}...`;
   }
+
+  private extractSummaryForDifficulty(
+    content: WikipediaContent,
+    maxWords: number,
+    difficulty: DifficultyTarget
+  ): string {
+    const sentences = splitSentences(content.text).map((text, index) => ({
+      text,
+      index,
+      words: text.split(/\s+/).length,
+      distance: distanceFromBand(scoreDifficulty(text), difficulty),
+    }));
+
+    const ranked = [...sentences].sort((a, b) => a.distance - b.distance || a.index - b.index);
+    const selected: typeof sentences = [];
+    let total = 0;
+
+    for (const sentence of ranked) {
+      if (total + sentence.words > maxWords) continue;
+      selected.push(sentence);
+      total += sentence.words;
+    }
+
+    return selected
+      .sort((a, b) => a.index - b.index)
+      .map((sentence) => sentence.text)
+      .join(' ');
+  }
+}
+
+let sharedWikipediaService: WikipediaService | null = null;
+
+/**
+ * Shared instance so content generation and readiness checks see the same circuit
+ */
+export function getWikipediaService(): WikipediaService {
+  if (!sharedWikipediaService) {
+    sharedWikipediaService = new WikipediaService();
+  }
+  return sharedWikipediaService;
 }
@@ -0,0 +1,12 @@
+import type { PublicUser } from './index';
+
+declare global {
+  namespace Express {
+    interface Request {
+      /** Set by the authenticate middleware, undefined for guests */
+      user?: PublicUser;
+      /** Set by the requestContext middleware, echoed in the X-Request-Id header */
+      requestId?: string;
+    }
+  }
+}
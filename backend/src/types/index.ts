@@ -41,16 +41,77 @@ export interface StudyContent {
   id: string;
   theme: string;
   text: string;
-  source: 'ai' | 'wikipedia' | 'combined';
+  source: 'ai' | 'wikipedia' | 'combined' | 'offline' | 'corpus' | 'custom' | 'code';
   difficulty: number;
   wordCount: number;
   estimatedTime: number; // in minutes
   createdAt: Date;
   metadata: {
-    aiModel?: string;
+    aiProvider?: string;
+    aiModel?: string; // "<provider>-<model>" of the model that produced the text
     wikipediaArticle?: string;
+    wikipediaSection?: WikipediaSectionPosition; // set when a single article section was requested
+    offlineSeed?: string; // seed of deterministic offline content
+    corpusDocument?: string; // corpus file the passage was taken from
+    customFileName?: string; // uploaded file a custom text came from
+    codeLanguage?: string; // programming language of a code snippet
+    snippetTitle?: string;
+    cacheHit?: boolean; // served from the server-side content cache
+    cachedAt?: Date;
+    difficultyScore?: number; // 0 (easiest) to 100
+    requestedDifficulty?: 'easy' | 'medium' | 'hard' | number;
+    difficultyMatched?: boolean; // whether the score fell in the requested band
     language: string;
   };
+  passages?: Passage[]; // ordered lesson, present when a passage length was requested
+}
+
+/**
+ * One sentence-bounded passage of a lesson; index is its position, starting at 0
+ */
+export interface Passage {
+  id: string;
+  index: number;
+  text: string;
+  wordCount: number;
+}
+
+/**
+ * Where a section sits in its article; next is the next readable section, null at the end
+ */
+export interface WikipediaSectionPosition {
+  index: number;
+  title: string;
+  count: number;
+  next: number | null;
+}
+
+/**
+ * Candidate articles for a theme; ambiguous is set when one is a disambiguation page
+ */
+export interface WikipediaSearchResults {
+  query: string;
+  ambiguous: boolean;
+  results: Array<{
+    title: string;
+    description: string;
+    url: string;
+    disambiguation: boolean;
+  }>;
+}
+
+/**
+ * Sections of a Wikipedia article, index 0 being the lead before the first heading
+ */
+export interface WikipediaArticleSections {
+  articleTitle: string;
+  url: string;
+  sections: Array<{
+    index: number;
+    title: string;
+    level: number; // 1 for the lead, 2 for top-level headings, 3+ for subheadings
+    wordCount: number;
+  }>;
 }
 
 /**
@@ -71,6 +132,92 @@ export interface UserSession {
     errors: TypingError[];
   };
   metrics: SessionMetrics;
+  updatedAt?: Date; // server time of the last write, used by sync
+}
+
+/**
+ * Condensed view of a stored session, used by history listings
+ */
+export interface SessionSummary {
+  sessionId: string;
+  theme: string;
+  date: Date;
+  wpm: number;
+  accuracy: number;
+  duration: number; // in seconds
+  errorCount: number;
+  keyboardLayout: KeyboardLayoutType;
+  updatedAt?: Date;
+}
+
+/**
+ * Fields session history can be sorted on
+ */
+export type SessionSortField = 'date' | 'wpm' | 'accuracy' | 'duration';
+
+/**
+ * Session history query with filters and cursor-based pagination
+ */
+export interface SessionHistoryQuery {
+  userId?: string; // undefined (a guest) matches no sessions
+  theme?: string;
+  keyboardLayout?: KeyboardLayoutType;
+  from?: Date;
+  to?: Date;
+  minAccuracy?: number;
+  sortBy: SessionSortField;
+  order: 'asc' | 'desc';
+  limit: number;
+  cursor?: string;
+}
+
+/**
+ * One page of session history results
+ */
+export interface SessionHistoryPage {
+  sessions: SessionSummary[];
+  nextCursor: string | null;
+}
+
+/**
+ * Registered user account
+ */
+export interface User {
+  id: string;
+  username: string;
+  passwordHash: string;
+  createdAt: Date;
+}
+
+/**
+ * User fields that are safe to return to clients
+ */
+export type PublicUser = Omit<User, 'passwordHash'>;
+
+/**
+ * User preferences document synced from the frontend
+ * The shape is owned by the client; updatedAt is the client edit time used for last-writer-wins
+ */
+export interface SyncedPreferences {
+  data: Record<string, unknown>;
+  updatedAt: Date;
+}
+
+/**
+ * Changes pushed by a client during sync
+ */
+export interface SyncPushRequest {
+  sessions: SessionSummary[];
+  preferences?: SyncedPreferences;
+}
+
+/**
+ * Remote state returned to a client during sync
+ */
+export interface SyncPullResult {
+  sessions: SessionSummary[];
+  preferences: SyncedPreferences | null;
+  serverTime: Date;
 }
 
 /**
@@ -78,14 +225,19 @@ export interface UserSession {
  */
 export type KeyboardLayoutType = 'QWERTY' | 'DVORAK' | 'AZERTY';
 
+/**
+ * Supported content languages (see config/languages)
+ */
+export type LanguageCode = 'en' | 'pt' | 'es' | 'fr' | 'de' | 'it';
+
 /**
  * Content generation request from frontend
  */
 export interface ContentRequest {
   theme: string;
   length: number;
-  language: 'pt' | 'en';
-  difficulty?: 'easy' | 'medium' | 'hard';
+  language: LanguageCode;
+  difficulty?: 'easy' | 'medium' | 'hard' | number; // level, or a 0-100 score target
 }
 
 /**
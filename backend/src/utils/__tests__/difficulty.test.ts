@@ -0,0 +1,63 @@
+import {
+  assessDifficulty,
+  distanceFromBand,
+  isDifficultyTarget,
+  resolveDifficultyBand,
+  scoreDifficulty,
+} from '../difficulty';
+
+const EASY_TEXT = 'The cat sat on the mat. It was a warm day. We had fun in the sun.';
+const HARD_TEXT =
+  'Photosynthetic organisms convert electromagnetic radiation into chemical energy through sophisticated biochemical pathways, ultimately synthesizing carbohydrates while simultaneously releasing molecular oxygen as a metabolic byproduct.';
+
+describe('difficulty', () => {
+  describe('scoreDifficulty', () => {
+    it('should score short sentences of short words as easy', () => {
+      expect(assessDifficulty(EASY_TEXT).level).toBe('easy');
+    });
+
+    it('should score long sentences of long words as hard', () => {
+      expect(assessDifficulty(HARD_TEXT).level).toBe('hard');
+      expect(scoreDifficulty(HARD_TEXT)).toBeGreaterThan(scoreDifficulty(EASY_TEXT));
+    });
+
+    it('should score empty text as 0', () => {
+      expect(scoreDifficulty('')).toBe(0);
+    });
+  });
+
+  describe('resolveDifficultyBand', () => {
+    it('should map levels to score ranges', () => {
+      expect(resolveDifficultyBand('easy')).toEqual({ min: 0, max: 33, level: 'easy' });
+      expect(resolveDifficultyBand('hard')).toEqual({ min: 67, max: 100, level: 'hard' });
+    });
+
+    it('should accept numeric targets with a tolerance', () => {
+      expect(resolveDifficultyBand(50)).toEqual({ min: 35, max: 65, level: 'medium' });
+      expect(resolveDifficultyBand(5)).toMatchObject({ min: 0, max: 20 });
+    });
+  });
+
+  describe('distanceFromBand', () => {
+    it('should be 0 inside the band and grow outside it', () => {
+      expect(distanceFromBand(20, 'easy')).toBe(0);
+      expect(distanceFromBand(40, 'easy')).toBe(7);
+      expect(distanceFromBand(10, 50)).toBe(25);
+    });
+  });
+
+  describe('isDifficultyTarget', () => {
+    it('should accept levels and scores from 0 to 100', () => {
+      expect(isDifficultyTarget('medium')).toBe(true);
+      expect(isDifficultyTarget(0)).toBe(true);
+      expect(isDifficultyTarget(100)).toBe(true);
+    });
+
+    it('should reject anything else', () => {
+      expect(isDifficultyTarget('expert')).toBe(false);
+      expect(isDifficultyTarget(101)).toBe(false);
+      expect(isDifficultyTarget(Number.NaN)).toBe(false);
+      expect(isDifficultyTarget('50')).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,35 @@
+import type { LanguageCode } from '../../types';
+import { buildProfile, detectLanguage, rankLanguages } from '../language';
+
+const SAMPLES: Record<LanguageCode, string> = {
+  en: 'The river is the longest in the country, and it was used for trade with the towns that are on its banks.',
+  pt: 'O rio é o mais longo do país e não para de crescer, com uma bacia que é uma das maiores da região.',
+  es: 'El río es el más largo del país y los barcos lo usan para llevar las mercancías por la costa.',
+  fr: 'Le fleuve est le plus long du pays et les bateaux qui le remontent sont utilisés pour le commerce dans la région.',
+  de: 'Der Fluss ist der längste des Landes, und die Schiffe auf dem Fluss sind nicht mit den Booten von früher zu vergleichen.',
+  it: 'Il fiume è il più lungo del paese e gli abitanti della valle lo usano per il commercio, che non si è mai fermato.',
+};
+
+describe('detectLanguage', () => {
+  it.each(Object.entries(SAMPLES))('should identify %s text', (language, text) => {
+    expect(detectLanguage(text)).toBe(language);
+  });
+
+  it('should not guess the language of short texts', () => {
+    expect(detectLanguage('Rivers carve valleys.')).toBeNull();
+    expect(detectLanguage('')).toBeNull();
+  });
+
+  it('should rank the languages nearest to a text first', () => {
+    const [nearest, next] = rankLanguages(SAMPLES.pt);
+
+    expect(nearest.language).toBe('pt');
+    expect(next.distance).toBeGreaterThan(nearest.distance);
+  });
+});
+
+describe('buildProfile', () => {
+  it('should rank letter sequences by frequency, marking word boundaries', () => {
+    expect(buildProfile('aa ab', 4)).toEqual(['a', ' a', ' aa', ' ab']);
+  });
+});
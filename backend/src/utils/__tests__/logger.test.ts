@@ -0,0 +1,72 @@
+import { getRequestId, logger, runWithRequestContext } from '../logger';
+
+describe('logger', () => {
+  const originalLevel = process.env.LOG_LEVEL;
+  let log: jest.SpyInstance;
+  let error: jest.SpyInstance;
+
+  const entries = (spy: jest.SpyInstance) => spy.mock.calls.map(([line]) => JSON.parse(line));
+
+  beforeEach(() => {
+    delete process.env.LOG_LEVEL;
+    log = jest.spyOn(console, 'log').mockImplementation(() => {});
+    error = jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    process.env.LOG_LEVEL = originalLevel;
+    jest.restoreAllMocks();
+  });
+
+  it('should write one JSON line per entry with its fields', () => {
+    logger.info('Server running', { port: 3001 });
+
+    expect(entries(log)).toEqual([
+      { time: expect.any(String), level: 'info', message: 'Server running', port: 3001 },
+    ]);
+  });
+
+  it('should include the request ID of the current request context', async () => {
+    await runWithRequestContext({ requestId: 'req-1' }, async () => {
+      await Promise.resolve();
+      expect(getRequestId()).toBe('req-1');
+      logger.info('Inside');
+    });
+    logger.info('Outside');
+
+    expect(entries(log).map((entry) => entry.requestId)).toEqual(['req-1', undefined]);
+    expect(getRequestId()).toBeUndefined();
+  });
+
+  it('should serialize errors with their message, status and stack', () => {
+    const failure = Object.assign(new Error('Upstream down'), { statusCode: 503 });
+
+    logger.error('Request failed', { error: failure });
+
+    expect(entries(error)[0].error).toEqual({
+      name: 'Error',
+      message: 'Upstream down',
+      statusCode: 503,
+      stack: expect.stringContaining('Upstream down'),
+    });
+  });
+
+  it('should skip entries below LOG_LEVEL', () => {
+    process.env.LOG_LEVEL = 'warn';
+
+    logger.debug('Debug');
+    logger.info('Info');
+    logger.error('Error');
+
+    expect(log).not.toHaveBeenCalled();
+    expect(error).toHaveBeenCalledTimes(1);
+  });
+
+  it('should write nothing when silent', () => {
+    process.env.LOG_LEVEL = 'silent';
+
+    logger.error('Error');
+
+    expect(error).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,65 @@
+import { API_ROUTE_GROUPS } from '../../schemas';
+import { buildOpenApiDocument } from '../openapi';
+
+describe('buildOpenApiDocument', () => {
+  const document = buildOpenApiDocument(API_ROUTE_GROUPS, '1.2.3') as any;
+
+  it('should describe every route of every group', () => {
+    const operations = Object.values(document.paths).flatMap((path: any) => Object.keys(path));
+    const routes = API_ROUTE_GROUPS.flatMap((group) => Object.values(group.routes));
+
+    expect(document.openapi).toBe('3.0.3');
+    expect(document.info.version).toBe('1.2.3');
+    expect(operations).toHaveLength(routes.length);
+    expect(document.tags.map((tag: any) => tag.name)).toEqual([
+      'Content',
+      'Metrics',
+      'Auth',
+      'Sync',
+      'Admin',
+    ]);
+  });
+
+  it('should convert Express path parameters and document them', () => {
+    const sections = document.paths['/api/content/wikipedia/{theme}/sections'].get;
+
+    expect(sections.parameters).toEqual([
+      expect.objectContaining({ name: 'theme', in: 'path', required: true }),
+      expect.objectContaining({
+        name: 'language',
+        in: 'query',
+        required: false,
+        schema: expect.objectContaining({ default: 'en' }),
+      }),
+      expect.objectContaining({ name: 'article', in: 'query', required: false }),
+    ]);
+  });
+
+  it('should document request bodies in every accepted media type', () => {
+    const { requestBody } = document.paths['/api/content/custom'].post;
+
+    expect(Object.keys(requestBody.content)).toEqual([
+      'application/json',
+      'text/plain',
+      'text/markdown',
+    ]);
+    expect(requestBody.content['application/json'].schema.required).toEqual(['text']);
+  });
+
+  it('should document the field errors of validated routes', () => {
+    const generate = document.paths['/api/content/generate'].post;
+    const body = generate.requestBody.content['application/json'].schema;
+
+    expect(body.properties.source.enum).toContain('wikipedia');
+    expect(generate.responses['400'].content['application/json'].schema.properties).toHaveProperty(
+      'details'
+    );
+    expect(document.paths['/api/auth/me'].get.responses).not.toHaveProperty('400');
+  });
+
+  it('should mark which routes need a token', () => {
+    expect(document.paths['/api/sync/push'].post.security).toEqual([{ bearerAuth: [] }]);
+    expect(document.paths['/api/content/generate'].post.security).toEqual([{}, { bearerAuth: [] }]);
+    expect(document.paths['/api/auth/login'].post).not.toHaveProperty('security');
+  });
+});
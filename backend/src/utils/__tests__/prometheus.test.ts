@@ -0,0 +1,88 @@
+import { Counter, Histogram, MetricsRegistry } from '../prometheus';
+
+describe('prometheus', () => {
+  describe('Counter', () => {
+    it('should count per label set and render each series', () => {
+      const counter = new Counter('requests_total', 'Requests', ['method', 'status']);
+
+      counter.inc({ method: 'GET', status: '200' });
+      counter.inc({ status: '200', method: 'GET' }, 2);
+      counter.inc({ method: 'POST', status: '500' });
+
+      expect(counter.get({ method: 'GET', status: '200' })).toBe(3);
+      expect(counter.get({ method: 'GET', status: '404' })).toBe(0);
+      expect(counter.render()).toBe(
+        [
+          '# HELP requests_total Requests',
+          '# TYPE requests_total counter',
+          'requests_total{method="GET",status="200"} 3',
+          'requests_total{method="POST",status="500"} 1',
+        ].join('\n')
+      );
+    });
+
+    it('should reject labels it was not declared with', () => {
+      const counter = new Counter('requests_total', 'Requests', ['method']);
+
+      expect(() => counter.inc({ methd: 'GET' })).toThrow('Unknown label "methd"');
+    });
+
+    it('should escape label values', () => {
+      const counter = new Counter('errors_total', 'Errors', ['reason']);
+
+      counter.inc({ reason: 'say "hi"\\\n' });
+
+      expect(counter.render()).toContain('errors_total{reason="say \\"hi\\"\\\\\\n"} 1');
+    });
+  });
+
+  describe('Histogram', () => {
+    it('should render cumulative buckets, sum and count', () => {
+      const histogram = new Histogram('latency_seconds', 'Latency', ['route'], [0.1, 1]);
+
+      histogram.observe({ route: '/a' }, 0.05);
+      histogram.observe({ route: '/a' }, 0.5);
+      histogram.observe({ route: '/a' }, 3);
+
+      expect(histogram.getCount({ route: '/a' })).toBe(3);
+      expect(histogram.render().split('\n').slice(2)).toEqual([
+        'latency_seconds_bucket{route="/a",le="0.1"} 1',
+        'latency_seconds_bucket{route="/a",le="1"} 2',
+        'latency_seconds_bucket{route="/a",le="+Inf"} 3',
+        'latency_seconds_sum{route="/a"} 3.55',
+        'latency_seconds_count{route="/a"} 3',
+      ]);
+    });
+
+    it('should time until the returned function is called', () => {
+      const histogram = new Histogram('call_seconds', 'Calls', ['service', 'outcome']);
+
+      const stop = histogram.startTimer({ service: 'wikipedia' });
+      const seconds = stop({ outcome: 'success' });
+
+      expect(seconds).toBeGreaterThanOrEqual(0);
+      expect(histogram.getCount({ service: 'wikipedia', outcome: 'success' })).toBe(1);
+    });
+  });
+
+  describe('MetricsRegistry', () => {
+    it('should render every registered metric', () => {
+      const registry = new MetricsRegistry();
+      registry.register(new Counter('a_total', 'A')).inc();
+      registry.register(new Counter('b_total', 'B'));
+
+      expect(registry.render()).toBe(
+        '# HELP a_total A\n# TYPE a_total counter\na_total 1\n# HELP b_total B\n# TYPE b_total counter\n'
+      );
+    });
+
+    it('should refuse two metrics with the same name', () => {
+      const registry = new MetricsRegistry();
+      registry.register(new Counter('a_total', 'A'));
+
+      expect(() => registry.register(new Counter('a_total', 'A again'))).toThrow(
+        'already registered'
+      );
+    });
+  });
+});
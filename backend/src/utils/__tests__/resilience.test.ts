@@ -0,0 +1,198 @@
+import { AppError } from '../../middleware/errorHandler';
+import { circuitBreakerTransitions, upstreamRetries } from '../prometheus';
+import {
+  CircuitBreaker,
+  CircuitOpenError,
+  getBackoffDelay,
+  getRetryAfterMs,
+  isTransientError,
+  withRetry,
+} from '../resilience';
+
+const httpError = (status: number, headers: Record<string, string> = {}) =>
+  Object.assign(new Error(`Request failed with status code ${status}`), {
+    response: { status, headers },
+  });
+
+describe('resilience', () => {
+  describe('isTransientError', () => {
+    it('should treat network failures, rate limits and server errors as transient', () => {
+      expect(isTransientError(new Error('socket hang up'))).toBe(true);
+      expect(isTransientError(httpError(429))).toBe(true);
+      expect(isTransientError(httpError(502))).toBe(true);
+    });
+
+    it('should not retry client errors or errors raised by the app itself', () => {
+      expect(isTransientError(httpError(404))).toBe(false);
+      expect(isTransientError(new AppError('No Wikipedia articles found', 404))).toBe(false);
+    });
+  });
+
+  describe('getRetryAfterMs', () => {
+    it('should read seconds and HTTP dates', () => {
+      const now = Date.parse('2024-05-01T12:00:00Z');
+
+      expect(getRetryAfterMs(httpError(429, { 'retry-after': '3' }), now)).toBe(3000);
+      expect(
+        getRetryAfterMs(httpError(503, { 'retry-after': 'Wed, 01 May 2024 12:00:10 GMT' }), now)
+      ).toBe(10000);
+    });
+
+    it('should ignore missing or unreadable headers', () => {
+      expect(getRetryAfterMs(httpError(429))).toBeUndefined();
+      expect(getRetryAfterMs(httpError(429, { 'retry-after': 'soon' }))).toBeUndefined();
+    });
+  });
+
+  describe('getBackoffDelay', () => {
+    it('should grow exponentially up to the maximum, scaled by the jitter', () => {
+      expect(getBackoffDelay(0, 100, 1000, () => 1)).toBe(100);
+      expect(getBackoffDelay(2, 100, 1000, () => 1)).toBe(400);
+      expect(getBackoffDelay(6, 100, 1000, () => 1)).toBe(1000);
+      expect(getBackoffDelay(2, 100, 1000, () => 0.5)).toBe(200);
+    });
+  });
+
+  describe('withRetry', () => {
+    it('should retry transient failures until the call succeeds', async () => {
+      const before = upstreamRetries.get({ service: 'test' });
+      const fn = jest
+        .fn()
+        .mockRejectedValueOnce(httpError(503))
+        .mockRejectedValueOnce(new Error('ETIMEDOUT'))
+        .mockResolvedValue('ok');
+
+      await expect(withRetry(fn, { retries: 2, baseDelayMs: 0, service: 'test' })).resolves.toBe(
+        'ok'
+      );
+      expect(fn).toHaveBeenCalledTimes(3);
+      expect(upstreamRetries.get({ service: 'test' }) - before).toBe(2);
+    });
+
+    it('should give up after the configured retries', async () => {
+      const fn = jest.fn().mockRejectedValue(httpError(500));
+
+      await expect(withRetry(fn, { retries: 1, baseDelayMs: 0 })).rejects.toThrow('500');
+      expect(fn).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not retry errors that are not transient', async () => {
+      const fn = jest.fn().mockRejectedValue(httpError(400));
+
+      await expect(withRetry(fn, { baseDelayMs: 0 })).rejects.toThrow('400');
+      expect(fn).toHaveBeenCalledTimes(1);
+    });
+
+    it('should wait as long as Retry-After asks', async () => {
+      jest.useFakeTimers();
+      try {
+        const fn = jest
+          .fn()
+          .mockRejectedValueOnce(httpError(429, { 'retry-after': '2' }))
+          .mockResolvedValue('ok');
+
+        const result = withRetry(fn, { baseDelayMs: 0 });
+        await jest.advanceTimersByTimeAsync(1999);
+        expect(fn).toHaveBeenCalledTimes(1);
+        await jest.advanceTimersByTimeAsync(1);
+
+        await expect(result).resolves.toBe('ok');
+        expect(fn).toHaveBeenCalledTimes(2);
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+
+    it('should fail at once when Retry-After is longer than the maximum delay', async () => {
+      const fn = jest.fn().mockRejectedValue(httpError(429, { 'retry-after': '60' }));
+
+      await expect(withRetry(fn, { maxDelayMs: 5000 })).rejects.toThrow('429');
+      expect(fn).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('CircuitBreaker', () => {
+    let now: number;
+    let breaker: CircuitBreaker;
+    const fail = () => Promise.reject(new Error('ECONNREFUSED'));
+
+    beforeEach(() => {
+      now = 0;
+      jest.spyOn(console, 'warn').mockImplementation(() => {});
+      breaker = new CircuitBreaker('test', {
+        failureThreshold: 3,
+        resetTimeoutMs: 1000,
+        now: () => now,
+      });
+    });
+
+    it('should open after consecutive failures and reject without calling', async () => {
+      for (let i = 0; i < 3; i++) {
+        await expect(breaker.execute(fail)).rejects.toThrow('ECONNREFUSED');
+      }
+      const fn = jest.fn();
+
+      await expect(breaker.execute(fn)).rejects.toBeInstanceOf(CircuitOpenError);
+      expect(fn).not.toHaveBeenCalled();
+      expect(breaker.getState()).toBe('open');
+      expect(breaker.isAvailable()).toBe(false);
+    });
+
+    it('should reset the failure count after a success', async () => {
+      await expect(breaker.execute(fail)).rejects.toThrow();
+      await expect(breaker.execute(fail)).rejects.toThrow();
+      await breaker.execute(() => Promise.resolve('ok'));
+      await expect(breaker.execute(fail)).rejects.toThrow();
+
+      expect(breaker.getState()).toBe('closed');
+    });
+
+    it('should let one trial call through after the reset timeout', async () => {
+      const before = circuitBreakerTransitions.get({ breaker: 'test', state: 'closed' });
+      for (let i = 0; i < 3; i++) {
+        await expect(breaker.execute(fail)).rejects.toThrow();
+      }
+      now = 1000;
+      expect(breaker.getState()).toBe('half-open');
+
+      let finishTrial: (value: string) => void = () => {};
+      const trial = breaker.execute(
+        () =>
+          new Promise<string>((resolve) => {
+            finishTrial = resolve;
+          })
+      );
+      await expect(breaker.execute(() => Promise.resolve('second'))).rejects.toBeInstanceOf(
+        CircuitOpenError
+      );
+      finishTrial('ok');
+
+      await expect(trial).resolves.toBe('ok');
+      expect(breaker.getState()).toBe('closed');
+      expect(circuitBreakerTransitions.get({ breaker: 'test', state: 'closed' }) - before).toBe(1);
+    });
+
+    it('should open again when the trial call fails', async () => {
+      for (let i = 0; i < 3; i++) {
+        await expect(breaker.execute(fail)).rejects.toThrow();
+      }
+      now = 1000;
+
+      await expect(breaker.execute(fail)).rejects.toThrow('ECONNREFUSED');
+
+      expect(breaker.getState()).toBe('open');
+      now = 1999;
+      expect(breaker.isAvailable()).toBe(false);
+    });
+
+    it('should not count errors the service is not to blame for', async () => {
+      breaker = new CircuitBreaker('test', { failureThreshold: 1, isFailure: isTransientError });
+
+      await expect(
+        breaker.execute(() => Promise.reject(new AppError('Not found', 404)))
+      ).rejects.toThrow('Not found');
+
+      expect(breaker.getState()).toBe('closed');
+    });
+  });
+});
@@ -0,0 +1,135 @@
+import { type FieldError, type Schema, s } from '../schema';
+
+const run = <T>(schema: Schema<T>, value: unknown) => {
+  const errors: FieldError[] = [];
+  const result = schema.validate(value, 'body', errors);
+  return { result, errors };
+};
+
+describe('schema', () => {
+  describe('primitives', () => {
+    it('should report strings that are missing, too short, too long or malformed', () => {
+      const name = s.object({ name: s.string({ min: 1, max: 5, pattern: /^[a-z]+$/ }) });
+
+      expect(run(name, {}).errors).toEqual([{ field: 'body.name', message: '"name" is required' }]);
+      expect(run(name, { name: '   ' }).errors[0].message).toBe('"name" is required');
+      expect(run(name, { name: 'abcdef' }).errors[0].message).toBe(
+        '"name" must be 5 characters or less'
+      );
+      expect(run(name, { name: 'AB' }).errors[0].message).toBe('"name" must contain only ^[a-z]+$');
+      expect(run(name, { name: 'abc' }).errors).toEqual([]);
+    });
+
+    it('should coerce numeric strings only when asked', () => {
+      expect(run(s.number({ coerce: true }), '42')).toEqual({ result: 42, errors: [] });
+      expect(run(s.number(), '42').errors).toHaveLength(1);
+      expect(run(s.number({ integer: true }), 1.5).errors[0].message).toBe(
+        '"body" must be a whole number'
+      );
+    });
+
+    it('should parse dates from ISO strings and epoch milliseconds', () => {
+      expect(run(s.date(), '2024-01-02T00:00:00.000Z').result).toEqual(
+        new Date('2024-01-02T00:00:00.000Z')
+      );
+      expect(run(s.date(), 0).result).toEqual(new Date(0));
+      expect(run(s.date(), 'yesterday').errors[0].message).toBe('"body" must be a valid date');
+    });
+
+    it('should list the allowed values of an enum', () => {
+      expect(run(s.enum(['a', 'b'] as const), 'c').errors[0].message).toBe(
+        '"body" must be one of a, b'
+      );
+    });
+  });
+
+  describe('objects', () => {
+    const schema = s.object({
+      id: s.string(),
+      count: s.number({ min: 0 }),
+      tags: s.array(s.string(), 2).optional(),
+      limit: s.number().optional().default(10),
+    });
+
+    it('should report every failing field at once', () => {
+      expect(run(schema, { count: -1, tags: ['a', 3] }).errors).toEqual([
+        { field: 'body.id', message: '"id" is required' },
+        { field: 'body.count', message: '"count" must be at least 0' },
+        { field: 'body.tags[1]', message: '"tags[1]" is required' },
+      ]);
+    });
+
+    it('should apply defaults and keep unknown fields', () => {
+      expect(run(schema, { id: 'x', count: 1, extra: true }).result).toEqual({
+        id: 'x',
+        count: 1,
+        limit: 10,
+        extra: true,
+      });
+    });
+
+    it('should replace the errors of a value with its custom message', () => {
+      const custom = s.object({ tags: s.array(s.string(), 1).message('Bad tags') });
+
+      expect(run(custom, { tags: [1, 2] }).errors).toEqual([
+        { field: 'body.tags', message: 'Bad tags' },
+      ]);
+    });
+
+    it('should check refinements only once every field is valid', () => {
+      const range = s
+        .object({ from: s.number(), to: s.number() })
+        .refine(({ from, to }) =>
+          from > to ? { field: 'to', message: '"to" must not be before "from"' } : undefined
+        );
+
+      expect(run(range, { from: 2, to: 1 }).errors).toEqual([
+        { field: 'body.to', message: '"to" must not be before "from"' },
+      ]);
+      expect(run(range, { from: 'x', to: 1 }).errors).toHaveLength(1);
+    });
+
+    it('should reject values that are not objects', () => {
+      expect(run(schema, [1]).errors).toEqual([
+        { field: 'body', message: '"body" must be an object' },
+      ]);
+    });
+  });
+
+  it('should accept the first matching option of a union', () => {
+    const seed = s.union(s.number(), s.string({ max: 3 }));
+
+    expect(run(seed, 'abc').errors).toEqual([]);
+    expect(run(seed, 7).errors).toEqual([]);
+    expect(run(seed, 'abcd').errors).toEqual([
+      { field: 'body', message: '"body" has an invalid value' },
+    ]);
+  });
+
+  it('should accept null only when nullable', () => {
+    expect(run(s.date().nullable(), null)).toEqual({ result: null, errors: [] });
+    expect(run(s.date(), null).errors).toHaveLength(1);
+  });
+
+  describe('toJSONSchema', () => {
+    it('should describe fields, constraints and which fields are required', () => {
+      const schema = s.object({
+        theme: s.string({ min: 1, max: 100 }).describe('Topic'),
+        limit: s.number({ integer: true, min: 1 }).optional().default(10),
+        order: s.enum(['asc', 'desc'] as const).optional(),
+        since: s.date().nullable(),
+      });
+
+      expect(schema.toJSONSchema()).toEqual({
+        type: 'object',
+        properties: {
+          theme: { type: 'string', minLength: 1, maxLength: 100, description: 'Topic' },
+          limit: { type: 'integer', minimum: 1, default: 10 },
+          order: { type: 'string', enum: ['asc', 'desc'] },
+          since: { type: 'string', format: 'date-time', nullable: true },
+        },
+        required: ['theme', 'since'],
+      });
+    });
+  });
+});
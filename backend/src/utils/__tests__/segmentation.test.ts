@@ -0,0 +1,76 @@
+import { segmentSentences, segmentText } from '../segmentation';
+
+/**
+ * Text of count sentences, each of wordsPerSentence words
+ */
+const sentences = (count: number, wordsPerSentence: number): string =>
+  Array.from(
+    { length: count },
+    (_, i) => `Sentence ${i + 1} ${'word '.repeat(wordsPerSentence - 2).trim()}.`
+  ).join(' ');
+
+describe('segmentation', () => {
+  describe('segmentSentences', () => {
+    it('should keep English abbreviations and initials inside sentences', () => {
+      expect(
+        segmentSentences('Dr. Smith met J. R. Tolkien in the U.S. Army. They talked. Did they?')
+      ).toEqual(['Dr. Smith met J. R. Tolkien in the U.S. Army.', 'They talked.', 'Did they?']);
+    });
+
+    it('should keep Portuguese abbreviations inside sentences', () => {
+      expect(
+        segmentSentences('A Sra. Silva chegou às dez. O Prof. Souza, p.ex. Falou depois.', 'pt')
+      ).toEqual(['A Sra. Silva chegou às dez.', 'O Prof. Souza, p.ex. Falou depois.']);
+    });
+
+    it('should not end a sentence before a lowercase word', () => {
+      expect(segmentSentences('It costs approx. ten dollars! really. Yes.')).toEqual([
+        'It costs approx. ten dollars! really.',
+        'Yes.',
+      ]);
+    });
+
+    it('should end sentences at paragraph breaks and keep closing quotes', () => {
+      expect(segmentSentences('He said "stop." Then left\n\nA new paragraph')).toEqual([
+        'He said "stop."',
+        'Then left',
+        'A new paragraph',
+      ]);
+    });
+  });
+
+  describe('segmentText', () => {
+    it('should split text into ordered passages near the target length', () => {
+      const passages = segmentText(sentences(12, 10), { targetWords: 40, idPrefix: 'content_1' });
+
+      expect(passages.map((passage) => passage.wordCount)).toEqual([40, 40, 40]);
+      expect(passages.map((passage) => passage.id)).toEqual([
+        'content_1_1',
+        'content_1_2',
+        'content_1_3',
+      ]);
+      expect(passages[1]).toMatchObject({ index: 1 });
+      expect(passages[1].text.startsWith('Sentence 5 ')).toBe(true);
+    });
+
+    it('should never split a sentence', () => {
+      const longSentence = `${'long '.repeat(59)}end.`;
+      const passages = segmentText(`${longSentence} ${sentences(2, 10)}`, { targetWords: 20 });
+
+      expect(passages[0].text).toBe(longSentence);
+      expect(passages[1].wordCount).toBe(20);
+    });
+
+    it('should fold a short remainder into the last passage', () => {
+      const passages = segmentText(`${sentences(4, 10)} Tail end.`, { targetWords: 20 });
+
+      expect(passages).toHaveLength(2);
+      expect(passages[1].text.endsWith('Tail end.')).toBe(true);
+    });
+
+    it('should return a single passage for short text and none for empty text', () => {
+      expect(segmentText('Just one sentence.')).toHaveLength(1);
+      expect(segmentText('   ')).toEqual([]);
+    });
+  });
+});
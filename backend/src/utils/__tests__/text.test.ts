@@ -0,0 +1,15 @@
+import { stripMarkdown, tokenize } from '../text';
+
+describe('tokenize', () => {
+  it('should lowercase, drop accents and short words', () => {
+    expect(tokenize('A Ciência do Átomo, in 3D!')).toEqual(['ciencia', 'atomo']);
+  });
+});
+
+describe('stripMarkdown', () => {
+  it('should keep prose and link labels', () => {
+    expect(
+      stripMarkdown('# Title\n\n- Item with `code`\n\n```js\nconst x = 1;\n```\n\nA [link](url).')
+    ).toBe('Item with code\n\nA link.');
+  });
+});
@@ -0,0 +1,64 @@
+import {
+  findBlockedTerms,
+  isContentAppropriate,
+  validateContentRequest,
+  validateTheme,
+} from '../validation';
+
+describe('validation', () => {
+  describe('validateTheme', () => {
+    it('should accept themes written in any script', () => {
+      expect(validateTheme('Historia de España').valid).toBe(true);
+      expect(validateTheme('Künstliche Intelligenz').valid).toBe(true);
+      expect(validateTheme('Łódź').valid).toBe(true);
+      expect(validateTheme('Ελληνική ιστορία').valid).toBe(true);
+      expect(validateTheme('東京の歴史').valid).toBe(true);
+    });
+
+    it('should reject markup and unsupported symbols', () => {
+      expect(validateTheme('<script>alert(1)</script>')).toEqual({
+        valid: false,
+        error: 'Theme contains invalid characters',
+      });
+      expect(validateTheme('Theme $ {}').valid).toBe(false);
+    });
+  });
+
+  describe('validateContentRequest', () => {
+    it('should accept every registered language', () => {
+      for (const language of ['en', 'pt', 'es', 'fr', 'de', 'it'] as const) {
+        expect(validateContentRequest({ theme: 'Astronomy', length: 300, language }).valid).toBe(
+          true
+        );
+      }
+    });
+
+    it('should reject unknown languages', () => {
+      const result = validateContentRequest({
+        theme: 'Astronomy',
+        length: 300,
+        language: 'xx' as any,
+      });
+
+      expect(result).toEqual({
+        valid: false,
+        error: 'Language must be one of en, pt, es, fr, de, it',
+      });
+    });
+  });
+
+  describe('isContentAppropriate', () => {
+    it('should reject built-in blocklist terms in any language, ignoring case and accents', () => {
+      expect(isContentAppropriate('Photosynthesis turns light into energy.')).toBe(true);
+      expect(isContentAppropriate('What a load of BULLSHIT.')).toBe(false);
+      expect(isContentAppropriate('Que merda.')).toBe(false);
+    });
+
+    it('should match whole words and phrases only', () => {
+      expect(findBlockedTerms('Shitake? No, shiitake mushrooms.', ['shit'])).toEqual([]);
+      expect(findBlockedTerms('Filho da puta!', ['filho da puta', 'puta que pariu'])).toEqual([
+        'filho da puta',
+      ]);
+    });
+  });
+});
@@ -0,0 +1,120 @@
+// Difficulty scoring shared by content generation, summarization and validation
+
+export type DifficultyLevel = 'easy' | 'medium' | 'hard';
+
+/**
+ * Requested difficulty: a level, or a numeric target score from 0 (easiest) to 100
+ */
+export type DifficultyTarget = DifficultyLevel | number;
+
+export const DIFFICULTY_LEVELS: DifficultyLevel[] = ['easy', 'medium', 'hard'];
+
+// Scores below EASY_MAX are easy, below MEDIUM_MAX medium, the rest hard
+const EASY_MAX = 34;
+const MEDIUM_MAX = 67;
+// Half-width of the accepted band around a numeric target
+const NUMERIC_TOLERANCE = 15;
+
+/**
+ * Writing guidance given to AI providers for each level
+ */
+export const DIFFICULTY_GUIDELINES: Record<DifficultyLevel, string> = {
+  easy: 'Use short sentences of about 8 to 12 words and common, everyday vocabulary. Avoid jargon.',
+  medium:
+    'Use sentences of about 12 to 20 words with a mix of everyday and subject-specific vocabulary.',
+  hard: 'Use long, complex sentences of 20 words or more and precise, technical vocabulary.',
+};
+
+/**
+ * Map a value onto 0..1 between a lower and upper bound
+ */
+function normalize(value: number, lower: number, upper: number): number {
+  return Math.min(1, Math.max(0, (value - lower) / (upper - lower)));
+}
+
+export function splitSentences(text: string): string[] {
+  return (
+    text
+      .match(/[^.!?]+[.!?]+["')\]]?|[^.!?]+$/g)
+      ?.map((s) => s.trim())
+      .filter(Boolean) || []
+  );
+}
+
+/**
+ * Score how hard a text is to type, from 0 (easiest) to 100
+ * Combines average word length, average sentence length and the share of long words
+ */
+export function scoreDifficulty(text: string): number {
+  const words = text.match(/[\p{L}\p{N}'-]+/gu) || [];
+  if (words.length === 0) {
+    return 0;
+  }
+
+  const sentenceCount = Math.max(1, splitSentences(text).length);
+  const avgWordLength = words.reduce((sum, word) => sum + word.length, 0) / words.length;
+  const avgSentenceLength = words.length / sentenceCount;
+  const longWordRatio = words.filter((word) => word.length >= 8).length / words.length;
+
+  const score =
+    40 * normalize(avgWordLength, 4, 6.5) +
+    35 * normalize(avgSentenceLength, 8, 28) +
+    25 * normalize(longWordRatio, 0.05, 0.35);
+
+  return Math.round(score);
+}
+
+export function levelForScore(score: number): DifficultyLevel {
+  if (score < EASY_MAX) return 'easy';
+  if (score < MEDIUM_MAX) return 'medium';
+  return 'hard';
+}
+
+/**
+ * Score and level of a text
+ */
+export function assessDifficulty(text: string): { score: number; level: DifficultyLevel } {
+  const score = scoreDifficulty(text);
+  return { score, level: levelForScore(score) };
+}
+
+/**
+ * Accepted score range and nearest level for a requested difficulty
+ */
+export function resolveDifficultyBand(target: DifficultyTarget): {
+  min: number;
+  max: number;
+  level: DifficultyLevel;
+} {
+  if (typeof target === 'number') {
+    return {
+      min: Math.max(0, target - NUMERIC_TOLERANCE),
+      max: Math.min(100, target + NUMERIC_TOLERANCE),
+      level: levelForScore(target),
+    };
+  }
+
+  switch (target) {
+    case 'easy':
+      return { min: 0, max: EASY_MAX - 1, level: 'easy' };
+    case 'medium':
+      return { min: EASY_MAX, max: MEDIUM_MAX - 1, level: 'medium' };
+    default:
+      return { min: MEDIUM_MAX, max: 100, level: 'hard' };
+  }
+}
+
+/**
+ * Distance of a score from the requested band; 0 when inside it
+ */
+export function distanceFromBand(score: number, target: DifficultyTarget): number {
+  const { min, max } = resolveDifficultyBand(target);
+  return Math.max(0, min - score, score - max);
+}
+
+export function isDifficultyTarget(value: unknown): value is DifficultyTarget {
+  return (
+    DIFFICULTY_LEVELS.includes(value as DifficultyLevel) ||
+    (typeof value === 'number' && Number.isFinite(value) && value >= 0 && value <= 100)
+  );
+}
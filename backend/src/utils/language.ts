@@ -0,0 +1,95 @@
+// Offline identification of the language a text is written in, by character n-grams
+
+import { LANGUAGE_SAMPLES } from '../config/languageSamples';
+import type { LanguageCode } from '../types';
+
+// Lengths of the letter sequences profiles are made of
+const NGRAM_SIZES = [1, 2, 3];
+
+// N-grams kept per profile, most frequent first
+const PROFILE_SIZE = 300;
+
+// Letters a text needs before its language is guessed at
+const MIN_LETTERS = 40;
+
+// Share of the runner-up's distance the best language must lead it by
+const MIN_MARGIN = 0.05;
+
+export interface LanguageScore {
+  language: LanguageCode;
+  distance: number; // 0 when the text ranks n-grams exactly as the profile does
+}
+
+/**
+ * Most frequent n-grams of a text, most frequent first
+ * Words are padded with a space on each side, so their beginnings and endings count
+ */
+export function buildProfile(text: string, size: number = PROFILE_SIZE): string[] {
+  const counts = new Map<string, number>();
+
+  for (const word of text.toLowerCase().match(/\p{L}+/gu) ?? []) {
+    const padded = ` ${word} `;
+    for (const n of NGRAM_SIZES) {
+      for (let i = 0; i + n <= padded.length; i++) {
+        const gram = padded.slice(i, i + n);
+        if (gram.trim()) {
+          counts.set(gram, (counts.get(gram) ?? 0) + 1);
+        }
+      }
+    }
+  }
+
+  return [...counts.entries()]
+    .sort(([a, countA], [b, countB]) => countB - countA || (a < b ? -1 : 1))
+    .slice(0, size)
+    .map(([gram]) => gram);
+}
+
+let languageProfiles: Map<LanguageCode, Map<string, number>> | null = null;
+
+/**
+ * Rank of each n-gram in each language's profile, built from the samples on first use
+ */
+function getLanguageProfiles(): Map<LanguageCode, Map<string, number>> {
+  if (!languageProfiles) {
+    languageProfiles = new Map(
+      Object.entries(LANGUAGE_SAMPLES).map(([language, sample]) => [
+        language as LanguageCode,
+        new Map(buildProfile(sample).map((gram, rank) => [gram, rank])),
+      ])
+    );
+  }
+  return languageProfiles;
+}
+
+/**
+ * Out-of-place distance of a text from every language profile, nearest first
+ * Each n-gram of the text adds how far its rank is from its rank in the profile, or the
+ * profile size when the profile lacks it; sums are averaged over the text's n-grams
+ */
+export function rankLanguages(text: string): LanguageScore[] {
+  const profile = buildProfile(text);
+
+  return [...getLanguageProfiles()]
+    .map(([language, ranks]) => {
+      const total = profile.reduce((sum, gram, rank) => {
+        const profileRank = ranks.get(gram);
+        return sum + (profileRank === undefined ? PROFILE_SIZE : Math.abs(profileRank - rank));
+      }, 0);
+      return { language, distance: profile.length > 0 ? total / profile.length : PROFILE_SIZE };
+    })
+    .sort((a, b) => a.distance - b.distance);
+}
+
+/**
+ * Language a text is most likely written in
+ * Null when the text is too short, or too close to two languages, to tell
+ */
+export function detectLanguage(text: string): LanguageCode | null {
+  if ((text.match(/\p{L}/gu)?.length ?? 0) < MIN_LETTERS) {
+    return null;
+  }
+
+  const [best, runnerUp] = rankLanguages(text);
+  return runnerUp.distance - best.distance >= runnerUp.distance * MIN_MARGIN ? best.language : null;
+}
@@ -0,0 +1,84 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+
+/**
+ * JSON logging with the request ID of the current request
+ * Every entry is one line of JSON. The request ID comes from the request context the
+ * requestContext middleware opens, so services log it without having it passed in
+ */
+
+export const LOG_LEVELS = ['debug', 'info', 'warn', 'error', 'silent'] as const;
+
+export type LogLevel = (typeof LOG_LEVELS)[number];
+
+export type LogFields = Record<string, unknown>;
+
+export interface RequestContext {
+  requestId: string;
+}
+
+const requestContext = new AsyncLocalStorage<RequestContext>();
+
+const CONSOLE_METHODS = {
+  debug: 'log',
+  info: 'log',
+  warn: 'warn',
+  error: 'error',
+} as const;
+
+const isLogLevel = (value: unknown): value is LogLevel =>
+  typeof value === 'string' && (LOG_LEVELS as readonly string[]).includes(value);
+
+/**
+ * Run fn, and everything it starts, within a request context
+ */
+export function runWithRequestContext<T>(context: RequestContext, fn: () => T): T {
+  return requestContext.run(context, fn);
+}
+
+/**
+ * ID of the request being handled, undefined outside a request
+ */
+export function getRequestId(): string | undefined {
+  return requestContext.getStore()?.requestId;
+}
+
+/**
+ * Errors as plain objects, since JSON.stringify drops their properties
+ */
+function serialize(value: unknown): unknown {
+  if (value instanceof Error) {
+    return {
+      name: value.name,
+      message: value.message,
+      ...('statusCode' in value && { statusCode: value.statusCode }),
+      stack: value.stack,
+    };
+  }
+  return value;
+}
+
+function write(level: Exclude<LogLevel, 'silent'>, message: string, fields: LogFields = {}): void {
+  const threshold = isLogLevel(process.env.LOG_LEVEL) ? process.env.LOG_LEVEL : 'info';
+  if (LOG_LEVELS.indexOf(level) < LOG_LEVELS.indexOf(threshold)) {
+    return;
+  }
+
+  const entry: LogFields = {
+    time: new Date().toISOString(),
+    level,
+    message,
+    requestId: getRequestId(),
+  };
+  for (const [key, value] of Object.entries(fields)) {
+    entry[key] = serialize(value);
+  }
+
+  console[CONSOLE_METHODS[level]](JSON.stringify(entry));
+}
+
+export const logger = {
+  debug: (message: string, fields?: LogFields) => write('debug', message, fields),
+  info: (message: string, fields?: LogFields) => write('info', message, fields),
+  warn: (message: string, fields?: LogFields) => write('warn', message, fields),
+  error: (message: string, fields?: LogFields) => write('error', message, fields),
+};
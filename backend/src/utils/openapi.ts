@@ -0,0 +1,114 @@
+import type { RouteGroup, RouteSpec } from '../schemas';
+import type { JsonSchema, ObjectSchema } from './schema';
+
+const ERROR_RESPONSE = {
+  type: 'object',
+  properties: {
+    error: { type: 'string' },
+    details: {
+      type: 'array',
+      description: 'Each failing field for validation errors, or each reason for rejected content',
+      items: {
+        type: 'object',
+        properties: {
+          field: { type: 'string' },
+          code: { type: 'string' },
+          message: { type: 'string' },
+        },
+        required: ['message'],
+      },
+    },
+  },
+  required: ['error'],
+};
+
+// Express ":id" parameters in OpenAPI "{id}" form
+const toOpenApiPath = (path: string): string => path.replace(/:(\w+)/g, '{$1}');
+
+/**
+ * Path or query parameters of an object schema
+ */
+function parametersFor(schema: ObjectSchema<any> | undefined, location: 'path' | 'query') {
+  if (!schema) {
+    return [];
+  }
+  const { properties = {}, required = [] } = schema.toJSONSchema() as {
+    properties?: Record<string, JsonSchema>;
+    required?: string[];
+  };
+  return Object.entries(properties).map(([name, property]) => ({
+    name,
+    in: location,
+    required: location === 'path' || required.includes(name),
+    ...(property.description !== undefined && { description: property.description }),
+    schema: property,
+  }));
+}
+
+function operationFor(route: RouteSpec, tag: string) {
+  const responses: Record<string, unknown> = {};
+  for (const [status, description] of Object.entries(route.responses)) {
+    const success = Number(status) < 400;
+    const mediaType = success && route.stream ? 'text/event-stream' : 'application/json';
+    responses[status] = {
+      description,
+      ...(!success && { content: { [mediaType]: { schema: ERROR_RESPONSE } } }),
+    };
+  }
+  if (route.body || route.params || route.query) {
+    responses['400'] = {
+      description: 'Invalid request',
+      content: { 'application/json': { schema: ERROR_RESPONSE } },
+    };
+  }
+
+  const body = route.body?.toJSONSchema();
+  return {
+    tags: [tag],
+    summary: route.summary,
+    ...(route.description && { description: route.description }),
+    ...(route.auth === 'required' && { security: [{ bearerAuth: [] }] }),
+    ...(route.auth === 'optional' && { security: [{}, { bearerAuth: [] }] }),
+    parameters: [...parametersFor(route.params, 'path'), ...parametersFor(route.query, 'query')],
+    ...(body && {
+      requestBody: {
+        required: true,
+        content: Object.fromEntries(
+          ['application/json', ...(route.bodyTypes ?? [])].map((type) => [
+            type,
+            { schema: type === 'application/json' ? body : { type: 'string' } },
+          ])
+        ),
+      },
+    }),
+    responses,
+  };
+}
+
+/**
+ * OpenAPI 3 document describing every route of the groups
+ */
+export function buildOpenApiDocument(groups: RouteGroup[], version: string) {
+  const paths: Record<string, Record<string, unknown>> = {};
+
+  for (const { prefix, tag, routes } of groups) {
+    for (const route of Object.values(routes)) {
+      const path = toOpenApiPath(`${prefix}${route.path}`);
+      paths[path] = { ...paths[path], [route.method]: operationFor(route, tag) };
+    }
+  }
+
+  return {
+    openapi: '3.0.3',
+    info: {
+      title: 'Typing Study API',
+      version,
+      description: 'Practice content generation, typing metrics, accounts and sync',
+    },
+    tags: groups.map(({ tag }) => ({ name: tag })),
+    components: {
+      securitySchemes: { bearerAuth: { type: 'http', scheme: 'bearer' } },
+    },
+    paths,
+  };
+}
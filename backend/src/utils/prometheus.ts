@@ -0,0 +1,262 @@
+/**
+ * Counters and histograms rendered in the Prometheus text exposition format
+ * Series are keyed by their label values, so labels must come from small fixed sets
+ * (route patterns, provider names, outcomes) rather than raw user input
+ */
+
+export type Labels = Record<string, string>;
+
+interface Metric {
+  readonly name: string;
+  render(): string;
+}
+
+// Request latencies, from fast cache hits to slow AI generations
+export const LATENCY_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30];
+
+const escapeLabelValue = (value: string): string =>
+  value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+
+function formatLabels(labels: Labels): string {
+  const pairs = Object.entries(labels).map(
+    ([name, value]) => `${name}="${escapeLabelValue(value)}"`
+  );
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+}
+
+abstract class LabelledMetric<T> implements Metric {
+  protected series = new Map<string, { labels: Labels; value: T }>();
+
+  constructor(
+    readonly name: string,
+    protected readonly help: string,
+    private readonly labelNames: string[] = []
+  ) {}
+
+  protected abstract type: 'counter' | 'histogram';
+
+  protected abstract initial(): T;
+
+  protected abstract renderSeries(labels: Labels, value: T): string[];
+
+  render(): string {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} ${this.type}`];
+    for (const { labels, value } of this.series.values()) {
+      lines.push(...this.renderSeries(labels, value));
+    }
+    return lines.join('\n');
+  }
+
+  reset(): void {
+    this.series.clear();
+  }
+
+  /**
+   * Series for the labels, created on first use
+   */
+  protected seriesFor(labels: Labels): { labels: Labels; value: T } {
+    const ordered = this.orderLabels(labels);
+    const key = JSON.stringify(ordered);
+    let entry = this.series.get(key);
+    if (!entry) {
+      entry = { labels: ordered, value: this.initial() };
+      this.series.set(key, entry);
+    }
+    return entry;
+  }
+
+  protected findSeries(labels: Labels): T | undefined {
+    return this.series.get(JSON.stringify(this.orderLabels(labels)))?.value;
+  }
+
+  /**
+   * Labels in declaration order; unknown names are rejected so a typo cannot silently
+   * start a new series
+   */
+  private orderLabels(labels: Labels): Labels {
+    for (const name of Object.keys(labels)) {
+      if (!this.labelNames.includes(name)) {
+        throw new Error(`Unknown label "${name}" for metric ${this.name}`);
+      }
+    }
+    const ordered: Labels = {};
+    for (const name of this.labelNames) {
+      ordered[name] = labels[name] ?? '';
+    }
+    return ordered;
+  }
+}
+
+/**
+ * Monotonically increasing count
+ */
+export class Counter extends LabelledMetric<number> {
+  protected type = 'counter' as const;
+
+  inc(labels: Labels = {}, amount: number = 1): void {
+    this.seriesFor(labels).value += amount;
+  }
+
+  /**
+   * Current count for the labels, 0 when never incremented
+   */
+  get(labels: Labels = {}): number {
+    return this.findSeries(labels) ?? 0;
+  }
+
+  protected initial(): number {
+    return 0;
+  }
+
+  protected renderSeries(labels: Labels, value: number): string[] {
+    return [`${this.name}${formatLabels(labels)} ${value}`];
+  }
+}
+
+interface HistogramValue {
+  buckets: number[]; // observations per bucket, not cumulative
+  sum: number;
+  count: number;
+}
+
+/**
+ * Distribution of observed values over fixed upper bounds
+ */
+export class Histogram extends LabelledMetric<HistogramValue> {
+  protected type = 'histogram' as const;
+  private readonly bounds: number[];
+
+  constructor(name: string, help: string, labelNames: string[] = [], bounds = LATENCY_BUCKETS) {
+    super(name, help, labelNames);
+    this.bounds = [...bounds].sort((a, b) => a - b);
+  }
+
+  observe(labels: Labels, value: number): void {
+    const series = this.seriesFor(labels).value;
+    const index = this.bounds.findIndex((bound) => value <= bound);
+    if (index !== -1) {
+      series.buckets[index]++;
+    }
+    series.sum += value;
+    series.count++;
+  }
+
+  /**
+   * Observe the seconds from now until the returned function is called
+   */
+  startTimer(labels: Labels = {}): (extraLabels?: Labels) => number {
+    const start = process.hrtime.bigint();
+    return (extraLabels = {}) => {
+      const seconds = Number(process.hrtime.bigint() - start) / 1e9;
+      this.observe({ ...labels, ...extraLabels }, seconds);
+      return seconds;
+    };
+  }
+
+  /**
+   * Number of observations for the labels
+   */
+  getCount(labels: Labels = {}): number {
+    return this.findSeries(labels)?.count ?? 0;
+  }
+
+  protected initial(): HistogramValue {
+    return { buckets: this.bounds.map(() => 0), sum: 0, count: 0 };
+  }
+
+  protected renderSeries(labels: Labels, value: HistogramValue): string[] {
+    let cumulative = 0;
+    const lines = this.bounds.map((bound, index) => {
+      cumulative += value.buckets[index];
+      return `${this.name}_bucket${formatLabels({ ...labels, le: String(bound) })} ${cumulative}`;
+    });
+    return [
+      ...lines,
+      `${this.name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${value.count}`,
+      `${this.name}_sum${formatLabels(labels)} ${value.sum}`,
+      `${this.name}_count${formatLabels(labels)} ${value.count}`,
+    ];
+  }
+}
+
+/**
+ * Set of metrics served together by the /metrics endpoint
+ */
+export class MetricsRegistry {
+  private metrics = new Map<string, Metric>();
+
+  register<T extends Metric>(metric: T): T {
+    if (this.metrics.has(metric.name)) {
+      throw new Error(`Metric ${metric.name} is already registered`);
+    }
+    this.metrics.set(metric.name, metric);
+    return metric;
+  }
+
+  render(): string {
+    return `${[...this.metrics.values()].map((metric) => metric.render()).join('\n')}\n`;
+  }
+}
+
+export const registry = new MetricsRegistry();
+
+export const httpRequests = registry.register(
+  new Counter('http_requests_total', 'HTTP requests handled', ['method', 'route', 'status'])
+);
+
+export const httpRequestDuration = registry.register(
+  new Histogram('http_request_duration_seconds', 'HTTP request latency in seconds', [
+    'method',
+    'route',
+  ])
+);
+
+export const upstreamRequestDuration = registry.register(
+  new Histogram(
+    'upstream_request_duration_seconds',
+    'Latency of calls to AI providers and Wikipedia in seconds',
+    ['service', 'outcome']
+  )
+);
+
+export const aiProviderFailures = registry.register(
+  new Counter('ai_provider_failures_total', 'AI provider calls that failed', ['provider'])
+);
+
+export const aiProviderFallbacks = registry.register(
+  new Counter('ai_provider_fallbacks_total', 'Falls back to the next AI provider in the chain', [
+    'from',
+    'to',
+  ])
+);
+
+export const aiTokens = registry.register(
+  new Counter('ai_tokens_total', 'Tokens used by AI generations', ['provider', 'type'])
+);
+
+export const aiCost = registry.register(
+  new Counter('ai_cost_usd_total', 'Estimated cost of AI generations in US dollars', ['provider'])
+);
+
+export const contentFallbacks = registry.register(
+  new Counter(
+    'content_fallbacks_total',
+    'Combined content served from fewer sources after a failure',
+    ['served']
+  )
+);
+
+export const contentCacheLookups = registry.register(
+  new Counter('content_cache_lookups_total', 'Content cache lookups by result', ['result'])
+);
+
+export const upstreamRetries = registry.register(
+  new Counter('upstream_retries_total', 'Retries of failed upstream calls', ['service'])
+);
+
+export const circuitBreakerTransitions = registry.register(
+  new Counter('circuit_breaker_transitions_total', 'Circuit breaker state changes', [
+    'breaker',
+    'state',
+  ])
+);
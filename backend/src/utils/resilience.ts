@@ -0,0 +1,230 @@
+import { AppError } from '../middleware/errorHandler';
+import { logger } from './logger';
+import { circuitBreakerTransitions, upstreamRetries } from './prometheus';
+
+/**
+ * Retries with jittered backoff and circuit breakers for calls to upstream services
+ * Retries absorb brief glitches on idempotent calls; a breaker stops calling a service
+ * that keeps failing, so requests fail fast (or fall back) instead of waiting on timeouts
+ */
+
+const DEFAULT_RETRIES = 2;
+const DEFAULT_BASE_DELAY_MS = 250;
+const DEFAULT_MAX_DELAY_MS = 5000;
+const DEFAULT_FAILURE_THRESHOLD = 5;
+const DEFAULT_RESET_SECONDS = 30;
+
+export interface RetryOptions {
+  retries?: number; // attempts after the first
+  baseDelayMs?: number;
+  maxDelayMs?: number; // longest wait, including a Retry-After the server asks for
+  shouldRetry?: (error: unknown) => boolean;
+  service?: string; // label for the retry metric and log
+}
+
+const sleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Whether an error is worth retrying: no response (network failure or timeout), a rate
+ * limit, or a server error. Other client errors would only fail again
+ */
+export function isTransientError(error: any): boolean {
+  const status = error?.response?.status;
+  if (status === undefined) {
+    return !(error instanceof AppError);
+  }
+  return status === 429 || status >= 500;
+}
+
+/**
+ * Milliseconds a 429 or 503 response asks to wait, from seconds or an HTTP date
+ */
+export function getRetryAfterMs(error: any, now: number = Date.now()): number | undefined {
+  const header = error?.response?.headers?.['retry-after'];
+  if (header === undefined || header === null || header === '') {
+    return undefined;
+  }
+
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(String(header));
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+/**
+ * Delay before retry number attempt (0 for the first retry): a random wait up to an
+ * exponentially growing cap, so clients that failed together do not retry together
+ */
+export function getBackoffDelay(
+  attempt: number,
+  baseDelayMs: number,
+  maxDelayMs: number,
+  random: () => number = Math.random
+): number {
+  return Math.round(random() * Math.min(maxDelayMs, baseDelayMs * 2 ** attempt));
+}
+
+/**
+ * Run fn, retrying transient failures; only for calls that are safe to repeat
+ */
+export async function withRetry<T>(fn: () => Promise<T>, options: RetryOptions = {}): Promise<T> {
+  const {
+    retries = DEFAULT_RETRIES,
+    baseDelayMs = DEFAULT_BASE_DELAY_MS,
+    maxDelayMs = DEFAULT_MAX_DELAY_MS,
+    shouldRetry = isTransientError,
+    service = 'upstream',
+  } = options;
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fn();
+    } catch (error) {
+      if (attempt >= retries || !shouldRetry(error)) {
+        throw error;
+      }
+
+      const retryAfter = getRetryAfterMs(error);
+      // Waiting longer than the caller would is pointless; fail now instead
+      if (retryAfter !== undefined && retryAfter > maxDelayMs) {
+        throw error;
+      }
+
+      const delay = retryAfter ?? getBackoffDelay(attempt, baseDelayMs, maxDelayMs);
+      upstreamRetries.inc({ service });
+      logger.debug('Retrying upstream call', { service, attempt: attempt + 1, delayMs: delay });
+      await sleep(delay);
+    }
+  }
+}
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface CircuitBreakerOptions {
+  failureThreshold?: number; // consecutive failures that open the circuit
+  resetTimeoutMs?: number; // time open before a trial call is let through
+  isFailure?: (error: unknown) => boolean; // errors that count against the service
+  now?: () => number;
+}
+
+/**
+ * Call rejected without trying, because the service's circuit is open
+ */
+export class CircuitOpenError extends AppError {
+  constructor(name: string) {
+    super(`${name} is temporarily unavailable after repeated failures`, 503);
+  }
+}
+
+/**
+ * Circuit breaker for one upstream service
+ * Closed, calls go through. After failureThreshold consecutive failures it opens and
+ * rejects calls until resetTimeoutMs has passed; then one trial call is let through
+ * (half-open), which closes the circuit on success or opens it again on failure
+ */
+export class CircuitBreaker {
+  readonly name: string;
+  private readonly failureThreshold: number;
+  private readonly resetTimeoutMs: number;
+  private readonly isFailure: (error: unknown) => boolean;
+  private readonly now: () => number;
+  private state: CircuitState = 'closed';
+  private failures = 0;
+  private openedAt = 0;
+  private trialInFlight = false;
+
+  constructor(name: string, options: CircuitBreakerOptions = {}) {
+    this.name = name;
+    this.failureThreshold =
+      options.failureThreshold ??
+      (Number(process.env.CIRCUIT_BREAKER_FAILURES) || DEFAULT_FAILURE_THRESHOLD);
+    this.resetTimeoutMs =
+      options.resetTimeoutMs ??
+      (Number(process.env.CIRCUIT_BREAKER_RESET_SECONDS) || DEFAULT_RESET_SECONDS) * 1000;
+    this.isFailure = options.isFailure ?? (() => true);
+    this.now = options.now ?? Date.now;
+  }
+
+  /**
+   * Current state; an open circuit reads as half-open once its reset timeout has passed
+   */
+  getState(): CircuitState {
+    if (this.state === 'open' && this.now() - this.openedAt >= this.resetTimeoutMs) {
+      return 'half-open';
+    }
+    return this.state;
+  }
+
+  /**
+   * Whether a call made now would be attempted
+   */
+  isAvailable(): boolean {
+    const state = this.getState();
+    return state === 'closed' || (state === 'half-open' && !this.trialInFlight);
+  }
+
+  async execute<T>(fn: () => Promise<T>): Promise<T> {
+    const state = this.getState();
+    if (state === 'open' || (state === 'half-open' && this.trialInFlight)) {
+      throw new CircuitOpenError(this.name);
+    }
+    const isTrial = state === 'half-open';
+    if (isTrial) {
+      this.transition('half-open');
+      this.trialInFlight = true;
+    }
+
+    try {
+      const result = await fn();
+      this.recordSuccess();
+      return result;
+    } catch (error) {
+      if (this.isFailure(error)) {
+        this.recordFailure();
+      } else {
+        this.recordSuccess();
+      }
+      throw error;
+    } finally {
+      if (isTrial) {
+        this.trialInFlight = false;
+      }
+    }
+  }
+
+  private recordSuccess(): void {
+    this.failures = 0;
+    if (this.state !== 'closed') {
+      this.transition('closed');
+    }
+  }
+
+  private recordFailure(): void {
+    this.failures++;
+    if (this.state === 'half-open' || this.failures >= this.failureThreshold) {
+      this.openedAt = this.now();
+      this.transition('open');
+    }
+  }
+
+  private transition(state: CircuitState): void {
+    if (state === this.state) {
+      return;
+    }
+    this.state = state;
+    circuitBreakerTransitions.inc({ breaker: this.name, state });
+
+    if (state === 'open') {
+      logger.warn('Circuit breaker opened', {
+        breaker: this.name,
+        failures: this.failures,
+        resetTimeoutMs: this.resetTimeoutMs,
+      });
+    } else {
+      logger.info(`Circuit breaker ${state}`, { breaker: this.name });
+    }
+  }
+}
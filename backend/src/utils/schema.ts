@@ -0,0 +1,409 @@
+/**
+ * Request schemas
+ * One definition validates a value, gives handlers its TypeScript type (Infer) and
+ * describes it as JSON Schema for the OpenAPI document. Validation collects every
+ * failing field instead of stopping at the first
+ */
+
+export interface FieldError {
+  field: string; // dotted path such as "body.metrics.wpm"
+  message: string;
+}
+
+export type JsonSchema = Record<string, unknown>;
+
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+// Name used in default messages: the last segment of the path, such as "wpm"
+const fieldName = (path: string): string => `"${path.slice(path.lastIndexOf('.') + 1)}"`;
+
+export abstract class Schema<T> {
+  declare readonly _type: T;
+  protected description?: string;
+  protected errorMessage?: string;
+
+  /**
+   * Validate value, adding a FieldError for each problem; the returned value is only
+   * meaningful when none were added
+   */
+  validate(value: unknown, path: string, errors: FieldError[]): T {
+    const before = errors.length;
+    const result = this.check(value, path, errors);
+
+    // A custom message replaces whatever this value and its children reported
+    if (this.errorMessage && errors.length > before) {
+      errors.splice(before, errors.length - before, { field: path, message: this.errorMessage });
+    }
+    return result;
+  }
+
+  toJSONSchema(): JsonSchema {
+    const schema = this.describeType();
+    return this.description ? { ...schema, description: this.description } : schema;
+  }
+
+  /**
+   * Documentation shown in the OpenAPI document
+   */
+  describe(description: string): this {
+    this.description = description;
+    return this;
+  }
+
+  /**
+   * Report any failure of this value as one error with this message
+   */
+  message(message: string): this {
+    this.errorMessage = message;
+    return this;
+  }
+
+  optional(): OptionalSchema<T> {
+    return new OptionalSchema(this);
+  }
+
+  nullable(): NullableSchema<T> {
+    return new NullableSchema(this);
+  }
+
+  protected abstract check(value: unknown, path: string, errors: FieldError[]): T;
+
+  protected abstract describeType(): JsonSchema;
+}
+
+export class OptionalSchema<T> extends Schema<T | undefined> {
+  constructor(readonly inner: Schema<T>) {
+    super();
+  }
+
+  /**
+   * Value used when the field is missing
+   */
+  default(value: T): DefaultSchema<T> {
+    return new DefaultSchema(this.inner, value);
+  }
+
+  protected check(value: unknown, path: string, errors: FieldError[]): T | undefined {
+    return value === undefined ? undefined : this.inner.validate(value, path, errors);
+  }
+
+  protected describeType(): JsonSchema {
+    return this.inner.toJSONSchema();
+  }
+}
+
+export class DefaultSchema<T> extends Schema<T> {
+  constructor(
+    readonly inner: Schema<T>,
+    private readonly fallback: T
+  ) {
+    super();
+  }
+
+  protected check(value: unknown, path: string, errors: FieldError[]): T {
+    return value === undefined ? this.fallback : this.inner.validate(value, path, errors);
+  }
+
+  protected describeType(): JsonSchema {
+    return { ...this.inner.toJSONSchema(), default: this.fallback };
+  }
+}
+
+export class NullableSchema<T> extends Schema<T | null> {
+  constructor(private readonly inner: Schema<T>) {
+    super();
+  }
+
+  protected check(value: unknown, path: string, errors: FieldError[]): T | null {
+    return value === null ? null : this.inner.validate(value, path, errors);
+  }
+
+  protected describeType(): JsonSchema {
+    return { ...this.inner.toJSONSchema(), nullable: true };
+  }
+}
+
+interface StringOptions {
+  min?: number;
+  max?: number;
+  pattern?: RegExp;
+  format?: string; // what the pattern allows, for the error message
+}
+
+export class StringSchema extends Schema<string> {
+  constructor(private readonly options: StringOptions = {}) {
+    super();
+  }
+
+  protected check(value: unknown, path: string, errors: FieldError[]): string {
+    const { min, max, pattern, format } = this.options;
+    const name = fieldName(path);
+
+    if (typeof value !== 'string' || (min === 1 && !value.trim())) {
+      errors.push({ field: path, message: `${name} is required` });
+    } else if (min !== undefined && value.trim().length < min) {
+      errors.push({ field: path, message: `${name} must be at least ${min} characters` });
+    } else if (max !== undefined && value.length > max) {
+      errors.push({ field: path, message: `${name} must be ${max} characters or less` });
+    } else if (pattern && !pattern.test(value)) {
+      errors.push({
+        field: path,
+        message: `${name} must contain only ${format ?? pattern.source}`,
+      });
+    }
+    return value as string;
+  }
+
+  protected describeType(): JsonSchema {
+    const { min, max, pattern } = this.options;
+    return {
+      type: 'string',
+      ...(min !== undefined && { minLength: min }),
+      ...(max !== undefined && { maxLength: max }),
+      ...(pattern && { pattern: pattern.source }),
+    };
+  }
+}
+
+interface NumberOptions {
+  min?: number;
+  max?: number;
+  integer?: boolean;
+  coerce?: boolean; // accept numeric strings, as query parameters arrive
+}
+
+export class NumberSchema extends Schema<number> {
+  constructor(private readonly options: NumberOptions = {}) {
+    super();
+  }
+
+  protected check(value: unknown, path: string, errors: FieldError[]): number {
+    const { min, max, integer, coerce } = this.options;
+    const number = coerce && typeof value === 'string' && value.trim() ? Number(value) : value;
+    const name = fieldName(path);
+
+    if (typeof number !== 'number' || !Number.isFinite(number)) {
+      errors.push({ field: path, message: `${name} must be a number` });
+    } else if (integer && !Number.isInteger(number)) {
+      errors.push({ field: path, message: `${name} must be a whole number` });
+    } else if (min !== undefined && number < min) {
+      errors.push({ field: path, message: `${name} must be at least ${min}` });
+    } else if (max !== undefined && number > max) {
+      errors.push({ field: path, message: `${name} must be at most ${max}` });
+    }
+    return number as number;
+  }
+
+  protected describeType(): JsonSchema {
+    const { min, max, integer } = this.options;
+    return {
+      type: integer ? 'integer' : 'number',
+      ...(min !== undefined && { minimum: min }),
+      ...(max !== undefined && { maximum: max }),
+    };
+  }
+}
+
+export class BooleanSchema extends Schema<boolean> {
+  protected check(value: unknown, path: string, errors: FieldError[]): boolean {
+    if (typeof value !== 'boolean') {
+      errors.push({ field: path, message: `${fieldName(path)} must be true or false` });
+    }
+    return value as boolean;
+  }
+
+  protected describeType(): JsonSchema {
+    return { type: 'boolean' };
+  }
+}
+
+export class EnumSchema<T extends string> extends Schema<T> {
+  constructor(private readonly values: readonly T[]) {
+    super();
+  }
+
+  protected check(value: unknown, path: string, errors: FieldError[]): T {
+    if (!this.values.includes(value as T)) {
+      errors.push({
+        field: path,
+        message: `${fieldName(path)} must be one of ${this.values.join(', ')}`,
+      });
+    }
+    return value as T;
+  }
+
+  protected describeType(): JsonSchema {
+    return { type: 'string', enum: [...this.values] };
+  }
+}
+
+/**
+ * ISO date string or epoch milliseconds, parsed into a Date
+ */
+export class DateSchema extends Schema<Date> {
+  protected check(value: unknown, path: string, errors: FieldError[]): Date {
+    const date =
+      typeof value === 'string' || typeof value === 'number' ? new Date(value) : undefined;
+    if (!date || Number.isNaN(date.getTime())) {
+      errors.push({ field: path, message: `${fieldName(path)} must be a valid date` });
+    }
+    return date as Date;
+  }
+
+  protected describeType(): JsonSchema {
+    return { type: 'string', format: 'date-time' };
+  }
+}
+
+export class ArraySchema<T> extends Schema<T[]> {
+  constructor(
+    private readonly items: Schema<T>,
+    private readonly maxItems?: number
+  ) {
+    super();
+  }
+
+  protected check(value: unknown, path: string, errors: FieldError[]): T[] {
+    if (!Array.isArray(value)) {
+      errors.push({ field: path, message: `${fieldName(path)} must be an array` });
+      return [];
+    }
+    if (this.maxItems !== undefined && value.length > this.maxItems) {
+      errors.push({
+        field: path,
+        message: `${fieldName(path)} must have at most ${this.maxItems} items`,
+      });
+    }
+    return value.map((item, index) => this.items.validate(item, `${path}[${index}]`, errors));
+  }
+
+  protected describeType(): JsonSchema {
+    return {
+      type: 'array',
+      items: this.items.toJSONSchema(),
+      ...(this.maxItems !== undefined && { maxItems: this.maxItems }),
+    };
+  }
+}
+
+/**
+ * First of several schemas the value matches
+ */
+export class UnionSchema<T> extends Schema<T> {
+  constructor(private readonly options: Schema<T>[]) {
+    super();
+  }
+
+  protected check(value: unknown, path: string, errors: FieldError[]): T {
+    for (const option of this.options) {
+      const optionErrors: FieldError[] = [];
+      const result = option.validate(value, path, optionErrors);
+      if (optionErrors.length === 0) {
+        return result;
+      }
+    }
+    errors.push({ field: path, message: `${fieldName(path)} has an invalid value` });
+    return value as T;
+  }
+
+  protected describeType(): JsonSchema {
+    return { oneOf: this.options.map((option) => option.toJSONSchema()) };
+  }
+}
+
+type Shape = Record<string, Schema<any>>;
+
+type OptionalKeys<S extends Shape> = {
+  [K in keyof S]: undefined extends Infer<S[K]> ? K : never;
+}[keyof S];
+
+export type InferShape<S extends Shape> = {
+  [K in Exclude<keyof S, OptionalKeys<S>>]: Infer<S[K]>;
+} & {
+  [K in OptionalKeys<S>]?: Infer<S[K]>;
+};
+
+/**
+ * Rule spanning several fields; returns the failing field and message, or undefined
+ */
+type Refinement<T> = (value: T) => { field: string; message: string } | undefined;
+
+/**
+ * Object with known fields; other fields are kept as they are, so clients can send
+ * properties the server stores without interpreting
+ */
+export class ObjectSchema<S extends Shape> extends Schema<InferShape<S>> {
+  private refinements: Refinement<InferShape<S>>[] = [];
+
+  constructor(readonly shape: S) {
+    super();
+  }
+
+  /**
+   * Add a rule checked once every field is valid on its own
+   */
+  refine(refinement: Refinement<InferShape<S>>): this {
+    this.refinements.push(refinement);
+    return this;
+  }
+
+  protected check(value: unknown, path: string, errors: FieldError[]): InferShape<S> {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      errors.push({ field: path, message: `${fieldName(path)} must be an object` });
+      return value as InferShape<S>;
+    }
+
+    const before = errors.length;
+    const result: Record<string, unknown> = { ...value };
+    for (const [key, schema] of Object.entries(this.shape)) {
+      const field = schema.validate(
+        (value as Record<string, unknown>)[key],
+        `${path}.${key}`,
+        errors
+      );
+      if (field === undefined) {
+        delete result[key];
+      } else {
+        result[key] = field;
+      }
+    }
+
+    if (errors.length === before) {
+      for (const refinement of this.refinements) {
+        const failure = refinement(result as InferShape<S>);
+        if (failure) {
+          errors.push({ field: `${path}.${failure.field}`, message: failure.message });
+        }
+      }
+    }
+    return result as InferShape<S>;
+  }
+
+  protected describeType(): JsonSchema {
+    const required = Object.entries(this.shape)
+      .filter(
+        ([, schema]) => !(schema instanceof OptionalSchema || schema instanceof DefaultSchema)
+      )
+      .map(([key]) => key);
+
+    return {
+      type: 'object',
+      properties: Object.fromEntries(
+        Object.entries(this.shape).map(([key, schema]) => [key, schema.toJSONSchema()])
+      ),
+      ...(required.length > 0 && { required }),
+    };
+  }
+}
+
+export const s = {
+  string: (options?: StringOptions) => new StringSchema(options),
+  number: (options?: NumberOptions) => new NumberSchema(options),
+  boolean: () => new BooleanSchema(),
+  enum: <T extends string>(values: readonly T[]) => new EnumSchema(values),
+  date: () => new DateSchema(),
+  array: <T>(items: Schema<T>, maxItems?: number) => new ArraySchema(items, maxItems),
+  union: <T extends Schema<any>[]>(...options: T) =>
+    new UnionSchema<Infer<T[number]>>(options as Schema<Infer<T[number]>>[]),
+  object: <S extends Shape>(shape: S) => new ObjectSchema(shape),
+};
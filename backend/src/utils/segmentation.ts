@@ -0,0 +1,169 @@
+// Sentence-bounded segmentation of long texts into passages for multi-passage lessons
+
+import type { LanguageCode, Passage } from '../types';
+
+export interface SegmentationOptions {
+  targetWords?: number;
+  language?: LanguageCode;
+  idPrefix?: string;
+}
+
+export const DEFAULT_PASSAGE_WORDS = 80;
+
+// Abbreviations whose trailing period doesn't end a sentence, lowercase and without that period
+const ABBREVIATIONS: Partial<Record<LanguageCode, string[]>> = {
+  en: [
+    'mr',
+    'mrs',
+    'ms',
+    'dr',
+    'prof',
+    'sr',
+    'jr',
+    'st',
+    'mt',
+    'vs',
+    'etc',
+    'e.g',
+    'i.e',
+    'approx',
+    'no',
+    'fig',
+    'vol',
+    'inc',
+    'ltd',
+    'co',
+    'u.s',
+    'u.k',
+  ],
+  pt: [
+    'sr',
+    'sra',
+    'srta',
+    'dr',
+    'dra',
+    'prof',
+    'profa',
+    'etc',
+    'ex',
+    'p.ex',
+    'aprox',
+    'av',
+    'cap',
+    'fig',
+    'vol',
+    'pág',
+    'págs',
+    'séc',
+    'nº',
+    'n.º',
+    'obs',
+    'ltda',
+    'cia',
+  ],
+};
+
+// Terminal punctuation, optionally followed by closing quotes or brackets, then whitespace
+const BOUNDARY = /[.!?…]+["'”’»)\]]*\s+/g;
+
+const countWords = (text: string): number => text.split(/\s+/).filter(Boolean).length;
+
+/**
+ * Whether the punctuation matched at a candidate boundary really ends a sentence
+ * Periods after known abbreviations and single-letter initials don't, and neither
+ * does punctuation followed by a lowercase word
+ */
+function endsSentence(
+  text: string,
+  boundary: RegExpMatchArray,
+  abbreviations: Set<string>
+): boolean {
+  const start = boundary.index ?? 0;
+  const next = text.charAt(start + boundary[0].length);
+
+  if (next && next !== next.toUpperCase()) {
+    return false;
+  }
+
+  if (!boundary[0].startsWith('.') || boundary[0].trim() !== '.') {
+    return true;
+  }
+
+  const word = (/[^\s("'“‘«[]+$/.exec(text.slice(0, start))?.[0] ?? '').toLowerCase();
+  return !abbreviations.has(word) && !/^\p{L}$/u.test(word);
+}
+
+/**
+ * Split text into sentences, keeping abbreviations and initials of the language intact
+ * Paragraph breaks always end a sentence
+ */
+export function segmentSentences(text: string, language: LanguageCode = 'en'): string[] {
+  const abbreviations = new Set(ABBREVIATIONS[language] ?? []);
+  const sentences: string[] = [];
+
+  for (const paragraph of text.split(/\n\s*\n/)) {
+    let start = 0;
+
+    for (const boundary of paragraph.matchAll(BOUNDARY)) {
+      if (!endsSentence(paragraph, boundary, abbreviations)) continue;
+
+      const end = (boundary.index ?? 0) + boundary[0].length;
+      sentences.push(paragraph.slice(start, end).trim());
+      start = end;
+    }
+
+    const rest = paragraph.slice(start).trim();
+    if (rest) {
+      sentences.push(rest);
+    }
+  }
+
+  return sentences.filter(Boolean);
+}
+
+/**
+ * Split a text into ordered passages of about targetWords words, never breaking a sentence
+ * A passage closes when adding the next sentence would overshoot the target by more than
+ * stopping short of it; a short remainder is folded into the last passage
+ */
+export function segmentText(text: string, options: SegmentationOptions = {}): Passage[] {
+  const { targetWords = DEFAULT_PASSAGE_WORDS, language = 'en', idPrefix = 'passage' } = options;
+  const groups: string[][] = [];
+  let current: string[] = [];
+  let currentWords = 0;
+
+  for (const sentence of segmentSentences(text, language)) {
+    const words = countWords(sentence);
+
+    if (
+      current.length > 0 &&
+      currentWords + words > targetWords &&
+      targetWords - currentWords <= currentWords + words - targetWords
+    ) {
+      groups.push(current);
+      current = [];
+      currentWords = 0;
+    }
+
+    current.push(sentence);
+    currentWords += words;
+  }
+
+  if (current.length > 0) {
+    if (groups.length > 0 && currentWords < targetWords / 2) {
+      groups[groups.length - 1].push(...current);
+    } else {
+      groups.push(current);
+    }
+  }
+
+  return groups.map((sentences, index) => {
+    const passageText = sentences.join(' ');
+    return {
+      id: `${idPrefix}_${index + 1}`,
+      index,
+      text: passageText,
+      wordCount: countWords(passageText),
+    };
+  });
+}
@@ -0,0 +1,35 @@
+// Text helpers shared by content sources, post-processing and prompt checks
+
+// Words shorter than this carry too little meaning to match themes on
+const MIN_TERM_LENGTH = 3;
+
+/**
+ * Lowercase terms of a text, with accents removed so "ciência" matches "ciencia"
+ */
+export function tokenize(text: string): string[] {
+  return (
+    text
+      .normalize('NFD')
+      .replace(/\p{M}/gu, '')
+      .toLowerCase()
+      .match(/[\p{L}\p{N}]+/gu)
+      ?.filter((term) => term.length >= MIN_TERM_LENGTH) || []
+  );
+}
+
+/**
+ * Plain typing text from Markdown: code blocks, headings, images and markup are dropped,
+ * links keep their label
+ */
+export function stripMarkdown(markdown: string): string {
+  return markdown
+    .replace(/```[\s\S]*?```/g, '')
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, '')
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+    .replace(/^\s{0,3}#{1,6}\s.*$/gm, '')
+    .replace(/^[ \t]{0,3}(>|[-*+]|\d+\.)\s+/gm, '')
+    .replace(/[*_`~]/g, '')
+    .replace(/[ \t]+/g, ' ')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
@@ -1,11 +1,17 @@
 // Backend validation utilities for content and requests
 
+import { isSupportedLanguage, SUPPORTED_LANGUAGES } from '../config/languages';
+import { DEFAULT_MODERATION_CONFIG } from '../config/moderation';
 import type { ContentRequest, StudyContent } from '../types';
+import { isDifficultyTarget } from './difficulty';
+
+// Letters and marks of any script, digits, spaces, and common punctuation
+export const THEME_PATTERN = /^[\p{L}\p{M}\p{N}\s\-.,!?()]+$/u;
 
 /**
  * Validates theme input according to requirements (1.4)
  * - Maximum 100 characters
- * - Accepts Portuguese and English characters
+ * - Accepts letters from any script, so themes can be written in every content language
  * - No special characters that could cause issues
  */
 export function validateTheme(theme: string): { valid: boolean; error?: string } {
@@ -17,9 +23,7 @@ export function validateTheme(theme: string): { valid: boolean; error?: string }
     return { valid: false, error: 'Theme must be 100 characters or less' };
   }
 
-  // Allow alphanumeric, spaces, and common punctuation in PT/EN
-  const validPattern = /^[a-zA-ZÀ-ÿ0-9\s\-.,!?()]+$/;
-  if (!validPattern.test(theme)) {
+  if (!THEME_PATTERN.test(theme)) {
     return { valid: false, error: 'Theme contains invalid characters' };
   }
 
@@ -52,12 +56,15 @@ export function validateContentRequest(request: ContentRequest): {
     return { valid: false, error: 'Content length must be between 100 and 500 words' };
   }
 
-  if (!['pt', 'en'].includes(request.language)) {
-    return { valid: false, error: 'Language must be "pt" or "en"' };
+  if (!isSupportedLanguage(request.language)) {
+    return { valid: false, error: `Language must be one of ${SUPPORTED_LANGUAGES.join(', ')}` };
   }
 
-  if (request.difficulty && !['easy', 'medium', 'hard'].includes(request.difficulty)) {
-    return { valid: false, error: 'Difficulty must be "easy", "medium", or "hard"' };
+  if (request.difficulty !== undefined && !isDifficultyTarget(request.difficulty)) {
+    return {
+      valid: false,
+      error: 'Difficulty must be "easy", "medium", "hard", or a score from 0 to 100',
+    };
   }
 
   return { valid: true };
@@ -86,10 +93,23 @@ export function sanitizeContent(content: string): string {
     .replace(/[ \t]+/g, ' '); // Normalize spaces
 }
 
+/**
+ * Word count range generated content must fall in; 100-500 words by default (2.2)
+ */
+export interface WordBounds {
+  minWords?: number;
+  maxWords?: number;
+}
+
 /**
  * Validates generated content meets requirements (2.1, 2.2)
  */
-export function validateGeneratedContent(content: StudyContent): {
+export function validateGeneratedContent(
+  content: Pick<StudyContent, 'text' | 'wordCount' | 'source'> & {
+    metadata: { language: string };
+  },
+  { minWords = 100, maxWords = 500 }: WordBounds = {}
+): {
   valid: boolean;
   error?: string;
 } {
@@ -97,19 +117,24 @@ export function validateGeneratedContent(content: StudyContent): {
     return { valid: false, error: 'Content text cannot be empty' };
   }
 
-  // Validate word count is within acceptable range (100-500 words per requirement 2.2)
-  if (content.wordCount < 100 || content.wordCount > 500) {
-    return { valid: false, error: 'Content must be between 100 and 500 words' };
+  // Validate word count is within acceptable range
+  if (content.wordCount < minWords || content.wordCount > maxWords) {
+    return { valid: false, error: `Content must be between ${minWords} and ${maxWords} words` };
   }
 
   // Validate source
-  if (!['ai', 'wikipedia', 'combined'].includes(content.source)) {
+  if (
+    !['ai', 'wikipedia', 'combined', 'offline', 'corpus', 'custom', 'code'].includes(content.source)
+  ) {
     return { valid: false, error: 'Invalid content source' };
   }
 
   // Validate language
-  if (!['pt', 'en'].includes(content.metadata.language)) {
-    return { valid: false, error: 'Content language must be "pt" or "en"' };
+  if (!isSupportedLanguage(content.metadata.language)) {
+    return {
+      valid: false,
+      error: `Content language must be one of ${SUPPORTED_LANGUAGES.join(', ')}`,
+    };
   }
 
   // Check for inappropriate content patterns (basic filtering)
@@ -169,17 +194,37 @@ export function processAIContent(rawContent: string): {
 }
 
 /**
- * Checks if content is appropriate and factual (basic checks)
- * More sophisticated checks would require additional AI/ML services
+ * Lowercase text without accents, so blocklist terms match however they are written
+ */
+const foldForMatching = (text: string): string =>
+  text.normalize('NFD').replace(/\p{M}/gu, '').toLowerCase();
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Blocklist terms found in content, matched as whole words ignoring case and accents
+ */
+export function findBlockedTerms(content: string, blocklist: string[]): string[] {
+  const folded = foldForMatching(content);
+
+  return blocklist.filter((term) =>
+    new RegExp(
+      `(?<![\\p{L}\\p{N}])${escapeRegExp(foldForMatching(term))}(?![\\p{L}\\p{N}])`,
+      'u'
+    ).test(folded)
+  );
+}
+
+/**
+ * Checks if content is appropriate (basic checks)
+ * Without a blocklist, the built-in blocklists of every language apply; the moderation
+ * service adds regex rules and age ratings on top of this
  */
-export function isContentAppropriate(content: string): boolean {
-  // Basic profanity and inappropriate content filter
-  const inappropriateWords: string[] = [
-    // Add basic filter words here - keeping minimal for demonstration
-  ];
-
-  const lowerContent = content.toLowerCase();
-  return !inappropriateWords.some((word) => lowerContent.includes(word));
+export function isContentAppropriate(
+  content: string,
+  blocklist: string[] = Object.values(DEFAULT_MODERATION_CONFIG.blocklists).flat()
+): boolean {
+  return findBlockedTerms(content, blocklist).length === 0;
 }
 
 /**
@@ -7,12 +7,16 @@ import {
   SectionErrorBoundary,
   ThemeSelector,
 } from './components';
+import { PracticeView } from './components/PracticeView';
 import { ResponsiveCard } from './components/ResponsiveContainer';
 import { ResponsiveNav } from './components/ResponsiveNav';
 import { useIsMobile } from './hooks/useMediaQuery';
 import { initializeStores, usePersistence } from './stores/persistence';
 
 // Lazy load heavy components for better initial load performance
+const AccountPanel = lazy(() =>
+  import('./components/AccountPanel').then((m) => ({ default: m.AccountPanel }))
+);
 const ContentManager = lazy(() =>
   import('./components/ContentManager').then((m) => ({ default: m.ContentManager }))
 );
@@ -52,13 +56,15 @@ function App() {
   const handleStartTyping = () => {
     setShowTypingInterface(true);
     console.log('Starting typing session');
-    // TODO: Integrate with TypingInterface component
   };
 
   const handleNavigate = (section: string) => {
     setCurrentSection(section);
   };
 
+  // Cards go untitled on mobile, where the navigation already names the section
+  const cardTitle = (title: string) => (isMobile ? undefined : title);
+
   return (
     <ErrorBoundary>
       <div className="min-h-screen bg-gray-50 dark:bg-gray-900 flex flex-col md:flex-row">
@@ -83,7 +89,7 @@ function App() {
           <div className={`${isMobile ? 'px-4 py-4' : 'p-6'} space-y-4 md:space-y-6`}>
             {/* Theme Selection Section */}
             {currentSection === 'theme' && (
-              <ResponsiveCard title={isMobile ? undefined : 'Choose Your Theme'}>
+              <ResponsiveCard title={cardTitle('Choose Your Theme')}>
                 <SectionErrorBoundary section="Theme Selection">
                   <ThemeSelector onThemeSelect={handleThemeSelect} />
                 </SectionErrorBoundary>
@@ -92,7 +98,7 @@ function App() {
 
             {/* Keyboard Layout Section */}
             {currentSection === 'keyboard' && (
-              <ResponsiveCard title={isMobile ? undefined : 'Keyboard Layout'}>
+              <ResponsiveCard title={cardTitle('Keyboard Layout')}>
                 <SectionErrorBoundary section="Keyboard Layout">
                   <Suspense fallback={<ComponentLoader />}>
                     <KeyboardLayoutSelector showPreview={!isMobile} />
@@ -105,7 +111,7 @@ function App() {
             {currentSection === 'practice' && (
               <>
                 {selectedTheme && !showTypingInterface && (
-                  <ResponsiveCard title={isMobile ? undefined : 'Practice Content'}>
+                  <ResponsiveCard title={cardTitle('Practice Content')}>
                     <SectionErrorBoundary section="Content">
                       <Suspense fallback={<ComponentLoader />}>
                         <ContentManager
@@ -135,28 +141,18 @@ function App() {
                   </ResponsiveCard>
                 )}
 
-                {showTypingInterface && (
-                  <ResponsiveCard>
-                    <div className="bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-700 rounded-lg p-4">
-                      <p className="text-blue-800 dark:text-blue-300">
-                        <strong>Typing Interface:</strong> Integration with TypingInterface
-                        component will be completed in future tasks
-                      </p>
-                      <button
-                        onClick={() => setShowTypingInterface(false)}
-                        className="mt-3 bg-blue-600 hover:bg-blue-700 text-white font-medium py-2 px-4 rounded-lg transition-colors"
-                      >
-                        Back to Content
-                      </button>
-                    </div>
-                  </ResponsiveCard>
+                {showTypingInterface && selectedTheme && (
+                  <PracticeView
+                    theme={selectedTheme}
+                    onExit={() => setShowTypingInterface(false)}
+                  />
                 )}
               </>
             )}
 
             {/* Metrics Section */}
             {currentSection === 'metrics' && (
-              <ResponsiveCard title={isMobile ? undefined : 'Your Progress'}>
+              <ResponsiveCard title={cardTitle('Your Progress')}>
                 <SectionErrorBoundary section="Metrics">
                   <Suspense fallback={<ComponentLoader />}>
                     <MetricsDashboard />
@@ -164,6 +160,17 @@ function App() {
                 </SectionErrorBoundary>
               </ResponsiveCard>
             )}
+
+            {/* Account Section */}
+            {currentSection === 'account' && (
+              <ResponsiveCard title={cardTitle('Account')}>
+                <SectionErrorBoundary section="Account">
+                  <Suspense fallback={<ComponentLoader />}>
+                    <AccountPanel />
+                  </Suspense>
+                </SectionErrorBoundary>
+              </ResponsiveCard>
+            )}
           </div>
 
           {/* Help Button */}
@@ -0,0 +1,138 @@
+import { useEffect, useState } from 'react';
+import { type AuthUser, apiService } from '../services/api.service';
+import { syncEngine } from '../services/sync.service';
+
+type AuthAction = 'login' | 'register';
+
+/**
+ * Sign in or create an account, so history and preferences sync across devices
+ * Guests keep their data in this browser only
+ */
+export const AccountPanel: React.FC = () => {
+  const [user, setUser] = useState<AuthUser | null>(null);
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [pending, setPending] = useState<AuthAction | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // A stored token may have expired; it is dropped rather than kept failing every sync
+  useEffect(() => {
+    if (!apiService.isAuthenticated()) return;
+
+    apiService
+      .getCurrentUser()
+      .then(setUser)
+      .catch(() => apiService.logout());
+  }, []);
+
+  const authenticate = async (action: AuthAction) => {
+    setPending(action);
+    setError(null);
+
+    try {
+      const result =
+        action === 'login'
+          ? await apiService.login(username, password)
+          : await apiService.register(username, password);
+      setUser(result.user);
+      setPassword('');
+      // The first sync for an account uploads the local history and pulls the remote one
+      void syncEngine.sync();
+    } catch (authError) {
+      setError(authError instanceof Error ? authError.message : 'Failed to sign in');
+    } finally {
+      setPending(null);
+    }
+  };
+
+  const handleLogout = () => {
+    apiService.logout();
+    setUser(null);
+  };
+
+  if (user) {
+    return (
+      <div className="space-y-4">
+        <p className="text-gray-700 dark:text-gray-300">
+          Signed in as <strong>{user.username}</strong>. Your history and preferences sync across
+          your devices.
+        </p>
+        <div className="flex gap-3">
+          <button
+            onClick={() => void syncEngine.sync()}
+            className="bg-blue-600 hover:bg-blue-700 text-white font-medium py-2 px-4 rounded-lg transition-colors"
+          >
+            Sync Now
+          </button>
+          <button
+            onClick={handleLogout}
+            className="bg-gray-100 hover:bg-gray-200 text-gray-700 font-medium py-2 px-4 rounded-lg transition-colors"
+          >
+            Sign Out
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <form
+      className="space-y-4"
+      onSubmit={(e) => {
+        e.preventDefault();
+        void authenticate('login');
+      }}
+    >
+      <p className="text-gray-600 dark:text-gray-400">
+        Sign in to sync your history and preferences across devices. Without an account, they stay
+        in this browser.
+      </p>
+
+      <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+        Username
+        <input
+          type="text"
+          value={username}
+          onChange={(e) => setUsername(e.target.value)}
+          autoComplete="username"
+          className="mt-1 w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+        />
+      </label>
+
+      <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+        Password
+        <input
+          type="password"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          autoComplete="current-password"
+          className="mt-1 w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+        />
+      </label>
+
+      {error && (
+        <p role="alert" className="text-sm text-red-600">
+          {error}
+        </p>
+      )}
+
+      <div className="flex gap-3">
+        <button
+          type="submit"
+          disabled={pending !== null || !username || !password}
+          className="flex-1 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-300 disabled:cursor-not-allowed text-white font-medium py-2 px-4 rounded-lg transition-colors"
+        >
+          {pending === 'login' ? 'Signing In...' : 'Sign In'}
+        </button>
+        <button
+          type="button"
+          onClick={() => void authenticate('register')}
+          disabled={pending !== null || !username || !password}
+          className="flex-1 bg-gray-100 hover:bg-gray-200 disabled:opacity-50 disabled:cursor-not-allowed text-gray-700 font-medium py-2 px-4 rounded-lg transition-colors"
+        >
+          {pending === 'register' ? 'Creating Account...' : 'Create Account'}
+        </button>
+      </div>
+    </form>
+  );
+};
@@ -0,0 +1,116 @@
+import { useMemo, useState } from 'react';
+import { CODE_LANGUAGES } from '../config/codeLanguages';
+import { usePreferencesStore } from '../stores/usePreferencesStore';
+import { useTypingSessionStore } from '../stores/useTypingSessionStore';
+import type { SessionMetrics, StudyContent } from '../types';
+import { formatTextForTyping } from '../utils/contentProcessor';
+import { calculateRealTimeMetrics, formatTime } from '../utils/metricsCalculator';
+import { TypingInterface } from './TypingInterface';
+
+interface CodePracticeProps {
+  content: StudyContent;
+  onExit?: () => void;
+}
+
+/**
+ * Type a code snippet with its indentation and line breaks intact
+ */
+export const CodePractice: React.FC<CodePracticeProps> = ({ content, onExit }) => {
+  const code = useMemo(() => formatTextForTyping(content.text, 'code'), [content.text]);
+  const codeLanguage = content.metadata.codeLanguage;
+  const { keyboardLayout } = usePreferencesStore();
+  const { startSession, endSession } = useTypingSessionStore();
+  const [isTyping, setIsTyping] = useState(false);
+  const [autoIndent, setAutoIndent] = useState(true);
+  const [result, setResult] = useState<SessionMetrics | null>(null);
+  const [attempt, setAttempt] = useState(0);
+
+  const start = () => {
+    startSession({ ...content, text: code }, content.theme, keyboardLayout);
+    setResult(null);
+    setAttempt((previous) => previous + 1);
+    setIsTyping(true);
+  };
+
+  const handleComplete = () => {
+    const session = useTypingSessionStore.getState().currentSession;
+    if (!session) return;
+
+    const metrics = calculateRealTimeMetrics(
+      session.userProgress.typedText,
+      code,
+      session.userProgress.errors,
+      session.startTime
+    );
+
+    endSession();
+    setResult(metrics);
+    setIsTyping(false);
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6 space-y-4">
+      <div className="flex items-center justify-between">
+        <h2 className="text-2xl font-bold text-gray-900">
+          {content.metadata.snippetTitle ?? content.theme}
+        </h2>
+        {codeLanguage && (
+          <span className="px-2 py-1 text-xs bg-slate-100 rounded border border-slate-200">
+            {CODE_LANGUAGES[codeLanguage].name}
+          </span>
+        )}
+      </div>
+
+      {isTyping ? (
+        <TypingInterface
+          key={attempt}
+          content={code}
+          mode="code"
+          codeLanguage={codeLanguage}
+          autoIndent={autoIndent}
+          onSessionComplete={handleComplete}
+        />
+      ) : (
+        <div className="space-y-3">
+          <pre className="bg-gray-50 rounded-lg p-4 border border-gray-200 text-gray-800 font-mono text-sm overflow-auto">
+            {code}
+          </pre>
+
+          {result && (
+            <p className="text-sm text-green-700">
+              Snippet complete: {result.wpm} WPM, {result.accuracy}% accuracy, {result.errorCount}{' '}
+              errors in {formatTime(result.timeElapsed)}
+            </p>
+          )}
+
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={autoIndent}
+              onChange={(e) => setAutoIndent(e.target.checked)}
+              className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+            />
+            Skip indentation after each line break
+          </label>
+
+          <div className="flex gap-3">
+            <button
+              onClick={start}
+              className="flex-1 bg-blue-600 hover:bg-blue-700 text-white font-medium py-2 px-4 rounded-lg transition-colors"
+            >
+              {result ? 'Type It Again' : 'Start Typing'}
+            </button>
+            {onExit && (
+              <button
+                onClick={onExit}
+                className="bg-gray-100 hover:bg-gray-200 text-gray-700 font-medium py-2 px-4 rounded-lg transition-colors"
+              >
+                Back to Content
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
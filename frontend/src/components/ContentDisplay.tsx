@@ -1,4 +1,5 @@
 import { useMemo } from 'react';
+import { CODE_LANGUAGES } from '../config/codeLanguages';
 import type { StudyContent } from '../types';
 import {
   getDifficultyColor,
@@ -12,6 +13,7 @@ interface ContentDisplayProps {
   showPreview?: boolean;
   onStartTyping?: () => void;
   onRefresh?: () => void;
+  onNextSection?: () => void;
 }
 
 export const ContentDisplay: React.FC<ContentDisplayProps> = ({
@@ -19,6 +21,7 @@ export const ContentDisplay: React.FC<ContentDisplayProps> = ({
   showPreview = false,
   onStartTyping,
   onRefresh,
+  onNextSection,
 }) => {
   const processed = useMemo(() => processContent(content), [content]);
 
@@ -102,6 +105,28 @@ export const ContentDisplay: React.FC<ContentDisplayProps> = ({
               Wikipedia: {content.metadata.wikipediaArticle}
             </span>
           )}
+          {content.metadata.wikipediaSection && (
+            <span className="px-2 py-1 bg-purple-50 rounded border border-purple-200">
+              Section {content.metadata.wikipediaSection.index + 1} of{' '}
+              {content.metadata.wikipediaSection.count}: {content.metadata.wikipediaSection.title}
+            </span>
+          )}
+          {content.metadata.corpusDocument && (
+            <span className="px-2 py-1 bg-amber-50 rounded border border-amber-200">
+              Corpus: {content.metadata.corpusDocument}
+            </span>
+          )}
+          {content.metadata.codeLanguage && (
+            <span className="px-2 py-1 bg-slate-50 rounded border border-slate-200">
+              Code: {CODE_LANGUAGES[content.metadata.codeLanguage].name}
+              {content.metadata.snippetTitle && ` - ${content.metadata.snippetTitle}`}
+            </span>
+          )}
+          {content.passages && (
+            <span className="px-2 py-1 bg-green-50 rounded border border-green-200">
+              Lesson: {content.passages.length} passages
+            </span>
+          )}
           <span className="px-2 py-1 bg-gray-100 rounded border border-gray-200">
             Language: {content.metadata.language.toUpperCase()}
           </span>
@@ -142,6 +167,14 @@ export const ContentDisplay: React.FC<ContentDisplayProps> = ({
             Refresh Content
           </button>
         )}
+        {onNextSection && (
+          <button
+            onClick={onNextSection}
+            className="bg-purple-100 hover:bg-purple-200 text-purple-800 font-medium py-2 px-4 rounded-lg transition-colors"
+          >
+            Next Section
+          </button>
+        )}
       </div>
     </div>
   );
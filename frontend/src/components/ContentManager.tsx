@@ -1,10 +1,32 @@
 import { useState } from 'react';
+import { CODE_LANGUAGES } from '../config/codeLanguages';
 import { useContentFetcher } from '../hooks/useContentFetcher';
-import type { ContentGenerationRequest } from '../services/api.service';
+import { useSourceAvailability } from '../hooks/useSourceAvailability';
+import { useWikipediaSearch } from '../hooks/useWikipediaSearch';
+import type { ContentGenerationRequest, CustomTextRequest } from '../services/api.service';
+import { useContentStore } from '../stores/useContentStore';
 import { usePreferencesStore } from '../stores/usePreferencesStore';
+import type { CodeLanguage, WikipediaSearchResults } from '../types';
+import { getCompleteSentences } from '../utils/contentProcessor';
 import { ContentDisplay } from './ContentDisplay';
 import { ContentError } from './ContentError';
 import { ContentLoader } from './ContentLoader';
+import { CustomTextEditor } from './CustomTextEditor';
+import { WikipediaArticleChooser } from './WikipediaArticleChooser';
+import { WikipediaSectionPicker } from './WikipediaSectionPicker';
+
+type DifficultyOption = NonNullable<ContentGenerationRequest['difficulty']>;
+type ContentSource = 'ai' | 'wikipedia' | 'combined' | 'code';
+
+// Target words per passage when content is practiced as a lesson
+const LESSON_PASSAGE_WORDS = 80;
+
+const DIFFICULTY_OPTIONS: { value: DifficultyOption | ''; label: string }[] = [
+  { value: '', label: 'Any difficulty' },
+  { value: 'easy', label: 'Easy' },
+  { value: 'medium', label: 'Medium' },
+  { value: 'hard', label: 'Hard' },
+];
 
 interface ContentManagerProps {
   theme: string;
@@ -20,8 +42,23 @@ export const ContentManager: React.FC<ContentManagerProps> = ({
   autoFetch = true,
 }) => {
   const { language } = usePreferencesStore();
-  const { content, isLoading, error, fetch, dismissError } = useContentFetcher();
+  const { content, isLoading, error, streamingText, isStreaming, stream, dismissError } =
+    useContentFetcher();
   const [hasAttemptedFetch, setHasAttemptedFetch] = useState(false);
+  const [difficulty, setDifficulty] = useState<DifficultyOption | ''>('');
+  const { search, isSearching } = useWikipediaSearch(theme, language);
+  // Candidates awaiting a choice when the theme is ambiguous on Wikipedia
+  const [choice, setChoice] = useState<{
+    source: ContentSource;
+    candidates: WikipediaSearchResults['results'];
+  } | null>(null);
+  const [article, setArticle] = useState<string | undefined>();
+  const [asLesson, setAsLesson] = useState(false);
+  const [codeLanguage, setCodeLanguage] = useState<CodeLanguage | ''>('');
+  const [isEditingCustomText, setIsEditingCustomText] = useState(false);
+  const saveCustomContent = useContentStore((state) => state.saveCustomContent);
+  // Sources the backend cannot serve right now are greyed out
+  const { isAvailable, unavailableReason } = useSourceAvailability();
 
   // Auto-fetch content when theme changes
   useState(() => {
@@ -31,21 +68,76 @@ export const ContentManager: React.FC<ContentManagerProps> = ({
     }
   });
 
-  const handleFetchContent = async (source: 'ai' | 'wikipedia' | 'combined' = 'combined') => {
+  const handleFetchContent = async (source: ContentSource = 'combined') => {
+    // Ask which article is meant before fetching when the theme is ambiguous
+    if (source !== 'ai' && source !== 'code' && !article && isAvailable('wikipedia')) {
+      const results = await search();
+      const candidates = results?.results.filter((result) => !result.disambiguation) ?? [];
+
+      if (results?.ambiguous && candidates.length > 0) {
+        setChoice({ source, candidates });
+        return;
+      }
+    }
+
+    await fetchContent(source, article);
+  };
+
+  const fetchContent = async (source: ContentSource, chosenArticle?: string) => {
     const request: ContentGenerationRequest = {
       theme,
       length: 300,
       source,
-      language: language as 'en' | 'pt',
+      language,
+      difficulty: difficulty || undefined,
+      article: source === 'ai' || source === 'code' ? undefined : chosenArticle,
+      passageLength: asLesson && source !== 'code' ? LESSON_PASSAGE_WORDS : undefined,
+      codeLanguage: source === 'code' ? codeLanguage || undefined : undefined,
     };
 
-    await fetch(request);
+    await stream(request);
 
     if (content && onContentReady) {
       onContentReady(content.id);
     }
   };
 
+  // Work through a Wikipedia article one section at a time
+  const handleFetchSection = async (section: number, article: string) => {
+    await stream({
+      theme,
+      source: 'wikipedia',
+      language,
+      difficulty: difficulty || undefined,
+      section,
+      article,
+    });
+  };
+
+  const nextSection = content?.metadata.wikipediaSection?.next;
+  const handleNextSection =
+    content?.metadata.wikipediaArticle && nextSection !== undefined && nextSection !== null
+      ? () => handleFetchSection(nextSection, content.metadata.wikipediaArticle as string)
+      : undefined;
+
+  const handleChooseArticle = (chosen?: string) => {
+    if (!choice) return;
+
+    setChoice(null);
+    setArticle(chosen);
+    fetchContent(choice.source, chosen);
+  };
+
+  const handleSaveCustomText = async (request: CustomTextRequest) => {
+    await saveCustomContent(request);
+
+    const { currentContent: saved, error: saveError } = useContentStore.getState();
+    if (saved && !saveError) {
+      setIsEditingCustomText(false);
+      onContentReady?.(saved.id);
+    }
+  };
+
   const handleRefresh = () => {
     handleFetchContent();
   };
@@ -55,11 +147,77 @@ export const ContentManager: React.FC<ContentManagerProps> = ({
     handleFetchContent();
   };
 
+  if (choice) {
+    return (
+      <WikipediaArticleChooser
+        theme={theme}
+        candidates={choice.candidates}
+        onChoose={handleChooseArticle}
+        onSkip={() => handleChooseArticle()}
+      />
+    );
+  }
+
+  // The editor stays mounted while saving, so a failed save keeps the pasted text
+  if (isEditingCustomText) {
+    return (
+      <CustomTextEditor
+        language={language}
+        isSaving={isLoading}
+        error={error}
+        onSave={handleSaveCustomText}
+        onCancel={() => {
+          dismissError();
+          setIsEditingCustomText(false);
+        }}
+      />
+    );
+  }
+
+  if (isSearching) {
+    return <ContentLoader message={`Looking up "${theme}" on Wikipedia...`} />;
+  }
+
   // Loading state
   if (isLoading) {
     return <ContentLoader message={`Generating content about "${theme}"...`} />;
   }
 
+  // Streaming state - show text as it arrives; finished sentences can already be typed
+  if (isStreaming && streamingText) {
+    const typeableText = getCompleteSentences(streamingText);
+
+    return (
+      <div className="bg-white rounded-lg shadow-md p-6 space-y-4">
+        <div className="flex items-center justify-between">
+          <h2 className="text-2xl font-bold text-gray-900">{theme}</h2>
+          <output className="flex items-center gap-2 text-sm text-gray-600">
+            <span className="w-2 h-2 bg-blue-600 rounded-full animate-pulse" />
+            Generating...
+          </output>
+        </div>
+
+        <div className="bg-gray-50 rounded-lg p-4 border border-gray-200">
+          <p className="text-gray-800 leading-relaxed whitespace-pre-wrap font-mono text-sm">
+            {typeableText}
+            <span className="text-gray-400">{streamingText.slice(typeableText.length)}</span>
+            <span className="inline-block w-2 h-4 ml-0.5 align-middle bg-blue-600 animate-pulse" />
+          </p>
+        </div>
+
+        {onStartTyping && (
+          <button
+            onClick={onStartTyping}
+            disabled={!typeableText}
+            className="w-full bg-blue-600 hover:bg-blue-700 disabled:bg-gray-300 disabled:cursor-not-allowed text-white font-medium py-2 px-4 rounded-lg transition-colors"
+          >
+            {typeableText ? 'Start Typing Now' : 'Waiting for the first sentence...'}
+          </button>
+        )}
+      </div>
+    );
+  }
+
   // Error state
   if (error && !content) {
     return <ContentError error={error} onRetry={handleRetry} onDismiss={dismissError} />;
@@ -76,7 +234,32 @@ export const ContentManager: React.FC<ContentManagerProps> = ({
             </p>
           </div>
         )}
-        <ContentDisplay content={content} onStartTyping={onStartTyping} onRefresh={handleRefresh} />
+        <ContentDisplay
+          content={content}
+          onStartTyping={onStartTyping}
+          onRefresh={handleRefresh}
+          onNextSection={handleNextSection}
+        />
+        <div className="mt-3 flex justify-end">
+          <button
+            onClick={() => setIsEditingCustomText(true)}
+            disabled={!isAvailable('custom')}
+            title={unavailableReason('custom')}
+            className="text-sm text-blue-600 hover:text-blue-800 disabled:text-gray-400 disabled:cursor-not-allowed"
+          >
+            Practice your own text instead
+          </button>
+        </div>
+        <div className="mt-3">
+          <WikipediaSectionPicker
+            theme={theme}
+            language={language}
+            article={content.metadata.wikipediaArticle}
+            currentSection={content.metadata.wikipediaSection?.index}
+            onSelect={handleFetchSection}
+            disabledReason={unavailableReason('wikipedia')}
+          />
+        </div>
       </>
     );
   }
@@ -104,12 +287,76 @@ export const ContentManager: React.FC<ContentManagerProps> = ({
         <p className="text-gray-600 mb-6">
           Click below to generate typing practice content about "{theme}"
         </p>
+        <label className="flex items-center justify-center gap-2 mb-4 text-sm text-gray-700">
+          Difficulty
+          <select
+            value={difficulty}
+            onChange={(e) => setDifficulty(e.target.value as DifficultyOption | '')}
+            className="border border-gray-300 rounded-md px-2 py-1 focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            {DIFFICULTY_OPTIONS.map(({ value, label }) => (
+              <option key={label} value={value}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center justify-center gap-2 mb-4 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={asLesson}
+            onChange={(e) => setAsLesson(e.target.checked)}
+            className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+          />
+          Practice a longer text passage by passage
+        </label>
         <button
           onClick={() => handleFetchContent()}
-          className="bg-blue-600 hover:bg-blue-700 text-white font-medium py-3 px-6 rounded-lg transition-colors"
+          disabled={!isAvailable('combined')}
+          title={unavailableReason('combined')}
+          className="bg-blue-600 hover:bg-blue-700 disabled:bg-gray-300 disabled:cursor-not-allowed text-white font-medium py-3 px-6 rounded-lg transition-colors"
         >
           Generate Content
         </button>
+        <div className="mt-4">
+          <WikipediaSectionPicker
+            theme={theme}
+            language={language}
+            onSelect={handleFetchSection}
+            disabledReason={unavailableReason('wikipedia')}
+          />
+        </div>
+        <div className="mt-4 flex items-center justify-center gap-2 text-sm text-gray-700">
+          <select
+            value={codeLanguage}
+            onChange={(e) => setCodeLanguage(e.target.value as CodeLanguage | '')}
+            aria-label="Code language"
+            className="border border-gray-300 rounded-md px-2 py-1 focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            <option value="">Any language</option>
+            {Object.values(CODE_LANGUAGES).map(({ code, name }) => (
+              <option key={code} value={code}>
+                {name}
+              </option>
+            ))}
+          </select>
+          <button
+            onClick={() => handleFetchContent('code')}
+            disabled={!isAvailable('code')}
+            title={unavailableReason('code')}
+            className="bg-slate-100 hover:bg-slate-200 disabled:bg-gray-100 disabled:text-gray-400 disabled:cursor-not-allowed text-slate-800 font-medium py-1 px-3 rounded-lg transition-colors"
+          >
+            Type a Code Snippet
+          </button>
+        </div>
+        <button
+          onClick={() => setIsEditingCustomText(true)}
+          disabled={!isAvailable('custom')}
+          title={unavailableReason('custom')}
+          className="mt-4 text-sm text-blue-600 hover:text-blue-800 disabled:text-gray-400 disabled:cursor-not-allowed"
+        >
+          Or paste your own text
+        </button>
       </div>
     </div>
   );
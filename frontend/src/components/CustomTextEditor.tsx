@@ -0,0 +1,118 @@
+import { useState } from 'react';
+import type { CustomTextRequest } from '../services/api.service';
+import type { LanguageCode } from '../types';
+import { countWords, trimCustomText } from '../utils/contentProcessor';
+
+// Shortest text the server accepts for practice
+const MIN_WORDS = 10;
+
+interface CustomTextEditorProps {
+  language: LanguageCode;
+  isSaving?: boolean;
+  error?: string | null;
+  onSave: (request: CustomTextRequest) => void;
+  onCancel: () => void;
+}
+
+/**
+ * Paste or load a .txt/.md file, tidy it and save it as practice content
+ */
+export const CustomTextEditor: React.FC<CustomTextEditorProps> = ({
+  language,
+  isSaving = false,
+  error,
+  onSave,
+  onCancel,
+}) => {
+  const [text, setText] = useState('');
+  const [title, setTitle] = useState('');
+  const [fileName, setFileName] = useState<string | undefined>();
+
+  const wordCount = countWords(text.trim());
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    setText(await file.text());
+    setFileName(file.name);
+    if (!title) {
+      setTitle(file.name.replace(/\.(txt|md)$/i, ''));
+    }
+  };
+
+  const handleSave = () => {
+    onSave({
+      text,
+      title: title.trim() || undefined,
+      language,
+      format: fileName && /\.md$/i.test(fileName) ? 'markdown' : 'text',
+      fileName,
+    });
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6 space-y-4">
+      <h3 className="text-xl font-semibold text-gray-900">Practice your own text</h3>
+
+      <input
+        type="text"
+        value={title}
+        onChange={(e) => setTitle(e.target.value)}
+        maxLength={100}
+        placeholder="Title (optional)"
+        aria-label="Title"
+        className="w-full border border-gray-300 rounded-md px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+      />
+
+      <textarea
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        rows={10}
+        placeholder="Paste the text you want to practice..."
+        aria-label="Custom text"
+        className="w-full border border-gray-300 rounded-md px-3 py-2 font-mono text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+      />
+
+      <div className="flex flex-wrap items-center justify-between gap-3 text-sm text-gray-600">
+        <label className="cursor-pointer text-blue-600 hover:text-blue-800">
+          Load a .txt or .md file
+          <input
+            type="file"
+            accept=".txt,.md,text/plain,text/markdown"
+            onChange={handleFileChange}
+            className="sr-only"
+          />
+        </label>
+        <span>
+          {wordCount} words{fileName && ` from ${fileName}`}
+        </span>
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      <div className="flex gap-3">
+        <button
+          onClick={handleSave}
+          disabled={isSaving || wordCount < MIN_WORDS}
+          className="flex-1 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-300 disabled:cursor-not-allowed text-white font-medium py-2 px-4 rounded-lg transition-colors"
+        >
+          {isSaving ? 'Saving...' : 'Save and Practice'}
+        </button>
+        <button
+          onClick={() => setText(trimCustomText(text))}
+          disabled={!text}
+          className="bg-gray-100 hover:bg-gray-200 disabled:opacity-50 text-gray-700 font-medium py-2 px-4 rounded-lg transition-colors"
+        >
+          Trim
+        </button>
+        <button
+          onClick={onCancel}
+          className="bg-gray-100 hover:bg-gray-200 text-gray-700 font-medium py-2 px-4 rounded-lg transition-colors"
+        >
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,162 @@
+import { useState } from 'react';
+import { usePreferencesStore } from '../stores/usePreferencesStore';
+import { useTypingSessionStore } from '../stores/useTypingSessionStore';
+import type { StudyContent } from '../types';
+import { type PassageResult, summarizeLesson, toPassageResult } from '../utils/lessonProgress';
+import { calculateRealTimeMetrics, formatTime } from '../utils/metricsCalculator';
+import { TypingInterface } from './TypingInterface';
+
+interface LessonPlayerProps {
+  content: StudyContent;
+  onExit?: () => void;
+}
+
+/**
+ * Practice a segmented lesson one passage at a time, keeping metrics for each passage
+ */
+export const LessonPlayer: React.FC<LessonPlayerProps> = ({ content, onExit }) => {
+  const passages = content.passages ?? [];
+  const { keyboardLayout } = usePreferencesStore();
+  const { startSession, endSession } = useTypingSessionStore();
+  const [currentIndex, setCurrentIndex] = useState(0);
+  const [isTyping, setIsTyping] = useState(false);
+  const [results, setResults] = useState<Record<string, PassageResult>>({});
+
+  const current = passages[currentIndex];
+  const completed = passages.flatMap((passage) => results[passage.id] ?? []);
+  const summary = summarizeLesson(completed);
+
+  const startPassage = (index: number) => {
+    startSession({ ...content, text: passages[index].text }, content.theme, keyboardLayout);
+    setCurrentIndex(index);
+    setIsTyping(true);
+  };
+
+  const handlePassageComplete = () => {
+    const session = useTypingSessionStore.getState().currentSession;
+    if (!session || !current) return;
+
+    const metrics = calculateRealTimeMetrics(
+      session.userProgress.typedText,
+      current.text,
+      session.userProgress.errors,
+      session.startTime
+    );
+
+    endSession();
+    setResults((previous) => ({ ...previous, [current.id]: toPassageResult(current.id, metrics) }));
+    setIsTyping(false);
+  };
+
+  if (!current) {
+    return null;
+  }
+
+  const isLastPassage = currentIndex === passages.length - 1;
+  const currentResult = results[current.id];
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6 space-y-4">
+      <div className="flex items-center justify-between">
+        <h2 className="text-2xl font-bold text-gray-900">{content.theme}</h2>
+        <span className="text-sm text-gray-600">
+          Passage {currentIndex + 1} of {passages.length}
+        </span>
+      </div>
+
+      {isTyping ? (
+        <TypingInterface
+          key={current.id}
+          content={current.text}
+          onSessionComplete={handlePassageComplete}
+        />
+      ) : (
+        <div className="space-y-3">
+          <div className="bg-gray-50 rounded-lg p-4 border border-gray-200">
+            <p className="text-gray-800 leading-relaxed whitespace-pre-wrap font-mono text-sm">
+              {current.text}
+            </p>
+          </div>
+
+          {currentResult && (
+            <p className="text-sm text-green-700">
+              Passage complete: {currentResult.wpm} WPM, {currentResult.accuracy}% accuracy,{' '}
+              {currentResult.errorCount} errors
+            </p>
+          )}
+
+          <div className="flex gap-3">
+            {currentResult && !isLastPassage ? (
+              <button
+                onClick={() => startPassage(currentIndex + 1)}
+                className="flex-1 bg-blue-600 hover:bg-blue-700 text-white font-medium py-2 px-4 rounded-lg transition-colors"
+              >
+                Next Passage
+              </button>
+            ) : (
+              <button
+                onClick={() => startPassage(currentIndex)}
+                className="flex-1 bg-blue-600 hover:bg-blue-700 text-white font-medium py-2 px-4 rounded-lg transition-colors"
+              >
+                {currentResult ? 'Retry Passage' : 'Start Passage'}
+              </button>
+            )}
+            {onExit && (
+              <button
+                onClick={onExit}
+                className="bg-gray-100 hover:bg-gray-200 text-gray-700 font-medium py-2 px-4 rounded-lg transition-colors"
+              >
+                Back to Content
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+
+      {/* Per-passage metrics */}
+      <table className="w-full text-sm text-left text-gray-700">
+        <thead className="text-xs text-gray-500 uppercase">
+          <tr>
+            <th className="py-1">Passage</th>
+            <th className="py-1">WPM</th>
+            <th className="py-1">Accuracy</th>
+            <th className="py-1">Errors</th>
+            <th className="py-1">Time</th>
+          </tr>
+        </thead>
+        <tbody>
+          {passages.map((passage) => {
+            const result = results[passage.id];
+            return (
+              <tr
+                key={passage.id}
+                className={passage.index === currentIndex ? 'font-semibold text-blue-700' : ''}
+              >
+                <td className="py-1">
+                  {passage.index + 1} ({passage.wordCount} words)
+                </td>
+                <td className="py-1">{result ? result.wpm : '-'}</td>
+                <td className="py-1">{result ? `${result.accuracy}%` : '-'}</td>
+                <td className="py-1">{result ? result.errorCount : '-'}</td>
+                <td className="py-1">{result ? formatTime(result.timeElapsed) : '-'}</td>
+              </tr>
+            );
+          })}
+        </tbody>
+        {completed.length > 0 && (
+          <tfoot className="border-t border-gray-200">
+            <tr>
+              <td className="py-1">
+                Lesson ({summary.passagesCompleted}/{passages.length})
+              </td>
+              <td className="py-1">{summary.wpm}</td>
+              <td className="py-1">{summary.accuracy}%</td>
+              <td className="py-1">{summary.errorCount}</td>
+              <td className="py-1">{formatTime(summary.timeElapsed)}</td>
+            </tr>
+          </tfoot>
+        )}
+      </table>
+    </div>
+  );
+};
@@ -1,4 +1,5 @@
 import { useState } from 'react';
+import { LANGUAGES, SUPPORTED_LANGUAGES } from '../config/languages';
 import { useIsMobile } from '../hooks/useMediaQuery';
 import { usePreferencesStore } from '../stores/usePreferencesStore';
 import { vibrate } from '../utils/mobileOptimizations';
@@ -98,32 +99,22 @@ export const MobileSettingsPanel = ({ isOpen, onClose }: MobileSettingsPanelProp
             <div className="py-3">
               <div className="font-medium text-gray-900 dark:text-white mb-3">Language</div>
               <div className="grid grid-cols-2 gap-2">
-                <button
-                  onClick={() => {
-                    if (hapticFeedback) vibrate(10);
-                    setLanguage('en');
-                  }}
-                  className={`py-3 px-4 rounded-lg font-medium transition-colors touch-manipulation ${
-                    language === 'en'
-                      ? 'bg-blue-600 text-white'
-                      : 'bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300'
-                  }`}
-                >
-                  English
-                </button>
-                <button
-                  onClick={() => {
-                    if (hapticFeedback) vibrate(10);
-                    setLanguage('pt');
-                  }}
-                  className={`py-3 px-4 rounded-lg font-medium transition-colors touch-manipulation ${
-                    language === 'pt'
-                      ? 'bg-blue-600 text-white'
-                      : 'bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300'
-                  }`}
-                >
-                  Português
-                </button>
+                {SUPPORTED_LANGUAGES.map((code) => (
+                  <button
+                    key={code}
+                    onClick={() => {
+                      if (hapticFeedback) vibrate(10);
+                      setLanguage(code);
+                    }}
+                    className={`py-3 px-4 rounded-lg font-medium transition-colors touch-manipulation ${
+                      language === code
+                        ? 'bg-blue-600 text-white'
+                        : 'bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300'
+                    }`}
+                  >
+                    {LANGUAGES[code].nativeName}
+                  </button>
+                ))}
               </div>
             </div>
 
@@ -0,0 +1,47 @@
+import { lazy, Suspense } from 'react';
+import { useContentStore } from '../stores/useContentStore';
+import { SectionErrorBoundary } from './ErrorBoundary';
+import { ResponsiveCard } from './ResponsiveContainer';
+import { LoadingSpinner } from './SkeletonLoader';
+
+// Lazy load the practice modes, so only the one in use is downloaded
+const CodePractice = lazy(() =>
+  import('./CodePractice').then((m) => ({ default: m.CodePractice }))
+);
+const LessonPlayer = lazy(() =>
+  import('./LessonPlayer').then((m) => ({ default: m.LessonPlayer }))
+);
+const TextPractice = lazy(() =>
+  import('./TextPractice').then((m) => ({ default: m.TextPractice }))
+);
+
+interface PracticeViewProps {
+  theme: string;
+  onExit: () => void;
+}
+
+/**
+ * Typing practice for the current content: a lesson passage by passage, a code snippet,
+ * or plain text, which can be started while it is still streaming in
+ */
+export const PracticeView = ({ theme, onExit }: PracticeViewProps) => {
+  const currentContent = useContentStore((state) => state.currentContent);
+
+  let section = 'Typing';
+  let practice = <TextPractice theme={theme} onExit={onExit} />;
+  if (currentContent?.passages) {
+    section = 'Lesson';
+    practice = <LessonPlayer content={currentContent} onExit={onExit} />;
+  } else if (currentContent?.source === 'code') {
+    section = 'Code';
+    practice = <CodePractice content={currentContent} onExit={onExit} />;
+  }
+
+  return (
+    <ResponsiveCard>
+      <SectionErrorBoundary section={section}>
+        <Suspense fallback={<LoadingSpinner className="py-8" />}>{practice}</Suspense>
+      </SectionErrorBoundary>
+    </ResponsiveCard>
+  );
+};
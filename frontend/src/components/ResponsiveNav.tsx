@@ -15,6 +15,7 @@ export const ResponsiveNav = ({ onNavigate, currentSection = 'theme' }: Responsi
     { id: 'keyboard', label: 'Keyboard', icon: '⌨️' },
     { id: 'practice', label: 'Practice', icon: '✍️' },
     { id: 'metrics', label: 'Metrics', icon: '📊' },
+    { id: 'account', label: 'Account', icon: '👤' },
   ];
 
   const handleNavigate = (section: string) => {
@@ -82,7 +83,7 @@ export const ResponsiveNav = ({ onNavigate, currentSection = 'theme' }: Responsi
 
         {/* Bottom Navigation Bar */}
         <div className="fixed bottom-0 left-0 right-0 z-50 bg-white dark:bg-gray-800 border-t border-gray-200 dark:border-gray-700 safe-area-inset-bottom">
-          <div className="grid grid-cols-4 gap-1">
+          <div className="grid grid-cols-5 gap-1">
             {navItems.map((item) => (
               <button
                 key={item.id}
@@ -1,7 +1,9 @@
 import type React from 'react';
 import { useState } from 'react';
+import { LANGUAGES, SUPPORTED_LANGUAGES } from '../config/languages';
 import { useMetricsStore } from '../stores/useMetricsStore';
 import { usePreferencesStore } from '../stores/usePreferencesStore';
+import type { LanguageCode } from '../types';
 import {
   anonymizeSessionData,
   applyDataRetentionPolicy,
@@ -136,11 +138,14 @@ export const SettingsPanel: React.FC = () => {
             <label className="block text-sm font-medium text-gray-700 mb-2">Language</label>
             <select
               value={preferences.language}
-              onChange={(e) => preferences.setLanguage(e.target.value as 'pt' | 'en')}
+              onChange={(e) => preferences.setLanguage(e.target.value as LanguageCode)}
               className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
             >
-              <option value="pt">Português</option>
-              <option value="en">English</option>
+              {SUPPORTED_LANGUAGES.map((code) => (
+                <option key={code} value={code}>
+                  {LANGUAGES[code].nativeName}
+                </option>
+              ))}
             </select>
           </div>
 
@@ -0,0 +1,109 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { useContentStore } from '../stores/useContentStore';
+import { usePreferencesStore } from '../stores/usePreferencesStore';
+import { useTypingSessionStore } from '../stores/useTypingSessionStore';
+import type { SessionMetrics } from '../types';
+import { formatTextForTyping, getCompleteSentences } from '../utils/contentProcessor';
+import { calculateRealTimeMetrics, formatTime } from '../utils/metricsCalculator';
+import { TypingInterface } from './TypingInterface';
+
+interface TextPracticeProps {
+  theme: string;
+  onExit?: () => void;
+}
+
+/**
+ * Type the current content, starting on its finished sentences while it is still streaming in
+ */
+export const TextPractice: React.FC<TextPracticeProps> = ({ theme, onExit }) => {
+  const currentContent = useContentStore((state) => state.currentContent);
+  const streamingText = useContentStore((state) => state.streamingText);
+  const isStreaming = useContentStore((state) => state.isStreaming);
+  const { keyboardLayout } = usePreferencesStore();
+  const { startSession, endSession } = useTypingSessionStore();
+  // Typing starts right away: the user already asked to start from the content view
+  const [isTyping, setIsTyping] = useState(true);
+  const [result, setResult] = useState<SessionMetrics | null>(null);
+  const [attempt, setAttempt] = useState(0);
+
+  const text = useMemo(
+    () =>
+      formatTextForTyping(
+        isStreaming ? getCompleteSentences(streamingText) : (currentContent?.text ?? '')
+      ),
+    [isStreaming, streamingText, currentContent]
+  );
+
+  const start = () => {
+    startSession({ text }, theme, keyboardLayout);
+    setResult(null);
+    setAttempt((previous) => previous + 1);
+    setIsTyping(true);
+  };
+
+  const hasStarted = useRef(false);
+  useEffect(() => {
+    if (!hasStarted.current) {
+      hasStarted.current = true;
+      startSession({ text }, theme, keyboardLayout);
+    }
+  }, [text, theme, keyboardLayout, startSession]);
+
+  const handleComplete = () => {
+    const session = useTypingSessionStore.getState().currentSession;
+    if (!session) return;
+
+    const metrics = calculateRealTimeMetrics(
+      session.userProgress.typedText,
+      session.content,
+      session.userProgress.errors,
+      session.startTime
+    );
+
+    endSession();
+    setResult(metrics);
+    setIsTyping(false);
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6 space-y-4">
+      <h2 className="text-2xl font-bold text-gray-900">{theme}</h2>
+
+      {isTyping ? (
+        <TypingInterface
+          key={attempt}
+          content={text}
+          isContentComplete={!isStreaming}
+          onSessionComplete={handleComplete}
+        />
+      ) : (
+        <div className="space-y-3">
+          {result && (
+            <p className="text-sm text-green-700">
+              Text complete: {result.wpm} WPM, {result.accuracy}% accuracy, {result.errorCount}{' '}
+              errors in {formatTime(result.timeElapsed)}
+            </p>
+          )}
+
+          <div className="flex gap-3">
+            <button
+              onClick={start}
+              disabled={!text}
+              className="flex-1 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-300 text-white font-medium py-2 px-4 rounded-lg transition-colors"
+            >
+              Type It Again
+            </button>
+            {onExit && (
+              <button
+                onClick={onExit}
+                className="bg-gray-100 hover:bg-gray-200 text-gray-700 font-medium py-2 px-4 rounded-lg transition-colors"
+              >
+                Back to Content
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
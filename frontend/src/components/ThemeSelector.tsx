@@ -1,4 +1,5 @@
 import { useEffect, useState } from 'react';
+import { LANGUAGES } from '../config/languages';
 import { useIsMobile } from '../hooks/useMediaQuery';
 import { usePreferencesStore } from '../stores/usePreferencesStore';
 import type { ThemeSelection } from '../types';
@@ -9,30 +10,6 @@ interface ThemeSelectorProps {
   className?: string;
 }
 
-// Predefined theme suggestions
-const THEME_SUGGESTIONS = {
-  pt: [
-    'História do Brasil',
-    'Ciência e Tecnologia',
-    'Literatura Brasileira',
-    'Astronomia',
-    'Biologia Marinha',
-    'Física Quântica',
-    'Programação',
-    'Inteligência Artificial',
-  ],
-  en: [
-    'World History',
-    'Science and Technology',
-    'Literature',
-    'Astronomy',
-    'Marine Biology',
-    'Quantum Physics',
-    'Programming',
-    'Artificial Intelligence',
-  ],
-};
-
 export function ThemeSelector({ onThemeSelect, className = '' }: ThemeSelectorProps) {
   const { recentThemes, addRecentTheme, removeRecentTheme, language } = usePreferencesStore();
   const [customTheme, setCustomTheme] = useState('');
@@ -41,7 +18,7 @@ export function ThemeSelector({ onThemeSelect, className = '' }: ThemeSelectorPr
   const [filteredSuggestions, setFilteredSuggestions] = useState<string[]>([]);
   const isMobile = useIsMobile();
 
-  const suggestions = THEME_SUGGESTIONS[language];
+  const suggestions = LANGUAGES[language].themeSuggestions;
 
   // Filter suggestions based on input
   useEffect(() => {
@@ -261,10 +238,8 @@ export function ThemeSelector({ onThemeSelect, className = '' }: ThemeSelectorPr
                     </span>
                     {theme.lastUsed && !isMobile && (
                       <span>
-                        {language === 'pt' ? 'Última vez:' : 'Last used:'}{' '}
-                        {new Date(theme.lastUsed).toLocaleDateString(
-                          language === 'pt' ? 'pt-BR' : 'en-US'
-                        )}
+                        {LANGUAGES[language].lastUsedLabel}{' '}
+                        {new Date(theme.lastUsed).toLocaleDateString(LANGUAGES[language].locale)}
                       </span>
                     )}
                   </div>
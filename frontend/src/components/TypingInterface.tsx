@@ -1,16 +1,61 @@
-import { memo, useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { Fragment, memo, useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import { useIsMobile } from '../hooks/useMediaQuery';
 import { useTypingMetrics } from '../hooks/useTypingMetrics';
 import { usePreferencesStore } from '../stores/usePreferencesStore';
 import { useTypingSessionStore } from '../stores/useTypingSessionStore';
-import type { TypingError } from '../types';
+import type { CodeLanguage, TypingError, TypingMode } from '../types';
+import { getCommonPrefixLength } from '../utils/contentProcessor';
+import { getAutoIndent } from '../utils/keyboardUtils';
+import { getCharacterKinds, type SyntaxTokenKind } from '../utils/syntaxHighlight';
 
 interface TypingInterfaceProps {
   content: string;
+  /** False while content is still streaming in; the text may grow and the session can't end */
+  isContentComplete?: boolean;
   onSessionComplete?: () => void;
+  /** Code mode keeps line breaks visible and highlights syntax */
+  mode?: TypingMode;
+  /** Code mode: language used for syntax highlighting */
+  codeLanguage?: CodeLanguage;
+  /** Code mode: indentation after a typed line break is filled in automatically */
+  autoIndent?: boolean;
 }
 
-export const TypingInterface = memo(({ content, onSessionComplete }: TypingInterfaceProps) => {
+// Colors of syntax token kinds in code mode
+const TOKEN_CLASSES: Record<SyntaxTokenKind, string> = {
+  keyword: 'text-purple-700 dark:text-purple-400 ',
+  string: 'text-amber-700 dark:text-amber-400 ',
+  comment: 'text-gray-500 dark:text-gray-400 italic ',
+  number: 'text-blue-700 dark:text-blue-400 ',
+  plain: 'text-gray-900 dark:text-gray-100 ',
+};
+
+/**
+ * Enter is a typed character in code; after a correctly typed line break the next line's
+ * indentation is filled in so the typist can skip it
+ */
+const withAutoIndent = (
+  input: string,
+  previous: string,
+  content: string,
+  enabled: boolean
+): string => {
+  const isNewLine =
+    input.length > previous.length && input.endsWith('\n') && content[input.length - 1] === '\n';
+  return enabled && isNewLine ? input + getAutoIndent(content, input.length) : input;
+};
+
+export const TypingInterface = memo((props: TypingInterfaceProps) => {
+  const {
+    content,
+    isContentComplete = true,
+    onSessionComplete,
+    mode = 'text',
+    codeLanguage,
+    autoIndent = true,
+  } = props;
+  const isCodeMode = mode === 'code';
+  const skipsIndent = isCodeMode && autoIndent;
   const inputRef = useRef<HTMLTextAreaElement>(null);
   const [userInput, setUserInput] = useState('');
   const isMobile = useIsMobile();
@@ -20,6 +65,7 @@ export const TypingInterface = memo(({ content, onSessionComplete }: TypingInter
     isSessionActive,
     isPaused,
     updateProgress,
+    updateContent,
     addError,
     pauseSession,
     resumeSession,
@@ -35,13 +81,47 @@ export const TypingInterface = memo(({ content, onSessionComplete }: TypingInter
     }
   }, [isSessionActive]);
 
+  // Keep the session's text in step with content that is still streaming in
+  useEffect(() => {
+    if (currentSession && currentSession.content !== content) {
+      updateContent(content);
+    }
+  }, [content, currentSession, updateContent]);
+
+  // Final text can differ from the streamed text it replaces, e.g. once markdown is stripped;
+  // input past the point where they differ was typed against text that is gone
+  const typedAgainst = useRef(content);
+  useEffect(() => {
+    const kept = getCommonPrefixLength(typedAgainst.current, content);
+    typedAgainst.current = content;
+
+    if (userInput.length > kept) {
+      const aligned = userInput.slice(0, kept);
+      setUserInput(aligned);
+      updateProgress(aligned.length, aligned);
+    }
+  }, [content, userInput, updateProgress]);
+
+  // Finish a session that caught up with the text before streaming ended
+  const wasContentComplete = useRef(isContentComplete);
+  useEffect(() => {
+    const justCompleted = isContentComplete && !wasContentComplete.current;
+    wasContentComplete.current = isContentComplete;
+
+    if (justCompleted && content.length > 0 && userInput.length === content.length) {
+      onSessionComplete?.();
+    }
+  }, [isContentComplete, content.length, userInput.length, onSessionComplete]);
+
   // Handle input changes - memoized for performance
   const handleInputChange = useCallback(
     (e: React.ChangeEvent<HTMLTextAreaElement>) => {
       if (!isSessionActive || isPaused) return;
 
-      const newInput = e.target.value;
-      const position = newInput.length;
+      let newInput = e.target.value;
+
+      // Text that hasn't arrived yet can't be typed
+      if (!isContentComplete && newInput.length > content.length) return;
 
       // Record keystroke for metrics and auto-pause
       recordKeystroke();
@@ -63,18 +143,22 @@ export const TypingInterface = memo(({ content, onSessionComplete }: TypingInter
         }
       }
 
+      newInput = withAutoIndent(newInput, userInput, content, skipsIndent);
+
       setUserInput(newInput);
-      updateProgress(position, newInput);
+      updateProgress(newInput.length, newInput);
 
       // Check if session is complete
-      if (newInput.length === content.length) {
+      if (isContentComplete && newInput.length === content.length) {
         onSessionComplete?.();
       }
     },
     [
       isSessionActive,
       isPaused,
-      userInput.length,
+      isContentComplete,
+      skipsIndent,
+      userInput,
       content,
       recordKeystroke,
       addError,
@@ -103,6 +187,12 @@ export const TypingInterface = memo(({ content, onSessionComplete }: TypingInter
     [isPaused, resumeSession, pauseSession]
   );
 
+  // Syntax token kind of every character, in code mode
+  const characterKinds = useMemo(
+    () => (isCodeMode && codeLanguage ? getCharacterKinds(content, codeLanguage) : null),
+    [isCodeMode, codeLanguage, content]
+  );
+
   // Render character with appropriate styling - memoized
   const renderCharacter = useCallback(
     (char: string, index: number) => {
@@ -119,6 +209,9 @@ export const TypingInterface = memo(({ content, onSessionComplete }: TypingInter
         className += 'text-green-600 dark:text-green-400 ';
       } else if (isIncorrect && highlightErrors) {
         className += 'text-red-600 dark:text-red-400 bg-red-100 dark:bg-red-900/30 ';
+      } else if (characterKinds) {
+        // Highlighted code stays colored; text still to type is dimmed
+        className += TOKEN_CLASSES[characterKinds[index]] + (isTyped ? '' : 'opacity-60 ');
       } else if (!isTyped) {
         className += 'text-gray-600 dark:text-gray-400 ';
       }
@@ -126,13 +219,23 @@ export const TypingInterface = memo(({ content, onSessionComplete }: TypingInter
       // Handle special characters
       const displayChar = char === ' ' ? '\u00A0' : char === '\n' ? '↵' : char;
 
+      // Code keeps its layout, so line breaks also break the displayed line
+      if (isCodeMode && char === '\n') {
+        return (
+          <Fragment key={index}>
+            <span className={className}>{displayChar}</span>
+            {'\n'}
+          </Fragment>
+        );
+      }
+
       return (
         <span key={index} className={className}>
           {displayChar}
         </span>
       );
     },
-    [userInput, highlightErrors]
+    [userInput, highlightErrors, characterKinds, isCodeMode]
   );
 
   // Memoize the rendered content to avoid re-rendering all characters on every keystroke
@@ -213,6 +316,8 @@ export const TypingInterface = memo(({ content, onSessionComplete }: TypingInter
         ) : (
           <span>
             {isMobile ? 'Type the text above' : 'Type the text above. Press ESC to pause.'}
+            {isCodeMode && ' Press Enter at the end of each line.'}
+            {!isContentComplete && ' More text is on its way...'}
           </span>
         )}
       </div>
@@ -0,0 +1,49 @@
+import type { WikipediaSearchResults } from '../types';
+
+interface WikipediaArticleChooserProps {
+  theme: string;
+  candidates: WikipediaSearchResults['results'];
+  onChoose: (article: string) => void;
+  onSkip: () => void;
+}
+
+/**
+ * Asks which article an ambiguous theme means before any content is fetched
+ */
+export const WikipediaArticleChooser: React.FC<WikipediaArticleChooserProps> = ({
+  theme,
+  candidates,
+  onChoose,
+  onSkip,
+}) => {
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6 space-y-4">
+      <div>
+        <h3 className="text-xl font-semibold text-gray-900">Which "{theme}" do you mean?</h3>
+        <p className="text-gray-600 text-sm mt-1">
+          This theme matches several Wikipedia articles. Pick one to practice with.
+        </p>
+      </div>
+
+      <ul className="space-y-2">
+        {candidates.map((candidate) => (
+          <li key={candidate.title}>
+            <button
+              onClick={() => onChoose(candidate.title)}
+              className="w-full text-left px-4 py-3 rounded-lg border border-gray-200 hover:border-blue-400 hover:bg-blue-50 transition-colors"
+            >
+              <span className="block font-medium text-gray-900">{candidate.title}</span>
+              {candidate.description && (
+                <span className="block text-sm text-gray-600">{candidate.description}</span>
+              )}
+            </button>
+          </li>
+        ))}
+      </ul>
+
+      <button onClick={onSkip} className="text-sm text-gray-600 hover:text-gray-900 underline">
+        Let the app choose
+      </button>
+    </div>
+  );
+};
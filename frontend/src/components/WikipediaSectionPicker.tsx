@@ -0,0 +1,80 @@
+import { useState } from 'react';
+import { useWikipediaSections } from '../hooks/useWikipediaSections';
+import type { LanguageCode } from '../types';
+
+interface WikipediaSectionPickerProps {
+  theme: string;
+  language: LanguageCode;
+  article?: string;
+  currentSection?: number;
+  onSelect: (section: number, article: string) => void;
+  /** Set when Wikipedia is unavailable; the picker is then disabled with this as its hint */
+  disabledReason?: string;
+}
+
+/**
+ * Lets the user pick one section of the theme's Wikipedia article to practice with
+ */
+export const WikipediaSectionPicker: React.FC<WikipediaSectionPickerProps> = ({
+  theme,
+  language,
+  article,
+  currentSection,
+  onSelect,
+  disabledReason,
+}) => {
+  const { sections, isLoading, error, load } = useWikipediaSections(theme, language, article);
+  const [isOpen, setIsOpen] = useState(false);
+
+  const handleToggle = () => {
+    if (!isOpen && !sections) {
+      load();
+    }
+    setIsOpen(!isOpen);
+  };
+
+  // Empty sections (headings with only subsections or links) can't be practiced
+  const readable = sections?.sections.filter((section) => section.wordCount > 0) ?? [];
+
+  return (
+    <div className="text-sm">
+      <button
+        onClick={handleToggle}
+        aria-expanded={isOpen}
+        disabled={Boolean(disabledReason)}
+        title={disabledReason}
+        className="text-purple-700 hover:text-purple-900 font-medium underline-offset-2 hover:underline disabled:text-gray-400 disabled:no-underline disabled:cursor-not-allowed"
+      >
+        {isOpen ? 'Hide article sections' : 'Practice a section of the Wikipedia article'}
+      </button>
+
+      {isOpen && !disabledReason && (
+        <div className="mt-2 bg-purple-50 border border-purple-200 rounded-lg p-3 text-left">
+          {isLoading && <p className="text-gray-600">Loading sections...</p>}
+          {error && <p className="text-red-600">{error}</p>}
+          {sections && (
+            <>
+              <p className="font-medium text-gray-900 mb-2">{sections.articleTitle}</p>
+              <ul className="space-y-1 max-h-64 overflow-y-auto">
+                {readable.map((section) => (
+                  <li key={section.index} style={{ paddingLeft: `${(section.level - 1) * 12}px` }}>
+                    <button
+                      onClick={() => onSelect(section.index, sections.articleTitle)}
+                      disabled={section.index === currentSection}
+                      className="w-full flex justify-between gap-2 px-2 py-1 rounded hover:bg-purple-100 disabled:bg-purple-200 disabled:cursor-default text-left"
+                    >
+                      <span className="text-gray-800">{section.title}</span>
+                      <span className="text-gray-500 whitespace-nowrap">
+                        {section.wordCount} words
+                      </span>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
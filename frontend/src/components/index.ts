@@ -1,18 +1,23 @@
 // Component exports
+export { AccountPanel } from './AccountPanel';
+export { CodePractice } from './CodePractice';
 export { ContentDisplay } from './ContentDisplay';
 export { ContentError } from './ContentError';
 export { ContentLoader } from './ContentLoader';
 export { ContentManager } from './ContentManager';
 // Error handling and feedback
+export { CustomTextEditor } from './CustomTextEditor';
 export { ErrorBoundary, SectionErrorBoundary } from './ErrorBoundary';
 export { ErrorIndicator } from './ErrorIndicator';
 export { HelpButton, HelpModal } from './HelpModal';
 export { KeyboardLayoutSelector } from './KeyboardLayoutSelector';
 export { KeyboardPreview } from './KeyboardPreview';
+export { LessonPlayer } from './LessonPlayer';
 export { MetricsDashboard } from './MetricsDashboard';
 export { MetricsDisplay } from './MetricsDisplay';
 export { MobileSettingsPanel } from './MobileSettingsPanel';
 export { MobileTypingControls } from './MobileTypingControls';
+export { PracticeView } from './PracticeView';
 export { ProgressChart } from './ProgressChart';
 export { ProgressTracker } from './ProgressTracker';
 export { ResponsiveCard, ResponsiveContainer, ResponsiveGrid } from './ResponsiveContainer';
@@ -33,5 +38,8 @@ export {
   SkeletonThemeSelector,
   SkeletonTypingInterface,
 } from './SkeletonLoader';
+export { TextPractice } from './TextPractice';
 export { ThemeSelector } from './ThemeSelector';
 export { TypingInterface } from './TypingInterface';
+export { WikipediaArticleChooser } from './WikipediaArticleChooser';
+export { WikipediaSectionPicker } from './WikipediaSectionPicker';
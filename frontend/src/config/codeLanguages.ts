@@ -0,0 +1,196 @@
+import type { CodeLanguage } from '../types';
+
+/**
+ * Programming language offered in code mode, with the syntax its highlighter needs
+ */
+export interface CodeLanguageConfig {
+  code: CodeLanguage;
+  name: string;
+  keywords: string[];
+  lineComment: string;
+  blockComment?: [string, string];
+  stringDelimiters: string[]; // longest first, so '"""' wins over '"'
+}
+
+const C_STYLE_COMMENTS = { lineComment: '//', blockComment: ['/*', '*/'] as [string, string] };
+
+const JAVASCRIPT_KEYWORDS = [
+  'async',
+  'await',
+  'break',
+  'case',
+  'catch',
+  'class',
+  'const',
+  'continue',
+  'default',
+  'delete',
+  'do',
+  'else',
+  'export',
+  'extends',
+  'false',
+  'finally',
+  'for',
+  'function',
+  'if',
+  'import',
+  'in',
+  'instanceof',
+  'let',
+  'new',
+  'null',
+  'of',
+  'return',
+  'static',
+  'super',
+  'switch',
+  'this',
+  'throw',
+  'true',
+  'try',
+  'typeof',
+  'undefined',
+  'var',
+  'void',
+  'while',
+  'yield',
+];
+
+export const CODE_LANGUAGES: Record<CodeLanguage, CodeLanguageConfig> = {
+  javascript: {
+    code: 'javascript',
+    name: 'JavaScript',
+    keywords: JAVASCRIPT_KEYWORDS,
+    ...C_STYLE_COMMENTS,
+    stringDelimiters: ['`', '"', "'"],
+  },
+  typescript: {
+    code: 'typescript',
+    name: 'TypeScript',
+    keywords: [
+      ...JAVASCRIPT_KEYWORDS,
+      'as',
+      'enum',
+      'implements',
+      'interface',
+      'keyof',
+      'private',
+      'protected',
+      'public',
+      'readonly',
+      'type',
+    ],
+    ...C_STYLE_COMMENTS,
+    stringDelimiters: ['`', '"', "'"],
+  },
+  python: {
+    code: 'python',
+    name: 'Python',
+    keywords: [
+      'and',
+      'as',
+      'assert',
+      'async',
+      'await',
+      'break',
+      'class',
+      'continue',
+      'def',
+      'elif',
+      'else',
+      'except',
+      'False',
+      'finally',
+      'for',
+      'from',
+      'if',
+      'import',
+      'in',
+      'is',
+      'lambda',
+      'None',
+      'not',
+      'or',
+      'pass',
+      'raise',
+      'return',
+      'True',
+      'try',
+      'while',
+      'with',
+      'yield',
+    ],
+    lineComment: '#',
+    stringDelimiters: ['"""', "'''", '"', "'"],
+  },
+  go: {
+    code: 'go',
+    name: 'Go',
+    keywords: [
+      'break',
+      'case',
+      'chan',
+      'const',
+      'continue',
+      'default',
+      'defer',
+      'else',
+      'false',
+      'for',
+      'func',
+      'go',
+      'if',
+      'import',
+      'interface',
+      'map',
+      'nil',
+      'package',
+      'range',
+      'return',
+      'select',
+      'struct',
+      'switch',
+      'true',
+      'type',
+      'var',
+    ],
+    ...C_STYLE_COMMENTS,
+    stringDelimiters: ['`', '"', "'"],
+  },
+  rust: {
+    code: 'rust',
+    name: 'Rust',
+    keywords: [
+      'as',
+      'break',
+      'const',
+      'continue',
+      'else',
+      'enum',
+      'false',
+      'fn',
+      'for',
+      'if',
+      'impl',
+      'in',
+      'let',
+      'loop',
+      'match',
+      'mod',
+      'mut',
+      'pub',
+      'return',
+      'self',
+      'Self',
+      'struct',
+      'trait',
+      'true',
+      'use',
+      'where',
+      'while',
+    ],
+    ...C_STYLE_COMMENTS,
+    stringDelimiters: ['"'],
+  },
+};
@@ -1,2 +1,4 @@
 // Configuration exports
+export * from './codeLanguages';
 export * from './keyboardLayouts';
+export * from './languages';
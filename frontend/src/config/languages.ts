@@ -0,0 +1,124 @@
+import type { LanguageCode } from '../types';
+
+/**
+ * Content language shown in settings, with its date locale, theme suggestions and the
+ * label of the date a recent theme was last used
+ */
+export interface LanguageConfig {
+  code: LanguageCode;
+  name: string;
+  nativeName: string;
+  locale: string;
+  lastUsedLabel: string;
+  themeSuggestions: string[];
+}
+
+export const LANGUAGES: Record<LanguageCode, LanguageConfig> = {
+  pt: {
+    code: 'pt',
+    name: 'Portuguese',
+    nativeName: 'Português',
+    locale: 'pt-BR',
+    lastUsedLabel: 'Última vez:',
+    themeSuggestions: [
+      'História do Brasil',
+      'Ciência e Tecnologia',
+      'Literatura Brasileira',
+      'Astronomia',
+      'Biologia Marinha',
+      'Física Quântica',
+      'Programação',
+      'Inteligência Artificial',
+    ],
+  },
+  en: {
+    code: 'en',
+    name: 'English',
+    nativeName: 'English',
+    locale: 'en-US',
+    lastUsedLabel: 'Last used:',
+    themeSuggestions: [
+      'World History',
+      'Science and Technology',
+      'Literature',
+      'Astronomy',
+      'Marine Biology',
+      'Quantum Physics',
+      'Programming',
+      'Artificial Intelligence',
+    ],
+  },
+  es: {
+    code: 'es',
+    name: 'Spanish',
+    nativeName: 'Español',
+    locale: 'es-ES',
+    lastUsedLabel: 'Último uso:',
+    themeSuggestions: [
+      'Historia de España',
+      'Ciencia y Tecnología',
+      'Literatura Latinoamericana',
+      'Astronomía',
+      'Biología Marina',
+      'Física Cuántica',
+      'Programación',
+      'Inteligencia Artificial',
+    ],
+  },
+  fr: {
+    code: 'fr',
+    name: 'French',
+    nativeName: 'Français',
+    locale: 'fr-FR',
+    lastUsedLabel: 'Dernière utilisation :',
+    themeSuggestions: [
+      'Histoire de France',
+      'Science et Technologie',
+      'Littérature Française',
+      'Astronomie',
+      'Biologie Marine',
+      'Physique Quantique',
+      'Programmation',
+      'Intelligence Artificielle',
+    ],
+  },
+  de: {
+    code: 'de',
+    name: 'German',
+    nativeName: 'Deutsch',
+    locale: 'de-DE',
+    lastUsedLabel: 'Zuletzt verwendet:',
+    themeSuggestions: [
+      'Deutsche Geschichte',
+      'Wissenschaft und Technik',
+      'Deutsche Literatur',
+      'Astronomie',
+      'Meeresbiologie',
+      'Quantenphysik',
+      'Programmierung',
+      'Künstliche Intelligenz',
+    ],
+  },
+  it: {
+    code: 'it',
+    name: 'Italian',
+    nativeName: 'Italiano',
+    locale: 'it-IT',
+    lastUsedLabel: 'Ultimo utilizzo:',
+    themeSuggestions: [
+      'Storia di Roma',
+      'Scienza e Tecnologia',
+      'Letteratura Italiana',
+      'Astronomia',
+      'Biologia Marina',
+      'Fisica Quantistica',
+      'Programmazione',
+      'Intelligenza Artificiale',
+    ],
+  },
+};
+
+export const SUPPORTED_LANGUAGES = Object.keys(LANGUAGES) as LanguageCode[];
+
+export const isSupportedLanguage = (value: unknown): value is LanguageCode =>
+  typeof value === 'string' && SUPPORTED_LANGUAGES.includes(value as LanguageCode);
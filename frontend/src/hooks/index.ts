@@ -7,6 +7,9 @@ export {
   useIsTouchDevice,
   useMediaQuery,
 } from './useMediaQuery';
+export { useSourceAvailability } from './useSourceAvailability';
 export { useLongPress, useSwipeGesture } from './useSwipeGesture';
 export { useTypingMetrics } from './useTypingMetrics';
 export { useKeyboardAwareLayout, useVirtualKeyboard } from './useVirtualKeyboard';
+export { useWikipediaSearch } from './useWikipediaSearch';
+export { useWikipediaSections } from './useWikipediaSections';
@@ -12,8 +12,17 @@ interface UseContentFetcherOptions {
 export const useContentFetcher = (options: UseContentFetcherOptions = {}) => {
   const { autoFetch = false, onSuccess, onError } = options;
 
-  const { currentContent, isLoading, error, fetchContent, clearError, clearContent } =
-    useContentStore();
+  const {
+    currentContent,
+    isLoading,
+    error,
+    streamingText,
+    isStreaming,
+    fetchContent,
+    streamContent,
+    clearError,
+    clearContent,
+  } = useContentStore();
 
   const [retryCount, setRetryCount] = useState(0);
   const MAX_RETRIES = 3;
@@ -52,6 +61,21 @@ export const useContentFetcher = (options: UseContentFetcherOptions = {}) => {
     [fetchContent, currentContent, retryCount, onSuccess, onError]
   );
 
+  // Stream content so it can be shown (and typed) while it is generated
+  const stream = useCallback(
+    async (request: ContentGenerationRequest) => {
+      await streamContent(request);
+
+      const { currentContent: streamed, error: streamError } = useContentStore.getState();
+      if (streamError) {
+        onError?.(streamError);
+      } else if (streamed) {
+        onSuccess?.(streamed);
+      }
+    },
+    [streamContent, onSuccess, onError]
+  );
+
   // Refresh content (bypass cache)
   const refresh = useCallback(
     async (request: ContentGenerationRequest) => {
@@ -78,7 +102,10 @@ export const useContentFetcher = (options: UseContentFetcherOptions = {}) => {
     content: currentContent,
     isLoading,
     error,
+    streamingText,
+    isStreaming,
     fetch,
+    stream,
     refresh,
     dismissError,
     retryCount,
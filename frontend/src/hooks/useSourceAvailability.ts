@@ -0,0 +1,64 @@
+import { useCallback, useEffect, useState } from 'react';
+import { apiService } from '../services/api.service';
+import type { BackendReadiness, ContentSourceName } from '../types';
+
+// Dependency whose failure makes each source unavailable
+const SOURCE_DEPENDENCIES: Partial<
+  Record<ContentSourceName, keyof BackendReadiness['dependencies']>
+> = {
+  ai: 'ai',
+  wikipedia: 'wikipedia',
+  corpus: 'corpus',
+  custom: 'storage',
+};
+
+/**
+ * Which content sources the backend can serve right now, from its readiness report
+ * Every source counts as available until the report arrives, or when it cannot be
+ * fetched, so a failed check never blocks the user more than the backend would
+ */
+export const useSourceAvailability = () => {
+  const [readiness, setReadiness] = useState<BackendReadiness | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    apiService
+      .getReadiness()
+      .then((report) => {
+        if (!cancelled) setReadiness(report);
+      })
+      .catch((error) => {
+        console.warn('Readiness check failed, assuming every source is available:', error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const isAvailable = useCallback(
+    (source: ContentSourceName) => readiness?.sources[source] ?? true,
+    [readiness]
+  );
+
+  /**
+   * Why a source is unavailable, for tooltips; undefined while it is available
+   */
+  const unavailableReason = useCallback(
+    (source: ContentSourceName): string | undefined => {
+      if (!readiness || readiness.sources[source]) return undefined;
+
+      const dependency = SOURCE_DEPENDENCIES[source];
+      const message = dependency && readiness.dependencies[dependency].message;
+      if (message) return message;
+
+      return source === 'combined'
+        ? 'AI and Wikipedia are both unavailable'
+        : 'This source is currently unavailable';
+    },
+    [readiness]
+  );
+
+  return { readiness, isAvailable, unavailableReason };
+};
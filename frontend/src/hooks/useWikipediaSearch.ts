@@ -0,0 +1,26 @@
+import { useCallback, useState } from 'react';
+import { apiService } from '../services/api.service';
+import type { LanguageCode, WikipediaSearchResults } from '../types';
+
+/**
+ * Look up candidate Wikipedia articles for a theme before fetching content
+ * Resolves to null when the search fails, so callers can carry on without a choice
+ */
+export const useWikipediaSearch = (theme: string, language: LanguageCode) => {
+  const [isSearching, setIsSearching] = useState(false);
+
+  const search = useCallback(async (): Promise<WikipediaSearchResults | null> => {
+    setIsSearching(true);
+
+    try {
+      return await apiService.searchWikipedia(theme, language);
+    } catch (error) {
+      console.warn('Wikipedia search failed, continuing without an article choice:', error);
+      return null;
+    } finally {
+      setIsSearching(false);
+    }
+  }, [theme, language]);
+
+  return { search, isSearching };
+};
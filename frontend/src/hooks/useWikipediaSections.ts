@@ -0,0 +1,27 @@
+import { useCallback, useState } from 'react';
+import { apiService } from '../services/api.service';
+import type { LanguageCode, WikipediaArticleSections } from '../types';
+
+/**
+ * Load the section list of the Wikipedia article for a theme on demand
+ */
+export const useWikipediaSections = (theme: string, language: LanguageCode, article?: string) => {
+  const [sections, setSections] = useState<WikipediaArticleSections | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      setSections(await apiService.fetchWikipediaSections(theme, language, article));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load article sections');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [theme, language, article]);
+
+  return { sections, isLoading, error, load };
+};
@@ -0,0 +1,242 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { ApiService } from './api.service';
+
+/**
+ * Fake fetch response whose body yields the given chunks
+ */
+const streamResponse = (chunks: string[]) => {
+  const encoder = new TextEncoder();
+  const queue = chunks.map((chunk) => encoder.encode(chunk));
+  const cancel = vi.fn().mockResolvedValue(undefined);
+
+  return {
+    ok: true,
+    status: 200,
+    body: {
+      getReader: () => ({
+        read: async () =>
+          queue.length > 0
+            ? { done: false, value: queue.shift() }
+            : { done: true, value: undefined },
+        cancel,
+      }),
+    },
+    cancel,
+  };
+};
+
+const event = (name: string, data: unknown) => `event: ${name}\ndata: ${JSON.stringify(data)}\n\n`;
+
+describe('ApiService.streamContent', () => {
+  const api = new ApiService('http://api.test');
+  const content = { id: 'content_1', text: 'Hello world.', source: 'ai' };
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('forwards tokens and resolves with the final content', async () => {
+    const response = streamResponse([
+      event('token', { text: 'Hello ' }),
+      event('token', { text: 'world.' }),
+      event('done', { success: true, data: content }),
+    ]);
+    const fetchMock = vi.fn().mockResolvedValue(response);
+    vi.stubGlobal('fetch', fetchMock);
+    const chunks: string[] = [];
+
+    const result = await api.streamContent({ theme: 'Greetings' }, (chunk) => chunks.push(chunk));
+
+    expect(chunks).toEqual(['Hello ', 'world.']);
+    expect(result).toEqual(content);
+    expect(response.cancel).toHaveBeenCalled();
+    expect(fetchMock).toHaveBeenCalledWith(
+      'http://api.test/content/generate/stream',
+      expect.objectContaining({ method: 'POST' })
+    );
+  });
+
+  it('handles events split across network chunks', async () => {
+    const payload = event('token', { text: 'Split' }) + event('done', { data: content });
+    vi.stubGlobal(
+      'fetch',
+      vi
+        .fn()
+        .mockResolvedValue(
+          streamResponse([payload.slice(0, 7), payload.slice(7, 30), payload.slice(30)])
+        )
+    );
+    const chunks: string[] = [];
+
+    const result = await api.streamContent({ theme: 'Split' }, (chunk) => chunks.push(chunk));
+
+    expect(chunks).toEqual(['Split']);
+    expect(result).toEqual(content);
+  });
+
+  it('rejects with the server error event', async () => {
+    vi.stubGlobal(
+      'fetch',
+      vi
+        .fn()
+        .mockResolvedValue(
+          streamResponse([event('token', { text: 'Part' }), event('error', { error: 'AI failed' })])
+        )
+    );
+
+    await expect(api.streamContent({ theme: 'Broken' }, () => {})).rejects.toThrow('AI failed');
+  });
+
+  it('rejects when the stream ends without a final event', async () => {
+    vi.stubGlobal(
+      'fetch',
+      vi.fn().mockResolvedValue(streamResponse([event('token', { text: 'Cut' })]))
+    );
+
+    await expect(api.streamContent({ theme: 'Cut' }, () => {})).rejects.toThrow(
+      'Content stream ended before generation finished'
+    );
+  });
+});
+
+describe('ApiService.fetchWikipediaSections', () => {
+  const api = new ApiService('http://api.test');
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('requests the sections of a pinned article', async () => {
+    const sections = {
+      articleTitle: 'Volcano',
+      url: 'https://en.wikipedia.org/wiki/Volcano',
+      sections: [{ index: 0, title: 'Introduction', level: 1, wordCount: 120 }],
+    };
+    const fetchMock = vi.fn().mockResolvedValue({
+      ok: true,
+      json: async () => ({ success: true, data: sections }),
+    });
+    vi.stubGlobal('fetch', fetchMock);
+
+    const result = await api.fetchWikipediaSections('Volcanoes', 'de', 'Vulkan');
+
+    expect(result).toEqual(sections);
+    expect(fetchMock).toHaveBeenCalledWith(
+      'http://api.test/content/wikipedia/Volcanoes/sections?language=de&article=Vulkan',
+      expect.any(Object)
+    );
+  });
+
+  it('rejects with the server error message', async () => {
+    vi.stubGlobal(
+      'fetch',
+      vi.fn().mockResolvedValue({
+        ok: false,
+        status: 404,
+        json: async () => ({ error: 'No Wikipedia articles found for "Nothing"' }),
+      })
+    );
+
+    await expect(api.fetchWikipediaSections('Nothing')).rejects.toThrow(
+      'No Wikipedia articles found'
+    );
+  });
+});
+
+describe('ApiService.searchWikipedia', () => {
+  const api = new ApiService('http://api.test');
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('returns candidates with disambiguation flags', async () => {
+    const results = {
+      query: 'Mercury',
+      ambiguous: true,
+      results: [
+        {
+          title: 'Mercury (planet)',
+          description: 'Smallest planet in the Solar System',
+          url: 'https://fr.wikipedia.org/wiki/Mercury_(planet)',
+          disambiguation: false,
+        },
+        {
+          title: 'Mercury',
+          description: '',
+          url: 'https://fr.wikipedia.org/wiki/Mercury',
+          disambiguation: true,
+        },
+      ],
+    };
+    const fetchMock = vi.fn().mockResolvedValue({
+      ok: true,
+      json: async () => ({ success: true, data: results }),
+    });
+    vi.stubGlobal('fetch', fetchMock);
+
+    await expect(api.searchWikipedia('Mercury', 'fr')).resolves.toEqual(results);
+    expect(fetchMock).toHaveBeenCalledWith(
+      'http://api.test/content/wikipedia/Mercury/search?language=fr',
+      expect.any(Object)
+    );
+  });
+});
+
+describe('ApiService readiness', () => {
+  const api = new ApiService('http://localhost:3001/api');
+
+  const report = (status: string, sources: Record<string, boolean>) => ({
+    status,
+    checkedAt: '2024-05-01T10:00:00.000Z',
+    dependencies: {
+      ai: { status: 'unavailable', message: 'No AI provider is configured' },
+      wikipedia: { status: 'ok' },
+      corpus: { status: 'ok', documents: 3 },
+      storage: { status: status === 'unavailable' ? 'unavailable' : 'ok' },
+      cache: { status: 'ok' },
+    },
+    sources,
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('reads the source availability from the readiness endpoint', async () => {
+    const fetchMock = vi.fn().mockResolvedValue({
+      ok: true,
+      status: 200,
+      json: async () => ({ success: true, data: report('degraded', { ai: false, code: true }) }),
+    });
+    vi.stubGlobal('fetch', fetchMock);
+
+    const readiness = await api.getReadiness();
+
+    expect(fetchMock).toHaveBeenCalledWith('http://localhost:3001/health/ready');
+    expect(readiness.checkedAt).toEqual(new Date('2024-05-01T10:00:00.000Z'));
+    expect(readiness.sources).toEqual({ ai: false, code: true });
+    await expect(api.healthCheck()).resolves.toBe(true);
+  });
+
+  it('reports an unhealthy backend when it cannot store data', async () => {
+    vi.stubGlobal(
+      'fetch',
+      vi.fn().mockResolvedValue({
+        ok: false,
+        status: 503,
+        json: async () => ({ success: false, data: report('unavailable', {}) }),
+      })
+    );
+
+    await expect(api.getReadiness()).resolves.toMatchObject({ status: 'unavailable' });
+    await expect(api.healthCheck()).resolves.toBe(false);
+  });
+
+  it('reports an unhealthy backend when it cannot be reached', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.stubGlobal('fetch', vi.fn().mockRejectedValue(new TypeError('Failed to fetch')));
+
+    await expect(api.healthCheck()).resolves.toBe(false);
+  });
+});
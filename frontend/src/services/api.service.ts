@@ -1,12 +1,93 @@
-import type { StudyContent } from '../types';
+import type {
+  BackendReadiness,
+  CodeLanguage,
+  HistoricalSession,
+  KeyboardLayoutType,
+  LanguageCode,
+  StudyContent,
+  SyncedPreferences,
+  WikipediaArticleSections,
+  WikipediaSearchResults,
+} from '../types';
+import { AuthTokenStorage, SyncStateStorage } from '../utils/localStorage';
 
 const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001/api';
 
 export interface ContentGenerationRequest {
   theme: string;
   length?: number;
-  source?: 'ai' | 'wikipedia' | 'combined';
-  language?: 'en' | 'pt';
+  source?: 'ai' | 'wikipedia' | 'combined' | 'offline' | 'corpus' | 'code';
+  language?: LanguageCode;
+  /** Seed for reproducible offline content */
+  seed?: string | number;
+  /** Difficulty level, or a target score from 0 (easiest) to 100 */
+  difficulty?: 'easy' | 'medium' | 'hard' | number;
+  /** Wikipedia source only: a section index, or "next" for the section after afterSection */
+  section?: number | 'next';
+  afterSection?: number;
+  /** Exact Wikipedia article title, instead of the top search result */
+  article?: string;
+  /** Target words per passage; the response then carries the text as an ordered lesson */
+  passageLength?: number;
+  /** Code source only: programming language of the snippet, any when omitted */
+  codeLanguage?: CodeLanguage;
+}
+
+/**
+ * Text the user supplies for practice, pasted or read from a .txt/.md file
+ */
+export interface CustomTextRequest {
+  text: string;
+  title?: string;
+  language?: LanguageCode;
+  format?: 'text' | 'markdown';
+  fileName?: string;
+}
+
+export interface SessionHistoryQuery {
+  theme?: string;
+  keyboardLayout?: KeyboardLayoutType;
+  from?: Date;
+  to?: Date;
+  minAccuracy?: number;
+  sortBy?: 'date' | 'wpm' | 'accuracy' | 'duration';
+  order?: 'asc' | 'desc';
+  limit?: number;
+  cursor?: string;
+}
+
+export interface SessionHistoryPage {
+  sessions: HistoricalSession[];
+  nextCursor: string | null;
+}
+
+export interface AuthUser {
+  id: string;
+  username: string;
+  createdAt: Date;
+}
+
+export interface AuthResult {
+  user: AuthUser;
+  token: string;
+  expiresAt: Date;
+}
+
+export interface SyncPushPayload {
+  sessions: HistoricalSession[];
+  preferences?: SyncedPreferences;
+}
+
+export interface SyncPushResult {
+  accepted: number;
+  preferences: SyncedPreferences | null;
+  serverTime: Date;
+}
+
+export interface SyncPullResult {
+  sessions: HistoricalSession[];
+  preferences: SyncedPreferences | null;
+  serverTime: Date;
 }
 
 export interface ApiResponse<T> {
@@ -15,6 +96,80 @@ export interface ApiResponse<T> {
   error?: string;
 }
 
+/**
+ * Convert date strings in a history item received from the API
+ */
+function reviveHistoricalSession(session: HistoricalSession): HistoricalSession {
+  return {
+    ...session,
+    date: new Date(session.date),
+    updatedAt: session.updatedAt ? new Date(session.updatedAt) : undefined,
+  };
+}
+
+function reviveSyncedPreferences(preferences: SyncedPreferences | null): SyncedPreferences | null {
+  if (!preferences) return null;
+
+  return {
+    data: {
+      ...preferences.data,
+      recentThemes: (preferences.data.recentThemes || []).map((theme) => ({
+        ...theme,
+        lastUsed: theme.lastUsed ? new Date(theme.lastUsed) : undefined,
+      })),
+    },
+    updatedAt: new Date(preferences.updatedAt),
+  };
+}
+
+/**
+ * Parse one Server-Sent Event block into its event name and JSON data
+ */
+function parseServerSentEvent(block: string): { event: string; data: any } | null {
+  let event = 'message';
+  const dataLines: string[] = [];
+
+  for (const line of block.split(/\r?\n/)) {
+    if (line.startsWith('event:')) {
+      event = line.slice(6).trim();
+    } else if (line.startsWith('data:')) {
+      dataLines.push(line.slice(5).trim());
+    }
+  }
+
+  return dataLines.length > 0 ? { event, data: JSON.parse(dataLines.join('\n')) } : null;
+}
+
+/**
+ * Yield the events of a Server-Sent Events response body as they arrive
+ * Stops reading when the consumer stops iterating
+ */
+async function* readServerSentEvents(
+  body: ReadableStream<Uint8Array>
+): AsyncGenerator<{ event: string; data: any }> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) return;
+
+      buffer += decoder.decode(value, { stream: true });
+      const blocks = buffer.split(/\r?\n\r?\n/);
+      buffer = blocks.pop() || '';
+
+      for (const block of blocks) {
+        const parsed = parseServerSentEvent(block);
+        if (parsed) yield parsed;
+      }
+    }
+  } finally {
+    await reader.cancel();
+  }
+}
+
 /**
  * API Service for communicating with the backend
  */
@@ -25,6 +180,144 @@ export class ApiService {
     this.baseUrl = baseUrl;
   }
 
+  /**
+   * Build request headers, including the Bearer token when signed in
+   */
+  private buildHeaders(json: boolean = true): Record<string, string> {
+    const headers: Record<string, string> = {};
+    const token = AuthTokenStorage.load();
+
+    if (json) {
+      headers['Content-Type'] = 'application/json';
+    }
+    if (token) {
+      headers.Authorization = `Bearer ${token}`;
+    }
+
+    return headers;
+  }
+
+  /**
+   * Send a request and unwrap the { success, data } envelope
+   */
+  private async request<T>(path: string, init: RequestInit, fallbackError: string): Promise<T> {
+    const response = await fetch(`${this.baseUrl}${path}`, init);
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.error || `HTTP error! status: ${response.status}`);
+    }
+
+    const result: ApiResponse<T> = await response.json();
+
+    if (!result.success || !result.data) {
+      throw new Error(result.error || fallbackError);
+    }
+
+    return result.data;
+  }
+
+  /**
+   * Whether an account token is stored
+   */
+  isAuthenticated(): boolean {
+    return AuthTokenStorage.load() !== null;
+  }
+
+  /**
+   * Create an account and keep its token for later requests
+   */
+  async register(username: string, password: string): Promise<AuthResult> {
+    const result = await this.request<AuthResult>(
+      '/auth/register',
+      {
+        method: 'POST',
+        headers: this.buildHeaders(),
+        body: JSON.stringify({ username, password }),
+      },
+      'Failed to register'
+    );
+
+    AuthTokenStorage.save(result.token);
+    return result;
+  }
+
+  /**
+   * Sign in and keep the token for later requests
+   */
+  async login(username: string, password: string): Promise<AuthResult> {
+    const result = await this.request<AuthResult>(
+      '/auth/login',
+      {
+        method: 'POST',
+        headers: this.buildHeaders(),
+        body: JSON.stringify({ username, password }),
+      },
+      'Failed to log in'
+    );
+
+    AuthTokenStorage.save(result.token);
+    return result;
+  }
+
+  /**
+   * Account the stored token belongs to
+   */
+  async getCurrentUser(): Promise<AuthUser> {
+    return this.request<AuthUser>(
+      '/auth/me',
+      { headers: this.buildHeaders(false) },
+      'Failed to load the account'
+    );
+  }
+
+  /**
+   * Forget the stored token and sync checkpoint; requests continue as a guest
+   */
+  logout(): void {
+    AuthTokenStorage.clear();
+    SyncStateStorage.clear();
+  }
+
+  /**
+   * Upload local sessions and preferences
+   */
+  async pushSync(payload: SyncPushPayload): Promise<SyncPushResult> {
+    const result = await this.request<SyncPushResult>(
+      '/sync/push',
+      {
+        method: 'POST',
+        headers: this.buildHeaders(),
+        body: JSON.stringify(payload),
+      },
+      'Failed to push changes'
+    );
+
+    return {
+      ...result,
+      preferences: reviveSyncedPreferences(result.preferences),
+      serverTime: new Date(result.serverTime),
+    };
+  }
+
+  /**
+   * Download sessions recorded on other devices since the last pull
+   */
+  async pullSync(since: Date | null): Promise<SyncPullResult> {
+    const query = since ? `?since=${encodeURIComponent(since.toISOString())}` : '';
+    const result = await this.request<SyncPullResult>(
+      `/sync/pull${query}`,
+      { headers: this.buildHeaders(false) },
+      'Failed to pull changes'
+    );
+
+    return {
+      sessions: result.sessions.map(reviveHistoricalSession),
+      preferences: reviveSyncedPreferences(result.preferences),
+      serverTime: new Date(result.serverTime),
+    };
+  }
+
   /**
    * Generate content based on theme
    */
@@ -32,14 +325,19 @@ export class ApiService {
     try {
       const response = await fetch(`${this.baseUrl}/content/generate`, {
         method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
+        headers: this.buildHeaders(),
         body: JSON.stringify({
           theme: request.theme,
           length: request.length || 300,
           source: request.source || 'combined',
           language: request.language || 'en',
+          seed: request.seed,
+          difficulty: request.difficulty,
+          section: request.section,
+          afterSection: request.afterSection,
+          article: request.article,
+          passageLength: request.passageLength,
+          codeLanguage: request.codeLanguage,
         }),
       });
 
@@ -61,13 +359,60 @@ export class ApiService {
     }
   }
 
+  /**
+   * Generate content, calling onChunk with text as the server produces it
+   * Resolves to the final content once generation finishes; its text supersedes the chunks
+   */
+  async streamContent(
+    request: ContentGenerationRequest,
+    onChunk: (chunk: string) => void,
+    signal?: AbortSignal
+  ): Promise<StudyContent> {
+    const response = await fetch(`${this.baseUrl}/content/generate/stream`, {
+      method: 'POST',
+      headers: { ...this.buildHeaders(), Accept: 'text/event-stream' },
+      body: JSON.stringify({
+        theme: request.theme,
+        length: request.length || 300,
+        source: request.source || 'combined',
+        language: request.language || 'en',
+        seed: request.seed,
+        difficulty: request.difficulty,
+        section: request.section,
+        afterSection: request.afterSection,
+        article: request.article,
+        passageLength: request.passageLength,
+        codeLanguage: request.codeLanguage,
+      }),
+      signal,
+    });
+
+    if (!response.ok || !response.body) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.error || `HTTP error! status: ${response.status}`);
+    }
+
+    for await (const { event, data } of readServerSentEvents(response.body)) {
+      if (event === 'token') {
+        onChunk(data.text);
+      } else if (event === 'done') {
+        return data.data;
+      } else if (event === 'error') {
+        throw new Error(data.error || 'Failed to generate content');
+      }
+    }
+
+    throw new Error('Content stream ended before generation finished');
+  }
+
   /**
    * Fetch Wikipedia content only
    */
-  async fetchWikipediaContent(theme: string, language: 'en' | 'pt' = 'en'): Promise<StudyContent> {
+  async fetchWikipediaContent(theme: string, language: LanguageCode = 'en'): Promise<StudyContent> {
     try {
       const response = await fetch(
-        `${this.baseUrl}/content/wikipedia/${encodeURIComponent(theme)}?language=${language}`
+        `${this.baseUrl}/content/wikipedia/${encodeURIComponent(theme)}?language=${language}`,
+        { headers: this.buildHeaders(false) }
       );
 
       if (!response.ok) {
@@ -88,17 +433,101 @@ export class ApiService {
     }
   }
 
+  /**
+   * Save a user-supplied text; the server sanitizes it and scores its difficulty
+   */
+  async saveCustomText(request: CustomTextRequest): Promise<StudyContent> {
+    const response = await fetch(`${this.baseUrl}/content/custom`, {
+      method: 'POST',
+      headers: this.buildHeaders(),
+      body: JSON.stringify(request),
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.error || `HTTP error! status: ${response.status}`);
+    }
+
+    const result: ApiResponse<StudyContent> = await response.json();
+
+    if (!result.success || !result.data) {
+      throw new Error(result.error || 'Failed to save custom text');
+    }
+
+    return result.data;
+  }
+
+  /**
+   * Candidate Wikipedia articles for a theme, flagging disambiguation pages
+   */
+  async searchWikipedia(
+    theme: string,
+    language: LanguageCode = 'en'
+  ): Promise<WikipediaSearchResults> {
+    const response = await fetch(
+      `${this.baseUrl}/content/wikipedia/${encodeURIComponent(theme)}/search?language=${language}`,
+      { headers: this.buildHeaders(false) }
+    );
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.error || `HTTP error! status: ${response.status}`);
+    }
+
+    const result: ApiResponse<WikipediaSearchResults> = await response.json();
+
+    if (!result.success || !result.data) {
+      throw new Error(result.error || 'Failed to search Wikipedia');
+    }
+
+    return result.data;
+  }
+
+  /**
+   * List the sections of the Wikipedia article for a theme
+   */
+  async fetchWikipediaSections(
+    theme: string,
+    language: LanguageCode = 'en',
+    article?: string
+  ): Promise<WikipediaArticleSections> {
+    const params = new URLSearchParams({ language });
+    if (article) {
+      params.set('article', article);
+    }
+
+    const response = await fetch(
+      `${this.baseUrl}/content/wikipedia/${encodeURIComponent(theme)}/sections?${params}`,
+      { headers: this.buildHeaders(false) }
+    );
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.error || `HTTP error! status: ${response.status}`);
+    }
+
+    const result: ApiResponse<WikipediaArticleSections> = await response.json();
+
+    if (!result.success || !result.data) {
+      throw new Error(result.error || 'Failed to fetch Wikipedia sections');
+    }
+
+    return result.data;
+  }
+
   /**
    * Generate AI content only
    */
-  async generateAIContent(theme: string, length: number = 300): Promise<StudyContent> {
+  async generateAIContent(
+    theme: string,
+    length: number = 300,
+    language: LanguageCode = 'en'
+  ): Promise<StudyContent> {
     try {
       const response = await fetch(`${this.baseUrl}/content/ai`, {
         method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({ theme, length }),
+        headers: this.buildHeaders(),
+        body: JSON.stringify({ theme, length, language }),
       });
 
       if (!response.ok) {
@@ -119,15 +548,70 @@ export class ApiService {
     }
   }
 
+  /**
+   * Fetch a page of stored session history
+   * Pass the returned nextCursor back as cursor to load the following page
+   */
+  async fetchSessionHistory(query: SessionHistoryQuery = {}): Promise<SessionHistoryPage> {
+    try {
+      const params = new URLSearchParams();
+
+      Object.entries(query).forEach(([key, value]) => {
+        if (value === undefined || value === '') return;
+        params.set(key, value instanceof Date ? value.toISOString() : String(value));
+      });
+
+      const response = await fetch(`${this.baseUrl}/metrics/history?${params.toString()}`, {
+        headers: this.buildHeaders(false),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || `HTTP error! status: ${response.status}`);
+      }
+
+      const result: ApiResponse<SessionHistoryPage> = await response.json();
+
+      if (!result.success || !result.data) {
+        throw new Error(result.error || 'Failed to fetch session history');
+      }
+
+      return {
+        ...result.data,
+        sessions: result.data.sessions.map(reviveHistoricalSession),
+      };
+    } catch (error) {
+      console.error('Session history fetch error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Status of the backend's dependencies and which content sources are available
+   * A 503 still carries the report, so it is returned rather than thrown
+   */
+  async getReadiness(): Promise<BackendReadiness> {
+    // Health endpoints are at root level, not under /api
+    const baseUrl = this.baseUrl.replace('/api', '');
+    const response = await fetch(`${baseUrl}/health/ready`);
+
+    const result: ApiResponse<BackendReadiness> = await response.json().catch(() => ({}));
+
+    if (!result.data) {
+      throw new Error(result.error || `HTTP error! status: ${response.status}`);
+    }
+
+    return { ...result.data, checkedAt: new Date(result.data.checkedAt) };
+  }
+
   /**
    * Health check endpoint
+   * Healthy while the backend can store data, even if some content sources are down
    */
   async healthCheck(): Promise<boolean> {
     try {
-      // Health endpoint is at root level, not under /api
-      const baseUrl = this.baseUrl.replace('/api', '');
-      const response = await fetch(`${baseUrl}/health`);
-      return response.ok;
+      const readiness = await this.getReadiness();
+      return readiness.status !== 'unavailable';
     } catch (error) {
       console.error('Health check failed:', error);
       return false;
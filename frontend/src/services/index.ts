@@ -1,4 +1,16 @@
 // Export API service
 
-export type { ApiResponse, ContentGenerationRequest } from './api.service';
+export type {
+  ApiResponse,
+  AuthResult,
+  AuthUser,
+  ContentGenerationRequest,
+  SessionHistoryPage,
+  SessionHistoryQuery,
+  SyncPullResult,
+  SyncPushPayload,
+  SyncPushResult,
+} from './api.service';
 export { ApiService, apiService } from './api.service';
+export type { SyncHandlers } from './sync.service';
+export { SyncEngine, syncEngine } from './sync.service';
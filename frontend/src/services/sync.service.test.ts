@@ -0,0 +1,141 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { HistoricalSession, UserPreferences } from '../types';
+import {
+  AuthTokenStorage,
+  PreferencesStorage,
+  SessionHistoryStorage,
+  SyncStateStorage,
+} from '../utils/localStorage';
+import type { ApiService } from './api.service';
+import { SyncEngine } from './sync.service';
+
+const buildSession = (sessionId: string, date: string): HistoricalSession => ({
+  sessionId,
+  theme: 'Chemistry',
+  date: new Date(date),
+  wpm: 50,
+  accuracy: 97,
+  duration: 100,
+  errorCount: 1,
+  keyboardLayout: 'QWERTY',
+});
+
+const preferences: UserPreferences = {
+  keyboardLayout: 'DVORAK',
+  recentThemes: [],
+  highlightErrors: true,
+  autoPause: false,
+  autoPauseDelay: 10,
+  language: 'en',
+};
+
+describe('SyncEngine', () => {
+  let api: { pushSync: ReturnType<typeof vi.fn>; pullSync: ReturnType<typeof vi.fn> };
+  let engine: SyncEngine;
+  const handlers = { onRemoteSessions: vi.fn(), onRemotePreferences: vi.fn() };
+  const serverTime = new Date('2024-03-01T00:00:00.000Z');
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    api = {
+      pushSync: vi.fn().mockResolvedValue({ accepted: 0, preferences: null, serverTime }),
+      pullSync: vi.fn().mockResolvedValue({ sessions: [], preferences: null, serverTime }),
+    };
+    engine = new SyncEngine(api as unknown as ApiService);
+    AuthTokenStorage.save('token');
+    SessionHistoryStorage.save([buildSession('a', '2024-01-01'), buildSession('b', '2024-01-02')]);
+  });
+
+  afterEach(() => {
+    engine.stop();
+    vi.useRealTimers();
+  });
+
+  it('should do nothing for guests', async () => {
+    AuthTokenStorage.clear();
+
+    await expect(engine.sync()).resolves.toBe(false);
+    expect(api.pushSync).not.toHaveBeenCalled();
+  });
+
+  it('should upload the whole local history on the first sync', async () => {
+    engine.start(handlers);
+    await engine.sync();
+
+    const [payload] = api.pushSync.mock.calls[0];
+    expect(payload.sessions.map((s: HistoricalSession) => s.sessionId)).toEqual(['a', 'b']);
+    expect(SyncStateStorage.load().lastPulledAt).toEqual(serverTime);
+  });
+
+  it('should push only queued sessions after the first sync', async () => {
+    SyncStateStorage.save({ ...SyncStateStorage.load(), lastPulledAt: serverTime });
+    engine.queueSession('b');
+
+    await engine.sync();
+
+    const [payload] = api.pushSync.mock.calls[0];
+    expect(payload.sessions.map((s: HistoricalSession) => s.sessionId)).toEqual(['b']);
+    expect(api.pullSync).toHaveBeenCalledWith(serverTime);
+    expect(SyncStateStorage.load().pendingSessionIds).toEqual([]);
+  });
+
+  it('should hand remote sessions to the handlers', async () => {
+    SyncStateStorage.save({ ...SyncStateStorage.load(), lastPulledAt: serverTime });
+    const remote = [buildSession('c', '2024-02-01')];
+    api.pullSync.mockResolvedValue({ sessions: remote, preferences: null, serverTime });
+
+    engine.start(handlers);
+    await engine.sync();
+
+    expect(handlers.onRemoteSessions).toHaveBeenCalledWith(remote);
+    expect(api.pushSync).not.toHaveBeenCalled();
+  });
+
+  it('should apply remote preferences only when they are newer', async () => {
+    PreferencesStorage.save(preferences);
+    engine.queuePreferences(new Date('2024-02-01'));
+    const older = { data: { ...preferences, language: 'pt' }, updatedAt: new Date('2024-01-01') };
+    const newer = { data: { ...preferences, language: 'pt' }, updatedAt: new Date('2024-02-15') };
+
+    engine.start(handlers);
+    api.pullSync.mockResolvedValueOnce({ sessions: [], preferences: older, serverTime });
+    await engine.sync();
+    expect(handlers.onRemotePreferences).not.toHaveBeenCalled();
+
+    api.pullSync.mockResolvedValueOnce({ sessions: [], preferences: newer, serverTime });
+    await engine.sync();
+    expect(handlers.onRemotePreferences).toHaveBeenCalledWith(newer.data);
+    expect(SyncStateStorage.load().preferencesUpdatedAt).toEqual(newer.updatedAt);
+  });
+
+  it('should keep the queue and retry with backoff when offline or failing', async () => {
+    vi.useFakeTimers();
+    SyncStateStorage.save({ ...SyncStateStorage.load(), lastPulledAt: serverTime });
+    api.pushSync.mockRejectedValueOnce(new Error('Network down'));
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    engine.queueSession('a');
+    await expect(engine.sync()).resolves.toBe(false);
+    expect(SyncStateStorage.load().pendingSessionIds).toEqual(['a']);
+
+    await vi.advanceTimersByTimeAsync(5000);
+
+    expect(api.pushSync).toHaveBeenCalledTimes(2);
+    expect(SyncStateStorage.load().pendingSessionIds).toEqual([]);
+  });
+
+  it('should sync when connectivity returns', async () => {
+    const onLine = vi.spyOn(navigator, 'onLine', 'get').mockReturnValue(false);
+    SyncStateStorage.save({ ...SyncStateStorage.load(), lastPulledAt: serverTime });
+    engine.queueSession('a');
+
+    engine.start(handlers);
+    await engine.sync();
+    expect(api.pushSync).not.toHaveBeenCalled();
+
+    onLine.mockReturnValue(true);
+    window.dispatchEvent(new Event('online'));
+    await vi.waitFor(() => expect(api.pushSync).toHaveBeenCalledTimes(1));
+    onLine.mockRestore();
+  });
+});
@@ -0,0 +1,233 @@
+import type { HistoricalSession, SyncedPreferences, UserPreferences } from '../types';
+import {
+  AuthTokenStorage,
+  PreferencesStorage,
+  SessionHistoryStorage,
+  SyncStateStorage,
+} from '../utils/localStorage';
+import { resolvePreferences } from '../utils/syncMerge';
+import { type ApiService, apiService } from './api.service';
+
+const SYNC_DEBOUNCE_MS = 2000;
+const INITIAL_RETRY_DELAY_MS = 5000;
+const MAX_RETRY_DELAY_MS = 5 * 60 * 1000;
+
+export interface SyncHandlers {
+  /** Sessions recorded on another device */
+  onRemoteSessions: (sessions: HistoricalSession[]) => void;
+  /** Preferences edited more recently on another device */
+  onRemotePreferences: (preferences: UserPreferences) => void;
+}
+
+/**
+ * Sync Engine - Keeps local history and preferences in step with the backend
+ * Local changes are queued in localStorage and pushed when online; failed
+ * syncs are retried with exponential backoff and whenever connectivity returns
+ */
+export class SyncEngine {
+  private api: ApiService;
+  private handlers: SyncHandlers | null = null;
+  private inFlight: Promise<boolean> | null = null;
+  private debounceTimer: ReturnType<typeof setTimeout> | null = null;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private retryDelay = INITIAL_RETRY_DELAY_MS;
+  private applyingRemote = false;
+
+  constructor(api: ApiService = apiService) {
+    this.api = api;
+  }
+
+  /**
+   * Start syncing and listen for connectivity changes
+   */
+  start(handlers: SyncHandlers): void {
+    this.handlers = handlers;
+    window.addEventListener('online', this.handleOnline);
+    void this.sync();
+  }
+
+  /**
+   * Stop syncing; queued changes stay in storage for the next start
+   */
+  stop(): void {
+    window.removeEventListener('online', this.handleOnline);
+    this.clearTimers();
+    this.handlers = null;
+  }
+
+  /**
+   * Queue a locally recorded session for upload
+   */
+  queueSession(sessionId: string): void {
+    if (this.applyingRemote) return;
+
+    const state = SyncStateStorage.load();
+    if (!state.pendingSessionIds.includes(sessionId)) {
+      SyncStateStorage.save({
+        ...state,
+        pendingSessionIds: [...state.pendingSessionIds, sessionId],
+      });
+    }
+    this.scheduleSync();
+  }
+
+  /**
+   * Queue the current preferences for upload, stamped with the edit time
+   */
+  queuePreferences(updatedAt: Date = new Date()): void {
+    if (this.applyingRemote) return;
+
+    SyncStateStorage.save({
+      ...SyncStateStorage.load(),
+      preferencesPending: true,
+      preferencesUpdatedAt: updatedAt,
+    });
+    this.scheduleSync();
+  }
+
+  /**
+   * Push queued changes, then pull remote ones
+   * Resolves to false when skipped (signed out or offline) or failed
+   */
+  sync(): Promise<boolean> {
+    if (!this.inFlight) {
+      this.inFlight = this.runSync().finally(() => {
+        this.inFlight = null;
+      });
+    }
+    return this.inFlight;
+  }
+
+  private handleOnline = (): void => {
+    this.retryDelay = INITIAL_RETRY_DELAY_MS;
+    void this.sync();
+  };
+
+  private async runSync(): Promise<boolean> {
+    // Guests have nothing to sync to; the online listener resumes offline devices
+    if (!AuthTokenStorage.load() || !navigator.onLine) {
+      return false;
+    }
+
+    try {
+      await this.push();
+      await this.pull();
+      this.retryDelay = INITIAL_RETRY_DELAY_MS;
+      return true;
+    } catch (error) {
+      console.error('Sync failed, will retry:', error);
+      this.scheduleRetry();
+      return false;
+    }
+  }
+
+  private async push(): Promise<void> {
+    const state = SyncStateStorage.load();
+    const firstSync = state.lastPulledAt === null;
+
+    if (!firstSync && state.pendingSessionIds.length === 0 && !state.preferencesPending) {
+      return;
+    }
+
+    // The first sync for an account uploads the whole local history
+    const localSessions = SessionHistoryStorage.load();
+    const pendingIds = new Set(
+      firstSync ? localSessions.map((s) => s.sessionId) : state.pendingSessionIds
+    );
+    const sessions = localSessions.filter((s) => pendingIds.has(s.sessionId));
+    const preferences = state.preferencesPending ? this.getLocalPreferences() : null;
+
+    const result = await this.api.pushSync({
+      sessions,
+      preferences: preferences ?? undefined,
+    });
+
+    // Only clear what was sent; changes queued while the request was in flight stay pending
+    const latest = SyncStateStorage.load();
+    SyncStateStorage.save({
+      ...latest,
+      pendingSessionIds: latest.pendingSessionIds.filter((id) => !pendingIds.has(id)),
+      preferencesPending:
+        latest.preferencesPending &&
+        latest.preferencesUpdatedAt?.getTime() !== state.preferencesUpdatedAt?.getTime(),
+    });
+
+    this.applyRemotePreferences(result.preferences);
+  }
+
+  private async pull(): Promise<void> {
+    const state = SyncStateStorage.load();
+    const result = await this.api.pullSync(state.lastPulledAt);
+
+    if (result.sessions.length > 0) {
+      this.applyRemote(() => this.handlers?.onRemoteSessions(result.sessions));
+    }
+    this.applyRemotePreferences(result.preferences);
+
+    SyncStateStorage.save({ ...SyncStateStorage.load(), lastPulledAt: result.serverTime });
+  }
+
+  private applyRemotePreferences(remote: SyncedPreferences | null): void {
+    const local = this.getLocalPreferences();
+
+    if (!remote || resolvePreferences(local, remote) !== remote) {
+      return;
+    }
+
+    this.applyRemote(() => this.handlers?.onRemotePreferences(remote.data));
+    SyncStateStorage.save({
+      ...SyncStateStorage.load(),
+      preferencesUpdatedAt: remote.updatedAt,
+      preferencesPending: false,
+    });
+  }
+
+  private getLocalPreferences(): SyncedPreferences | null {
+    const { preferencesUpdatedAt } = SyncStateStorage.load();
+    const data = PreferencesStorage.load();
+
+    return data && preferencesUpdatedAt ? { data, updatedAt: preferencesUpdatedAt } : null;
+  }
+
+  /**
+   * Run a store update without re-queueing the changes it triggers
+   */
+  private applyRemote(update: () => void): void {
+    this.applyingRemote = true;
+    try {
+      update();
+    } finally {
+      this.applyingRemote = false;
+    }
+  }
+
+  private scheduleSync(): void {
+    if (this.debounceTimer) {
+      clearTimeout(this.debounceTimer);
+    }
+    this.debounceTimer = setTimeout(() => {
+      this.debounceTimer = null;
+      void this.sync();
+    }, SYNC_DEBOUNCE_MS);
+  }
+
+  private scheduleRetry(): void {
+    if (this.retryTimer) return;
+
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      void this.sync();
+    }, this.retryDelay);
+    this.retryDelay = Math.min(this.retryDelay * 2, MAX_RETRY_DELAY_MS);
+  }
+
+  private clearTimers(): void {
+    if (this.debounceTimer) clearTimeout(this.debounceTimer);
+    if (this.retryTimer) clearTimeout(this.retryTimer);
+    this.debounceTimer = null;
+    this.retryTimer = null;
+  }
+}
+
+// Export singleton instance
+export const syncEngine = new SyncEngine();
@@ -6,6 +6,7 @@ export {
   usePersistence,
   usePersistPreferences,
   usePersistSessionHistory,
+  useSync,
 } from './persistence';
 export { useContentStore } from './useContentStore';
 export { useMetricsStore } from './useMetricsStore';
@@ -1,4 +1,5 @@
 import { useEffect } from 'react';
+import { syncEngine } from '../services/sync.service';
 import { isLocalStorageAvailable, runMigrations } from '../utils/dataMigration';
 import { PreferencesStorage, SessionHistoryStorage } from '../utils/localStorage';
 import { useMetricsStore } from './useMetricsStore';
@@ -111,6 +112,56 @@ export function usePersistCurrentSession(): void {
   }, [currentSession, autoSaveSession]);
 }
 
+const SYNCED_PREFERENCE_KEYS = [
+  'keyboardLayout',
+  'recentThemes',
+  'highlightErrors',
+  'autoPause',
+  'autoPauseDelay',
+  'language',
+] as const;
+
+/**
+ * Hook to sync history and preferences with the backend for signed-in users
+ * Local changes are queued for upload; remote changes are merged into the stores
+ */
+export function useSync(): void {
+  useEffect(() => {
+    syncEngine.start({
+      onRemoteSessions: (sessions) => {
+        useMetricsStore.getState().mergeSessions(sessions);
+      },
+      onRemotePreferences: (preferences) => {
+        usePreferencesStore.getState().updatePreferences(preferences);
+      },
+    });
+
+    const unsubscribeMetrics = useMetricsStore.subscribe((state, previous) => {
+      if (state.sessionHistory === previous.sessionHistory) return;
+
+      const previousIds = new Set(previous.sessionHistory.map((s) => s.sessionId));
+      state.sessionHistory
+        .filter((session) => !previousIds.has(session.sessionId))
+        .forEach((session) => {
+          syncEngine.queueSession(session.sessionId);
+        });
+    });
+
+    const unsubscribePreferences = usePreferencesStore.subscribe((state, previous) => {
+      const changed = SYNCED_PREFERENCE_KEYS.some((key) => state[key] !== previous[key]);
+      if (changed) {
+        syncEngine.queuePreferences();
+      }
+    });
+
+    return () => {
+      unsubscribeMetrics();
+      unsubscribePreferences();
+      syncEngine.stop();
+    };
+  }, []);
+}
+
 /**
  * Hook to set up all persistence
  * Use this in your root App component
@@ -119,4 +170,5 @@ export function usePersistence(): void {
   usePersistPreferences();
   usePersistSessionHistory();
   usePersistCurrentSession();
+  useSync();
 }
@@ -1,5 +1,9 @@
 import { create } from 'zustand';
-import { apiService, type ContentGenerationRequest } from '../services/api.service';
+import {
+  apiService,
+  type ContentGenerationRequest,
+  type CustomTextRequest,
+} from '../services/api.service';
 import type { StudyContent } from '../types';
 
 interface ContentState {
@@ -10,6 +14,10 @@ interface ContentState {
   isLoading: boolean;
   error: string | null;
 
+  // Text received so far while content is being streamed
+  streamingText: string;
+  isStreaming: boolean;
+
   // Content cache for offline usage
   contentCache: Map<string, StudyContent>;
 
@@ -18,6 +26,8 @@ interface ContentState {
 
   // Actions
   fetchContent: (request: ContentGenerationRequest) => Promise<void>;
+  streamContent: (request: ContentGenerationRequest) => Promise<void>;
+  saveCustomContent: (request: CustomTextRequest) => Promise<void>;
   clearError: () => void;
   clearContent: () => void;
   getCachedContent: (theme: string) => StudyContent | undefined;
@@ -39,10 +49,69 @@ const DEFAULT_FALLBACK_CONTENT: StudyContent = {
   },
 };
 
+const MAX_CACHED_CONTENT = 10;
+
+const getCacheKey = (request: ContentGenerationRequest): string =>
+  [
+    request.theme,
+    request.source || 'combined',
+    request.language || 'en',
+    request.difficulty ?? 'any',
+    ...(request.section === undefined && !request.article
+      ? []
+      : [`${request.article ?? ''}#${request.section ?? ''}>${request.afterSection ?? ''}`]),
+    ...(request.passageLength === undefined ? [] : [`lesson${request.passageLength}`]),
+    ...(request.codeLanguage ? [request.codeLanguage] : []),
+  ].join('_');
+
+/**
+ * Add content to the cache, dropping the oldest entry when full
+ */
+const withCachedContent = (
+  cache: Map<string, StudyContent>,
+  key: string,
+  content: StudyContent
+): Map<string, StudyContent> => {
+  const newCache = new Map(cache);
+  newCache.set(key, content);
+
+  if (newCache.size > MAX_CACHED_CONTENT) {
+    const firstKey = newCache.keys().next().value;
+    if (firstKey) {
+      newCache.delete(firstKey);
+    }
+  }
+
+  return newCache;
+};
+
+/**
+ * State after a failed request: the fallback content when available, otherwise the error
+ */
+const getFailureState = (error: unknown, fallback: StudyContent | null): Partial<ContentState> => {
+  const errorMessage = error instanceof Error ? error.message : 'Failed to generate content';
+
+  if (fallback) {
+    console.log('Using fallback content due to error');
+    return {
+      currentContent: fallback,
+      isLoading: false,
+      error: `${errorMessage}. Using fallback content.`,
+    };
+  }
+
+  return {
+    isLoading: false,
+    error: errorMessage,
+  };
+};
+
 export const useContentStore = create<ContentState>((set, get) => ({
   currentContent: null,
   isLoading: false,
   error: null,
+  streamingText: '',
+  isStreaming: false,
   contentCache: new Map(),
   fallbackContent: DEFAULT_FALLBACK_CONTENT,
 
@@ -51,7 +120,7 @@ export const useContentStore = create<ContentState>((set, get) => ({
 
     try {
       // Check cache first
-      const cacheKey = `${request.theme}_${request.source || 'combined'}_${request.language || 'en'}`;
+      const cacheKey = getCacheKey(request);
       const cached = get().contentCache.get(cacheKey);
 
       if (cached) {
@@ -66,50 +135,77 @@ export const useContentStore = create<ContentState>((set, get) => ({
       // Fetch from API
       const content = await apiService.generateContent(request);
 
-      // Update cache
-      const newCache = new Map(get().contentCache);
-      newCache.set(cacheKey, content);
-
-      // Limit cache size to 10 items
-      if (newCache.size > 10) {
-        const firstKey = newCache.keys().next().value;
-        if (firstKey) {
-          newCache.delete(firstKey);
-        }
-      }
-
       set({
         currentContent: content,
         isLoading: false,
-        contentCache: newCache,
+        contentCache: withCachedContent(get().contentCache, cacheKey, content),
       });
     } catch (error) {
       console.error('Failed to fetch content:', error);
+      set(getFailureState(error, get().fallbackContent));
+    }
+  },
 
-      const errorMessage = error instanceof Error ? error.message : 'Failed to generate content';
+  streamContent: async (request: ContentGenerationRequest) => {
+    const cacheKey = getCacheKey(request);
+    const cached = get().contentCache.get(cacheKey);
 
-      // Try to use fallback content
-      const fallback = get().fallbackContent;
+    if (cached) {
+      console.log('Using cached content for:', request.theme);
+      set({ currentContent: cached, isLoading: false, error: null });
+      return;
+    }
 
-      if (fallback) {
-        console.log('Using fallback content due to error');
-        set({
-          currentContent: fallback,
-          isLoading: false,
-          error: `${errorMessage}. Using fallback content.`,
-        });
-      } else {
-        set({
-          isLoading: false,
-          error: errorMessage,
-        });
-      }
+    set({
+      currentContent: null,
+      isLoading: true,
+      isStreaming: true,
+      streamingText: '',
+      error: null,
+    });
+
+    try {
+      const content = await apiService.streamContent(request, (chunk) => {
+        set((state) => ({ streamingText: state.streamingText + chunk, isLoading: false }));
+      });
+
+      set({
+        currentContent: content,
+        isLoading: false,
+        isStreaming: false,
+        streamingText: '',
+        contentCache: withCachedContent(get().contentCache, cacheKey, content),
+      });
+    } catch (error) {
+      console.error('Failed to stream content:', error);
+      set({
+        ...getFailureState(error, get().fallbackContent),
+        isStreaming: false,
+        streamingText: '',
+      });
+    }
+  },
+
+  saveCustomContent: async (request: CustomTextRequest) => {
+    set({ isLoading: true, error: null });
+
+    try {
+      const content = await apiService.saveCustomText(request);
+      set({ currentContent: content, isLoading: false });
+    } catch (error) {
+      console.error('Failed to save custom text:', error);
+      // Falling back to other content would lose the user's text, so only report the error
+      set({
+        isLoading: false,
+        error: error instanceof Error ? error.message : 'Failed to save custom text',
+      });
     }
   },
 
   clearError: () => set({ error: null }),
 
-  clearContent: () => set({ currentContent: null, error: null }),
+  clearContent: () =>
+    set({ currentContent: null, error: null, streamingText: '', isStreaming: false }),
 
   getCachedContent: (theme: string) => {
     const cache = get().contentCache;
@@ -1,5 +1,6 @@
 import { create } from 'zustand';
 import type { ErrorPattern, HistoricalSession } from '../types';
+import { mergeSessionHistory } from '../utils/syncMerge';
 
 interface MetricsState {
   // Historical data
@@ -15,6 +16,7 @@ interface MetricsState {
   // Actions
   addSession: (session: HistoricalSession) => void;
   removeSession: (sessionId: string) => void;
+  mergeSessions: (sessions: HistoricalSession[]) => number;
 
   clearHistory: () => void;
   updateErrorPatterns: (patterns: ErrorPattern[]) => void;
@@ -61,6 +63,16 @@ export const useMetricsStore = create<MetricsState>((set, get) => ({
     get().calculateStatistics();
   },
 
+  mergeSessions: (sessions) => {
+    const { sessionHistory } = get();
+    const merged = mergeSessionHistory(sessionHistory, sessions);
+
+    set({ sessionHistory: merged });
+    get().calculateStatistics();
+
+    return merged.length - sessionHistory.length;
+  },
+
   clearHistory: () => {
     set({
       sessionHistory: [],
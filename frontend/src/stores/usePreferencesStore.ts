@@ -1,5 +1,5 @@
 import { create } from 'zustand';
-import type { KeyboardLayoutType, ThemeSelection, UserPreferences } from '../types';
+import type { KeyboardLayoutType, LanguageCode, ThemeSelection, UserPreferences } from '../types';
 
 interface PreferencesState extends UserPreferences {
   // Actions
@@ -10,7 +10,7 @@ interface PreferencesState extends UserPreferences {
   setHighlightErrors: (highlight: boolean) => void;
   setAutoPause: (enabled: boolean) => void;
   setAutoPauseDelay: (delay: number) => void;
-  setLanguage: (language: 'pt' | 'en') => void;
+  setLanguage: (language: LanguageCode) => void;
   resetPreferences: () => void;
 
   // Import/Export
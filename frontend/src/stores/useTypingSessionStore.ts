@@ -11,11 +11,17 @@ interface TypingSessionState {
   autoSaveTimer: number | null;
 
   // Actions
-  startSession: (content: StudyContent, theme: string, keyboardLayout: string) => void;
+  // Only the text is needed, so a session can start on content that is still streaming in
+  startSession: (
+    content: Pick<StudyContent, 'text'>,
+    theme: string,
+    keyboardLayout: string
+  ) => void;
   endSession: () => void;
   pauseSession: () => void;
   resumeSession: () => void;
   updateProgress: (position: number, typedText: string) => void;
+  updateContent: (content: string) => void;
   addError: (error: TypingError) => void;
   updateMetrics: (metrics: Partial<SessionMetrics>) => void;
   resetSession: () => void;
@@ -154,6 +160,13 @@ export const useTypingSessionStore = create<TypingSessionState>((set, get) => ({
     setupAutoPause(10); // Default 10 seconds
   },
 
+  updateContent: (content) => {
+    const { currentSession } = get();
+    if (!currentSession) return;
+
+    set({ currentSession: { ...currentSession, content } });
+  },
+
   addError: (error) => {
     const { currentSession } = get();
     if (!currentSession) return;
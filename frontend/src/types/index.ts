@@ -41,16 +41,105 @@ export interface StudyContent {
   id: string;
   theme: string;
   text: string;
-  source: 'ai' | 'wikipedia' | 'combined';
+  source: 'ai' | 'wikipedia' | 'combined' | 'offline' | 'corpus' | 'custom' | 'code';
   difficulty: number;
   wordCount: number;
   estimatedTime: number; // in minutes
   createdAt: Date;
   metadata: {
-    aiModel?: string;
+    aiProvider?: string;
+    aiModel?: string; // "<provider>-<model>" of the model that produced the text
     wikipediaArticle?: string;
+    wikipediaSection?: WikipediaSectionPosition; // set when a single article section was requested
+    offlineSeed?: string; // seed of deterministic offline content
+    corpusDocument?: string; // corpus file the passage was taken from
+    customFileName?: string; // uploaded file a custom text came from
+    codeLanguage?: CodeLanguage; // programming language of a code snippet
+    snippetTitle?: string;
+    cacheHit?: boolean; // served from the server-side content cache
+    cachedAt?: Date;
+    aiBudgetExceeded?: boolean; // served without AI because the AI budget was spent
+    difficultyScore?: number; // 0 (easiest) to 100
+    requestedDifficulty?: 'easy' | 'medium' | 'hard' | number;
+    difficultyMatched?: boolean; // whether the score fell in the requested band
     language: string;
+    detectedLanguage?: string; // language the server identified the text as, when it could
   };
+  passages?: Passage[]; // ordered lesson, present when a passage length was requested
+}
+
+/**
+ * One sentence-bounded passage of a lesson; index is its position, starting at 0
+ */
+export interface Passage {
+  id: string;
+  index: number;
+  text: string;
+  wordCount: number;
+}
+
+/**
+ * Where a section sits in its article; next is the next readable section, null at the end
+ */
+export interface WikipediaSectionPosition {
+  index: number;
+  title: string;
+  count: number;
+  next: number | null;
+}
+
+/**
+ * Candidate articles for a theme; ambiguous is set when one is a disambiguation page
+ */
+export interface WikipediaSearchResults {
+  query: string;
+  ambiguous: boolean;
+  results: Array<{
+    title: string;
+    description: string;
+    url: string;
+    disambiguation: boolean;
+  }>;
+}
+
+/**
+ * Content sources the backend can serve
+ */
+export type ContentSourceName =
+  | 'ai'
+  | 'wikipedia'
+  | 'combined'
+  | 'offline'
+  | 'corpus'
+  | 'code'
+  | 'custom';
+
+/**
+ * Backend dependency status from /health/ready; sources lists which content sources
+ * can currently be served
+ */
+export interface BackendReadiness {
+  status: 'ready' | 'degraded' | 'unavailable';
+  checkedAt: Date;
+  dependencies: Record<
+    'ai' | 'wikipedia' | 'corpus' | 'storage' | 'cache',
+    { status: 'ok' | 'unavailable' | 'disabled'; message?: string }
+  >;
+  sources: Record<ContentSourceName, boolean>;
+}
+
+/**
+ * Sections of a Wikipedia article, index 0 being the lead before the first heading
+ */
+export interface WikipediaArticleSections {
+  articleTitle: string;
+  url: string;
+  sections: Array<{
+    index: number;
+    title: string;
+    level: number; // 1 for the lead, 2 for top-level headings, 3+ for subheadings
+    wordCount: number;
+  }>;
 }
 
 /**
@@ -78,6 +167,21 @@ export interface UserSession {
  */
 export type KeyboardLayoutType = 'QWERTY' | 'DVORAK' | 'AZERTY';
 
+/**
+ * Supported content languages (see config/languages)
+ */
+export type LanguageCode = 'en' | 'pt' | 'es' | 'fr' | 'de' | 'it';
+
+/**
+ * Programming languages of the bundled code snippets (see config/codeLanguages)
+ */
+export type CodeLanguage = 'javascript' | 'typescript' | 'python' | 'go' | 'rust';
+
+/**
+ * How text is typed: prose is reflowed, code keeps its whitespace and line breaks
+ */
+export type TypingMode = 'text' | 'code';
+
 /**
  * Keyboard layout configuration
  */
@@ -109,7 +213,7 @@ export interface UserPreferences {
   highlightErrors: boolean;
   autoPause: boolean;
   autoPauseDelay: number; // in seconds
-  language: 'pt' | 'en';
+  language: LanguageCode;
 }
 
 /**
@@ -124,6 +228,25 @@ export interface HistoricalSession {
   duration: number; // in seconds
   errorCount: number;
   keyboardLayout: KeyboardLayoutType;
+  updatedAt?: Date; // set by the server once the session has been synced
+}
+
+/**
+ * Preferences as exchanged with the backend during sync
+ */
+export interface SyncedPreferences {
+  data: UserPreferences;
+  updatedAt: Date; // local edit time, used for last-writer-wins
+}
+
+/**
+ * Local bookkeeping for the sync engine
+ */
+export interface SyncState {
+  lastPulledAt: Date | null;
+  preferencesUpdatedAt: Date | null;
+  pendingSessionIds: string[];
+  preferencesPending: boolean;
 }
 
 /**
@@ -132,8 +255,8 @@ export interface HistoricalSession {
 export interface ContentRequest {
   theme: string;
   length: number; // word count
-  language: 'pt' | 'en';
-  difficulty?: 'easy' | 'medium' | 'hard';
+  language: LanguageCode;
+  difficulty?: 'easy' | 'medium' | 'hard' | number; // level, or a 0-100 score target
 }
 
 /**
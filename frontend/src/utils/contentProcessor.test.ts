@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import {
+  formatTextForTyping,
+  getCommonPrefixLength,
+  getCompleteSentences,
+  trimCustomText,
+} from './contentProcessor';
+
+describe('getCompleteSentences', () => {
+  it('returns text up to the last finished sentence', () => {
+    expect(getCompleteSentences('First one. Second one! Third is still')).toBe(
+      'First one. Second one!'
+    );
+  });
+
+  it('returns an empty string before the first sentence ends', () => {
+    expect(getCompleteSentences('Still writing the first')).toBe('');
+  });
+
+  it('waits for whitespace after a terminator', () => {
+    expect(getCompleteSentences('Pi is roughly 3.')).toBe('');
+    expect(getCompleteSentences('Pi is roughly 3.14. Next')).toBe('Pi is roughly 3.14.');
+  });
+
+  it('keeps closing quotes and paragraph breaks', () => {
+    expect(getCompleteSentences('He said "hi." \n\nThen')).toBe('He said "hi."');
+  });
+});
+
+describe('getCommonPrefixLength', () => {
+  it('counts the characters both texts start with', () => {
+    expect(getCommonPrefixLength('Lava flows. Ash', 'Lava flows, ash')).toBe(10);
+    expect(getCommonPrefixLength('Lava', 'Lava flows.')).toBe(4);
+    expect(getCommonPrefixLength('', 'Lava')).toBe(0);
+  });
+});
+
+describe('trimCustomText', () => {
+  it('trims lines, collapses spaces and extra blank lines', () => {
+    expect(trimCustomText('  First   line  \r\n\tSecond\n\n\n\n  Next paragraph. \n')).toBe(
+      'First line\nSecond\n\nNext paragraph.'
+    );
+  });
+});
+
+describe('formatTextForTyping', () => {
+  it('collapses whitespace in prose', () => {
+    expect(formatTextForTyping('  One\n    two\tthree  ')).toBe('One two three');
+  });
+
+  it('keeps indentation and line breaks in code', () => {
+    const code = '\n\nfunc main() {\r\n\tif ok {  \n\t\treturn\n\t}\n}\n\n';
+
+    expect(formatTextForTyping(code, 'code')).toBe(
+      'func main() {\n    if ok {\n        return\n    }\n}'
+    );
+  });
+
+  it('expands tabs to the next tab stop in code', () => {
+    expect(formatTextForTyping('  x\t= 1', 'code')).toBe('  x = 1');
+  });
+});
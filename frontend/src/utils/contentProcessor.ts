@@ -1,4 +1,5 @@
-import type { StudyContent } from '../types';
+import type { StudyContent, TypingMode } from '../types';
+import { normalizeTextForTyping } from './keyboardUtils';
 
 /**
  * Content processing utilities for formatting and preparing content for typing practice
@@ -18,7 +19,7 @@ export interface ProcessedContent {
  * Process and format content for typing practice
  */
 export function processContent(content: StudyContent): ProcessedContent {
-  const formatted = formatTextForTyping(content.text);
+  const formatted = formatTextForTyping(content.text, getTypingMode(content));
   const wordCount = countWords(formatted);
   const characterCount = formatted.length;
   const difficulty = calculateDifficulty(formatted, wordCount);
@@ -35,13 +36,25 @@ export function processContent(content: StudyContent): ProcessedContent {
   };
 }
 
+/**
+ * Typing mode for content: code snippets keep their layout
+ */
+export function getTypingMode(content: StudyContent): TypingMode {
+  return content.source === 'code' ? 'code' : 'text';
+}
+
 /**
  * Format text for typing practice
  * - Remove extra whitespace
  * - Normalize line breaks
  * - Remove special formatting characters
+ * Code keeps its indentation and line breaks, see normalizeTextForTyping
  */
-export function formatTextForTyping(text: string): string {
+export function formatTextForTyping(text: string, mode: TypingMode = 'text'): string {
+  if (mode === 'code') {
+    return normalizeTextForTyping(text, 'code');
+  }
+
   return text
     .replace(/\s+/g, ' ') // Replace multiple spaces with single space
     .replace(/\n\s*\n/g, '\n\n') // Normalize paragraph breaks
@@ -153,3 +166,39 @@ export function truncateToWordCount(text: string, maxWords: number): string {
 export function getPreviewText(text: string, wordCount: number = 20): string {
   return truncateToWordCount(text, wordCount);
 }
+
+/**
+ * Leading part of text that ends on a finished sentence
+ * Used while content is streaming; a terminator only counts once whitespace follows it,
+ * since "3." may still become "3.14"
+ */
+export function getCompleteSentences(text: string): string {
+  const match = text.match(/^[\s\S]*[.!?]["')\]]?(?=\s)/);
+  return match ? match[0] : '';
+}
+
+/**
+ * Number of leading characters two texts share
+ * Lines typed input up with the final text when it differs from the streamed one
+ */
+export function getCommonPrefixLength(a: string, b: string): number {
+  let length = 0;
+  while (length < a.length && length < b.length && a[length] === b[length]) {
+    length++;
+  }
+  return length;
+}
+
+/**
+ * Tidy pasted text before saving it for practice
+ * Trims every line, collapses runs of spaces and keeps at most one blank line between paragraphs
+ */
+export function trimCustomText(text: string): string {
+  return text
+    .replace(/\r\n?/g, '\n')
+    .split('\n')
+    .map((line) => line.replace(/[ \t]+/g, ' ').trim())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
@@ -23,6 +23,7 @@ export {
 } from './dataMigration';
 export * from './errorAnalysis';
 export * from './keyboardUtils';
+export * from './lessonProgress';
 export * from './localStorage';
 export * from './metricsCalculator';
 export * from './mobileOptimizations';
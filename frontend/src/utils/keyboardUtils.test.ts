@@ -0,0 +1,16 @@
+import { describe, expect, it } from 'vitest';
+import { getAutoIndent } from './keyboardUtils';
+
+describe('getAutoIndent', () => {
+  const code = 'if (ok) {\n    run();\n}';
+
+  it('returns the indentation of the line after a line break', () => {
+    expect(getAutoIndent(code, code.indexOf('run') - 4)).toBe('    ');
+  });
+
+  it('returns nothing mid-line or for unindented lines', () => {
+    expect(getAutoIndent(code, 3)).toBe('');
+    expect(getAutoIndent(code, code.length - 1)).toBe('');
+    expect(getAutoIndent(code, 0)).toBe('');
+  });
+});
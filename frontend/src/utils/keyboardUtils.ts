@@ -3,7 +3,10 @@ import {
   getKeyboardLayout,
   isValidKeyboardLayout,
 } from '../config/keyboardLayouts';
-import type { KeyboardLayoutType } from '../types';
+import type { KeyboardLayoutType, TypingMode } from '../types';
+
+// Columns between tab stops when tabs in code are expanded to spaces
+const CODE_TAB_WIDTH = 4;
 
 /**
  * Map a physical key to its character based on the keyboard layout
@@ -126,12 +129,46 @@ export function isTypeableChar(char: string): boolean {
 
 /**
  * Normalize text for typing practice
- * Removes or replaces characters that might cause issues
+ * Removes or replaces characters that might cause issues. In code mode indentation
+ * and line breaks are kept: tabs expand to their columns and only blank lines at the
+ * start and end are dropped
  */
-export function normalizeTextForTyping(text: string): string {
+export function normalizeTextForTyping(text: string, mode: TypingMode = 'text'): string {
+  if (mode === 'code') {
+    return text
+      .replace(/\r\n?/g, '\n') // Normalize line endings
+      .split('\n')
+      .map((line) => expandTabs(line).trimEnd())
+      .join('\n')
+      .replace(/[^\P{Cc}\n]/gu, '') // Remove control characters other than line breaks
+      .replace(/^\n+|\n+$/g, '');
+  }
+
   return text
     .replace(/\r\n/g, '\n') // Normalize line endings
     .replace(/\t/g, '  ') // Replace tabs with spaces
     .replace(/[\u0000-\u001F\u007F-\u009F]/g, '') // Remove control characters
     .trim();
 }
+
+/**
+ * Replace tabs in a line with the spaces that reach the next tab stop
+ */
+export function expandTabs(line: string, tabWidth: number = CODE_TAB_WIDTH): string {
+  let result = '';
+  for (const char of line) {
+    result += char === '\t' ? ' '.repeat(tabWidth - (result.length % tabWidth)) : char;
+  }
+  return result;
+}
+
+/**
+ * Indentation the typist skips after a line break at position in code mode:
+ * the spaces that open the line starting there, or nothing mid-line
+ */
+export function getAutoIndent(content: string, position: number): string {
+  if (position === 0 || content[position - 1] !== '\n') {
+    return '';
+  }
+  return /^ */.exec(content.slice(position))?.[0] ?? '';
+}
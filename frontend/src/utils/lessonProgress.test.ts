@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { type PassageResult, summarizeLesson, toPassageResult } from './lessonProgress';
+
+describe('lessonProgress', () => {
+  describe('toPassageResult', () => {
+    it('should keep the metrics reported per passage', () => {
+      expect(
+        toPassageResult('content_1_2', {
+          wpm: 42,
+          averageWPM: 40,
+          accuracy: 97.5,
+          totalCharacters: 400,
+          correctCharacters: 390,
+          errorCount: 10,
+          timeElapsed: 114,
+          keystrokesPerMinute: 210,
+        })
+      ).toEqual({
+        passageId: 'content_1_2',
+        wpm: 42,
+        accuracy: 97.5,
+        errorCount: 10,
+        timeElapsed: 114,
+        characters: 400,
+      });
+    });
+  });
+
+  describe('summarizeLesson', () => {
+    it('should compute WPM over total time and accuracy weighted by characters', () => {
+      const results: PassageResult[] = [
+        {
+          passageId: 'p1',
+          wpm: 40,
+          accuracy: 100,
+          errorCount: 0,
+          timeElapsed: 60,
+          characters: 200,
+        },
+        { passageId: 'p2', wpm: 20, accuracy: 90, errorCount: 5, timeElapsed: 60, characters: 100 },
+      ];
+
+      expect(summarizeLesson(results)).toEqual({
+        passagesCompleted: 2,
+        wpm: 30,
+        accuracy: 96.67,
+        errorCount: 5,
+        timeElapsed: 120,
+      });
+    });
+
+    it('should summarize a lesson with no completed passages', () => {
+      expect(summarizeLesson([])).toEqual({
+        passagesCompleted: 0,
+        wpm: 0,
+        accuracy: 100,
+        errorCount: 0,
+        timeElapsed: 0,
+      });
+    });
+  });
+});
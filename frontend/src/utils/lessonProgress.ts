@@ -0,0 +1,59 @@
+import type { SessionMetrics } from '../types';
+import { calculateWPM } from './metricsCalculator';
+
+/**
+ * Metrics of one completed passage of a lesson
+ */
+export interface PassageResult {
+  passageId: string;
+  wpm: number;
+  accuracy: number;
+  errorCount: number;
+  timeElapsed: number; // in seconds
+  characters: number;
+}
+
+/**
+ * Totals across the completed passages of a lesson
+ */
+export interface LessonSummary {
+  passagesCompleted: number;
+  wpm: number;
+  accuracy: number;
+  errorCount: number;
+  timeElapsed: number;
+}
+
+/**
+ * Result of a passage from the metrics of the session it was typed in
+ */
+export function toPassageResult(passageId: string, metrics: SessionMetrics): PassageResult {
+  return {
+    passageId,
+    wpm: metrics.wpm,
+    accuracy: metrics.accuracy,
+    errorCount: metrics.errorCount,
+    timeElapsed: metrics.timeElapsed,
+    characters: metrics.totalCharacters,
+  };
+}
+
+/**
+ * Summarize a lesson; WPM is over the total typing time and accuracy is weighted by characters
+ */
+export function summarizeLesson(results: PassageResult[]): LessonSummary {
+  const characters = results.reduce((sum, result) => sum + result.characters, 0);
+  const timeElapsed = results.reduce((sum, result) => sum + result.timeElapsed, 0);
+  const weightedAccuracy = results.reduce(
+    (sum, result) => sum + result.accuracy * result.characters,
+    0
+  );
+
+  return {
+    passagesCompleted: results.length,
+    wpm: calculateWPM(characters, timeElapsed),
+    accuracy: characters === 0 ? 100 : Math.round((weightedAccuracy / characters) * 100) / 100,
+    errorCount: results.reduce((sum, result) => sum + result.errorCount, 0),
+    timeElapsed,
+  };
+}
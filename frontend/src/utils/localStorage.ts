@@ -1,10 +1,12 @@
-import type { HistoricalSession, UserPreferences } from '../types';
+import type { HistoricalSession, SyncState, UserPreferences } from '../types';
 
 // Storage keys
 const STORAGE_KEYS = {
   PREFERENCES: 'typing_study_preferences',
   SESSION_HISTORY: 'typing_study_session_history',
   SCHEMA_VERSION: 'typing_study_schema_version',
+  AUTH_TOKEN: 'typing_study_auth_token',
+  SYNC_STATE: 'typing_study_sync_state',
 } as const;
 
 /**
@@ -138,3 +140,82 @@ export const SessionHistoryStorage = {
     }
   },
 };
+
+/**
+ * Storage utility for the signed-in user's API token
+ */
+export const AuthTokenStorage = {
+  save: (token: string): void => {
+    try {
+      localStorage.setItem(STORAGE_KEYS.AUTH_TOKEN, token);
+    } catch (error) {
+      console.error('Failed to save auth token:', error);
+    }
+  },
+
+  load: (): string | null => {
+    try {
+      return localStorage.getItem(STORAGE_KEYS.AUTH_TOKEN);
+    } catch (error) {
+      console.error('Failed to load auth token:', error);
+      return null;
+    }
+  },
+
+  clear: (): void => {
+    try {
+      localStorage.removeItem(STORAGE_KEYS.AUTH_TOKEN);
+    } catch (error) {
+      console.error('Failed to clear auth token:', error);
+    }
+  },
+};
+
+const emptySyncState: SyncState = {
+  lastPulledAt: null,
+  preferencesUpdatedAt: null,
+  pendingSessionIds: [],
+  preferencesPending: false,
+};
+
+/**
+ * Storage utility for sync bookkeeping, including the offline queue
+ */
+export const SyncStateStorage = {
+  save: (state: SyncState): void => {
+    try {
+      localStorage.setItem(STORAGE_KEYS.SYNC_STATE, JSON.stringify(state));
+    } catch (error) {
+      console.error('Failed to save sync state:', error);
+    }
+  },
+
+  load: (): SyncState => {
+    try {
+      const data = localStorage.getItem(STORAGE_KEYS.SYNC_STATE);
+      if (!data) return { ...emptySyncState };
+
+      const state = JSON.parse(data);
+
+      return {
+        ...emptySyncState,
+        ...state,
+        lastPulledAt: state.lastPulledAt ? new Date(state.lastPulledAt) : null,
+        preferencesUpdatedAt: state.preferencesUpdatedAt
+          ? new Date(state.preferencesUpdatedAt)
+          : null,
+      };
+    } catch (error) {
+      console.error('Failed to load sync state:', error);
+      return { ...emptySyncState };
+    }
+  },
+
+  clear: (): void => {
+    try {
+      localStorage.removeItem(STORAGE_KEYS.SYNC_STATE);
+    } catch (error) {
+      console.error('Failed to clear sync state:', error);
+    }
+  },
+};
@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import type { HistoricalSession, SyncedPreferences, UserPreferences } from '../types';
+import { mergeSessionHistory, resolvePreferences } from './syncMerge';
+
+const buildSession = (sessionId: string, date: string): HistoricalSession => ({
+  sessionId,
+  theme: 'History',
+  date: new Date(date),
+  wpm: 45,
+  accuracy: 95,
+  duration: 90,
+  errorCount: 2,
+  keyboardLayout: 'QWERTY',
+});
+
+const buildPreferences = (language: 'pt' | 'en', updatedAt: string): SyncedPreferences => ({
+  data: {
+    keyboardLayout: 'QWERTY',
+    recentThemes: [],
+    highlightErrors: true,
+    autoPause: true,
+    autoPauseDelay: 10,
+    language,
+  } as UserPreferences,
+  updatedAt: new Date(updatedAt),
+});
+
+describe('syncMerge', () => {
+  describe('mergeSessionHistory', () => {
+    it('should return the union of both sides, newest first', () => {
+      const local = [buildSession('b', '2024-01-02'), buildSession('a', '2024-01-01')];
+      const remote = [buildSession('c', '2024-01-03'), buildSession('a', '2024-01-01')];
+
+      const merged = mergeSessionHistory(local, remote);
+
+      expect(merged.map((s) => s.sessionId)).toEqual(['c', 'b', 'a']);
+    });
+
+    it('should keep the local copy but take the remote sync timestamp', () => {
+      const local = [{ ...buildSession('a', '2024-01-01'), wpm: 60 }];
+      const syncedAt = new Date('2024-01-05');
+      const remote = [{ ...buildSession('a', '2024-01-01'), updatedAt: syncedAt }];
+
+      const [merged] = mergeSessionHistory(local, remote);
+
+      expect(merged.wpm).toBe(60);
+      expect(merged.updatedAt).toEqual(syncedAt);
+    });
+  });
+
+  describe('resolvePreferences', () => {
+    it('should pick the most recently edited side', () => {
+      const older = buildPreferences('en', '2024-01-01');
+      const newer = buildPreferences('pt', '2024-01-02');
+
+      expect(resolvePreferences(older, newer)).toBe(newer);
+      expect(resolvePreferences(newer, older)).toBe(newer);
+    });
+
+    it('should prefer local on ties and handle missing sides', () => {
+      const local = buildPreferences('en', '2024-01-01');
+      const remote = buildPreferences('pt', '2024-01-01');
+
+      expect(resolvePreferences(local, remote)).toBe(local);
+      expect(resolvePreferences(null, remote)).toBe(remote);
+      expect(resolvePreferences(local, null)).toBe(local);
+      expect(resolvePreferences(null, null)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,43 @@
+import type { HistoricalSession, SyncedPreferences } from '../types';
+
+/**
+ * Union of local and remote session history, newest first
+ * Sessions never change once recorded, so a session present on both sides is kept once;
+ * the remote copy only contributes its sync timestamp
+ */
+export function mergeSessionHistory(
+  local: HistoricalSession[],
+  remote: HistoricalSession[]
+): HistoricalSession[] {
+  const merged = new Map<string, HistoricalSession>();
+
+  local.forEach((session) => {
+    merged.set(session.sessionId, session);
+  });
+
+  remote.forEach((session) => {
+    const existing = merged.get(session.sessionId);
+    merged.set(
+      session.sessionId,
+      existing ? { ...existing, updatedAt: session.updatedAt ?? existing.updatedAt } : session
+    );
+  });
+
+  return Array.from(merged.values()).sort(
+    (a, b) => new Date(b.date).getTime() - new Date(a.date).getTime()
+  );
+}
+
+/**
+ * Last-writer-wins resolution for preferences
+ * Local edits win ties so a device never overwrites its own unsent change
+ */
+export function resolvePreferences(
+  local: SyncedPreferences | null,
+  remote: SyncedPreferences | null
+): SyncedPreferences | null {
+  if (!remote) return local;
+  if (!local) return remote;
+
+  return remote.updatedAt.getTime() > local.updatedAt.getTime() ? remote : local;
+}
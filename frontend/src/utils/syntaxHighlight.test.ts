@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { getCharacterKinds, highlightCode } from './syntaxHighlight';
+
+describe('highlightCode', () => {
+  it('recognises keywords, strings, numbers and comments', () => {
+    const tokens = highlightCode("const name = 'Ada'; // first\nlet n = 42;", 'javascript');
+
+    expect(tokens.filter((token) => token.kind !== 'plain')).toEqual([
+      { kind: 'keyword', text: 'const' },
+      { kind: 'string', text: "'Ada'" },
+      { kind: 'comment', text: '// first' },
+      { kind: 'keyword', text: 'let' },
+      { kind: 'number', text: '42' },
+    ]);
+  });
+
+  it('returns tokens that join back into the code', () => {
+    const code = 'def greet(name):\n    """Say hi."""\n    return f"hi {name}"  # done';
+
+    expect(
+      highlightCode(code, 'python')
+        .map((token) => token.text)
+        .join('')
+    ).toBe(code);
+  });
+
+  it('keeps escaped quotes and block comments inside their tokens', () => {
+    const tokens = highlightCode('/* a\nb */ fmt.Println("say \\"hi\\"")', 'go');
+
+    expect(tokens[0]).toEqual({ kind: 'comment', text: '/* a\nb */' });
+    expect(tokens).toContainEqual({ kind: 'string', text: '"say \\"hi\\""' });
+  });
+
+  it('does not highlight keywords or digits inside identifiers', () => {
+    const kinds = highlightCode('let format2 = iffy;', 'rust').map((token) => token.kind);
+
+    expect(kinds).toEqual(['keyword', 'plain']);
+  });
+});
+
+describe('getCharacterKinds', () => {
+  it('gives every character the kind of its token', () => {
+    expect(getCharacterKinds('fn x', 'rust')).toEqual(['keyword', 'keyword', 'plain', 'plain']);
+  });
+});
@@ -0,0 +1,125 @@
+import { CODE_LANGUAGES } from '../config/codeLanguages';
+import type { CodeLanguage } from '../types';
+
+/**
+ * Lightweight syntax highlighting for code mode
+ * A single left-to-right scan recognises comments, strings, numbers and keywords,
+ * which is enough to color short snippets without a full parser
+ */
+
+export type SyntaxTokenKind = 'keyword' | 'string' | 'comment' | 'number' | 'plain';
+
+export interface SyntaxToken {
+  kind: SyntaxTokenKind;
+  text: string;
+}
+
+const IDENTIFIER = /[A-Za-z_$][\w$]*/y;
+const NUMBER = /\d[\w.]*/y;
+
+/**
+ * End of a string opened at start by delimiter; single-line strings also end at a newline
+ */
+function findStringEnd(code: string, start: number, delimiter: string): number {
+  const multiline = delimiter.length === 3 || delimiter === '`';
+  let index = start + delimiter.length;
+
+  while (index < code.length) {
+    if (code[index] === '\\') {
+      index += 2;
+    } else if (code.startsWith(delimiter, index)) {
+      return index + delimiter.length;
+    } else if (code[index] === '\n' && !multiline) {
+      return index;
+    } else {
+      index++;
+    }
+  }
+
+  return code.length;
+}
+
+/**
+ * Kind and end of the token that starts at index, or null for a plain character
+ */
+function readToken(
+  code: string,
+  index: number,
+  language: CodeLanguage,
+  keywords: Set<string>
+): { kind: SyntaxTokenKind; end: number } | null {
+  const { lineComment, blockComment, stringDelimiters } = CODE_LANGUAGES[language];
+
+  if (code.startsWith(lineComment, index)) {
+    const newline = code.indexOf('\n', index);
+    return { kind: 'comment', end: newline === -1 ? code.length : newline };
+  }
+
+  if (blockComment && code.startsWith(blockComment[0], index)) {
+    const close = code.indexOf(blockComment[1], index + blockComment[0].length);
+    return { kind: 'comment', end: close === -1 ? code.length : close + blockComment[1].length };
+  }
+
+  const delimiter = stringDelimiters.find((candidate) => code.startsWith(candidate, index));
+  if (delimiter) {
+    return { kind: 'string', end: findStringEnd(code, index, delimiter) };
+  }
+
+  // Numbers and identifiers only start at a word boundary
+  if (index > 0 && /[\w$]/.test(code[index - 1])) {
+    return null;
+  }
+
+  NUMBER.lastIndex = index;
+  const number = NUMBER.exec(code);
+  if (number) {
+    return { kind: 'number', end: index + number[0].length };
+  }
+
+  IDENTIFIER.lastIndex = index;
+  const identifier = IDENTIFIER.exec(code);
+  if (identifier) {
+    return {
+      kind: keywords.has(identifier[0]) ? 'keyword' : 'plain',
+      end: index + identifier[0].length,
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Split code into highlighted tokens; joined back together they give the code unchanged
+ */
+export function highlightCode(code: string, language: CodeLanguage): SyntaxToken[] {
+  const keywords = new Set(CODE_LANGUAGES[language].keywords);
+  const tokens: SyntaxToken[] = [];
+
+  const push = (kind: SyntaxTokenKind, text: string) => {
+    const last = tokens[tokens.length - 1];
+    if (last && last.kind === kind && kind === 'plain') {
+      last.text += text;
+    } else {
+      tokens.push({ kind, text });
+    }
+  };
+
+  let index = 0;
+  while (index < code.length) {
+    const token = readToken(code, index, language, keywords);
+    const end = token ? token.end : index + 1;
+    push(token ? token.kind : 'plain', code.slice(index, end));
+    index = end;
+  }
+
+  return tokens;
+}
+
+/**
+ * Token kind of every character of code, for per-character rendering
+ */
+export function getCharacterKinds(code: string, language: CodeLanguage): SyntaxTokenKind[] {
+  return highlightCode(code, language).flatMap(({ kind, text }) =>
+    Array.from({ length: text.length }, () => kind)
+  );
+}
@@ -1,11 +1,12 @@
 // Validation utilities for user input and session data
 
+import { isSupportedLanguage, SUPPORTED_LANGUAGES } from '../config/languages';
 import type { ContentRequest, SessionMetrics, UserSession } from '../types';
 
 /**
  * Validates theme input according to requirements (1.4)
  * - Maximum 100 characters
- * - Accepts Portuguese and English characters
+ * - Accepts letters from any script, so themes can be written in every content language
  * - No special characters that could cause issues
  */
 export function validateTheme(theme: string): { valid: boolean; error?: string } {
@@ -17,8 +18,8 @@ export function validateTheme(theme: string): { valid: boolean; error?: string }
     return { valid: false, error: 'Theme must be 100 characters or less' };
   }
 
-  // Allow alphanumeric, spaces, and common punctuation in PT/EN
-  const validPattern = /^[a-zA-ZÀ-ÿ0-9\s\-.,!?()]+$/;
+  // Allow letters and marks of any script, digits, spaces, and common punctuation
+  const validPattern = /^[\p{L}\p{M}\p{N}\s\-.,!?()]+$/u;
   if (!validPattern.test(theme)) {
     return { valid: false, error: 'Theme contains invalid characters' };
   }
@@ -52,12 +53,21 @@ export function validateContentRequest(request: ContentRequest): {
     return { valid: false, error: 'Content length must be between 100 and 500 words' };
   }
 
-  if (!['pt', 'en'].includes(request.language)) {
-    return { valid: false, error: 'Language must be "pt" or "en"' };
+  if (!isSupportedLanguage(request.language)) {
+    return { valid: false, error: `Language must be one of ${SUPPORTED_LANGUAGES.join(', ')}` };
   }
 
-  if (request.difficulty && !['easy', 'medium', 'hard'].includes(request.difficulty)) {
-    return { valid: false, error: 'Difficulty must be "easy", "medium", or "hard"' };
+  const { difficulty } = request;
+  const isScore = typeof difficulty === 'number' && difficulty >= 0 && difficulty <= 100;
+  if (
+    difficulty !== undefined &&
+    !isScore &&
+    !['easy', 'medium', 'hard'].includes(String(difficulty))
+  ) {
+    return {
+      valid: false,
+      error: 'Difficulty must be "easy", "medium", "hard", or a score from 0 to 100',
+    };
   }
 
   return { valid: true };
@@ -168,6 +178,6 @@ export function sanitizeUserPreferences(preferences: any): any {
     highlightErrors: Boolean(preferences.highlightErrors),
     autoPause: Boolean(preferences.autoPause),
     autoPauseDelay: Math.max(5, Math.min(60, Number(preferences.autoPauseDelay) || 10)),
-    language: ['pt', 'en'].includes(preferences.language) ? preferences.language : 'pt',
+    language: isSupportedLanguage(preferences.language) ? preferences.language : 'pt',
   };
 }